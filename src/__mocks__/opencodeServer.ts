@@ -0,0 +1,162 @@
+/**
+ * A stand-in for `opencode serve` in unit tests.
+ *
+ * Implements the part of the OpenCode server API the bridge uses —
+ * creating sessions, prompting, aborting and the `/event` stream — and
+ * answers every prompt with a scripted reply ({@link StubOpenCodeServer.reply}).
+ */
+
+import * as http from "http";
+import type { ServerEvent } from "../chat/opencodeServer";
+
+export interface StubPrompt {
+  sessionId: string;
+  body: {
+    parts: { type: string; text: string }[];
+    agent?: string;
+    model?: { providerID: string; modelID: string };
+  };
+}
+
+/**
+ * Events that answer a prompt with some text, a finished `bash` tool call
+ * and an idle session, echoing the user message as the server does.
+ */
+export function defaultReply(sessionId: string, text: string): ServerEvent[] {
+  const user = { id: "msg_user", sessionID: sessionId, role: "user" };
+  const assistant = { id: "msg_reply", sessionID: sessionId, role: "assistant", mode: "build" };
+  const part = { id: "prt_text", sessionID: sessionId, messageID: "msg_reply", type: "text" };
+  const tool = {
+    id: "prt_tool",
+    sessionID: sessionId,
+    messageID: "msg_reply",
+    type: "tool",
+    callID: "call_1",
+    tool: "bash",
+  };
+  return [
+    { type: "message.updated", properties: { info: user } },
+    {
+      type: "message.part.updated",
+      properties: { part: { id: "prt_user", sessionID: sessionId, messageID: "msg_user", type: "text", text } },
+    },
+    { type: "message.updated", properties: { info: assistant } },
+    { type: "message.part.updated", properties: { part: { ...part, text: "Hello" }, delta: "Hello" } },
+    { type: "message.part.updated", properties: { part: { ...part, text: "Hello there" }, delta: " there" } },
+    {
+      type: "message.part.updated",
+      properties: { part: { ...tool, state: { status: "running", input: { command: "ls" } } } },
+    },
+    {
+      type: "message.part.updated",
+      properties: {
+        part: { ...tool, state: { status: "completed", input: { command: "ls" }, output: "README.md" } },
+      },
+    },
+    { type: "session.idle", properties: { sessionID: sessionId } },
+  ];
+}
+
+export class StubOpenCodeServer {
+  readonly prompts: StubPrompt[] = [];
+  readonly aborted: string[] = [];
+  readonly sessions: string[] = [];
+  /** The events a prompt is answered with; replace to script other replies. */
+  reply: (sessionId: string, text: string) => ServerEvent[] = defaultReply;
+  /** Keep prompts running until aborted instead of replying. */
+  hang = false;
+
+  private readonly server: http.Server;
+  private readonly streams = new Set<http.ServerResponse>();
+  private readonly pending = new Map<string, () => void>();
+
+  constructor() {
+    this.server = http.createServer((req, res) => this.handle(req, res));
+  }
+
+  async start(): Promise<void> {
+    await new Promise<void>((resolve) => this.server.listen(0, "127.0.0.1", resolve));
+  }
+
+  get url(): string {
+    const { port } = this.server.address() as { port: number };
+    return `http://127.0.0.1:${port}`;
+  }
+
+  /** The line `opencode serve` prints once it listens. */
+  get listeningLine(): string {
+    return `opencode server listening on ${this.url}`;
+  }
+
+  emit(event: ServerEvent): void {
+    for (const res of this.streams) {
+      res.write(`data: ${JSON.stringify(event)}\n\n`);
+    }
+  }
+
+  /** Resolves once a client subscribed to the event stream. */
+  async subscribed(): Promise<void> {
+    for (let i = 0; i < 100 && this.streams.size === 0; i++) {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+  }
+
+  async close(): Promise<void> {
+    for (const res of this.streams) {
+      res.end();
+    }
+    this.server.closeAllConnections();
+    await new Promise((resolve) => this.server.close(resolve));
+  }
+
+  private handle(req: http.IncomingMessage, res: http.ServerResponse): void {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      const url = req.url ?? "";
+      const message = /^\/session\/([^/]+)\/(message|abort)$/.exec(url);
+
+      if (req.method === "GET" && url === "/event") {
+        res.writeHead(200, { "Content-Type": "text/event-stream" });
+        res.write(`data: ${JSON.stringify({ type: "server.connected", properties: {} })}\n\n`);
+        this.streams.add(res);
+        res.on("close", () => this.streams.delete(res));
+      } else if (req.method === "POST" && url === "/session") {
+        const id = `ses_${this.sessions.length + 1}`;
+        this.sessions.push(id);
+        this.json(res, { id });
+      } else if (message && !this.sessions.includes(decodeURIComponent(message[1]))) {
+        res.writeHead(404).end();
+      } else if (req.method === "POST" && message?.[2] === "message") {
+        const sessionId = message[1];
+        const prompt: StubPrompt = { sessionId, body: JSON.parse(body) };
+        this.prompts.push(prompt);
+        if (this.hang) {
+          this.pending.set(sessionId, () => this.json(res, {}));
+          return;
+        }
+        for (const event of this.reply(sessionId, prompt.body.parts[0]?.text ?? "")) {
+          this.emit(event);
+        }
+        this.json(res, {});
+      } else if (req.method === "POST" && message?.[2] === "abort") {
+        const sessionId = message[1];
+        this.aborted.push(sessionId);
+        this.emit({
+          type: "session.error",
+          properties: { sessionID: sessionId, error: { name: "MessageAbortedError", data: {} } },
+        });
+        this.emit({ type: "session.idle", properties: { sessionID: sessionId } });
+        this.pending.get(sessionId)?.();
+        this.pending.delete(sessionId);
+        this.json(res, true);
+      } else {
+        res.writeHead(404).end();
+      }
+    });
+  }
+
+  private json(res: http.ServerResponse, value: unknown): void {
+    res.writeHead(200, { "Content-Type": "application/json" }).end(JSON.stringify(value));
+  }
+}
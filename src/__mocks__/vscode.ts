@@ -95,6 +95,7 @@ export class TreeItem {
   description?: string;
   tooltip?: string;
   command?: unknown;
+  resourceUri?: Uri;
 
   constructor(label: string, collapsibleState?: TreeItemCollapsibleState) {
     this.label = label;
@@ -124,13 +125,29 @@ export enum ProgressLocation {
 // ---------------------------------------------------------------------------
 
 let _mockConfigValues: Record<string, unknown> = {};
+let _mockWorkspaceConfigValues: Record<string, unknown> = {};
+let _mockIsTrusted = true;
 let _mockWorkspaceFolders: Array<{ uri: Uri }> | undefined;
+let _mockActiveTextEditor: { document: { uri: Uri } } | undefined;
 
 /** Helper for tests to set config values returned by `workspace.getConfiguration`. */
 export function __setMockConfig(values: Record<string, unknown>): void {
   _mockConfigValues = values;
 }
 
+/**
+ * Helper for tests to set config values from the workspace's settings;
+ * they override those of {@link __setMockConfig}, the user's settings.
+ */
+export function __setMockWorkspaceConfig(values: Record<string, unknown>): void {
+  _mockWorkspaceConfigValues = values;
+}
+
+/** Helper for tests to set `workspace.isTrusted`. */
+export function __setWorkspaceTrusted(trusted: boolean): void {
+  _mockIsTrusted = trusted;
+}
+
 /** Helper for tests to set `workspace.workspaceFolders`. */
 export function __setWorkspaceFolders(
   folders: Array<{ uri: Uri }> | undefined
@@ -138,10 +155,18 @@ export function __setWorkspaceFolders(
   _mockWorkspaceFolders = folders;
 }
 
+/** Helper for tests to set `window.activeTextEditor` to a document at `path`. */
+export function __setActiveEditor(path: string | undefined): void {
+  _mockActiveTextEditor = path ? { document: { uri: Uri.file(path) } } : undefined;
+}
+
 function makeConfigProxy(section: string) {
   return {
     get<T>(key: string, defaultValue?: T): T {
       const fullKey = section ? `${section}.${key}` : key;
+      if (fullKey in _mockWorkspaceConfigValues) {
+        return _mockWorkspaceConfigValues[fullKey] as T;
+      }
       if (fullKey in _mockConfigValues) {
         return _mockConfigValues[fullKey] as T;
       }
@@ -149,9 +174,16 @@ function makeConfigProxy(section: string) {
     },
     has(key: string): boolean {
       const fullKey = section ? `${section}.${key}` : key;
-      return fullKey in _mockConfigValues;
+      return fullKey in _mockWorkspaceConfigValues || fullKey in _mockConfigValues;
     },
-    inspect: vi.fn(),
+    inspect: vi.fn(<T>(key: string) => {
+      const fullKey = section ? `${section}.${key}` : key;
+      return {
+        key: fullKey,
+        globalValue: _mockConfigValues[fullKey] as T | undefined,
+        workspaceValue: _mockWorkspaceConfigValues[fullKey] as T | undefined,
+      };
+    }),
     update: vi.fn(),
   };
 }
@@ -166,10 +198,18 @@ function createMockFileSystemWatcher() {
 }
 
 export const workspace = {
-  getConfiguration: vi.fn((section?: string) => makeConfigProxy(section ?? "")),
+  getConfiguration: vi.fn((section?: string, _scope?: unknown) =>
+    makeConfigProxy(section ?? "")
+  ),
   get workspaceFolders() {
     return _mockWorkspaceFolders;
   },
+  get isTrusted() {
+    return _mockIsTrusted;
+  },
+  onDidChangeWorkspaceFolders: vi.fn((_cb: unknown) => ({
+    dispose: vi.fn(),
+  })),
   onDidChangeConfiguration: vi.fn((_cb: unknown) => ({
     dispose: vi.fn(),
   })),
@@ -194,6 +234,16 @@ function createMockStatusBarItem() {
   };
 }
 
+function createMockOutputChannel() {
+  return {
+    append: vi.fn(),
+    appendLine: vi.fn(),
+    clear: vi.fn(),
+    show: vi.fn(),
+    dispose: vi.fn(),
+  };
+}
+
 function createMockTerminal() {
   return {
     name: "",
@@ -204,6 +254,10 @@ function createMockTerminal() {
 }
 
 export const window = {
+  get activeTextEditor() {
+    return _mockActiveTextEditor;
+  },
+  onDidChangeActiveTextEditor: vi.fn((_cb: unknown) => ({ dispose: vi.fn() })),
   createStatusBarItem: vi.fn((_alignment?: StatusBarAlignment, _priority?: number) =>
     createMockStatusBarItem()
   ),
@@ -212,8 +266,10 @@ export const window = {
   showWarningMessage: vi.fn(),
   showInformationMessage: vi.fn(),
   showQuickPick: vi.fn(),
+  showInputBox: vi.fn(),
   onDidCloseTerminal: vi.fn((_cb: unknown) => ({ dispose: vi.fn() })),
   withProgress: vi.fn(),
+  createOutputChannel: vi.fn((_name: string) => createMockOutputChannel()),
   createTreeView: vi.fn((_id: string, _options: unknown) => ({
     dispose: vi.fn(),
   })),
@@ -230,6 +286,16 @@ export const commands = {
   executeCommand: vi.fn(),
 };
 
+// ---------------------------------------------------------------------------
+// env
+// ---------------------------------------------------------------------------
+
+export const env = {
+  clipboard: {
+    writeText: vi.fn(),
+  },
+};
+
 // ---------------------------------------------------------------------------
 // chat
 // ---------------------------------------------------------------------------
@@ -273,30 +339,38 @@ export class CancellationTokenSource {
 
 export function __resetMocks(): void {
   _mockConfigValues = {};
+  _mockWorkspaceConfigValues = {};
+  _mockIsTrusted = true;
   _mockWorkspaceFolders = undefined;
+  _mockActiveTextEditor = undefined;
 
   // Reset all vi.fn() mocks
   workspace.getConfiguration.mockClear();
   workspace.onDidChangeConfiguration.mockClear();
+  workspace.onDidChangeWorkspaceFolders.mockClear();
   workspace.createFileSystemWatcher.mockClear();
   workspace.createFileSystemWatcher.mockImplementation(
     (_pattern: string) => createMockFileSystemWatcher()
   );
+  window.onDidChangeActiveTextEditor.mockClear();
   window.createStatusBarItem.mockClear();
   window.createTerminal.mockClear();
   window.showErrorMessage.mockClear();
   window.showWarningMessage.mockClear();
   window.showInformationMessage.mockClear();
   window.showQuickPick.mockClear();
+  window.showInputBox.mockClear();
   window.onDidCloseTerminal.mockClear();
   window.withProgress.mockClear();
+  window.createOutputChannel.mockClear();
   window.createTreeView.mockClear();
   commands.registerCommand.mockClear();
   commands.executeCommand.mockClear();
+  env.clipboard.writeText.mockClear();
   chat.createChatParticipant.mockClear();
 
   // Re-wire workspace.getConfiguration to use the fresh proxy
   workspace.getConfiguration.mockImplementation(
-    (section?: string) => makeConfigProxy(section ?? "")
+    (section?: string, _scope?: unknown) => makeConfigProxy(section ?? "")
   );
 }
@@ -1,5 +1,5 @@
 import { describe, it, expect, beforeEach, vi } from "vitest";
-import { __resetMocks, __setMockConfig } from "../__mocks__/vscode";
+import { __resetMocks, __setMockConfig, window } from "../__mocks__/vscode";
 
 // Mock the config module to control getWorkspaceFolder.
 vi.mock("../config", () => ({
@@ -34,7 +34,7 @@ vi.mock("./opencodeConfigReader", () => ({
   ),
 }));
 
-import { AgentRegistry } from "./agentRegistry";
+import { AgentRegistry, switchAgent } from "./agentRegistry";
 import { getWorkspaceFolder } from "../config";
 import { loadAgentsFromOpenCodeConfig } from "./opencodeConfigReader";
 
@@ -250,6 +250,139 @@ describe("setDefaultAgent", () => {
   });
 });
 
+// ---------------------------------------------------------------------------
+// Agent picked in VS Code
+// ---------------------------------------------------------------------------
+
+describe("persisted agent selection", () => {
+  const KEY = "opencode-devcontainer.selectedAgent:/fake/workspace";
+
+  function createMemento(initial: Record<string, unknown> = {}) {
+    const values = { ...initial };
+    return {
+      get: vi.fn((key: string) => values[key]),
+      update: vi.fn(async (key: string, value: unknown) => {
+        values[key] = value;
+      }),
+    };
+  }
+
+  it("remembers the agent per folder", () => {
+    const memento = createMemento();
+    registry = new AgentRegistry("/fake/workspace", memento as any);
+
+    registry.setDefaultAgent("plan");
+
+    expect(memento.update).toHaveBeenCalledWith(KEY, "plan");
+    expect(registry.isDefaultAgentSelected).toBe(true);
+  });
+
+  it("restores the remembered agent", () => {
+    registry = new AgentRegistry("/fake/workspace", createMemento({ [KEY]: "plan" }) as any);
+
+    expect(registry.defaultAgentId).toBe("plan");
+  });
+
+  it("keeps the remembered agent across config reloads", () => {
+    registry = new AgentRegistry("/fake/workspace", createMemento() as any);
+    registry.setDefaultAgent("plan");
+
+    registry.loadFromConfig();
+
+    expect(registry.defaultAgentId).toBe("plan");
+  });
+
+  it("uses the configured default while the remembered agent is missing", () => {
+    const memento = createMemento({ [KEY]: "review" });
+    registry = new AgentRegistry("/fake/workspace", memento as any);
+    expect(registry.defaultAgentId).toBe("build");
+    expect(registry.isDefaultAgentSelected).toBe(false);
+
+    mockLoadAgents.mockReturnValue({
+      agents: [
+        ...mockLoadAgents.mock.results[0].value.agents,
+        { id: "review", name: "Review", provider: "openai", model: "gpt-5", mode: "primary" },
+      ],
+      defaultAgentId: "build",
+    });
+    registry.loadFromConfig();
+
+    expect(registry.defaultAgentId).toBe("review");
+  });
+
+  it("returns to the configured default when reset", () => {
+    const memento = createMemento({ [KEY]: "plan" });
+    registry = new AgentRegistry("/fake/workspace", memento as any);
+
+    registry.resetDefaultAgent();
+
+    expect(registry.defaultAgentId).toBe("build");
+    expect(memento.update).toHaveBeenCalledWith(KEY, undefined);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// switchAgent
+// ---------------------------------------------------------------------------
+
+describe("switchAgent", () => {
+  it("switches to the given agent without asking", async () => {
+    await switchAgent(registry, "plan");
+
+    expect(registry.defaultAgentId).toBe("plan");
+    expect(window.showQuickPick).not.toHaveBeenCalled();
+  });
+
+  it("drops an agent that is no longer configured with a warning", async () => {
+    await expect(switchAgent(registry, "review")).resolves.toBeUndefined();
+
+    expect(registry.defaultAgentId).toBe("build");
+    expect(window.showWarningMessage).toHaveBeenCalledWith(
+      expect.stringContaining('Agent "review" is no longer configured')
+    );
+  });
+
+  it("offers the primary agents and switches to the picked one", async () => {
+    mockLoadAgents.mockReturnValue({
+      agents: [
+        ...mockLoadAgents.mock.results[0].value.agents,
+        { id: "explore", name: "Explore", provider: "openai", model: "gpt-5", mode: "subagent" },
+      ],
+      defaultAgentId: "build",
+    });
+    registry.loadFromConfig();
+    window.showQuickPick.mockImplementation(async (items: any[]) => items[1]);
+
+    await switchAgent(registry);
+
+    const items = window.showQuickPick.mock.calls[0][0] as any[];
+    expect(items.map((item) => item.label)).toEqual(["$(check) Build", "Plan"]);
+    expect(registry.defaultAgentId).toBe("plan");
+  });
+
+  it("offers to return to the configured default", async () => {
+    registry = new AgentRegistry("/fake/workspace", {
+      get: vi.fn(() => "plan"),
+      update: vi.fn(),
+    } as any);
+    window.showQuickPick.mockImplementation(async (items: any[]) => items.at(-1));
+
+    await switchAgent(registry);
+
+    expect(window.showQuickPick.mock.calls[0][0].at(-1).label).toBe(
+      "$(discard) Use the Configured Default"
+    );
+  });
+
+  it("keeps the agent when the pick is cancelled", async () => {
+    window.showQuickPick.mockResolvedValue(undefined);
+
+    await switchAgent(registry);
+
+    expect(registry.defaultAgentId).toBe("build");
+  });
+});
+
 // ---------------------------------------------------------------------------
 // loadFromConfig fires event
 // ---------------------------------------------------------------------------
@@ -3,6 +3,9 @@ import { AgentConfig } from "./types";
 import { getWorkspaceFolder } from "../config";
 import { loadAgentsFromOpenCodeConfig } from "./opencodeConfigReader";
 
+/** workspaceState key holding the agent picked in VS Code, per folder. */
+const SELECTED_AGENT_KEY = "opencode-devcontainer.selectedAgent";
+
 /**
  * Manages the set of configured OpenCode agents.
  *
@@ -16,10 +19,15 @@ import { loadAgentsFromOpenCodeConfig } from "./opencodeConfigReader";
  * workspace.
  *
  * Falls back to built-in defaults (build + plan) when no config is found.
+ *
+ * The default agent is `default_agent` from the config unless one was
+ * picked with {@link setDefaultAgent}; that choice is kept in workspaceState
+ * and applies again after reloads while the agent is configured.
  */
 export class AgentRegistry implements vscode.Disposable {
   private agents = new Map<string, AgentConfig>();
   private _defaultAgentId = "build";
+  private configDefaultAgentId = "build";
 
   private readonly _onAgentsChanged = new vscode.EventEmitter<void>();
   public readonly onAgentsChanged = this._onAgentsChanged.event;
@@ -27,7 +35,15 @@ export class AgentRegistry implements vscode.Disposable {
   private fileWatcher: vscode.FileSystemWatcher | undefined;
   private configListener: vscode.Disposable;
 
-  constructor() {
+  /**
+   * @param workspaceRoot Folder whose `opencode.json` and `.opencode/agents/`
+   *   are read. Defaults to the first workspace folder.
+   * @param workspaceState Remembers the agent picked in VS Code.
+   */
+  constructor(
+    private readonly workspaceRoot?: string,
+    private readonly workspaceState?: vscode.Memento
+  ) {
     this.loadFromConfig();
 
     // Watch for changes to opencode config files in the workspace.
@@ -48,9 +64,12 @@ export class AgentRegistry implements vscode.Disposable {
 
   /** Reload agents from the OpenCode configuration files. */
   loadFromConfig(): void {
-    const workspaceRoot = getWorkspaceFolder();
+    const workspaceRoot = this.workspaceRoot ?? getWorkspaceFolder();
     const opencodeConfigPath = vscode.workspace
-      .getConfiguration("opencode-devcontainer")
+      .getConfiguration(
+        "opencode-devcontainer",
+        workspaceRoot ? vscode.Uri.file(workspaceRoot) : undefined
+      )
       .get<string>("opencodeConfigPath", "");
 
     const { agents, defaultAgentId } = loadAgentsFromOpenCodeConfig(
@@ -63,6 +82,7 @@ export class AgentRegistry implements vscode.Disposable {
       this.agents.set(agent.id, agent);
     }
 
+    this.configDefaultAgentId = defaultAgentId;
     this._defaultAgentId = defaultAgentId;
 
     // Ensure the configured default exists; fall back to the first entry.
@@ -70,6 +90,11 @@ export class AgentRegistry implements vscode.Disposable {
       this._defaultAgentId = this.agents.keys().next().value!;
     }
 
+    const selected = this.selectedAgentId;
+    if (selected && this.agents.has(selected)) {
+      this._defaultAgentId = selected;
+    }
+
     this._onAgentsChanged.fire();
   }
 
@@ -94,21 +119,96 @@ export class AgentRegistry implements vscode.Disposable {
     return Array.from(this.agents.values());
   }
 
+  /** Make `id` the default agent and remember it for the workspace. */
   setDefaultAgent(id: string): void {
     if (!this.agents.has(id)) {
       throw new Error(`Agent "${id}" is not configured.`);
     }
     this._defaultAgentId = id;
+    void this.workspaceState?.update(this.selectedAgentKey, id);
     this._onAgentsChanged.fire();
   }
 
+  /** Forget the agent picked in VS Code and use the config's default again. */
+  resetDefaultAgent(): void {
+    void this.workspaceState?.update(this.selectedAgentKey, undefined);
+    this.loadFromConfig();
+  }
+
   get defaultAgentId(): string {
     return this._defaultAgentId;
   }
 
+  /**
+   * Whether the default agent was picked in VS Code rather than configured.
+   * A remembered agent that is no longer configured does not count.
+   */
+  get isDefaultAgentSelected(): boolean {
+    return (
+      this.selectedAgentId === this._defaultAgentId &&
+      this._defaultAgentId !== this.configDefaultAgentId &&
+      this.agents.has(this._defaultAgentId)
+    );
+  }
+
+  private get selectedAgentId(): string | undefined {
+    return this.workspaceState?.get<string>(this.selectedAgentKey);
+  }
+
+  /** Per-folder key, so each root of a multi-root workspace has its own choice. */
+  private get selectedAgentKey(): string {
+    return `${SELECTED_AGENT_KEY}:${this.workspaceRoot ?? getWorkspaceFolder() ?? ""}`;
+  }
+
   dispose(): void {
     this.fileWatcher?.dispose();
     this.configListener.dispose();
     this._onAgentsChanged.dispose();
   }
 }
+
+/**
+ * Switch the default agent of a folder: to `agentId` (from a chat
+ * button), or to the primary agent picked in a QuickPick. A chat button
+ * can outlive its agent, which is then dropped with a warning.
+ */
+export async function switchAgent(registry: AgentRegistry, agentId?: string): Promise<void> {
+  if (agentId) {
+    if (!registry.getAgent(agentId)) {
+      vscode.window.showWarningMessage(
+        `Agent "${agentId}" is no longer configured; chat prompts still go to "${registry.defaultAgentId}".`
+      );
+      return;
+    }
+    registry.setDefaultAgent(agentId);
+    return;
+  }
+
+  const items: (vscode.QuickPickItem & { agentId?: string })[] = registry
+    .listAgents()
+    .filter((agent) => agent.mode !== "subagent")
+    .map((agent) => ({
+      label: agent.id === registry.defaultAgentId ? `$(check) ${agent.name}` : agent.name,
+      description: `${agent.provider}/${agent.model}`,
+      detail: agent.description,
+      agentId: agent.id,
+    }));
+  if (registry.isDefaultAgentSelected) {
+    items.push({
+      label: "$(discard) Use the Configured Default",
+      description: "default_agent from opencode.json",
+    });
+  }
+
+  const picked = await vscode.window.showQuickPick(items, {
+    placeHolder: "Select the agent chat prompts go to",
+  });
+  if (!picked) {
+    return;
+  }
+  if (picked.agentId) {
+    registry.setDefaultAgent(picked.agentId);
+  } else {
+    registry.resetDefaultAgent();
+  }
+}
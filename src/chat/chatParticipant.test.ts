@@ -0,0 +1,184 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import * as vscode from "vscode";
+import { __resetMocks, CancellationTokenSource, EventEmitter } from "../__mocks__/vscode";
+import { registerChatParticipant } from "./chatParticipant";
+import { SubagentTracker } from "./subagentTracker";
+import { OpenCodeEvent } from "./types";
+import { FolderRegistry } from "../folderRegistry";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const BUILD_AGENT = { id: "build", name: "Build", provider: "anthropic", model: "claude" };
+
+/** A bridge that queues every prompt until {@link startRequest} is called. */
+function createMockBridge() {
+  const events = new EventEmitter<OpenCodeEvent>();
+  const started = new EventEmitter<string>();
+  return {
+    onEvent: events.event,
+    onStateChanged: new EventEmitter<string>().event,
+    onRequestStarted: started.event,
+    isRunning: vi.fn(() => true),
+    start: vi.fn(),
+    sendPrompt: vi.fn((_text: string, options: { requestId: string }) => {
+      events.fire({
+        type: "status",
+        message: "Waiting for another request to finish...",
+        agent: "system",
+        requestId: options.requestId,
+      });
+      return options.requestId;
+    }),
+    cancelRequest: vi.fn(),
+    startRequest: (requestId: string) => started.fire(requestId),
+    fire: (event: OpenCodeEvent) => events.fire(event),
+  };
+}
+
+function createMockStream() {
+  return { markdown: vi.fn(), progress: vi.fn(), anchor: vi.fn() };
+}
+
+type Handler = (
+  request: unknown,
+  context: unknown,
+  stream: unknown,
+  token: unknown
+) => Promise<vscode.ChatResult>;
+
+let bridge: ReturnType<typeof createMockBridge>;
+let agentRegistry: {
+  getAgent: ReturnType<typeof vi.fn>;
+  getDefaultAgent: () => typeof BUILD_AGENT;
+  listAgents: () => (typeof BUILD_AGENT)[];
+  defaultAgentId: string;
+  isDefaultAgentSelected: boolean;
+};
+let handler: Handler;
+
+beforeEach(() => {
+  __resetMocks();
+  vi.useFakeTimers();
+  bridge = createMockBridge();
+  agentRegistry = {
+    getAgent: vi.fn(),
+    getDefaultAgent: () => BUILD_AGENT,
+    listAgents: () => [BUILD_AGENT],
+    defaultAgentId: "build",
+    isDefaultAgentSelected: false,
+  };
+  const folder = {
+    folder: "/home/user/project",
+    name: "project",
+    devcontainerManager: { state: "running" },
+    bridge,
+    agentRegistry,
+  };
+  const folders = { resolve: () => folder, isMultiRoot: false } as unknown as FolderRegistry;
+  registerChatParticipant(
+    { subscriptions: [] } as unknown as vscode.ExtensionContext,
+    folders,
+    new SubagentTracker()
+  );
+  handler = (vscode.chat.createChatParticipant as ReturnType<typeof vi.fn>).mock.calls[0][1];
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+function ask(prompt: string, token = new CancellationTokenSource().token) {
+  return handler({ prompt, references: [] }, { history: [] }, createMockStream(), token);
+}
+
+/** Run a slash command and return the markdown it wrote. */
+async function runCommand(command: string): Promise<string> {
+  const stream = createMockStream();
+  await handler(
+    { command, prompt: "", references: [] },
+    { history: [] },
+    stream,
+    new CancellationTokenSource().token
+  );
+  return stream.markdown.mock.calls.map(([text]) => text).join("");
+}
+
+function requestIdOf(call = 0): string {
+  return bridge.sendPrompt.mock.calls[call][1].requestId;
+}
+
+// ---------------------------------------------------------------------------
+// Response timeout
+// ---------------------------------------------------------------------------
+
+describe("response timeout", () => {
+  it("does not count the time a request waits in the queue", async () => {
+    const result = ask("Fix the tests");
+    await vi.advanceTimersByTimeAsync(0);
+    const requestId = requestIdOf();
+
+    await vi.advanceTimersByTimeAsync(45_000);
+    bridge.startRequest(requestId);
+    await vi.advanceTimersByTimeAsync(20_000);
+    bridge.fire({ type: "done", agent: "build", requestId });
+
+    expect((await result).metadata).toMatchObject({ completed: true });
+    expect(bridge.cancelRequest).not.toHaveBeenCalled();
+  });
+
+  it("times out and cancels a started request that sends nothing", async () => {
+    const result = ask("Fix the tests");
+    await vi.advanceTimersByTimeAsync(0);
+    const requestId = requestIdOf();
+
+    bridge.startRequest(requestId);
+    await vi.advanceTimersByTimeAsync(30_000);
+
+    expect((await result).metadata).toMatchObject({ error: "connection_timeout" });
+    expect(bridge.cancelRequest).toHaveBeenCalledWith(requestId);
+  });
+
+  it("cancels a queued request when the chat request is cancelled", async () => {
+    const source = new CancellationTokenSource();
+    const result = ask("Fix the tests", source.token);
+    await vi.advanceTimersByTimeAsync(0);
+
+    source.cancel();
+
+    expect((await result).metadata).toMatchObject({ cancelled: true });
+    expect(bridge.cancelRequest).toHaveBeenCalledWith(requestIdOf());
+  });
+});
+
+// ---------------------------------------------------------------------------
+// /config
+// ---------------------------------------------------------------------------
+
+describe("/config", () => {
+  it("shows the default agent from opencode.json", async () => {
+    expect(await runCommand("config")).toContain(
+      "| Default Agent | `build` _(from opencode.json)_ |"
+    );
+  });
+
+  it("shows a default agent picked in VS Code as such", async () => {
+    agentRegistry.listAgents = () => [BUILD_AGENT, { ...BUILD_AGENT, id: "plan", name: "Plan" }];
+    agentRegistry.defaultAgentId = "plan";
+    agentRegistry.isDefaultAgentSelected = true;
+
+    expect(await runCommand("config")).toContain(
+      "| Default Agent | `plan` _(picked in VS Code)_ |"
+    );
+  });
+
+  it("does not call an agent that is no longer configured picked", async () => {
+    agentRegistry.defaultAgentId = "plan";
+    agentRegistry.isDefaultAgentSelected = true;
+
+    expect(await runCommand("config")).toContain(
+      "| Default Agent | `plan` _(from opencode.json)_ |"
+    );
+  });
+});
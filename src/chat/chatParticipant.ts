@@ -1,10 +1,15 @@
 import * as vscode from "vscode";
-import { DevcontainerManager } from "../devcontainerManager";
-import { OpenCodeBridge } from "./opencodeBridge";
+import * as fs from "fs";
+import * as path from "path";
+import { DevcontainerManager, RebuildMode } from "../devcontainerManager";
+import { FolderContext, FolderRegistry } from "../folderRegistry";
+import { OpenCodeBridge, newRequestId } from "./opencodeBridge";
 import { AgentRegistry } from "./agentRegistry";
 import { SubagentTracker } from "./subagentTracker";
 import { ResponseRenderer } from "./responseRenderer";
 import { OpenCodeEvent } from "./types";
+import { parseModelString } from "./opencodeConfigReader";
+import { getContainerRuntime } from "../containerRuntime";
 
 const PARTICIPANT_ID = "opencode-devcontainer.opencode";
 
@@ -13,16 +18,22 @@ const PARTICIPANT_ID = "opencode-devcontainer.opencode";
  *
  * Slash commands:
  *  - /ask     — Send a prompt to the active agent
+ *  - /new     — Start a new OpenCode session
  *  - /exec    — Execute a command directly in the devcontainer
+ *  - /rebuild — Rebuild (or recreate) the devcontainer
  *  - /status  — Show devcontainer + agent status
  *  - /agents  — List / switch agents
  *  - /config  — Show current configuration
+ *
+ * In a multi-root workspace each request targets the folder of its first
+ * file reference, falling back to the folder of the active editor.
+ *
+ * Prompts in a chat thread continue the OpenCode session of the thread's
+ * previous answer (recorded in its result metadata) until `/new`.
  */
 export function registerChatParticipant(
   context: vscode.ExtensionContext,
-  devcontainerManager: DevcontainerManager,
-  bridge: OpenCodeBridge,
-  agentRegistry: AgentRegistry,
+  folders: FolderRegistry,
   subagentTracker: SubagentTracker
 ): vscode.ChatParticipant {
   const renderer = new ResponseRenderer();
@@ -31,27 +42,35 @@ export function registerChatParticipant(
     PARTICIPANT_ID,
     async (
       request: vscode.ChatRequest,
-      _context: vscode.ChatContext,
+      chatContext: vscode.ChatContext,
       stream: vscode.ChatResponseStream,
       token: vscode.CancellationToken
     ): Promise<vscode.ChatResult> => {
       const command = request.command;
+      const folder = folders.resolve(referenceUris(request)[0]);
+      if (!folder) {
+        stream.markdown(
+          "No devcontainer.json found in the workspace. Create one in `.devcontainer/` first."
+        );
+        return { metadata: { error: "no_devcontainer" } };
+      }
+      const { devcontainerManager, bridge, agentRegistry } = folder;
 
       try {
         switch (command) {
           case "status":
             return handleStatus(
               stream,
-              devcontainerManager,
-              agentRegistry,
+              folder,
+              folders.isMultiRoot,
               subagentTracker
             );
 
           case "agents":
-            return handleAgents(stream, agentRegistry);
+            return handleAgents(stream, agentRegistry, folder.folder);
 
           case "config":
-            return handleConfig(stream, agentRegistry);
+            return handleConfig(stream, folder);
 
           case "exec":
             return await handleExec(
@@ -60,16 +79,38 @@ export function registerChatParticipant(
               devcontainerManager
             );
 
+          case "rebuild":
+            return await handleRebuild(request, stream, devcontainerManager, token);
+
+          case "new":
+            if (!request.prompt.trim()) {
+              stream.markdown("Started a new conversation. The next prompt starts a new OpenCode session.");
+              return { metadata: { newSession: true } };
+            }
+            return await handleAsk(
+              request,
+              stream,
+              token,
+              devcontainerManager,
+              bridge,
+              agentRegistry,
+              subagentTracker,
+              renderer,
+              undefined
+            );
+
           case "ask":
           default:
             return await handleAsk(
               request,
               stream,
               token,
+              devcontainerManager,
               bridge,
               agentRegistry,
               subagentTracker,
-              renderer
+              renderer,
+              previousSession(chatContext)
             );
         }
       } catch (err) {
@@ -128,6 +169,58 @@ export function registerChatParticipant(
   return participant;
 }
 
+/** The files attached to a chat request as `#file` references or locations. */
+function referenceUris(request: vscode.ChatRequest): vscode.Uri[] {
+  return (request.references ?? [])
+    .map((ref) => {
+      if (ref.value instanceof vscode.Uri) {
+        return ref.value;
+      }
+      if (ref.value && typeof ref.value === "object" && "uri" in ref.value) {
+        return (ref.value as vscode.Location).uri;
+      }
+      return undefined;
+    })
+    .filter((r): r is vscode.Uri => r !== undefined);
+}
+
+/**
+ * The OpenCode session of the thread's latest answer, unless `/new` was
+ * used since.
+ */
+function previousSession(chatContext: vscode.ChatContext): string | undefined {
+  for (let i = chatContext.history.length - 1; i >= 0; i--) {
+    const turn = chatContext.history[i];
+    if (!(turn instanceof vscode.ChatResponseTurn) || turn.participant !== PARTICIPANT_ID) {
+      continue;
+    }
+    const meta = turn.result.metadata as Record<string, unknown> | undefined;
+    if (meta?.newSession) {
+      return undefined;
+    }
+    if (typeof meta?.sessionId === "string") {
+      return meta.sessionId;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Take `#agent:<id>` and `#model:<provider/model>` out of a prompt; they
+ * pick the agent and model for this request only.
+ */
+function parsePromptOverrides(text: string): { prompt: string; agent?: string; model?: string } {
+  const overrides: { agent?: string; model?: string } = {};
+  const prompt = text.replace(
+    /(^|\s)#(agent|model):(\S+)/g,
+    (_match, space: string, key: "agent" | "model", value: string) => {
+      overrides[key] = value;
+      return space;
+    }
+  );
+  return { prompt: prompt.trim(), ...overrides };
+}
+
 // ---------------------------------------------------------------------------
 // /ask (default) — send prompt to OpenCode
 // ---------------------------------------------------------------------------
@@ -136,19 +229,48 @@ async function handleAsk(
   request: vscode.ChatRequest,
   stream: vscode.ChatResponseStream,
   token: vscode.CancellationToken,
+  devcontainerManager: DevcontainerManager,
   bridge: OpenCodeBridge,
   agentRegistry: AgentRegistry,
   subagentTracker: SubagentTracker,
-  renderer: ResponseRenderer
+  renderer: ResponseRenderer,
+  session: string | undefined
 ): Promise<vscode.ChatResult> {
-  const prompt = request.prompt;
-  if (!prompt.trim()) {
+  const overrides = parsePromptOverrides(request.prompt);
+  const prompt = overrides.prompt;
+  if (!prompt) {
     stream.markdown("Please provide a prompt. Example: `@opencode Fix the failing test`");
     return {};
   }
 
-  const agent = agentRegistry.getDefaultAgent();
-  renderer.renderAgentHeader(agent, stream);
+  const agent = overrides.agent
+    ? agentRegistry.getAgent(overrides.agent)
+    : agentRegistry.getDefaultAgent();
+  if (!agent) {
+    stream.markdown(
+      `Unknown agent \`${overrides.agent}\`. Use \`@opencode /agents\` to list the configured agents.`
+    );
+    return { metadata: { error: "unknown_agent" } };
+  }
+  renderer.renderAgentHeader(
+    overrides.model ? { ...agent, ...parseModelString(overrides.model) } : agent,
+    stream
+  );
+
+  // Don't race the container's postCreateCommand & co.
+  const containerState = devcontainerManager.state;
+  if (containerState === "starting" || containerState === "initializing") {
+    stream.progress("Waiting for the dev container's lifecycle commands to finish...");
+    const ready = await devcontainerManager.whenReady(token);
+    if (token.isCancellationRequested) {
+      return { metadata: { cancelled: true } };
+    }
+    if (!ready) {
+      stream.markdown("The dev container did not start. Check the dev container log for details.");
+      return { metadata: { error: "container_not_ready" } };
+    }
+  }
+
   stream.progress("Connecting to OpenCode...");
 
   // Ensure the bridge is running.
@@ -163,8 +285,10 @@ async function handleAsk(
     return { metadata: { error: "bridge_start_failed" } };
   }
 
-  // Reset subagent tracking for this request.
-  subagentTracker.reset();
+  // Other requests may be running alongside; this one's events and
+  // subagents carry its id.
+  const requestId = newRequestId();
+  subagentTracker.reset(requestId);
 
   // Set the chat-active context key for the tree view.
   await vscode.commands.executeCommand(
@@ -174,17 +298,7 @@ async function handleAsk(
   );
 
   // Collect file references from the request.
-  const references = request.references
-    ?.map((ref) => {
-      if (ref.value instanceof vscode.Uri) {
-        return ref.value.fsPath;
-      }
-      if (ref.value && typeof ref.value === "object" && "uri" in ref.value) {
-        return (ref.value as vscode.Location).uri.fsPath;
-      }
-      return undefined;
-    })
-    .filter((r): r is string => r !== undefined);
+  const references = referenceUris(request).map((uri) => uri.fsPath);
 
   // Wait for the response to complete (or cancellation).
   // IMPORTANT: Register listeners BEFORE sending the prompt to avoid
@@ -192,6 +306,10 @@ async function handleAsk(
   return new Promise<vscode.ChatResult>((resolve) => {
     let completed = false;
     let responseTimeout: ReturnType<typeof setTimeout> | undefined;
+    // Recorded with the result so the thread's next prompt continues it.
+    let sessionId = session;
+    // The agent OpenCode reports as answering, checked against the header.
+    let answeredBy: string | undefined;
 
     const finish = (meta: Record<string, unknown>) => {
       if (completed) {
@@ -204,22 +322,46 @@ async function handleAsk(
       }
       eventListener.dispose();
       stateListener.dispose();
+      startListener.dispose();
       cancelListener.dispose();
+      if (!meta.completed) {
+        // Drops the request if it is still queued, or stops its process.
+        bridge.cancelRequest(requestId);
+      }
 
       // Render subagent summary.
-      const subagents = subagentTracker.getAllSubagents();
+      const subagents = subagentTracker.getAllSubagents(requestId);
       renderer.renderSubagentSummary(subagents, stream);
 
-      resolve({ metadata: meta });
+      resolve({
+        metadata: { ...meta, agent: answeredBy ?? agent.id, ...(sessionId ? { sessionId } : {}) },
+      });
     };
 
     const eventListener = bridge.onEvent((event: OpenCodeEvent) => {
+      // Untagged events concern the whole bridge, e.g. the server exiting.
+      if (event.requestId && event.requestId !== requestId) {
+        return;
+      }
+
       // Any event from the bridge resets the timeout — the process is alive.
       if (responseTimeout) {
         clearTimeout(responseTimeout);
         responseTimeout = undefined;
       }
 
+      if (event.type === "session") {
+        sessionId = event.id;
+        return;
+      }
+
+      if (!answeredBy && (event.type === "text" || event.type === "done") && event.agent !== "default") {
+        answeredBy = event.agent;
+        if (answeredBy !== agent.id) {
+          stream.markdown(`\n_Answered by the **${answeredBy}** agent, not ${agent.name}._\n\n`);
+        }
+      }
+
       // Feed every event to the subagent tracker.
       subagentTracker.handleEvent(event);
 
@@ -244,26 +386,37 @@ async function handleAsk(
     });
 
     const cancelListener = token.onCancellationRequested(() => {
-      bridge.cancelCurrentRequest();
       stream.markdown("\n_Request cancelled._\n");
       finish({ cancelled: true });
     });
 
-    // Now that listeners are attached, send the prompt.
-    bridge.sendPrompt(prompt, agent.id, references);
-
-    // Start a connection timeout — if no events arrive within 30 seconds
-    // the process is likely hung or not responding to the protocol.
-    responseTimeout = setTimeout(() => {
-      if (!completed) {
-        stream.markdown(
-          "\n\n_No response from OpenCode within 30 seconds. " +
-          "The process may not support the expected protocol. " +
-          "Check that OpenCode is installed and up to date._\n"
-        );
-        finish({ error: "connection_timeout" });
+    // Start a connection timeout once the request leaves the queue — if
+    // no events arrive within 30 seconds the process is likely hung or
+    // not responding to the protocol.
+    const startListener = bridge.onRequestStarted((id) => {
+      if (id !== requestId || completed) {
+        return;
       }
-    }, 30_000);
+      responseTimeout = setTimeout(() => {
+        if (!completed) {
+          stream.markdown(
+            "\n\n_No response from OpenCode within 30 seconds. " +
+            "The process may not support the expected protocol. " +
+            "Check that OpenCode is installed and up to date._\n"
+          );
+          finish({ error: "connection_timeout" });
+        }
+      }, 30_000);
+    });
+
+    // Now that listeners are attached, send the prompt.
+    bridge.sendPrompt(prompt, {
+      agent: agent.id,
+      model: overrides.model,
+      references,
+      session,
+      requestId,
+    });
   });
 }
 
@@ -284,7 +437,8 @@ async function handleExec(
     return {};
   }
 
-  if (devcontainerManager.state !== "running") {
+  // The container accepts commands while its lifecycle commands run.
+  if (devcontainerManager.state !== "running" && devcontainerManager.state !== "initializing") {
     stream.markdown(
       "Dev container is not running. Start it with `@opencode /status` first."
     );
@@ -293,8 +447,12 @@ async function handleExec(
 
   stream.progress(`Running \`${command}\`...`);
 
+  // An attached file or folder picks the working directory.
+  const reference = referenceUris(request)[0];
+  const cwd = reference ? directoryOf(reference.fsPath) : undefined;
+
   try {
-    const result = await devcontainerManager.execInContainer(command);
+    const result = await devcontainerManager.execInContainer(command, cwd);
 
     if (result.stdout) {
       stream.markdown(`\`\`\`\n${result.stdout}\n\`\`\`\n`);
@@ -314,20 +472,75 @@ async function handleExec(
   }
 }
 
+/** `target` if it is a directory, otherwise the directory containing it. */
+function directoryOf(target: string): string {
+  try {
+    return fs.statSync(target).isDirectory() ? target : path.dirname(target);
+  } catch {
+    return path.dirname(target);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// /rebuild — rebuild or recreate the devcontainer
+// ---------------------------------------------------------------------------
+
+async function handleRebuild(
+  request: vscode.ChatRequest,
+  stream: vscode.ChatResponseStream,
+  devcontainerManager: DevcontainerManager,
+  token: vscode.CancellationToken
+): Promise<vscode.ChatResult> {
+  const option = request.prompt.trim().toLowerCase();
+  const mode: RebuildMode = option.includes("no-cache")
+    ? "rebuild-no-cache"
+    : option.includes("recreate")
+      ? "recreate"
+      : "rebuild";
+
+  stream.progress(
+    mode === "recreate"
+      ? "Recreating the dev container..."
+      : `Rebuilding the dev container${mode === "rebuild-no-cache" ? " without cache" : ""}...`
+  );
+
+  const info = await devcontainerManager.rebuildDevcontainer(
+    mode,
+    { report: ({ message }) => message && stream.progress(message) },
+    token
+  );
+  if (!info && token.isCancellationRequested) {
+    stream.markdown("Rebuild cancelled.");
+    return { metadata: { cancelled: true } };
+  }
+  if (!info) {
+    stream.markdown("Failed to rebuild the dev container. See the error notification for details.");
+    return { metadata: { error: "rebuild_failed" } };
+  }
+
+  stream.markdown(
+    `Dev container ${mode === "recreate" ? "recreated" : "rebuilt"}. ` +
+      `New container: \`${info.containerId.substring(0, 12)}\``
+  );
+  return { metadata: { status: true } };
+}
+
 // ---------------------------------------------------------------------------
 // /status — show devcontainer + agent status
 // ---------------------------------------------------------------------------
 
 function handleStatus(
   stream: vscode.ChatResponseStream,
-  devcontainerManager: DevcontainerManager,
-  agentRegistry: AgentRegistry,
+  folder: FolderContext,
+  multiRoot: boolean,
   subagentTracker: SubagentTracker
 ): vscode.ChatResult {
+  const { devcontainerManager, agentRegistry } = folder;
   const stateEmoji: Record<string, string> = {
     running: "$(vm-running)",
     stopped: "$(vm-outline)",
     starting: "$(loading~spin)",
+    initializing: "$(loading~spin)",
     "not-found": "$(question)",
     error: "$(error)",
   };
@@ -335,19 +548,40 @@ function handleStatus(
   const state = devcontainerManager.state;
   const lines: string[] = [
     "## OpenCode Status\n",
-    `**Dev Container**: ${stateEmoji[state] || ""} ${state}`,
   ];
 
+  if (multiRoot) {
+    lines.push(`**Folder**: \`${folder.name}\``);
+  }
+  lines.push(`**Dev Container**: ${stateEmoji[state] || ""} ${state}`);
+
   if (devcontainerManager.containerId) {
     lines.push(
       `**Container ID**: \`${devcontainerManager.containerId.substring(0, 12)}\``
     );
   }
+  const host = getContainerRuntime().hostLabel();
+  if (host) {
+    lines.push(`**Host**: \`${host}\``);
+  }
   if (devcontainerManager.remoteWorkspaceFolder) {
     lines.push(
       `**Workspace**: \`${devcontainerManager.remoteWorkspaceFolder}\``
     );
   }
+  if (devcontainerManager.composeProject) {
+    lines.push(
+      `**Compose Project**: \`${devcontainerManager.composeProject}\``,
+      "\n**Services:**\n"
+    );
+    for (const svc of devcontainerManager.services) {
+      const icon = svc.state === "running" ? "$(vm-running)" : "$(vm-outline)";
+      const primary = svc.primary ? " _(primary)_" : "";
+      lines.push(
+        `- ${icon} **${svc.service}**${primary} — ${svc.state} (\`${svc.containerId.substring(0, 12)}\`)`
+      );
+    }
+  }
 
   lines.push("\n**Configured Agents:**\n");
   const defaultId = agentRegistry.defaultAgentId;
@@ -372,7 +606,8 @@ function handleStatus(
 
 function handleAgents(
   stream: vscode.ChatResponseStream,
-  agentRegistry: AgentRegistry
+  agentRegistry: AgentRegistry,
+  folder: string
 ): vscode.ChatResult {
   const agents = agentRegistry.listAgents();
   const defaultId = agentRegistry.defaultAgentId;
@@ -409,11 +644,21 @@ function handleAgents(
   }
 
   lines.push(
-    "\nTo change the default agent, set `default_agent` in your `opencode.json`.",
-    "To use a custom config location, set `opencode-devcontainer.opencodeConfigPath` in VS Code settings."
+    "\nTo ask a specific agent, add `#agent:<id>` to the prompt (and `#model:<provider/model>` for another model).",
+    "To use a custom config location, set `opencode-devcontainer.opencodeConfigPath` in VS Code settings.",
+    "\nSwitch the agent prompts go to:\n"
   );
 
   stream.markdown(lines.join("\n"));
+  for (const agent of primaryAgents) {
+    if (agent.id !== defaultId) {
+      stream.button({
+        command: "opencode-devcontainer.switchAgent",
+        title: `Use ${agent.name}`,
+        arguments: [agent.id, folder],
+      });
+    }
+  }
   return { metadata: { status: true } };
 }
 
@@ -423,9 +668,19 @@ function handleAgents(
 
 function handleConfig(
   stream: vscode.ChatResponseStream,
-  agentRegistry: AgentRegistry
+  folder: FolderContext
 ): vscode.ChatResult {
-  const config = vscode.workspace.getConfiguration("opencode-devcontainer");
+  const { agentRegistry } = folder;
+  const config = vscode.workspace.getConfiguration(
+    "opencode-devcontainer",
+    vscode.Uri.file(folder.folder)
+  );
+
+  const defaultAgentId = agentRegistry.defaultAgentId;
+  const picked =
+    agentRegistry.isDefaultAgentSelected &&
+    agentRegistry.listAgents().some((agent) => agent.id === defaultAgentId);
+  const agentSource = picked ? "picked in VS Code" : "from opencode.json";
 
   const lines = [
     "## OpenCode Configuration\n",
@@ -434,9 +689,11 @@ function handleConfig(
     `| Execution Mode | \`${config.get("executionMode")}\` |`,
     `| OpenCode Path | \`${config.get("opencodePath")}\` |`,
     `| OpenCode Config | \`${config.get("opencodeConfigPath") || "(auto-detected)"}\` |`,
+    `| Container Runtime | \`${getContainerRuntime().kind}\` (\`${getContainerRuntime().cliPath}\`) |`,
     `| Docker Path | \`${config.get("dockerPath")}\` |`,
+    `| Docker Host | \`${getContainerRuntime().hostLabel() ?? "(local)"}\` |`,
     `| DevContainer CLI | \`${config.get("devcontainerCliPath")}\` |`,
-    `| Default Agent | \`${agentRegistry.defaultAgentId}\` _(from opencode.json)_ |`,
+    `| Default Agent | \`${defaultAgentId}\` _(${agentSource})_ |`,
     `| Total Agents | \`${agentRegistry.listAgents().length}\` _(from opencode.json)_ |`,
     `| Show Tool Calls | \`${config.get("chat.showToolCalls")}\` |`,
     `| Show Subagent Tree | \`${config.get("chat.showSubagentTree")}\` |`,
@@ -1,14 +1,20 @@
-import { describe, it, expect, beforeEach, vi } from "vitest";
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
 import * as childProcess from "child_process";
+import * as vscode from "vscode";
 import {
   __resetMocks,
   __setMockConfig,
   __setWorkspaceFolders,
+  __setWorkspaceTrusted,
   Uri,
   EventEmitter,
 } from "../__mocks__/vscode";
 import { OpenCodeBridge } from "./opencodeBridge";
 import { DevcontainerState } from "../devcontainerManager";
+import { PathMapper } from "../pathMapper";
+import { ExecOptions } from "../containerRuntime";
+import { StubOpenCodeServer } from "../__mocks__/opencodeServer";
+import { OpenCodeEvent } from "./types";
 import { Readable, Writable } from "stream";
 
 // Mock child_process.spawn and fs (used by shellWrapper)
@@ -26,7 +32,6 @@ vi.mock("fs", async () => {
   return {
     ...actual,
     existsSync: vi.fn(() => false),
-    mkdirSync: vi.fn(),
     writeFileSync: vi.fn(),
     unlinkSync: vi.fn(),
   };
@@ -41,11 +46,30 @@ function createMockDevcontainerManager(opts: {
   remoteWorkspaceFolder: string | undefined;
 }) {
   const stateEmitter = new EventEmitter<DevcontainerState>();
+  const execOptionsEmitter = new EventEmitter<ExecOptions>();
   return {
+    workspaceFolder: "/home/user/project",
     state: opts.state,
     containerId: opts.containerId,
     remoteWorkspaceFolder: opts.remoteWorkspaceFolder,
     onStateChanged: stateEmitter.event,
+    onRemoteExecOptionsChanged: execOptionsEmitter.event,
+    getRemoteExecOptions: vi.fn().mockResolvedValue({}),
+    getContainerShell: vi.fn().mockResolvedValue("sh"),
+    getPathMapper: vi.fn().mockResolvedValue(
+      new PathMapper(
+        opts.remoteWorkspaceFolder
+          ? [{ hostPath: "/home/user/project", containerPath: opts.remoteWorkspaceFolder }]
+          : []
+      )
+    ),
+    whenReady: vi.fn().mockResolvedValue(true),
+    _fireState(state: DevcontainerState) {
+      stateEmitter.fire(state);
+    },
+    _fireExecOptions(options: ExecOptions) {
+      execOptionsEmitter.fire(options);
+    },
   };
 }
 
@@ -125,6 +149,15 @@ describe("start — local-with-remote-exec", () => {
     expect(bridge.isRunning()).toBe(true);
   });
 
+  it("does not start in an untrusted workspace", async () => {
+    __setWorkspaceTrusted(false);
+
+    await bridge.start();
+
+    expect(bridge.state).toBe("error");
+    expect(bridge.isRunning()).toBe(false);
+  });
+
   it("sets up SHELL env with shell wrapper", async () => {
     await bridge.start();
 
@@ -139,6 +172,49 @@ describe("start — local-with-remote-exec", () => {
     expect(opts.env.OPENCODE_WORKSPACE_FOLDER).toBe("/workspaces/project");
   });
 
+  it("identifies the session and agent of audited commands", async () => {
+    await bridge.start();
+
+    bridge.sendPrompt("hello", { agent: "build" });
+    bridge.sendPrompt("again", { agent: "plan" });
+
+    const [first, second] = mockSpawn.mock.calls.map((call) => call[2].env);
+    expect(first.OPENCODE_DEVCONTAINER_SESSION).toMatch(/^chat-[0-9a-f]{8}$/);
+    expect(second.OPENCODE_DEVCONTAINER_SESSION).toBe(first.OPENCODE_DEVCONTAINER_SESSION);
+    expect(first.OPENCODE_DEVCONTAINER_AGENT).toBe("build");
+    expect(second.OPENCODE_DEVCONTAINER_AGENT).toBe("plan");
+  });
+
+  it("rewrites the shell wrapper when the exec options change", async () => {
+    await bridge.start();
+    const fs = await import("fs");
+    const writes = (fs.writeFileSync as unknown as ReturnType<typeof vi.fn>).mock.calls;
+    const [wrapperPath] = writes.at(-1)!;
+
+    mockManager._fireExecOptions({ env: { SSH_AUTH_SOCK: "/tmp/relay-2/ssh-agent.sock" } });
+
+    expect(writes.at(-1)![0]).toBe(wrapperPath);
+    expect(String(writes.at(-1)![1])).toContain("/tmp/relay-2/ssh-agent.sock");
+  });
+
+  it("enforces the command policy and answers its approval requests", async () => {
+    __setMockConfig({
+      "opencode-devcontainer.commandPolicy": { "*": { ask: ["git push*"] } },
+    });
+    await bridge.start();
+
+    const fs = await import("fs");
+    const script = String(
+      (fs.writeFileSync as unknown as ReturnType<typeof vi.fn>).mock.calls.at(-1)![1]
+    );
+    expect(script).toContain('enforce_policy "$1"');
+    const approvalDir = script.match(/APPROVAL_DIR=(\S+)/)![1];
+    expect(fs.statSync(approvalDir).isDirectory()).toBe(true);
+
+    bridge.stop();
+    expect(() => fs.statSync(approvalDir)).toThrow();
+  });
+
   it("fires error event when container info is unavailable", async () => {
     mockManager = createMockDevcontainerManager({
       state: "running",
@@ -210,6 +286,32 @@ describe("start — in-container", () => {
   });
 });
 
+describe("container changes", () => {
+  it("drops the prepared shell wrapper when the container is recreated", async () => {
+    await bridge.start();
+    expect(bridge.isRunning()).toBe(true);
+
+    mockManager.containerId = "fresh999";
+    mockManager._fireState("running");
+
+    expect(bridge.state).toBe("stopped");
+    expect(bridge.isRunning()).toBe(false);
+
+    // The next start prepares a wrapper for the new container.
+    await bridge.start();
+    bridge.sendPrompt("hi");
+    const [, , opts] = mockSpawn.mock.calls[0];
+    expect(opts.env.OPENCODE_DEVCONTAINER_ID).toBe("fresh999");
+  });
+
+  it("stays prepared while the container is unchanged", async () => {
+    await bridge.start();
+    mockManager._fireState("running");
+
+    expect(bridge.state).toBe("idle");
+  });
+});
+
 // ---------------------------------------------------------------------------
 // sendPrompt — per-prompt spawning
 // ---------------------------------------------------------------------------
@@ -237,7 +339,7 @@ describe("sendPrompt", () => {
 
   it("includes file references in prompt text", async () => {
     await bridge.start();
-    bridge.sendPrompt("Fix the bug", "default", ["/src/app.ts", "/src/lib.ts"]);
+    bridge.sendPrompt("Fix the bug", { references: ["/src/app.ts", "/src/lib.ts"] });
 
     const args = mockSpawn.mock.calls[0][1] as string[];
     const promptArg = args[args.length - 1];
@@ -265,7 +367,46 @@ describe("sendPrompt", () => {
     expect(args).toContain("Fix the bug");
   });
 
-  it("kills existing process before spawning new one", async () => {
+  it("execs as the remote user with remoteEnv in in-container mode", async () => {
+    __setMockConfig({
+      "opencode-devcontainer.executionMode": "in-container",
+    });
+    mockManager.getRemoteExecOptions.mockResolvedValue({
+      user: "node",
+      env: { PATH: "/opt/bin:/usr/bin" },
+      unsetEnv: ["DEBUG"],
+    });
+
+    await bridge.start();
+    bridge.sendPrompt("Fix the bug");
+
+    const [, args] = mockSpawn.mock.calls[0];
+    expect(args.slice(0, 4)).toEqual(["exec", "-i", "-u", "node"]);
+    expect(args).toContain("PATH=/opt/bin:/usr/bin");
+    expect(args.slice(args.indexOf("abc123def456") + 1, args.indexOf("opencode"))).toEqual([
+      "env",
+      "-u",
+      "DEBUG",
+    ]);
+  });
+
+  it("keeps forwarded values out of the exec arguments in in-container mode", async () => {
+    __setMockConfig({
+      "opencode-devcontainer.executionMode": "in-container",
+    });
+    vi.stubEnv("ANTHROPIC_API_KEY", "sk-secret");
+
+    await bridge.start();
+    bridge.sendPrompt("Fix the bug");
+    vi.unstubAllEnvs();
+
+    const [, args, opts] = mockSpawn.mock.calls[0];
+    expect(args).toContain("ANTHROPIC_API_KEY");
+    expect(args.join(" ")).not.toContain("sk-secret");
+    expect(opts.env.ANTHROPIC_API_KEY).toBe("sk-secret");
+  });
+
+  it("runs a second prompt alongside the first", async () => {
     await bridge.start();
     bridge.sendPrompt("first prompt");
 
@@ -275,9 +416,324 @@ describe("sendPrompt", () => {
 
     bridge.sendPrompt("second prompt");
 
-    expect(firstProcess.kill).toHaveBeenCalled();
+    expect(firstProcess.kill).not.toHaveBeenCalled();
     expect(mockSpawn).toHaveBeenCalledTimes(2);
   });
+
+  it("returns the request id it was given", async () => {
+    await bridge.start();
+
+    expect(bridge.sendPrompt("hello", { requestId: "req-1" })).toBe("req-1");
+    expect(bridge.sendPrompt("hello")).toMatch(/^req-[0-9a-f]{8}$/);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Concurrent requests
+// ---------------------------------------------------------------------------
+
+describe("concurrent requests", () => {
+  let processes: ReturnType<typeof createMockProcess>[];
+  let events: OpenCodeEvent[];
+
+  /** Exit a request's process with code 0. */
+  function exit(proc: ReturnType<typeof createMockProcess>): void {
+    const onExit = proc.on.mock.calls.find(([event]) => event === "exit")![1];
+    onExit(0);
+  }
+
+  beforeEach(async () => {
+    processes = [];
+    mockSpawn.mockImplementation(() => {
+      const proc = createMockProcess();
+      processes.push(proc);
+      return proc;
+    });
+    events = [];
+    bridge.onEvent((event) => events.push(event));
+    await bridge.start();
+  });
+
+  it("tags every event with its request", async () => {
+    bridge.sendPrompt("first", { requestId: "req-a" });
+    bridge.sendPrompt("second", { requestId: "req-b" });
+
+    processes[1].stdout.push('{"type":"text","text":"B"}\n');
+    processes[0].stdout.push('{"type":"text","text":"A"}\n');
+    await flushStreams();
+
+    expect(events).toHaveLength(2);
+    expect(events).toContainEqual({ type: "text", content: "A", agent: "default", requestId: "req-a" });
+    expect(events).toContainEqual({ type: "text", content: "B", agent: "default", requestId: "req-b" });
+  });
+
+  it("queues requests beyond the limit until one finishes", async () => {
+    __setMockConfig({ "opencode-devcontainer.maxConcurrentRequests": 2 });
+    const started: string[] = [];
+    bridge.onRequestStarted((id) => started.push(id));
+
+    bridge.sendPrompt("first", { requestId: "req-a" });
+    bridge.sendPrompt("second", { requestId: "req-b" });
+    bridge.sendPrompt("third", { requestId: "req-c" });
+
+    expect(processes).toHaveLength(2);
+    expect(started).toEqual(["req-a", "req-b"]);
+    expect(events).toEqual([
+      {
+        type: "status",
+        message: "Waiting for 2 other requests to finish...",
+        agent: "system",
+        requestId: "req-c",
+      },
+    ]);
+
+    exit(processes[0]);
+
+    expect(processes).toHaveLength(3);
+    expect(mockSpawn.mock.calls[2][1]).toContain("third");
+    expect(started).toEqual(["req-a", "req-b", "req-c"]);
+  });
+
+  it("stays busy until every request answered", async () => {
+    bridge.sendPrompt("first");
+    bridge.sendPrompt("second");
+
+    processes[0].stdout.push('{"type":"step_finish"}\n');
+    await flushStreams();
+    expect(bridge.state).toBe("busy");
+
+    exit(processes[1]);
+    expect(bridge.state).toBe("idle");
+  });
+
+  it("cancels one request and leaves the others running", async () => {
+    bridge.sendPrompt("first", { requestId: "req-a" });
+    bridge.sendPrompt("second", { requestId: "req-b" });
+
+    bridge.cancelRequest("req-a");
+    processes[0].stdout.push('{"type":"text","text":"late"}\n');
+    processes[1].stdout.push('{"type":"text","text":"B"}\n');
+    await flushStreams();
+
+    expect(processes[0].kill).toHaveBeenCalled();
+    expect(processes[1].kill).not.toHaveBeenCalled();
+    expect(events.map((e) => e.requestId)).toEqual(["req-b"]);
+    expect(bridge.state).toBe("busy");
+  });
+
+  it("fails only the request whose process could not be spawned", async () => {
+    bridge.sendPrompt("first", { requestId: "req-a" });
+    bridge.sendPrompt("second", { requestId: "req-b" });
+
+    const onError = processes[0].on.mock.calls.find(([event]) => event === "error")![1];
+    onError(new Error("spawn docker ENOENT"));
+    processes[1].stdout.push('{"type":"text","text":"B"}\n');
+    await flushStreams();
+
+    expect(events).toEqual([
+      { type: "error", message: "spawn docker ENOENT", requestId: "req-a" },
+      { type: "text", content: "B", agent: "default", requestId: "req-b" },
+    ]);
+    expect(bridge.state).toBe("busy");
+
+    exit(processes[1]);
+    expect(bridge.state).toBe("idle");
+  });
+
+  it("drops a queued request when cancelled", async () => {
+    __setMockConfig({ "opencode-devcontainer.maxConcurrentRequests": 1 });
+
+    bridge.sendPrompt("first", { requestId: "req-a" });
+    bridge.sendPrompt("second", { requestId: "req-b" });
+    bridge.cancelRequest("req-b");
+    exit(processes[0]);
+
+    expect(processes).toHaveLength(1);
+    expect(bridge.state).toBe("idle");
+  });
+
+  it("passes each request's agent to the commands it runs", async () => {
+    bridge.sendPrompt("first", { agent: "plan" });
+    bridge.sendPrompt("second", { agent: "build" });
+
+    expect(mockSpawn.mock.calls[0][2].env.OPENCODE_DEVCONTAINER_AGENT).toBe("plan");
+    expect(mockSpawn.mock.calls[1][2].env.OPENCODE_DEVCONTAINER_AGENT).toBe("build");
+  });
+});
+
+// ---------------------------------------------------------------------------
+// sendPrompt while the container runs its lifecycle commands
+// ---------------------------------------------------------------------------
+
+describe("sendPrompt while initializing", () => {
+  let ready: (value: boolean) => void;
+
+  beforeEach(async () => {
+    await bridge.start();
+    mockManager.state = "initializing";
+    mockManager.whenReady.mockReturnValue(new Promise<boolean>((resolve) => (ready = resolve)));
+  });
+
+  it("queues the prompt until the container is ready", async () => {
+    const listener = vi.fn();
+    bridge.onEvent(listener);
+
+    bridge.sendPrompt("Fix the bug");
+
+    expect(mockSpawn).not.toHaveBeenCalled();
+    expect(bridge.state).toBe("busy");
+    expect(listener).toHaveBeenCalledWith(expect.objectContaining({ type: "status", agent: "system" }));
+
+    ready(true);
+    await flushStreams();
+
+    expect(mockSpawn).toHaveBeenCalledOnce();
+    expect(mockSpawn.mock.calls[0][1]).toContain("Fix the bug");
+  });
+
+  it("reports an error when the container does not become ready", async () => {
+    const listener = vi.fn();
+    bridge.onEvent(listener);
+
+    bridge.sendPrompt("Fix the bug");
+    ready(false);
+    await flushStreams();
+
+    expect(mockSpawn).not.toHaveBeenCalled();
+    expect(listener).toHaveBeenCalledWith(
+      expect.objectContaining({ type: "error", message: "Dev container is not running." })
+    );
+    expect(bridge.state).toBe("idle");
+  });
+
+  it("drops the queued prompt when cancelled", async () => {
+    const requestId = bridge.sendPrompt("Fix the bug");
+    bridge.cancelRequest(requestId);
+    ready(true);
+    await flushStreams();
+
+    expect(mockSpawn).not.toHaveBeenCalled();
+    expect(bridge.state).toBe("idle");
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Agent and model
+// ---------------------------------------------------------------------------
+
+describe("agent and model", () => {
+  it("runs the prompt with the chosen agent and model", async () => {
+    await bridge.start();
+    bridge.sendPrompt("Plan it", { agent: "plan", model: "openai/gpt-5" });
+
+    const args = mockSpawn.mock.calls[0][1] as string[];
+    expect(args.slice(-5)).toEqual(["--agent", "plan", "--model", "openai/gpt-5", "Plan it"]);
+  });
+
+  it("leaves the agent and model to OpenCode when unset", async () => {
+    await bridge.start();
+    bridge.sendPrompt("hello");
+
+    const args = mockSpawn.mock.calls[0][1] as string[];
+    expect(args).not.toContain("--agent");
+    expect(args).not.toContain("--model");
+  });
+
+  it("passes the agent and model to opencode in the container", async () => {
+    __setMockConfig({
+      "opencode-devcontainer.executionMode": "in-container",
+    });
+
+    await bridge.start();
+    bridge.sendPrompt("Plan it", { agent: "plan", model: "openai/gpt-5", session: "ses_abc" });
+
+    const args = mockSpawn.mock.calls[0][1] as string[];
+    expect(args.slice(args.indexOf("opencode"))).toEqual([
+      "opencode",
+      "run",
+      "--format",
+      "json",
+      "-q",
+      "--agent",
+      "plan",
+      "--model",
+      "openai/gpt-5",
+      "--session",
+      "ses_abc",
+      "Plan it",
+    ]);
+  });
+
+  it("reports the agent named in the output", async () => {
+    await bridge.start();
+    const listener = vi.fn();
+    bridge.onEvent(listener);
+    const requestId = bridge.sendPrompt("Plan it", { agent: "plan" });
+
+    mockProcess.stdout.push('{"type":"text","text":"Step 1","agent":"plan"}\n');
+    await flushStreams();
+
+    expect(listener).toHaveBeenCalledWith({ type: "text", content: "Step 1", agent: "plan", requestId });
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Session continuity
+// ---------------------------------------------------------------------------
+
+describe("session continuity", () => {
+  it("starts a new OpenCode session without a session", async () => {
+    await bridge.start();
+    bridge.sendPrompt("hello");
+
+    expect(mockSpawn.mock.calls[0][1]).not.toContain("--session");
+  });
+
+  it("continues the given session", async () => {
+    await bridge.start();
+    bridge.sendPrompt("now add tests for that", { session: "ses_abc" });
+
+    const args = mockSpawn.mock.calls[0][1] as string[];
+    expect(args.slice(-3)).toEqual(["--session", "ses_abc", "now add tests for that"]);
+  });
+
+  it("continues the given session in in-container mode", async () => {
+    __setMockConfig({
+      "opencode-devcontainer.executionMode": "in-container",
+    });
+
+    await bridge.start();
+    bridge.sendPrompt("now add tests for that", { session: "ses_abc" });
+
+    const args = mockSpawn.mock.calls[0][1] as string[];
+    expect(args.slice(-3)).toEqual(["--session", "ses_abc", "now add tests for that"]);
+  });
+
+  it("reports the session OpenCode started once", async () => {
+    await bridge.start();
+    const listener = vi.fn();
+    bridge.onEvent(listener);
+    const requestId = bridge.sendPrompt("hello");
+
+    mockProcess.stdout.push('{"type":"step_start","sessionID":"ses_new"}\n');
+    mockProcess.stdout.push('{"type":"text","text":"Hi","sessionID":"ses_new"}\n');
+    await flushStreams();
+
+    const sessions = listener.mock.calls.map(([event]) => event).filter((e) => e.type === "session");
+    expect(sessions).toEqual([{ type: "session", id: "ses_new", requestId }]);
+  });
+
+  it("does not report the session it continues", async () => {
+    await bridge.start();
+    const listener = vi.fn();
+    bridge.onEvent(listener);
+    bridge.sendPrompt("hello", { session: "ses_abc" });
+
+    mockProcess.stdout.push('{"type":"text","text":"Hi","sessionID":"ses_abc"}\n');
+    await flushStreams();
+
+    expect(listener).not.toHaveBeenCalledWith(expect.objectContaining({ type: "session" }));
+  });
 });
 
 // ---------------------------------------------------------------------------
@@ -301,21 +757,32 @@ describe("stop", () => {
 });
 
 // ---------------------------------------------------------------------------
-// cancelCurrentRequest
+// cancelRequest
 // ---------------------------------------------------------------------------
 
-describe("cancelCurrentRequest", () => {
+describe("cancelRequest", () => {
   it("kills the active process", async () => {
+    await bridge.start();
+    const requestId = bridge.sendPrompt("hello");
+    bridge.cancelRequest(requestId);
+
+    expect(mockProcess.kill).toHaveBeenCalled();
+    expect(bridge.state).toBe("idle");
+  });
+
+  it("cancels every request without a request id", async () => {
     await bridge.start();
     bridge.sendPrompt("hello");
-    bridge.cancelCurrentRequest();
+    bridge.cancelRequest();
 
     expect(mockProcess.kill).toHaveBeenCalled();
+    expect(bridge.state).toBe("idle");
   });
 
   it("is safe to call with no active process", async () => {
     await bridge.start();
-    expect(() => bridge.cancelCurrentRequest()).not.toThrow();
+    expect(() => bridge.cancelRequest("req-unknown")).not.toThrow();
+    expect(() => bridge.cancelRequest()).not.toThrow();
   });
 });
 
@@ -627,12 +1094,74 @@ describe("prompt text building", () => {
 
   it("prepends @file references to prompt", async () => {
     await bridge.start();
-    bridge.sendPrompt("Fix it", undefined, ["/a.ts", "/b.ts"]);
+    bridge.sendPrompt("Fix it", { references: ["/a.ts", "/b.ts"] });
 
     const args = mockSpawn.mock.calls[0][1] as string[];
     const promptArg = args[args.length - 1];
     expect(promptArg).toBe("@/a.ts @/b.ts\n\nFix it");
   });
+
+  it("translates references to container paths in in-container mode", async () => {
+    __setMockConfig({
+      "opencode-devcontainer.executionMode": "in-container",
+    });
+    await bridge.start();
+    bridge.sendPrompt("Fix it", { references: ["/home/user/project/src/a.ts", "/tmp/notes.md"] });
+
+    const args = mockSpawn.mock.calls[0][1] as string[];
+    expect(args[args.length - 1]).toBe(
+      "@/workspaces/project/src/a.ts @/tmp/notes.md\n\nFix it"
+    );
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Path translation
+// ---------------------------------------------------------------------------
+
+describe("path translation", () => {
+  async function toolStartEvent(args: Record<string, unknown>) {
+    const listener = vi.fn();
+    bridge.onEvent(listener);
+    await bridge.start();
+    bridge.sendPrompt("hello");
+    mockProcess.stdout.push(JSON.stringify({ type: "tool_start", tool: "read", args }) + "\n");
+    await flushStreams();
+    return listener.mock.calls.map(([e]) => e).find((e) => e.type === "tool_start");
+  }
+
+  it("resolves tool paths against the host workspace in local mode", async () => {
+    const event = await toolStartEvent({ filePath: "src/app.ts" });
+    expect(event.hostPath).toBe("/home/user/project/src/app.ts");
+  });
+
+  it("maps container tool paths back to the host in in-container mode", async () => {
+    __setMockConfig({
+      "opencode-devcontainer.executionMode": "in-container",
+    });
+    expect((await toolStartEvent({ path: "/workspaces/project/src/app.ts" })).hostPath).toBe(
+      "/home/user/project/src/app.ts"
+    );
+  });
+
+  it("leaves out the host path for container-only files", async () => {
+    __setMockConfig({
+      "opencode-devcontainer.executionMode": "in-container",
+    });
+    expect((await toolStartEvent({ path: "/etc/hosts" })).hostPath).toBeUndefined();
+  });
+
+  it("runs wrapped commands where the host workspace is mounted", async () => {
+    mockManager.getPathMapper.mockResolvedValue(
+      new PathMapper([{ hostPath: "/home/user", containerPath: "/workspaces/home" }])
+    );
+    await bridge.start();
+
+    const fs = await import("fs");
+    const script = String((fs.writeFileSync as unknown as ReturnType<typeof vi.fn>).mock.calls.at(-1)![1]);
+    expect(script).toContain("WORKSPACE_DIR=/workspaces/home/project");
+    expect(script).toContain("HOST_WORKSPACE_DIR=/home/user/project");
+  });
 });
 
 // ---------------------------------------------------------------------------
@@ -652,3 +1181,185 @@ describe("dispose", () => {
     bridge.dispose();
   });
 });
+
+// ---------------------------------------------------------------------------
+// Server transport
+// ---------------------------------------------------------------------------
+
+describe("server transport", () => {
+  let stub: StubOpenCodeServer;
+  let events: OpenCodeEvent[];
+
+  beforeEach(async () => {
+    stub = new StubOpenCodeServer();
+    await stub.start();
+    // `opencode serve` announces the stub's address.
+    mockProcess.stdout.push(`${stub.listeningLine}\n`);
+    __setMockConfig({ "opencode-devcontainer.bridgeTransport": "server" });
+    events = [];
+    bridge.onEvent((event) => events.push(event));
+  });
+
+  afterEach(async () => {
+    bridge.stop();
+    await stub.close();
+  });
+
+  it("starts opencode serve on the host", async () => {
+    await bridge.start();
+
+    expect(mockSpawn).toHaveBeenCalledOnce();
+    const [cmd, args, options] = mockSpawn.mock.calls[0];
+    expect(cmd).toBe("opencode");
+    expect(args).toEqual(["serve", "--hostname", "127.0.0.1", "--port", "0"]);
+    expect(options.env.SHELL).toContain("shell-wrapper-");
+    expect(bridge.state).toBe("idle");
+  });
+
+  it("keeps opencode run when the command policy has agent-specific rules", async () => {
+    __setMockConfig({
+      "opencode-devcontainer.bridgeTransport": "server",
+      "opencode-devcontainer.commandPolicy": { plan: { deny: ["git push*"] } },
+    });
+    await bridge.start();
+
+    expect(mockSpawn).not.toHaveBeenCalled();
+    expect(vscode.window.showWarningMessage).toHaveBeenCalledWith(
+      expect.stringContaining("agent-specific rules")
+    );
+
+    bridge.sendPrompt("hello", { agent: "plan" });
+    const [cmd, args, options] = mockSpawn.mock.calls[0];
+    expect(cmd).toBe("opencode");
+    expect(args[0]).toBe("run");
+    expect(options.env.OPENCODE_DEVCONTAINER_AGENT).toBe("plan");
+  });
+
+  it("creates a session for the first prompt and continues it", async () => {
+    await bridge.start();
+    await stub.subscribed();
+
+    const requestId = bridge.sendPrompt("first", { agent: "plan" });
+    await vi.waitFor(() => expect(events.at(-1)?.type).toBe("done"));
+    bridge.sendPrompt("second", { session: "ses_1" });
+    await vi.waitFor(() => expect(stub.prompts).toHaveLength(2));
+    await vi.waitFor(() => expect(bridge.state).toBe("idle"));
+
+    expect(stub.sessions).toEqual(["ses_1"]);
+    expect(stub.prompts.map((p) => p.sessionId)).toEqual(["ses_1", "ses_1"]);
+    expect(stub.prompts[0].body).toEqual({ parts: [{ type: "text", text: "first" }], agent: "plan" });
+    expect(stub.prompts[1].body).toEqual({ parts: [{ type: "text", text: "second" }] });
+    expect(events.filter((e) => e.type === "session")).toEqual([{ type: "session", id: "ses_1", requestId }]);
+  });
+
+  it("sends the model override with the prompt", async () => {
+    await bridge.start();
+    await stub.subscribed();
+
+    bridge.sendPrompt("hi", { agent: "plan", model: "openai/gpt-5" });
+    await vi.waitFor(() => expect(events.at(-1)?.type).toBe("done"));
+
+    expect(stub.prompts[0].body).toEqual({
+      parts: [{ type: "text", text: "hi" }],
+      agent: "plan",
+      model: { providerID: "openai", modelID: "gpt-5" },
+    });
+  });
+
+  it("creates a new session for a prompt without one", async () => {
+    await bridge.start();
+    await stub.subscribed();
+
+    bridge.sendPrompt("first");
+    await vi.waitFor(() => expect(events.at(-1)?.type).toBe("done"));
+    bridge.sendPrompt("second");
+    await vi.waitFor(() => expect(events.filter((e) => e.type === "done")).toHaveLength(2));
+
+    expect(stub.prompts.map((p) => p.sessionId)).toEqual(["ses_1", "ses_2"]);
+  });
+
+  it("maps the server's events", async () => {
+    await bridge.start();
+    await stub.subscribed();
+
+    const requestId = bridge.sendPrompt("hi");
+    await vi.waitFor(() => expect(events.at(-1)?.type).toBe("done"));
+
+    expect(events.map((e) => e.type)).toEqual(["session", "text", "text", "tool_start", "tool_end", "done"]);
+    expect(events[1]).toEqual({ type: "text", content: "Hello", agent: "build", requestId });
+  });
+
+  it("aborts the prompt when cancelled", async () => {
+    stub.hang = true;
+    await bridge.start();
+    await stub.subscribed();
+
+    const requestId = bridge.sendPrompt("hi");
+    await vi.waitFor(() => expect(stub.prompts).toHaveLength(1));
+    bridge.cancelRequest(requestId);
+    expect(bridge.state).toBe("idle");
+    await vi.waitFor(() => expect(stub.aborted).toEqual(["ses_1"]));
+
+    expect(events.filter((e) => e.type === "error" || e.type === "done")).toEqual([]);
+  });
+
+  it("runs prompts side by side in their own sessions", async () => {
+    await bridge.start();
+    await stub.subscribed();
+
+    const first = bridge.sendPrompt("first");
+    const second = bridge.sendPrompt("second");
+    await vi.waitFor(() => expect(events.filter((e) => e.type === "done")).toHaveLength(2));
+
+    expect(stub.prompts.map((p) => p.sessionId).sort()).toEqual(["ses_1", "ses_2"]);
+    for (const requestId of [first, second]) {
+      expect(events.filter((e) => e.requestId === requestId).map((e) => e.type)).toEqual([
+        "session",
+        "text",
+        "text",
+        "tool_start",
+        "tool_end",
+        "done",
+      ]);
+    }
+    expect(bridge.state).toBe("idle");
+  });
+
+  it("reports an error when the server does not start", async () => {
+    const failing = createMockProcess();
+    failing.on.mockImplementation((event: string, listener: (code: number) => void) => {
+      if (event === "exit") {
+        setTimeout(() => listener(1), 0);
+      }
+    });
+    mockSpawn.mockReturnValue(failing);
+
+    await bridge.start();
+
+    expect(bridge.state).toBe("error");
+    expect(events).toEqual([
+      { type: "error", message: "Failed to start the OpenCode server: OpenCode server exited with code 1" },
+    ]);
+  });
+
+  it("runs opencode serve in the container in in-container mode", async () => {
+    __setMockConfig({
+      "opencode-devcontainer.bridgeTransport": "server",
+      "opencode-devcontainer.executionMode": "in-container",
+    });
+    mockManager.getRemoteExecOptions.mockResolvedValue({ user: "vscode", env: {} });
+
+    await bridge.start();
+
+    const [cmd, args] = mockSpawn.mock.calls[0];
+    expect(cmd).toBe("docker");
+    expect(args).toEqual(expect.arrayContaining(["-i", "-u", "vscode", "abc123def456", "opencode", "serve"]));
+    expect(args.slice(args.indexOf("abc123def456") + 1, args.indexOf("opencode"))).toEqual([
+      "sh",
+      "-c",
+      expect.stringContaining("kill $$"),
+      "sh",
+    ]);
+    expect(bridge.state).toBe("idle");
+  });
+});
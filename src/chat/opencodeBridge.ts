@@ -1,14 +1,81 @@
 import * as vscode from "vscode";
 import { ChildProcess, spawn } from "child_process";
 import { createInterface } from "readline";
+import * as path from "path";
+import { randomBytes } from "crypto";
 import { DevcontainerManager } from "../devcontainerManager";
-import { getConfig, getWorkspaceFolder } from "../config";
-import { writeShellWrapper, removeShellWrapper } from "../shellWrapper";
+import { getConfig, requireWorkspaceTrust } from "../config";
+import { writeShellWrapper, removeShellWrapper, rewriteShellWrapper } from "../shellWrapper";
+import { newSessionId } from "../commandAudit";
+import {
+  CommandApprovalBroker,
+  getCommandPolicy,
+  policyAsks,
+  policyHasAgentRules,
+} from "../commandPolicy";
+import { ExecOptions, getContainerRuntime } from "../containerRuntime";
+import { EnvSecretStore, resolveForwardedEnv } from "../envForwarding";
 import { OpenCodeEvent } from "./types";
 import { OpenCodeAdapter } from "./opencodeAdapter";
+import {
+  OpenCodeServer,
+  STOP_WITH_STDIN,
+  ServerEvent,
+  ServerEventMapper,
+  ServerLaunch,
+} from "./opencodeServer";
+import { PathMapper } from "../pathMapper";
 
 export type BridgeState = "idle" | "busy" | "error" | "stopped";
 
+/** How {@link OpenCodeBridge.sendPrompt} runs a prompt. */
+export interface PromptOptions {
+  /** Agent to answer with; OpenCode's default agent when unset. */
+  agent?: string;
+  /** `provider/model` to use instead of the agent's model. */
+  model?: string;
+  /** Host paths of files attached to the prompt. */
+  references?: string[];
+  /** OpenCode session to continue. */
+  session?: string;
+  /**
+   * Tags the prompt's events, see {@link newRequestId}. Pass one to tell
+   * the events apart from the start; generated when unset.
+   */
+  requestId?: string;
+}
+
+/** How long an aborted server prompt may take to wind down. */
+const ABORT_TIMEOUT = 5000;
+
+/** An id for a chat request, e.g. `req-1a2b3c4d`. */
+export function newRequestId(): string {
+  return `req-${randomBytes(4).toString("hex")}`;
+}
+
+/** A prompt from {@link OpenCodeBridge.sendPrompt} until it finished. */
+interface PromptRun {
+  id: string;
+  /** The prompt with its file references. */
+  text: string;
+  agent: string | undefined;
+  model: string | undefined;
+  /** OpenCode session it continues, or the one OpenCode started for it once reported. */
+  session: string | undefined;
+  /** Its process or server prompt was started, taking one of the concurrent slots. */
+  started: boolean;
+  /** A `done` event was emitted. */
+  done: boolean;
+  /** Cancels waiting for the dev container to be ready. */
+  readyWait?: vscode.CancellationTokenSource;
+  process?: ChildProcess;
+  /** Turns the process's output that is not JSON into events. */
+  adapter?: OpenCodeAdapter;
+  /** Picks the run's events from the server's. */
+  serverEvents?: ServerEventMapper;
+  serverPrompt?: Promise<void>;
+}
+
 /**
  * Manages OpenCode child processes and exposes an event-driven
  * interface for the chat participant.
@@ -21,30 +88,97 @@ export type BridgeState = "idle" | "busy" | "error" | "stopped";
  * CRITICAL: In `local-with-remote-exec` mode the bridge creates a
  * shell wrapper (via {@link writeShellWrapper}) and sets `SHELL` on the
  * child process environment so that every tool call that spawns a
- * sub-shell is routed through `docker exec` into the devcontainer —
- * exactly matching the existing terminal-based flow in OpencodeRunner.
+ * sub-shell is routed through the container runtime's `exec` into the
+ * devcontainer — exactly matching the existing terminal-based flow in
+ * OpencodeRunner.
+ *
+ * With `bridgeTransport` set to `server` the bridge instead starts one
+ * `opencode serve` (with the same environment, on the host or in the
+ * container) and sends every prompt to it instead of starting a process.
+ *
+ * Prompts run side by side, up to `maxConcurrentRequests` at a time and
+ * queued beyond that. Every event carries the `requestId` of its prompt.
  */
 export class OpenCodeBridge implements vscode.Disposable {
-  private process: ChildProcess | null = null;
   private shellWrapperPath: string | undefined;
   private _state: BridgeState = "stopped";
-  private adapter: OpenCodeAdapter;
+
+  /** Prompts sent and not finished yet, by request id. */
+  private runs = new Map<string, PromptRun>();
+
+  /** Runs waiting for a free slot, oldest first. */
+  private queue: PromptRun[] = [];
 
   /** Pre-computed environment for local-with-remote-exec mode. */
   private preparedEnv: Record<string, string> | undefined;
 
+  /** The devcontainer's user and remoteEnv, resolved in {@link start}. */
+  private remoteExecOptions: ExecOptions = {};
+
+  /** Rewrites the shell wrapper for new exec options. */
+  private rewriteWrapper: ((remote: ExecOptions) => void) | undefined;
+
+  /** Variables to forward into the container, resolved in {@link start}. */
+  private forwardedEnv: Record<string, string> = {};
+
+  /** Host ↔ container path translation, resolved in {@link start}. */
+  private pathMapper: PathMapper | undefined;
+
+  /** Prompts for commands the command policy asks about. */
+  private approvals: CommandApprovalBroker | undefined;
+
+  /** Identifies this chat session's commands in the audit log. */
+  private sessionId = newSessionId("chat");
+
+  /** The `opencode serve` process when `bridgeTransport` is `server`. */
+  private server: OpenCodeServer | undefined;
+  private serverEvents: vscode.Disposable | undefined;
+
+  /**
+   * Sessions of cancelled server prompts, each with what resolves once
+   * the session is idle.
+   */
+  private aborting = new Map<ServerEventMapper, () => void>();
+
+  /** Aborts in progress by session; later prompts in the session wait for them. */
+  private serverAborts = new Map<string, Promise<void>>();
+
+  /** Container the bridge was prepared for. */
+  private preparedContainerId: string | undefined;
+  private containerListener: vscode.Disposable;
+  private execOptionsListener: vscode.Disposable;
+
   private readonly _onEvent = new vscode.EventEmitter<OpenCodeEvent>();
   public readonly onEvent = this._onEvent.event;
 
   private readonly _onStateChanged = new vscode.EventEmitter<BridgeState>();
   public readonly onStateChanged = this._onStateChanged.event;
 
-  constructor(private devcontainerManager: DevcontainerManager) {
-    this.adapter = new OpenCodeAdapter();
+  /** Fires with a request's id once it starts, after waiting for the container or a free slot. */
+  private readonly _onRequestStarted = new vscode.EventEmitter<string>();
+  public readonly onRequestStarted = this._onRequestStarted.event;
+
+  constructor(
+    private devcontainerManager: DevcontainerManager,
+    private envSecrets?: EnvSecretStore
+  ) {
+    // A rebuilt, recreated or removed container makes the prepared shell
+    // wrapper point at a container that no longer exists.
+    this.containerListener = devcontainerManager.onStateChanged(() => {
+      if (
+        this.preparedContainerId &&
+        this.devcontainerManager.containerId !== this.preparedContainerId
+      ) {
+        this.stop();
+      }
+    });
 
-    // Forward adapter events (used when JSON mode is unavailable).
-    this.adapter.onEvent((event) => {
-      this._onEvent.fire(event);
+    // A restarted credential relay listens on new sockets.
+    this.execOptionsListener = devcontainerManager.onRemoteExecOptionsChanged((remote) => {
+      if (this.preparedContainerId) {
+        this.remoteExecOptions = remote;
+        this.rewriteWrapper?.(remote);
+      }
     });
   }
 
@@ -68,23 +202,45 @@ export class OpenCodeBridge implements vscode.Disposable {
     if (this._state === "idle" || this._state === "busy") {
       return; // already prepared
     }
+    if (!requireWorkspaceTrust("run OpenCode")) {
+      this.setState("error");
+      return;
+    }
 
-    const config = getConfig();
+    const config = getConfig(this.devcontainerManager.workspaceFolder);
 
     if (config.executionMode === "in-container") {
-      this.prepareInContainer();
+      await this.prepareInContainer();
     } else {
-      this.prepareLocalWithRemoteExec();
+      await this.prepareLocalWithRemoteExec();
+    }
+
+    if (config.bridgeTransport === "server" && this.isRunning()) {
+      // One server runs the commands of every agent, so the shell wrapper
+      // cannot apply agent-specific rules; keep `opencode run` for those.
+      if (
+        config.executionMode === "local-with-remote-exec" &&
+        policyHasAgentRules(getCommandPolicy(config))
+      ) {
+        void vscode.window.showWarningMessage(
+          "The command policy has agent-specific rules, which the server transport cannot apply. " +
+            "Chat prompts use `opencode run` instead."
+        );
+      } else {
+        await this.startServer();
+      }
     }
   }
 
   stop(): void {
-    if (this.process) {
-      this.process.kill();
-      this.process = null;
-    }
+    this.queue = [];
+    this.cancelRequest();
+    this.stopServer();
     this.cleanupShellWrapper();
     this.preparedEnv = undefined;
+    this.forwardedEnv = {};
+    this.preparedContainerId = undefined;
+    this.pathMapper = undefined;
     this.setState("stopped");
   }
 
@@ -100,41 +256,147 @@ export class OpenCodeBridge implements vscode.Disposable {
   // -----------------------------------------------------------------------
 
   /**
-   * Send a prompt to OpenCode.
+   * Send a prompt to OpenCode and return its request id.
    *
    * Spawns `opencode run --format json -q "<prompt>"` as a new child
-   * process.  Events are streamed via {@link onEvent} until the process
-   * exits.
+   * process.  Events are streamed via {@link onEvent}, tagged with the
+   * request id, until the process exits.  The agent and model are passed
+   * as `--agent` and `--model`.
+   *
+   * With `session` the prompt continues that OpenCode session, so OpenCode
+   * remembers the earlier turns; otherwise a new session is started. The
+   * session the prompt ran in is reported with a `session` event.
+   *
+   * Prompts already running keep running. While `maxConcurrentRequests`
+   * of them are, the prompt waits for one to finish; while the dev
+   * container is still starting or running its lifecycle commands, it
+   * waits until the container is ready.
    */
-  sendPrompt(text: string, _agent?: string, references?: string[]): void {
-    // Kill any in-flight request.
-    if (this.process) {
-      this.process.kill();
-      this.process = null;
+  sendPrompt(text: string, options: PromptOptions = {}): string {
+    const run: PromptRun = {
+      id: options.requestId ?? newRequestId(),
+      text: this.buildPromptText(text, options.references),
+      agent: options.agent,
+      model: options.model,
+      session: options.session,
+      started: false,
+      done: false,
+    };
+    this.runs.set(run.id, run);
+    this.setState("busy");
+
+    const managerState = this.devcontainerManager.state;
+    if (managerState === "starting" || managerState === "initializing") {
+      this.waitForContainer(run);
+    } else {
+      this.schedule(run);
     }
+    return run.id;
+  }
 
-    const promptText = this.buildPromptText(text, references);
-    const config = getConfig();
+  private waitForContainer(run: PromptRun): void {
+    const wait = new vscode.CancellationTokenSource();
+    run.readyWait = wait;
+    this.emit(run, {
+      type: "status",
+      message: "Waiting for the dev container's lifecycle commands to finish...",
+      agent: "system",
+    });
 
-    if (config.executionMode === "in-container") {
-      this.spawnInContainer(promptText);
+    void this.devcontainerManager.whenReady(wait.token).then((ready) => {
+      if (wait.token.isCancellationRequested) {
+        return;
+      }
+      run.readyWait = undefined;
+      wait.dispose();
+      if (ready) {
+        this.schedule(run);
+      } else {
+        this.emit(run, { type: "error", message: "Dev container is not running." });
+        this.endRun(run);
+      }
+    });
+  }
+
+  /** Start a run, or queue it while the concurrency limit is reached. */
+  private schedule(run: PromptRun): void {
+    const running = this.startedRuns();
+    if (running < this.maxConcurrentRequests()) {
+      this.launch(run);
+      return;
+    }
+    this.queue.push(run);
+    this.emit(run, {
+      type: "status",
+      message: `Waiting for ${running === 1 ? "another request" : `${running} other requests`} to finish...`,
+      agent: "system",
+    });
+  }
+
+  private launch(run: PromptRun): void {
+    const config = getConfig(this.devcontainerManager.workspaceFolder);
+    run.started = true;
+    this._onRequestStarted.fire(run.id);
+
+    if (this.server) {
+      void this.promptServer(run);
+    } else if (config.executionMode === "in-container") {
+      this.spawnInContainer(run);
     } else {
-      this.spawnLocalWithRemoteExec(promptText);
+      this.spawnLocalWithRemoteExec(run);
     }
+  }
 
-    this.setState("busy");
+  /**
+   * Cancel a request, or all of them without `requestId`: a queued one is
+   * dropped, a process killed and a server prompt aborted. A cancelled
+   * request emits no further events.
+   */
+  cancelRequest(requestId?: string): void {
+    const runs = requestId ? [this.runs.get(requestId)] : [...this.runs.values()];
+    for (const run of runs) {
+      if (!run) {
+        continue;
+      }
+      if (run.serverEvents) {
+        void this.abortServerRun(run);
+      }
+      run.process?.kill();
+      this.endRun(run);
+    }
+  }
+
+  /** Forget a finished or cancelled run and start the next queued one. */
+  private endRun(run: PromptRun): void {
+    if (!this.runs.has(run.id)) {
+      return;
+    }
+    // Flushes text the adapter still holds.
+    run.adapter?.dispose();
+    this.runs.delete(run.id);
+    run.readyWait?.cancel();
+    run.readyWait?.dispose();
+    this.queue = this.queue.filter((queued) => queued !== run);
+
+    while (this.queue.length > 0 && this.startedRuns() < this.maxConcurrentRequests()) {
+      this.launch(this.queue.shift()!);
+    }
+    this.settle();
   }
 
-  cancelCurrentRequest(): void {
-    if (this.process) {
-      this.process.kill();
-      // handleExit will fire and emit an error/done event.
+  /** Back to idle once every run answered. */
+  private settle(): void {
+    if (this._state === "busy" && [...this.runs.values()].every((run) => run.done)) {
+      this.setState("idle");
     }
   }
 
-  sendConfig(_agent: string, _provider: string, _model: string): void {
-    // No-op: per-prompt spawning does not support mid-session config
-    // changes.  Agent selection is handled via the prompt arguments.
+  private startedRuns(): number {
+    return [...this.runs.values()].filter((run) => run.started).length;
+  }
+
+  private maxConcurrentRequests(): number {
+    return Math.max(1, getConfig(this.devcontainerManager.workspaceFolder).maxConcurrentRequests);
   }
 
   // -----------------------------------------------------------------------
@@ -147,8 +409,8 @@ export class OpenCodeBridge implements vscode.Disposable {
    * Validates the container, creates the shell wrapper, and caches the
    * environment variables so that each per-prompt spawn is fast.
    */
-  private prepareLocalWithRemoteExec(): void {
-    const config = getConfig();
+  private async prepareLocalWithRemoteExec(): Promise<void> {
+    const config = getConfig(this.devcontainerManager.workspaceFolder);
     const containerId = this.devcontainerManager.containerId;
     const remoteWorkspace = this.devcontainerManager.remoteWorkspaceFolder;
 
@@ -162,33 +424,74 @@ export class OpenCodeBridge implements vscode.Disposable {
     }
 
     // Resolve env vars to forward into the container.
-    const envToForward = this.resolveForwardedEnvVars();
+    const envToForward = await resolveForwardedEnv(
+      this.devcontainerManager.workspaceFolder,
+      this.envSecrets
+    );
+    this.forwardedEnv = envToForward;
+
+    // Commands run where the host workspace is mounted, which is the
+    // container's workspace folder unless that is a subdirectory of it.
+    this.pathMapper = await this.devcontainerManager.getPathMapper();
+    const containerWorkspace =
+      this.pathMapper.toContainer(this.devcontainerManager.workspaceFolder) ?? remoteWorkspace;
+
+    const policy = getCommandPolicy(config);
+    this.cleanupShellWrapper();
+    this.approvals = policyAsks(policy) ? new CommandApprovalBroker() : undefined;
 
     // Create the shell wrapper — CRITICAL for routing tool calls.
-    this.shellWrapperPath = writeShellWrapper(
+    this.remoteExecOptions = await this.devcontainerManager.getRemoteExecOptions();
+    const wrapperOptions = {
+      hostWorkspaceFolder: this.devcontainerManager.workspaceFolder,
+      shell: await this.devcontainerManager.getContainerShell(),
+      auditLog: this.devcontainerManager.auditLog?.file,
+      policy,
+      approvalDir: this.approvals?.dir,
+      routes: config.commandRouting,
+    };
+    const wrapperPath = writeShellWrapper(
       containerId,
-      remoteWorkspace,
-      envToForward
+      containerWorkspace,
+      Object.keys(envToForward),
+      this.remoteExecOptions,
+      wrapperOptions
     );
+    this.shellWrapperPath = wrapperPath;
+    this.rewriteWrapper = (remote) =>
+      rewriteShellWrapper(
+        wrapperPath,
+        containerId,
+        containerWorkspace,
+        Object.keys(envToForward),
+        remote,
+        wrapperOptions
+      );
 
     this.preparedEnv = {
       ...process.env as Record<string, string>,
+      ...getContainerRuntime().hostEnv(),
       SHELL: this.shellWrapperPath,
       OPENCODE_DEVCONTAINER: "1",
       OPENCODE_DEVCONTAINER_ID: containerId,
       OPENCODE_WORKSPACE_FOLDER: remoteWorkspace,
+      OPENCODE_DEVCONTAINER_SESSION: this.sessionId,
+      // Passed on by the wrapper by name, see createShellWrapper
+      ...envToForward,
       ...config.additionalEnvVars,
     };
 
+    this.preparedContainerId = containerId;
     this.setState("idle");
   }
 
   /**
    * Prepare in-container mode.
    *
-   * Just validates that the container ID is available.
+   * Validates that the container ID is available and resolves the user and
+   * environment to exec with.
    */
-  private prepareInContainer(): void {
+  private async prepareInContainer(): Promise<void> {
     const containerId = this.devcontainerManager.containerId;
 
     if (!containerId) {
@@ -200,6 +503,13 @@ export class OpenCodeBridge implements vscode.Disposable {
       return;
     }
 
+    this.remoteExecOptions = await this.devcontainerManager.getRemoteExecOptions();
+    this.pathMapper = await this.devcontainerManager.getPathMapper();
+    this.forwardedEnv = await resolveForwardedEnv(
+      this.devcontainerManager.workspaceFolder,
+      this.envSecrets
+    );
+    this.preparedContainerId = containerId;
     this.setState("idle");
   }
 
@@ -207,54 +517,208 @@ export class OpenCodeBridge implements vscode.Disposable {
   // Per-prompt spawn strategies
   // -----------------------------------------------------------------------
 
-  private spawnLocalWithRemoteExec(prompt: string): void {
-    const config = getConfig();
-    const workspaceFolder = getWorkspaceFolder();
+  private spawnLocalWithRemoteExec(run: PromptRun): void {
+    const workspaceFolder = this.devcontainerManager.workspaceFolder;
+    const config = getConfig(workspaceFolder);
 
-    const args = ["run", "--format", "json", "-q", prompt];
+    const args = ["run", "--format", "json", "-q", ...this.promptArgs(run), run.text];
 
-    this.spawnProcess(config.opencodePath, args, {
+    this.spawnProcess(run, config.opencodePath, args, {
       cwd: workspaceFolder,
-      env: this.preparedEnv,
+      env: this.preparedEnv && {
+        ...this.preparedEnv,
+        ...(run.agent ? { OPENCODE_DEVCONTAINER_AGENT: run.agent } : {}),
+      },
     });
   }
 
-  private spawnInContainer(prompt: string): void {
-    const config = getConfig();
+  private spawnInContainer(run: PromptRun): void {
     const containerId = this.devcontainerManager.containerId;
     const remoteWorkspace =
       this.devcontainerManager.remoteWorkspaceFolder || "/workspaces";
 
     if (!containerId) {
-      this._onEvent.fire({
+      this.emit(run, {
         type: "error",
         message: "Dev container is not running.",
       });
+      this.endRun(run);
       return;
     }
 
-    const envToForward = this.resolveForwardedEnvVars();
-    const envFlags: string[] = [];
-    for (const [key, value] of Object.entries(envToForward)) {
-      envFlags.push("-e", `${key}=${value}`);
+    // Forwarded variables are passed by name, keeping their values out of
+    // the process list.
+    const runtime = getContainerRuntime();
+    const forwarded = this.forwardedEnv;
+    const args = runtime.execArgs(
+      containerId,
+      ["opencode", "run", "--format", "json", "-q", ...this.promptArgs(run), run.text],
+      {
+        ...this.remoteExecOptions,
+        interactive: true,
+        workdir: remoteWorkspace,
+        inheritEnv: Object.keys(forwarded),
+      }
+    );
+
+    this.spawnProcess(run, runtime.cliPath, args, {
+      env: { ...(process.env as Record<string, string>), ...runtime.hostEnv(), ...forwarded },
+    });
+  }
+
+  // -----------------------------------------------------------------------
+  // Server transport
+  // -----------------------------------------------------------------------
+
+  /**
+   * Start `opencode serve` where `opencode run` would run — on the host
+   * with the shell wrapper, or in the container with its port forwarded —
+   * and subscribe to its events.
+   */
+  private async startServer(): Promise<void> {
+    const workspaceFolder = this.devcontainerManager.workspaceFolder;
+    const config = getConfig(workspaceFolder);
+    const serveArgs = ["serve", "--hostname", "127.0.0.1", "--port", "0"];
+
+    let launch: ServerLaunch;
+    if (config.executionMode === "in-container") {
+      const runtime = getContainerRuntime();
+      launch = {
+        command: runtime.cliPath,
+        args: runtime.execArgs(
+          this.preparedContainerId!,
+          ["sh", "-c", STOP_WITH_STDIN, "sh", "opencode", ...serveArgs],
+          {
+            ...this.remoteExecOptions,
+            interactive: true,
+            workdir: this.devcontainerManager.remoteWorkspaceFolder || "/workspaces",
+            inheritEnv: Object.keys(this.forwardedEnv),
+          }
+        ),
+        env: { ...(process.env as Record<string, string>), ...runtime.hostEnv(), ...this.forwardedEnv },
+        containerId: this.preparedContainerId,
+        execOptions: this.remoteExecOptions,
+      };
+    } else {
+      launch = {
+        command: config.opencodePath,
+        args: serveArgs,
+        cwd: workspaceFolder,
+        env: this.preparedEnv,
+      };
     }
 
-    const args = [
-      "exec",
-      "-i",
-      "-w",
-      remoteWorkspace,
-      ...envFlags,
-      containerId,
-      "opencode",
-      "run",
-      "--format",
-      "json",
-      "-q",
-      prompt,
-    ];
+    try {
+      const server = await OpenCodeServer.start(launch, (code) => {
+        if (this.server === server) {
+          this._onEvent.fire({ type: "error", message: `OpenCode server exited with code ${code}` });
+          this.stop();
+        }
+      });
+      this.server = server;
+      this.serverEvents = server.client.subscribe(
+        (event) => this.handleServerEvent(event),
+        () => {
+          if (this.server === server) {
+            this._onEvent.fire({ type: "error", message: "Lost the connection to the OpenCode server." });
+            this.stop();
+          }
+        }
+      );
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      this.stop();
+      this.setState("error");
+      this._onEvent.fire({ type: "error", message: `Failed to start the OpenCode server: ${message}` });
+    }
+  }
+
+  /** Send a run's prompt to the server, in its session or a new one. */
+  private async promptServer(run: PromptRun): Promise<void> {
+    const server = this.server!;
+    try {
+      if (run.session) {
+        await this.serverAborts.get(run.session);
+      }
+      const session = run.session ?? (await server.client.createSession());
+      if (!this.runs.has(run.id)) {
+        return;
+      }
+      run.serverEvents = new ServerEventMapper(session, (args) => this.toolHostPath(args));
+      this.reportSession(run, session);
+      run.serverPrompt = server.client.prompt(session, run.text, {
+        agent: run.agent,
+        model: run.model,
+      });
+      await run.serverPrompt;
+    } catch (err) {
+      // Failures of a cancelled prompt, or of a stopped server, are expected.
+      if (this.server === server && this.runs.has(run.id)) {
+        this.emit(run, {
+          type: "error",
+          message: err instanceof Error ? err.message : String(err),
+        });
+        this.endRun(run);
+      }
+    }
+  }
+
+  /**
+   * Abort a cancelled run's server prompt. Until its session is idle,
+   * later prompts in the session wait, so the events it still sends are
+   * not taken for theirs.
+   */
+  private async abortServerRun(run: PromptRun): Promise<void> {
+    const server = this.server;
+    const mapper = run.serverEvents;
+    if (!server || !mapper) {
+      return;
+    }
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const idle = new Promise<void>((resolve) => {
+      this.aborting.set(mapper, resolve);
+      timer = setTimeout(resolve, ABORT_TIMEOUT);
+    });
+    const aborted = (async () => {
+      await server.client.abort(mapper.sessionId).catch(() => undefined);
+      await Promise.all([run.serverPrompt?.catch(() => undefined), idle]);
+      clearTimeout(timer);
+      this.aborting.delete(mapper);
+    })();
+    this.serverAborts.set(mapper.sessionId, aborted);
+    await aborted;
+    if (this.serverAborts.get(mapper.sessionId) === aborted) {
+      this.serverAborts.delete(mapper.sessionId);
+    }
+  }
+
+  private handleServerEvent(event: ServerEvent): void {
+    // Cancelled prompts' events are dropped until their session is idle.
+    for (const [mapper, idle] of this.aborting) {
+      if (mapper.map(event).some((mapped) => mapped.type === "done")) {
+        idle();
+      }
+    }
+    for (const run of [...this.runs.values()]) {
+      for (const mapped of run.serverEvents?.map(event) ?? []) {
+        this.emit(run, mapped);
+        if (mapped.type === "done") {
+          this.endRun(run);
+        }
+      }
+    }
+  }
 
-    this.spawnProcess(config.dockerPath, args, {});
+  private stopServer(): void {
+    this.serverEvents?.dispose();
+    this.serverEvents = undefined;
+    this.server?.dispose();
+    this.server = undefined;
+    for (const idle of this.aborting.values()) {
+      idle();
+    }
+    this.aborting.clear();
+    this.serverAborts.clear();
   }
 
   // -----------------------------------------------------------------------
@@ -262,35 +726,45 @@ export class OpenCodeBridge implements vscode.Disposable {
   // -----------------------------------------------------------------------
 
   private spawnProcess(
+    run: PromptRun,
     command: string,
     args: string[],
     options: { cwd?: string; env?: Record<string, string> }
   ): void {
-    this.process = spawn(command, args, {
+    const child = spawn(command, args, {
       cwd: options.cwd,
       env: options.env,
       stdio: ["pipe", "pipe", "pipe"],
     });
+    run.process = child;
+
+    // Used when JSON mode is unavailable.
+    run.adapter = new OpenCodeAdapter();
+    run.adapter.onEvent((event) => this.emit(run, event));
 
     // --- stdout: line-delimited JSON events --------------------------
-    const rl = createInterface({ input: this.process.stdout! });
-    rl.on("line", (line) => this.handleStdoutLine(line));
+    const rl = createInterface({ input: child.stdout! });
+    rl.on("line", (line) => this.handleStdoutLine(run, line));
 
     // --- stderr: informational / errors ------------------------------
-    this.process.stderr?.on("data", (data: Buffer) =>
-      this.handleStderr(data.toString("utf-8"))
+    child.stderr?.on("data", (data: Buffer) =>
+      this.handleStderr(run, data.toString("utf-8"))
     );
 
     // --- exit --------------------------------------------------------
-    this.process.on("exit", (code) => this.handleExit(code));
+    child.on("exit", (code) => this.handleExit(run, code));
 
-    this.process.on("error", (err) => {
-      this._onEvent.fire({ type: "error", message: err.message });
-      this.setState("error");
+    child.on("error", (err) => {
+      if (!this.runs.has(run.id)) {
+        return;
+      }
+      // Only this run failed; the bridge and other requests carry on.
+      this.emit(run, { type: "error", message: err.message });
+      this.endRun(run);
     });
   }
 
-  private handleStdoutLine(line: string): void {
+  private handleStdoutLine(run: PromptRun, line: string): void {
     const trimmed = line.trim();
     if (!trimmed) {
       return;
@@ -300,13 +774,13 @@ export class OpenCodeBridge implements vscode.Disposable {
     if (trimmed.startsWith("{")) {
       try {
         const raw = JSON.parse(trimmed) as Record<string, unknown>;
+        if (raw && typeof raw.sessionID === "string") {
+          this.reportSession(run, raw.sessionID);
+        }
         if (raw && typeof raw.type === "string") {
           const event = this.mapEvent(raw);
           if (event) {
-            if (event.type === "done") {
-              this.setState("idle");
-            }
-            this._onEvent.fire(event);
+            this.emit(run, event);
             return;
           }
         }
@@ -316,7 +790,7 @@ export class OpenCodeBridge implements vscode.Disposable {
     }
 
     // Fall back to the adapter for non-JSON output.
-    this.adapter.processLine(trimmed);
+    run.adapter?.processLine(trimmed);
   }
 
   /**
@@ -359,13 +833,17 @@ export class OpenCodeBridge implements vscode.Disposable {
           message: (raw.message ?? "Unknown error") as string,
         };
 
-      case "tool_start":
+      case "tool_start": {
+        const args = (raw.args ?? {}) as Record<string, unknown>;
+        const hostPath = this.toolHostPath(args);
         return {
           type: "tool_start",
           tool: (raw.tool ?? raw.name ?? "unknown") as string,
-          args: (raw.args ?? {}) as Record<string, unknown>,
+          args,
           subagentId: raw.subagentId as string | undefined,
+          ...(hostPath ? { hostPath } : {}),
         };
+      }
 
       case "tool_end":
         return {
@@ -416,7 +894,7 @@ export class OpenCodeBridge implements vscode.Disposable {
     }
   }
 
-  private handleStderr(data: string): void {
+  private handleStderr(run: PromptRun, data: string): void {
     const trimmed = data.trim();
     if (!trimmed) {
       return;
@@ -426,9 +904,9 @@ export class OpenCodeBridge implements vscode.Disposable {
     // messages to stderr.  Only treat lines that look like genuine errors
     // as error events — everything else is surfaced as status.
     if (this.isStderrError(trimmed)) {
-      this._onEvent.fire({ type: "error", message: trimmed });
+      this.emit(run, { type: "error", message: trimmed });
     } else {
-      this._onEvent.fire({
+      this.emit(run, {
         type: "status",
         message: trimmed,
         agent: "system",
@@ -445,30 +923,61 @@ export class OpenCodeBridge implements vscode.Disposable {
     );
   }
 
-  private handleExit(code: number | null): void {
-    this.process = null;
+  private handleExit(run: PromptRun, code: number | null): void {
+    if (!this.runs.has(run.id)) {
+      return; // cancelled
+    }
+    run.adapter?.dispose();
+    run.adapter = undefined;
 
     if (code === 0 || code === null) {
-      // Normal completion.  Emit "done" only if one hasn't already been
-      // emitted by the NDJSON stream (which would have set state to "idle").
-      if (this._state === "busy") {
-        this._onEvent.fire({ type: "done", agent: "default" });
+      // Normal completion.  Emit "done" only if the NDJSON stream hasn't.
+      if (!run.done) {
+        this.emit(run, { type: "done", agent: "default" });
       }
-      this.setState("idle");
     } else {
-      this._onEvent.fire({
+      this.emit(run, {
         type: "error",
         message: `OpenCode exited with code ${code}`,
       });
-      // Stay idle so the bridge can accept the next prompt.
-      this.setState("idle");
     }
+    // Frees the slot; the bridge stays idle to accept the next prompt.
+    this.endRun(run);
   }
 
   // -----------------------------------------------------------------------
   // Helpers
   // -----------------------------------------------------------------------
 
+  /** `opencode run` arguments selecting the prompt's agent, model and session. */
+  private promptArgs(run: PromptRun): string[] {
+    return [
+      ...(run.agent ? ["--agent", run.agent] : []),
+      ...(run.model ? ["--model", run.model] : []),
+      ...(run.session ? ["--session", run.session] : []),
+    ];
+  }
+
+  /** Report the OpenCode session of a run once known. */
+  private reportSession(run: PromptRun, session: string): void {
+    if (session !== run.session) {
+      run.session = session;
+      this.emit(run, { type: "session", id: session });
+    }
+  }
+
+  /** Fire an event of a run that was not cancelled, tagged with its request id. */
+  private emit(run: PromptRun, event: OpenCodeEvent): void {
+    if (!this.runs.has(run.id)) {
+      return;
+    }
+    if (event.type === "done") {
+      run.done = true;
+      this.settle();
+    }
+    this._onEvent.fire({ ...event, requestId: run.id });
+  }
+
   /**
    * Build the full prompt text, prepending any file references so that
    * OpenCode can see them as context.
@@ -480,50 +989,54 @@ export class OpenCodeBridge implements vscode.Disposable {
     if (!references || references.length === 0) {
       return text;
     }
-    const refList = references.map((r) => `@${r}`).join(" ");
+    // In-container OpenCode only sees the container's filesystem.
+    const inContainer =
+      getConfig(this.devcontainerManager.workspaceFolder).executionMode === "in-container";
+    const refList = references
+      .map((r) => `@${(inContainer && this.pathMapper?.toContainer(r)) || r}`)
+      .join(" ");
     return `${refList}\n\n${text}`;
   }
 
+  /**
+   * The host file a tool call works on, from its `filePath` / `path`
+   * argument. In-container OpenCode reports container paths, which are
+   * translated back through the container's mounts.
+   */
+  private toolHostPath(args: Record<string, unknown>): string | undefined {
+    const toolPath = args.filePath ?? args.path;
+    if (typeof toolPath !== "string" || !toolPath) {
+      return undefined;
+    }
+    const workspaceFolder = this.devcontainerManager.workspaceFolder;
+    if (getConfig(workspaceFolder).executionMode !== "in-container") {
+      return path.resolve(workspaceFolder, toolPath);
+    }
+    const remoteWorkspace = this.devcontainerManager.remoteWorkspaceFolder || "/workspaces";
+    return this.pathMapper?.toHost(path.posix.resolve(remoteWorkspace, toolPath));
+  }
+
   private setState(state: BridgeState): void {
     this._state = state;
     this._onStateChanged.fire(state);
   }
 
-  /** Forward env vars matching configured patterns into the container. */
-  private resolveForwardedEnvVars(): Record<string, string> {
-    const config = getConfig();
-    const result: Record<string, string> = {};
-
-    for (const pattern of config.forwardEnvVars) {
-      if (pattern.includes("*")) {
-        const prefix = pattern.replace("*", "");
-        for (const [key, value] of Object.entries(process.env)) {
-          if (key.startsWith(prefix) && value !== undefined) {
-            result[key] = value;
-          }
-        }
-      } else {
-        const value = process.env[pattern];
-        if (value !== undefined) {
-          result[pattern] = value;
-        }
-      }
-    }
-
-    return result;
-  }
-
   private cleanupShellWrapper(): void {
     if (this.shellWrapperPath) {
       removeShellWrapper(this.shellWrapperPath);
       this.shellWrapperPath = undefined;
     }
+    this.rewriteWrapper = undefined;
+    this.approvals?.dispose();
+    this.approvals = undefined;
   }
 
   dispose(): void {
     this.stop();
-    this.adapter.dispose();
+    this.containerListener.dispose();
+    this.execOptionsListener.dispose();
     this._onEvent.dispose();
     this._onStateChanged.dispose();
+    this._onRequestStarted.dispose();
   }
 }
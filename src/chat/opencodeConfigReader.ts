@@ -57,7 +57,7 @@ const BUILTIN_AGENTS: Record<string, AgentConfig> = {
  * components. If there is no `/`, the whole string is treated as the model
  * and the provider defaults to `"unknown"`.
  */
-function parseModelString(raw: string): { provider: string; model: string } {
+export function parseModelString(raw: string): { provider: string; model: string } {
   const idx = raw.indexOf("/");
   if (idx > 0) {
     return { provider: raw.substring(0, idx), model: raw.substring(idx + 1) };
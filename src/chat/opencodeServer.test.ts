@@ -0,0 +1,282 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { __resetMocks } from "../__mocks__/vscode";
+import { StubOpenCodeServer, defaultReply } from "../__mocks__/opencodeServer";
+import { OpenCodeEvent } from "./types";
+import {
+  OpenCodeServer,
+  OpenCodeServerClient,
+  ServerEvent,
+  ServerEventMapper,
+} from "./opencodeServer";
+
+const portForward = vi.hoisted(() => ({ start: vi.fn() }));
+
+vi.mock("../execPortForward", () => ({ ExecPortForward: { start: portForward.start } }));
+
+beforeEach(() => {
+  __resetMocks();
+  portForward.start.mockReset();
+});
+
+function mapAll(mapper: ServerEventMapper, events: ServerEvent[]): OpenCodeEvent[] {
+  return events.flatMap((event) => mapper.map(event));
+}
+
+// ---------------------------------------------------------------------------
+// ServerEventMapper
+// ---------------------------------------------------------------------------
+
+describe("ServerEventMapper", () => {
+  const hostPath = (args: Record<string, unknown>) =>
+    typeof args.filePath === "string" ? `/host/${args.filePath}` : undefined;
+
+  it("maps a reply to text deltas, tool calls and done, skipping the user message", () => {
+    const mapper = new ServerEventMapper("ses_1", hostPath);
+
+    expect(mapAll(mapper, defaultReply("ses_1", "hi"))).toEqual([
+      { type: "text", content: "Hello", agent: "build" },
+      { type: "text", content: " there", agent: "build" },
+      { type: "tool_start", tool: "bash", args: { command: "ls" }, subagentId: undefined },
+      { type: "tool_end", tool: "bash", result: "README.md", subagentId: undefined },
+      { type: "done", agent: "default" },
+    ]);
+  });
+
+  it("ignores other sessions", () => {
+    const mapper = new ServerEventMapper("ses_1", hostPath);
+    expect(mapAll(mapper, defaultReply("ses_2", "hi"))).toEqual([]);
+  });
+
+  it("derives text deltas when the server sends none", () => {
+    const mapper = new ServerEventMapper("ses_1", hostPath);
+    const part = { id: "p", sessionID: "ses_1", messageID: "m", type: "text" };
+
+    expect(
+      mapAll(mapper, [
+        { type: "message.part.updated", properties: { part: { ...part, text: "Hel" } } },
+        { type: "message.part.updated", properties: { part: { ...part, text: "Hello" } } },
+        { type: "message.part.updated", properties: { part: { ...part, text: "Hello" } } },
+      ])
+    ).toEqual([
+      { type: "text", content: "Hel", agent: "default" },
+      { type: "text", content: "lo", agent: "default" },
+    ]);
+  });
+
+  it("reports a tool that finished before it was seen running, with its host file", () => {
+    const mapper = new ServerEventMapper("ses_1", hostPath);
+    const events = mapper.map({
+      type: "message.part.updated",
+      properties: {
+        part: {
+          sessionID: "ses_1",
+          messageID: "m",
+          type: "tool",
+          callID: "c",
+          tool: "read",
+          state: { status: "error", input: { filePath: "a.ts" }, error: "not found" },
+        },
+      },
+    });
+
+    expect(events).toEqual([
+      { type: "tool_start", tool: "read", args: { filePath: "a.ts" }, subagentId: undefined, hostPath: "/host/a.ts" },
+      { type: "tool_end", tool: "read", result: "not found", subagentId: undefined },
+    ]);
+  });
+
+  it("maps child sessions to subagents", () => {
+    const mapper = new ServerEventMapper("ses_1", hostPath);
+
+    expect(
+      mapAll(mapper, [
+        { type: "session.created", properties: { info: { id: "ses_c", parentID: "ses_1", title: "explore" } } },
+        { type: "session.updated", properties: { info: { id: "ses_c", parentID: "ses_1", title: "explore" } } },
+        {
+          type: "message.part.updated",
+          properties: {
+            part: {
+              sessionID: "ses_c",
+              messageID: "m",
+              type: "tool",
+              callID: "c",
+              tool: "grep",
+              state: { status: "running", input: { pattern: "x" } },
+            },
+          },
+        },
+        { type: "session.idle", properties: { sessionID: "ses_c" } },
+      ])
+    ).toEqual([
+      { type: "subagent_start", id: "ses_c", name: "explore", parent: "default" },
+      { type: "tool_start", tool: "grep", args: { pattern: "x" }, subagentId: "ses_c" },
+      { type: "subagent_end", id: "ses_c", status: "completed" },
+    ]);
+  });
+
+  it("reports session errors but not aborts", () => {
+    const mapper = new ServerEventMapper("ses_1", hostPath);
+
+    expect(
+      mapAll(mapper, [
+        {
+          type: "session.error",
+          properties: { sessionID: "ses_1", error: { name: "MessageAbortedError", data: {} } },
+        },
+        {
+          type: "session.error",
+          properties: { sessionID: "ses_1", error: { name: "ProviderAuthError", data: { message: "bad key" } } },
+        },
+      ])
+    ).toEqual([{ type: "error", message: "bad key" }]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// OpenCodeServerClient
+// ---------------------------------------------------------------------------
+
+describe("OpenCodeServerClient", () => {
+  let stub: StubOpenCodeServer;
+
+  beforeEach(async () => {
+    stub = new StubOpenCodeServer();
+    await stub.start();
+  });
+
+  afterEach(async () => {
+    await stub.close();
+  });
+
+  it("creates sessions, prompts and streams the events", async () => {
+    const client = new OpenCodeServerClient(stub.url);
+    const events: ServerEvent[] = [];
+    const subscription = client.subscribe((event) => events.push(event), vi.fn());
+    await stub.subscribed();
+
+    const sessionId = await client.createSession();
+    await client.prompt(sessionId, "hi", { agent: "plan", model: "openai/gpt-5" });
+    await vi.waitFor(() => expect(events.at(-1)?.type).toBe("session.idle"));
+    subscription.dispose();
+
+    expect(stub.prompts).toEqual([
+      {
+        sessionId: "ses_1",
+        body: {
+          parts: [{ type: "text", text: "hi" }],
+          agent: "plan",
+          model: { providerID: "openai", modelID: "gpt-5" },
+        },
+      },
+    ]);
+    expect(events[0]).toEqual({ type: "server.connected", properties: {} });
+    expect(events.map((e) => e.type)).toContain("message.part.updated");
+  });
+
+  it("aborts a session", async () => {
+    const client = new OpenCodeServerClient(stub.url);
+    await client.abort(await client.createSession());
+    expect(stub.aborted).toEqual(["ses_1"]);
+  });
+
+  it("rejects failed requests", async () => {
+    const client = new OpenCodeServerClient(stub.url);
+    await expect(client.prompt("ses_missing", "hi")).rejects.toThrow("failed with 404");
+  });
+
+  it("reports the end of the event stream", async () => {
+    const client = new OpenCodeServerClient(stub.url);
+    const onClose = vi.fn();
+    client.subscribe(vi.fn(), onClose);
+    await stub.subscribed();
+
+    await stub.close();
+
+    await vi.waitFor(() => expect(onClose).toHaveBeenCalledOnce());
+  });
+});
+
+// ---------------------------------------------------------------------------
+// OpenCodeServer
+// ---------------------------------------------------------------------------
+
+describe("OpenCodeServer", () => {
+  it("waits for the server to listen", async () => {
+    const server = await OpenCodeServer.start(
+      {
+        command: process.execPath,
+        args: ["-e", 'console.log("opencode server listening on http://127.0.0.1:4096"); setInterval(() => {}, 1000)'],
+      },
+      vi.fn()
+    );
+    try {
+      expect(server.client.baseUrl).toBe("http://127.0.0.1:4096");
+    } finally {
+      server.dispose();
+    }
+  });
+
+  it("fails with the server's error output", async () => {
+    await expect(
+      OpenCodeServer.start(
+        {
+          command: process.execPath,
+          args: ["-e", 'console.error("Error: port in use"); process.exit(1)'],
+        },
+        vi.fn()
+      )
+    ).rejects.toThrow("Error: port in use");
+  });
+
+  it("keeps only the tail of the server's error output", async () => {
+    const error = await OpenCodeServer.start(
+      {
+        command: process.execPath,
+        args: ["-e", 'console.error("x".repeat(100000) + "\\nError: port in use"); process.exit(1)'],
+      },
+      vi.fn()
+    ).catch((err: Error) => err);
+
+    expect(error).toBeInstanceOf(Error);
+    expect((error as Error).message).toMatch(/^x+\nError: port in use$/);
+    expect((error as Error).message.length).toBeLessThanOrEqual(4096);
+  });
+
+  it("fails when the server exits while its port is being forwarded", async () => {
+    const forward = { port: 5000, dispose: vi.fn() };
+    let forwardStarted!: () => void;
+    portForward.start.mockReturnValue(
+      new Promise((resolve) => (forwardStarted = () => resolve(forward)))
+    );
+    const onExit = vi.fn();
+
+    await expect(
+      OpenCodeServer.start(
+        {
+          command: process.execPath,
+          args: ["-e", 'console.log("listening on http://127.0.0.1:4096"); setTimeout(() => process.exit(3), 20)'],
+          containerId: "abc123",
+        },
+        onExit
+      )
+    ).rejects.toThrow("OpenCode server exited with code 3");
+
+    forwardStarted();
+    await vi.waitFor(() => expect(forward.dispose).toHaveBeenCalled());
+    expect(onExit).not.toHaveBeenCalled();
+  });
+
+  it("reports an unexpected exit", async () => {
+    const onExit = vi.fn();
+    const server = await OpenCodeServer.start(
+      {
+        command: process.execPath,
+        args: ["-e", 'console.log("listening on http://127.0.0.1:4096"); setTimeout(() => process.exit(3), 50)'],
+      },
+      onExit
+    );
+
+    await vi.waitFor(() => expect(onExit).toHaveBeenCalledWith(3));
+    server.dispose();
+  });
+});
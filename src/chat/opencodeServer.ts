@@ -0,0 +1,432 @@
+import * as vscode from "vscode";
+import * as http from "http";
+import { ChildProcess, spawn } from "child_process";
+import { createInterface } from "readline";
+import { ExecOptions } from "../containerRuntime";
+import { ExecPortForward } from "../execPortForward";
+import { OpenCodeEvent } from "./types";
+import { parseModelString } from "./opencodeConfigReader";
+
+/** How long `opencode serve` may take to start listening. */
+const START_TIMEOUT = 30000;
+
+/** How much of the server's latest stderr output is kept to explain an exit. */
+const STDERR_TAIL = 4096;
+
+/** An event on the OpenCode server's `/event` stream. */
+export interface ServerEvent {
+  type: string;
+  properties: Record<string, unknown>;
+}
+
+// ---------------------------------------------------------------------------
+// HTTP client
+// ---------------------------------------------------------------------------
+
+/**
+ * Talks to an `opencode serve` instance: sessions and prompts over its
+ * HTTP API, and everything that happens in them over the `/event`
+ * server-sent events stream.
+ */
+export class OpenCodeServerClient {
+  constructor(readonly baseUrl: string) {}
+
+  /** Create a session and return its id. */
+  async createSession(): Promise<string> {
+    const session = (await this.request("POST", "/session", {})) as { id: string };
+    return session.id;
+  }
+
+  /**
+   * Send a prompt to a session, optionally to another agent or model
+   * (`provider/model`). Resolves once OpenCode finished answering; the
+   * answer itself arrives on the event stream.
+   */
+  async prompt(
+    sessionId: string,
+    text: string,
+    options: { agent?: string; model?: string } = {}
+  ): Promise<void> {
+    const { provider, model } = options.model ? parseModelString(options.model) : {};
+    await this.request("POST", `/session/${encodeURIComponent(sessionId)}/message`, {
+      parts: [{ type: "text", text }],
+      ...(options.agent ? { agent: options.agent } : {}),
+      ...(model ? { model: { providerID: provider, modelID: model } } : {}),
+    });
+  }
+
+  /** Stop what a session is working on. */
+  async abort(sessionId: string): Promise<void> {
+    await this.request("POST", `/session/${encodeURIComponent(sessionId)}/abort`);
+  }
+
+  /**
+   * Stream the server's events until disposed. `onClose` is called when
+   * the server ends the stream.
+   */
+  subscribe(onEvent: (event: ServerEvent) => void, onClose: () => void): vscode.Disposable {
+    let closed = false;
+    const req = http.get(new URL("/event", this.baseUrl), (res) => {
+      let buffer = "";
+      res.setEncoding("utf-8");
+      res.on("data", (chunk: string) => {
+        buffer += chunk;
+        let end: number;
+        while ((end = buffer.indexOf("\n\n")) !== -1) {
+          const message = buffer.substring(0, end);
+          buffer = buffer.substring(end + 2);
+          const data = message
+            .split("\n")
+            .filter((line) => line.startsWith("data:"))
+            .map((line) => line.substring(5).trimStart())
+            .join("\n");
+          try {
+            const event = JSON.parse(data) as ServerEvent;
+            if (typeof event.type === "string") {
+              onEvent({ ...event, properties: event.properties ?? {} });
+            }
+          } catch {
+            // Comment or keep-alive
+          }
+        }
+      });
+      res.on("close", () => {
+        if (!closed) {
+          closed = true;
+          onClose();
+        }
+      });
+    });
+    req.on("error", () => {
+      if (!closed) {
+        closed = true;
+        onClose();
+      }
+    });
+    return {
+      dispose: () => {
+        closed = true;
+        req.destroy();
+      },
+    };
+  }
+
+  private request(method: string, path: string, body?: unknown): Promise<unknown> {
+    return new Promise((resolve, reject) => {
+      const payload = body === undefined ? undefined : JSON.stringify(body);
+      const req = http.request(
+        new URL(path, this.baseUrl),
+        {
+          method,
+          headers: payload
+            ? { "Content-Type": "application/json", "Content-Length": Buffer.byteLength(payload) }
+            : {},
+        },
+        (res) => {
+          let text = "";
+          res.setEncoding("utf-8");
+          res.on("data", (chunk: string) => (text += chunk));
+          res.on("end", () => {
+            if ((res.statusCode ?? 500) >= 400) {
+              reject(new Error(`OpenCode server: ${method} ${path} failed with ${res.statusCode}: ${text}`));
+              return;
+            }
+            try {
+              resolve(text ? JSON.parse(text) : undefined);
+            } catch {
+              resolve(text);
+            }
+          });
+        }
+      );
+      req.on("error", reject);
+      req.end(payload);
+    });
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Event mapping
+// ---------------------------------------------------------------------------
+
+/**
+ * Turns the server's events for one session into {@link OpenCodeEvent}s.
+ *
+ * Text parts are reported as they grow, tool parts once they run and once
+ * they finish, and sessions the session spawned (the `task` tool) as
+ * subagents whose tool calls carry their session id.
+ */
+export class ServerEventMapper {
+  private readonly userMessages = new Set<string>();
+  private readonly messageAgents = new Map<string, string>();
+  private readonly partText = new Map<string, string>();
+  private readonly startedTools = new Set<string>();
+  private readonly subagents = new Set<string>();
+
+  /**
+   * @param toolHostPath The host file a tool call works on, see the
+   *   `hostPath` of `tool_start`.
+   */
+  constructor(
+    readonly sessionId: string,
+    private readonly toolHostPath: (args: Record<string, unknown>) => string | undefined
+  ) {}
+
+  map(event: ServerEvent): OpenCodeEvent[] {
+    const props = event.properties;
+    switch (event.type) {
+      case "message.updated": {
+        const info = asRecord(props.info);
+        const id = asString(info.id);
+        if (!id) {
+          return [];
+        }
+        if (info.role === "user") {
+          this.userMessages.add(id);
+        } else if (info.role === "assistant") {
+          this.messageAgents.set(id, asString(info.agent) ?? asString(info.mode) ?? "default");
+        }
+        return [];
+      }
+
+      case "message.part.updated":
+        return this.mapPart(asRecord(props.part), props.delta);
+
+      case "session.created":
+      case "session.updated": {
+        const info = asRecord(props.info);
+        const id = asString(info.id);
+        if (!id || info.parentID !== this.sessionId || this.subagents.has(id)) {
+          return [];
+        }
+        this.subagents.add(id);
+        return [
+          { type: "subagent_start", id, name: asString(info.title) || "subagent", parent: "default" },
+        ];
+      }
+
+      case "session.idle": {
+        const sessionId = asString(props.sessionID);
+        if (sessionId === this.sessionId) {
+          return [{ type: "done", agent: "default" }];
+        }
+        if (sessionId && this.subagents.delete(sessionId)) {
+          return [{ type: "subagent_end", id: sessionId, status: "completed" }];
+        }
+        return [];
+      }
+
+      case "session.error": {
+        const sessionId = asString(props.sessionID);
+        const error = asRecord(props.error);
+        if (sessionId && this.subagents.delete(sessionId)) {
+          return [{ type: "subagent_end", id: sessionId, status: "failed" }];
+        }
+        // Cancelling a prompt aborts it; that is not an error to show.
+        if ((sessionId && sessionId !== this.sessionId) || error.name === "MessageAbortedError") {
+          return [];
+        }
+        const message =
+          asString(asRecord(error.data).message) ??
+          asString(error.message) ??
+          asString(error.name) ??
+          "Unknown error";
+        return [{ type: "error", message }];
+      }
+
+      default:
+        return [];
+    }
+  }
+
+  private mapPart(part: Record<string, unknown>, delta: unknown): OpenCodeEvent[] {
+    const sessionId = asString(part.sessionID);
+    const messageId = asString(part.messageID);
+    const ownSession = sessionId === this.sessionId;
+    if (
+      (!ownSession && !(sessionId && this.subagents.has(sessionId))) ||
+      (messageId && this.userMessages.has(messageId))
+    ) {
+      return [];
+    }
+
+    if (part.type === "text") {
+      // The subagent's answer reaches the chat through its task tool.
+      const partId = asString(part.id);
+      if (!ownSession || !partId) {
+        return [];
+      }
+      const previous = this.partText.get(partId) ?? "";
+      const text = asString(part.text) ?? previous;
+      this.partText.set(partId, text);
+      const content =
+        typeof delta === "string" ? delta : text.startsWith(previous) ? text.substring(previous.length) : "";
+      return content
+        ? [{ type: "text", content, agent: (messageId && this.messageAgents.get(messageId)) || "default" }]
+        : [];
+    }
+
+    if (part.type === "tool") {
+      const state = asRecord(part.state);
+      const tool = asString(part.tool) ?? "unknown";
+      const callId = asString(part.callID) ?? "";
+      const subagentId = ownSession ? undefined : sessionId;
+      const events: OpenCodeEvent[] = [];
+      if (state.status === "pending") {
+        return [];
+      }
+      if (!this.startedTools.has(callId)) {
+        this.startedTools.add(callId);
+        const args = asRecord(state.input);
+        const hostPath = this.toolHostPath(args);
+        events.push({ type: "tool_start", tool, args, subagentId, ...(hostPath ? { hostPath } : {}) });
+      }
+      if (state.status === "completed" || state.status === "error") {
+        this.startedTools.delete(callId);
+        events.push({
+          type: "tool_end",
+          tool,
+          result: String(state.output ?? state.error ?? ""),
+          subagentId,
+        });
+      }
+      return events;
+    }
+
+    return [];
+  }
+}
+
+/** A JSON object from the server, or an empty one for anything else. */
+function asRecord(value: unknown): Record<string, unknown> {
+  return value && typeof value === "object" && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : {};
+}
+
+function asString(value: unknown): string | undefined {
+  return typeof value === "string" ? value : undefined;
+}
+
+// ---------------------------------------------------------------------------
+// Server process
+// ---------------------------------------------------------------------------
+
+/** Where `opencode serve` runs; in the container its port is forwarded. */
+export interface ServerLaunch {
+  command: string;
+  args: string[];
+  cwd?: string;
+  env?: Record<string, string>;
+  /** Set when the server runs in this container. */
+  containerId?: string;
+  execOptions?: ExecOptions;
+}
+
+/**
+ * Wraps a command run with `docker exec -i` so the command is stopped
+ * when the exec is: the background job kills it once stdin closes.
+ */
+export const STOP_WITH_STDIN = 'exec 3<&0; (cat <&3 >/dev/null; kill $$) & exec "$@"';
+
+/**
+ * A long-lived `opencode serve` process and a client for it.
+ */
+export class OpenCodeServer implements vscode.Disposable {
+  private disposed = false;
+
+  private constructor(
+    readonly client: OpenCodeServerClient,
+    private readonly child: ChildProcess,
+    private readonly forward: ExecPortForward | undefined
+  ) {}
+
+  /**
+   * Start the server and wait until it listens. `onExit` is called when
+   * it exits other than through {@link dispose}.
+   */
+  static async start(launch: ServerLaunch, onExit: (code: number | null) => void): Promise<OpenCodeServer> {
+    const child = spawn(launch.command, launch.args, {
+      cwd: launch.cwd,
+      env: launch.env,
+      stdio: ["pipe", "pipe", "pipe"],
+    });
+    let stderr = "";
+    child.stderr?.on("data", (data: Buffer) => {
+      stderr = (stderr + data.toString("utf-8")).slice(-STDERR_TAIL);
+    });
+    const exitError = (code: number | null) =>
+      new Error(stderr.trim() || `OpenCode server exited with code ${code}`);
+
+    let url: string;
+    try {
+      url = await new Promise<string>((resolve, reject) => {
+        const timer = setTimeout(
+          () => reject(new Error("OpenCode server did not start listening in time.")),
+          START_TIMEOUT
+        );
+        // e.g. "opencode server listening on http://127.0.0.1:4096"
+        createInterface({ input: child.stdout! }).on("line", (line) => {
+          const match = /listening on (https?:\/\/\S+)/.exec(line);
+          if (match) {
+            clearTimeout(timer);
+            resolve(match[1]);
+          }
+        });
+        child.on("error", (err) => {
+          clearTimeout(timer);
+          reject(err);
+        });
+        child.on("exit", (code) => {
+          clearTimeout(timer);
+          reject(exitError(code));
+        });
+      });
+    } catch (err) {
+      child.kill();
+      throw err;
+    }
+
+    // Listen for the exit before setting up the port forward, so an exit
+    // meanwhile fails the start instead of going unnoticed.
+    let handleExit: (code: number | null) => void = () => undefined;
+    child.on("exit", (code) => handleExit(code));
+
+    let forward: ExecPortForward | undefined;
+    if (launch.containerId) {
+      const starting = ExecPortForward.start(
+        launch.containerId,
+        Number(new URL(url).port),
+        launch.execOptions
+      );
+      try {
+        forward = await new Promise<ExecPortForward>((resolve, reject) => {
+          handleExit = (code) => reject(exitError(code));
+          starting.then(resolve, reject);
+        });
+      } catch (err) {
+        child.kill();
+        // The forward may still come up after the server exited.
+        starting.then((late) => late.dispose(), () => undefined);
+        throw err;
+      }
+      url = `http://127.0.0.1:${forward.port}`;
+    }
+
+    const server = new OpenCodeServer(new OpenCodeServerClient(url), child, forward);
+    handleExit = (code) => {
+      if (!server.disposed) {
+        server.dispose();
+        onExit(code);
+      }
+    };
+    return server;
+  }
+
+  dispose(): void {
+    this.disposed = true;
+    this.forward?.dispose();
+    this.child.stdin?.end();
+    this.child.kill();
+  }
+}
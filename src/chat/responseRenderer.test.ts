@@ -8,6 +8,7 @@ let stream: {
   progress: ReturnType<typeof vi.fn>;
   markdown: ReturnType<typeof vi.fn>;
   button: ReturnType<typeof vi.fn>;
+  anchor: ReturnType<typeof vi.fn>;
 };
 
 beforeEach(() => {
@@ -21,6 +22,7 @@ beforeEach(() => {
     progress: vi.fn(),
     markdown: vi.fn(),
     button: vi.fn(),
+    anchor: vi.fn(),
   };
 });
 
@@ -93,6 +95,23 @@ describe("renderEvent — tool_start", () => {
     );
   });
 
+  it("anchors the host file of a tool call", () => {
+    renderer.renderEvent(
+      {
+        type: "tool_start",
+        tool: "file_read",
+        args: { path: "/workspaces/project/src/app.ts" },
+        hostPath: "/home/user/project/src/app.ts",
+      },
+      stream as any
+    );
+
+    expect(stream.anchor).toHaveBeenCalledOnce();
+    const [uri, title] = stream.anchor.mock.calls[0];
+    expect(uri.fsPath).toBe("/home/user/project/src/app.ts");
+    expect(title).toBe("/workspaces/project/src/app.ts");
+  });
+
   it("renders JSON args when no command/path", () => {
     renderer.renderEvent(
       {
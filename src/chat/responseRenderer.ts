@@ -107,6 +107,9 @@ export class ResponseRenderer {
   ): void {
     const summary = this.toolArgsSummary(event.tool, event.args);
     stream.markdown(`\n> **${event.tool}**: \`${summary}\`\n`);
+    if (event.hostPath) {
+      stream.anchor(vscode.Uri.file(event.hostPath), summary);
+    }
   }
 
   private renderToolEnd(
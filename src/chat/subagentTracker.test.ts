@@ -290,6 +290,16 @@ describe("handleEvent — done", () => {
     // Should remain "failed", not be changed to "completed"
     expect(tracker.getSubagent("sa-1")!.status).toBe("failed");
   });
+
+  it("marks only the subagents of its own request", () => {
+    tracker.handleEvent({ type: "subagent_start", id: "sa-1", name: "a", parent: "default", requestId: "req-a" });
+    tracker.handleEvent({ type: "subagent_start", id: "sa-2", name: "b", parent: "default", requestId: "req-b" });
+
+    tracker.handleEvent({ type: "done", agent: "default", requestId: "req-a" });
+
+    expect(tracker.getSubagent("sa-1")!.status).toBe("completed");
+    expect(tracker.getSubagent("sa-2")!.status).toBe("running");
+  });
 });
 
 // ---------------------------------------------------------------------------
@@ -311,6 +321,25 @@ describe("reset", () => {
     expect(tracker.getSubagent("sa-1")).toBeUndefined();
   });
 
+  it("keeps the running subagents of other requests", () => {
+    tracker.handleEvent({ type: "subagent_start", id: "sa-1", name: "a", parent: "default", requestId: "req-a" });
+    tracker.handleEvent({ type: "subagent_start", id: "sa-2", name: "b", parent: "default", requestId: "req-b" });
+    tracker.handleEvent({ type: "subagent_start", id: "sa-3", name: "c", parent: "default", requestId: "req-c" });
+    tracker.handleEvent({ type: "subagent_end", id: "sa-3", status: "completed" });
+
+    tracker.reset("req-a");
+
+    expect(tracker.getAllSubagents().map((s) => s.id)).toEqual(["sa-2"]);
+  });
+
+  it("lists the subagents of one request", () => {
+    tracker.handleEvent({ type: "subagent_start", id: "sa-1", name: "a", parent: "default", requestId: "req-a" });
+    tracker.handleEvent({ type: "subagent_start", id: "sa-2", name: "b", parent: "default", requestId: "req-b" });
+
+    expect(tracker.getAllSubagents("req-b").map((s) => s.id)).toEqual(["sa-2"]);
+    expect(tracker.getAllSubagents()).toHaveLength(2);
+  });
+
   it("fires onSubagentsReset event", () => {
     const listener = vi.fn();
     tracker.onSubagentsReset(listener);
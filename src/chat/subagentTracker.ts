@@ -8,6 +8,9 @@ import { OpenCodeEvent, SubagentInfo, ToolCallInfo } from "./types";
  * maintains an in-memory model of all active and completed subagents
  * plus their individual tool calls.  Fires change events so that
  * the tree-view provider can refresh.
+ *
+ * Subagents remember the chat request that started them, so requests
+ * running side by side can reset and summarise only their own.
  */
 export class SubagentTracker implements vscode.Disposable {
   private subagents = new Map<string, SubagentInfo>();
@@ -29,7 +32,7 @@ export class SubagentTracker implements vscode.Disposable {
         break;
       case "tool_start":
         if (event.subagentId) {
-          this.handleToolStart(event.subagentId, event.tool, event.args);
+          this.handleToolStart(event.subagentId, event.tool, event.args, event.hostPath);
         }
         break;
       case "tool_end":
@@ -38,7 +41,7 @@ export class SubagentTracker implements vscode.Disposable {
         }
         break;
       case "done":
-        this.markAllCompleted();
+        this.markAllCompleted(event.requestId);
         break;
     }
   }
@@ -53,12 +56,23 @@ export class SubagentTracker implements vscode.Disposable {
     );
   }
 
-  getAllSubagents(): SubagentInfo[] {
-    return Array.from(this.subagents.values());
+  /** All subagents, or those of one request. */
+  getAllSubagents(requestId?: string): SubagentInfo[] {
+    return Array.from(this.subagents.values()).filter(
+      (s) => !requestId || s.requestId === requestId
+    );
   }
 
-  reset(): void {
-    this.subagents.clear();
+  /**
+   * Forget all subagents, or, for a request starting, those of the
+   * request and the finished ones of others.
+   */
+  reset(requestId?: string): void {
+    for (const info of this.getAllSubagents()) {
+      if (!requestId || info.requestId === requestId || info.status !== "running") {
+        this.subagents.delete(info.id);
+      }
+    }
     this._onSubagentsReset.fire();
   }
 
@@ -72,6 +86,7 @@ export class SubagentTracker implements vscode.Disposable {
       name: event.name,
       parent: event.parent,
       status: "running",
+      ...(event.requestId ? { requestId: event.requestId } : {}),
       startedAt: Date.now(),
       toolCalls: [],
     };
@@ -93,7 +108,8 @@ export class SubagentTracker implements vscode.Disposable {
   private handleToolStart(
     subagentId: string,
     tool: string,
-    args: Record<string, unknown>
+    args: Record<string, unknown>,
+    hostPath?: string
   ): void {
     const info = this.subagents.get(subagentId);
     if (!info) {
@@ -105,6 +121,9 @@ export class SubagentTracker implements vscode.Disposable {
       args,
       startedAt: Date.now(),
     };
+    if (hostPath) {
+      toolCall.hostPath = hostPath;
+    }
     info.toolCalls.push(toolCall);
     info.currentTool = tool;
     this._onSubagentChanged.fire(info);
@@ -134,9 +153,9 @@ export class SubagentTracker implements vscode.Disposable {
     this._onSubagentChanged.fire(info);
   }
 
-  /** When a top-level "done" arrives, mark any still-running subagents. */
-  private markAllCompleted(): void {
-    for (const info of this.subagents.values()) {
+  /** When a top-level "done" arrives, mark its request's still-running subagents. */
+  private markAllCompleted(requestId?: string): void {
+    for (const info of this.getAllSubagents(requestId)) {
       if (info.status === "running") {
         info.status = "completed";
         info.completedAt = Date.now();
@@ -239,6 +239,32 @@ describe("getTreeItem — tool call", () => {
     expect(item.label).toContain("src/app.ts");
   });
 
+  it("opens the host file of a file tool call", () => {
+    tracker.handleEvent({
+      type: "subagent_start",
+      id: "sa-1",
+      name: "coding-agent",
+      parent: "default",
+    });
+    tracker.handleEvent({
+      type: "tool_start",
+      tool: "file_read",
+      args: { path: "/workspaces/project/src/app.ts" },
+      subagentId: "sa-1",
+      hostPath: "/home/user/project/src/app.ts",
+    });
+
+    const root = provider.getChildren();
+    const item = provider.getTreeItem(provider.getChildren(root[0])[0]);
+
+    expect(item.resourceUri?.fsPath).toBe("/home/user/project/src/app.ts");
+    expect(item.command).toEqual({
+      command: "vscode.open",
+      title: "Open File",
+      arguments: [item.resourceUri],
+    });
+  });
+
   it("shows (no args) for tool calls without recognized args", () => {
     tracker.handleEvent({
       type: "subagent_start",
@@ -109,6 +109,11 @@ export class SubagentTreeProvider
       : new vscode.ThemeIcon("loading~spin");
     item.description = this.toolCallDescription(tc);
     item.tooltip = this.toolCallTooltip(tc);
+    if (tc.hostPath) {
+      const uri = vscode.Uri.file(tc.hostPath);
+      item.resourceUri = uri;
+      item.command = { command: "vscode.open", title: "Open File", arguments: [uri] };
+    }
     return item;
   }
 
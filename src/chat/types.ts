@@ -22,15 +22,28 @@ export interface AgentConfig {
 // Events FROM OpenCode (stdout, one JSON object per line)
 // ---------------------------------------------------------------------------
 
-export type OpenCodeEvent =
+export type OpenCodeEvent = (
   | { type: "status"; message: string; agent: string }
   | { type: "text"; content: string; agent: string }
-  | { type: "tool_start"; tool: string; args: Record<string, unknown>; subagentId?: string }
+  | {
+      type: "tool_start";
+      tool: string;
+      args: Record<string, unknown>;
+      subagentId?: string;
+      /** Host path of the file the tool works on, translated from the container. */
+      hostPath?: string;
+    }
   | { type: "tool_end"; tool: string; result: string; subagentId?: string }
   | { type: "subagent_start"; id: string; name: string; parent: string }
   | { type: "subagent_end"; id: string; status: "completed" | "failed" | "cancelled" }
   | { type: "done"; agent: string }
-  | { type: "error"; message: string };
+  | { type: "error"; message: string }
+  /** The OpenCode session a prompt runs in; continue it with a later prompt. */
+  | { type: "session"; id: string }
+) & {
+  /** The bridge request the event belongs to, see `PromptOptions.requestId`. */
+  requestId?: string;
+};
 
 // ---------------------------------------------------------------------------
 // Subagent / tool-call tracking
@@ -40,6 +53,8 @@ export interface SubagentInfo {
   id: string;
   name: string;
   parent: string;
+  /** The chat request that started it. */
+  requestId?: string;
   status: "running" | "completed" | "failed" | "cancelled";
   currentTool?: string;
   startedAt: number;
@@ -50,6 +65,8 @@ export interface SubagentInfo {
 export interface ToolCallInfo {
   tool: string;
   args: Record<string, unknown>;
+  /** See the `hostPath` of the `tool_start` event. */
+  hostPath?: string;
   result?: string;
   startedAt: number;
   completedAt?: number;
@@ -0,0 +1,193 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { __resetMocks, window, commands, env } from "./__mocks__/vscode";
+import {
+  CommandAuditEntry,
+  CommandAuditLog,
+  newSessionId,
+  showCommandLog,
+} from "./commandAudit";
+
+let dir: string;
+
+beforeEach(() => {
+  __resetMocks();
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), "command-audit-"));
+});
+
+afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+function entry(overrides: Partial<CommandAuditEntry> = {}): CommandAuditEntry {
+  return {
+    timestamp: "2026-01-01T10:00:00.000Z",
+    source: "wrapper",
+    session: "chat-1",
+    agent: "build",
+    cwd: "/workspaces/proj",
+    command: "npm test",
+    exitCode: 0,
+    durationMs: 2000,
+    ...overrides,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// CommandAuditLog
+// ---------------------------------------------------------------------------
+
+describe("CommandAuditLog", () => {
+  it("names the log after the workspace folder", () => {
+    const a = CommandAuditLog.forFolder(dir, "/home/user/project");
+    const b = CommandAuditLog.forFolder(dir, "/home/other/project");
+    expect(path.basename(a.file)).toMatch(/^project-[0-9a-f]{8}\.jsonl$/);
+    expect(path.dirname(a.file)).toBe(path.join(dir, "command-log"));
+    expect(a.file).not.toBe(b.file);
+  });
+
+  it("appends entries and reads them back in order", () => {
+    const log = CommandAuditLog.forFolder(dir, "/home/user/project");
+    log.append(entry({ command: "npm install" }));
+    log.append(entry({ command: "npm test", exitCode: 1 }));
+
+    expect(log.read().map((e) => [e.command, e.exitCode])).toEqual([
+      ["npm install", 0],
+      ["npm test", 1],
+    ]);
+  });
+
+  it("returns no entries before anything was logged", () => {
+    expect(CommandAuditLog.forFolder(dir, "/home/user/project").read()).toEqual([]);
+  });
+
+  it("skips partial lines and treats empty session variables as unset", () => {
+    const log = new CommandAuditLog(path.join(dir, "log.jsonl"));
+    fs.writeFileSync(
+      log.file,
+      JSON.stringify(entry({ session: "", agent: "" })) + "\n" + '{"timestamp":"2026'
+    );
+
+    const entries = log.read();
+    expect(entries).toHaveLength(1);
+    expect(entries[0].session).toBeUndefined();
+    expect(entries[0].agent).toBeUndefined();
+  });
+
+  it("creates distinct session ids", () => {
+    expect(newSessionId("chat")).toMatch(/^chat-[0-9a-f]{8}$/);
+    expect(newSessionId("terminal")).not.toBe(newSessionId("terminal"));
+  });
+});
+
+// ---------------------------------------------------------------------------
+// showCommandLog()
+// ---------------------------------------------------------------------------
+
+describe("showCommandLog", () => {
+  let log: CommandAuditLog;
+
+  beforeEach(() => {
+    log = new CommandAuditLog(path.join(dir, "log.jsonl"));
+    log.append(entry({ session: "chat-1", command: "npm install" }));
+    log.append(entry({ session: "chat-2", command: "make", exitCode: 2 }));
+    log.append(
+      entry({
+        source: "exec",
+        session: undefined,
+        agent: undefined,
+        cwd: "/workspaces/proj/my app",
+        command: "ls",
+      })
+    );
+  });
+
+  it("says so when nothing was logged", async () => {
+    await showCommandLog(new CommandAuditLog(path.join(dir, "empty.jsonl")));
+    expect(window.showInformationMessage).toHaveBeenCalled();
+    expect(window.showQuickPick).not.toHaveBeenCalled();
+  });
+
+  it("lists sessions, most recent first", async () => {
+    window.showQuickPick.mockResolvedValueOnce(undefined);
+    await showCommandLog(log);
+
+    const labels = window.showQuickPick.mock.calls[0][0].map(
+      (item: { label: string }) => item.label
+    );
+    expect(labels).toEqual([
+      "$(list-flat) All Sessions",
+      "/exec",
+      "chat-2",
+      "chat-1",
+      "$(go-to-file) Open Log File",
+    ]);
+  });
+
+  it("filters the commands by session", async () => {
+    window.showQuickPick
+      .mockImplementationOnce(async (items: { label: string }[]) =>
+        items.find((i) => i.label === "chat-2")
+      )
+      .mockResolvedValueOnce(undefined);
+    await showCommandLog(log);
+
+    const commandItems = window.showQuickPick.mock.calls[1][0];
+    expect(commandItems).toHaveLength(1);
+    expect(commandItems[0].label).toBe("$(error) make");
+    expect(commandItems[0].description).toBe("exit 2, 2.0s");
+  });
+
+  it("re-runs a command through /exec in its working directory", async () => {
+    window.showQuickPick
+      .mockImplementationOnce(async (items: { label: string }[]) => items[0])
+      .mockImplementationOnce(async (items: { label: string }[]) => items[0])
+      .mockResolvedValueOnce("Re-run with /exec");
+    await showCommandLog(log);
+
+    expect(commands.executeCommand).toHaveBeenCalledWith("workbench.action.chat.open", {
+      query: "@opencode /exec cd '/workspaces/proj/my app' && ls",
+      isPartialQuery: true,
+    });
+  });
+
+  it("copies a command", async () => {
+    window.showQuickPick
+      .mockImplementationOnce(async (items: { label: string }[]) => items[0])
+      .mockImplementationOnce(async (items: { label: string }[]) => items[1])
+      .mockResolvedValueOnce("Copy Command");
+    await showCommandLog(log);
+
+    expect(env.clipboard.writeText).toHaveBeenCalledWith("make");
+  });
+
+  it("marks commands that ran on the host and only offers to copy them", async () => {
+    log.append(
+      entry({ session: "chat-3", target: "host", cwd: "/home/user/project", command: "gh pr list" })
+    );
+    window.showQuickPick
+      .mockImplementationOnce(async (items: { label: string }[]) =>
+        items.find((i) => i.label === "chat-3")
+      )
+      .mockImplementationOnce(async (items: { label: string }[]) => items[0])
+      .mockResolvedValueOnce(undefined);
+    await showCommandLog(log);
+
+    expect(window.showQuickPick.mock.calls[1][0][0].description).toBe("on host, exit 0, 2.0s");
+    expect(window.showQuickPick.mock.calls[2][0]).toEqual(["Copy Command"]);
+  });
+
+  it("opens the log file", async () => {
+    window.showQuickPick.mockImplementationOnce(
+      async (items: { label: string }[]) => items[items.length - 1]
+    );
+    await showCommandLog(log);
+
+    expect(commands.executeCommand).toHaveBeenCalledWith(
+      "vscode.open",
+      expect.objectContaining({ fsPath: log.file })
+    );
+  });
+});
@@ -0,0 +1,198 @@
+import * as vscode from "vscode";
+import * as fs from "fs";
+import * as path from "path";
+import { createHash, randomBytes } from "crypto";
+import { shellQuote } from "./containerRuntime";
+
+/**
+ * A command routed into the dev container, one JSON line in the audit
+ * log. The shell wrapper writes the same shape (see `createShellWrapper`).
+ */
+export interface CommandAuditEntry {
+  /** ISO 8601 time the command started. */
+  timestamp: string;
+  /** `wrapper` for commands OpenCode ran through the shell wrapper, `exec` for `/exec`. */
+  source: "wrapper" | "exec";
+  /** The chat or terminal session that ran the command. */
+  session?: string;
+  agent?: string;
+  /** Working directory, inside the container unless the command ran on the host. */
+  cwd: string;
+  /** Where the command ran (see `commandRouting`); `container` when missing. */
+  target?: "host" | "container";
+  command: string;
+  exitCode: number;
+  /** Set when the command policy refused the command, which then never ran. */
+  denied?: boolean;
+  /** Whole seconds for wrapper commands, which only have `date +%s`. */
+  durationMs: number;
+}
+
+/** A session id for the audit log, e.g. `chat-1a2b3c4d`. */
+export function newSessionId(kind: "chat" | "terminal"): string {
+  return `${kind}-${randomBytes(4).toString("hex")}`;
+}
+
+/**
+ * The per-workspace-folder log of every command run in the dev container,
+ * stored as JSON lines under the extension's storage directory.
+ */
+export class CommandAuditLog {
+  constructor(readonly file: string) {}
+
+  /** The log of a workspace folder, named after it so folders never share one. */
+  static forFolder(storageDir: string, workspaceFolder: string): CommandAuditLog {
+    const hash = createHash("sha1").update(workspaceFolder).digest("hex").substring(0, 8);
+    return new CommandAuditLog(
+      path.join(storageDir, "command-log", `${path.basename(workspaceFolder)}-${hash}.jsonl`)
+    );
+  }
+
+  append(entry: CommandAuditEntry): void {
+    try {
+      fs.mkdirSync(path.dirname(this.file), { recursive: true });
+      fs.appendFileSync(this.file, JSON.stringify(entry) + "\n");
+    } catch {
+      // Auditing must never fail the command itself
+    }
+  }
+
+  /** Every entry, oldest first. Unreadable lines are skipped. */
+  read(): CommandAuditEntry[] {
+    let content: string;
+    try {
+      content = fs.readFileSync(this.file, "utf-8");
+    } catch {
+      return [];
+    }
+    const entries: CommandAuditEntry[] = [];
+    for (const line of content.split("\n")) {
+      if (!line.trim()) {
+        continue;
+      }
+      try {
+        const entry = JSON.parse(line) as CommandAuditEntry;
+        if (typeof entry.command === "string") {
+          // The wrapper writes empty strings for unset session variables.
+          entries.push({
+            ...entry,
+            session: entry.session || undefined,
+            agent: entry.agent || undefined,
+          });
+        }
+      } catch {
+        // Partially written line
+      }
+    }
+    return entries;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Viewer
+// ---------------------------------------------------------------------------
+
+interface SessionItem extends vscode.QuickPickItem {
+  entries?: CommandAuditEntry[];
+  openFile?: boolean;
+}
+
+interface EntryItem extends vscode.QuickPickItem {
+  entry: CommandAuditEntry;
+}
+
+/** Session a log entry is listed under. */
+function sessionLabel(entry: CommandAuditEntry): string {
+  return entry.session ?? (entry.source === "exec" ? "/exec" : "(no session)");
+}
+
+function formatDuration(ms: number): string {
+  return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+}
+
+/**
+ * Show the audit log: pick a session, then a command, which can be re-run
+ * through `@opencode /exec` (in its original directory) or copied. Commands
+ * that ran on the host are marked as such.
+ */
+export async function showCommandLog(log: CommandAuditLog): Promise<void> {
+  const entries = log.read();
+  if (entries.length === 0) {
+    vscode.window.showInformationMessage("No commands have been run in the dev container yet.");
+    return;
+  }
+
+  const sessions = new Map<string, CommandAuditEntry[]>();
+  for (const entry of entries) {
+    const label = sessionLabel(entry);
+    sessions.set(label, [...(sessions.get(label) ?? []), entry]);
+  }
+
+  // Most recently active session first.
+  const sessionItems: SessionItem[] = Array.from(sessions.entries())
+    .map(([label, sessionEntries]) => ({
+      label,
+      description: `${sessionEntries.length} command${sessionEntries.length === 1 ? "" : "s"}`,
+      detail: `Last: ${new Date(sessionEntries[sessionEntries.length - 1].timestamp).toLocaleString()}`,
+      entries: sessionEntries,
+    }))
+    .reverse();
+  const session = await vscode.window.showQuickPick<SessionItem>(
+    [
+      { label: "$(list-flat) All Sessions", description: `${entries.length} commands`, entries },
+      ...sessionItems,
+      { label: "$(go-to-file) Open Log File", openFile: true },
+    ],
+    { placeHolder: "Select a session" }
+  );
+  if (!session) {
+    return;
+  }
+  if (session.openFile) {
+    await vscode.commands.executeCommand("vscode.open", vscode.Uri.file(log.file));
+    return;
+  }
+
+  const entryItems: EntryItem[] = [...(session.entries ?? [])].reverse().map((entry) => ({
+    label: `${entry.denied ? "$(circle-slash)" : entry.exitCode === 0 ? "$(pass)" : "$(error)"} ${entry.command}`,
+    description: [
+      entry.target === "host" ? "on host" : undefined,
+      entry.denied ? "denied by the command policy" : `exit ${entry.exitCode}`,
+      formatDuration(entry.durationMs),
+    ]
+      .filter(Boolean)
+      .join(", "),
+    detail: [
+      new Date(entry.timestamp).toLocaleString(),
+      entry.cwd,
+      entry.agent,
+      sessionLabel(entry),
+    ]
+      .filter(Boolean)
+      .join(" · "),
+    entry,
+  }));
+  const picked = await vscode.window.showQuickPick(entryItems, {
+    placeHolder: "Select a command",
+    matchOnDetail: true,
+  });
+  if (!picked) {
+    return;
+  }
+
+  // /exec runs in the container, so host commands can only be copied.
+  const actions =
+    picked.entry.target === "host" ? ["Copy Command"] : ["Re-run with /exec", "Copy Command"];
+  const action = await vscode.window.showQuickPick(actions, {
+    placeHolder: picked.entry.command,
+  });
+  if (action === "Re-run with /exec") {
+    // Left for the user to send, so it can be reviewed or edited first.
+    await vscode.commands.executeCommand("workbench.action.chat.open", {
+      query: `@opencode /exec cd ${shellQuote(picked.entry.cwd)} && ${picked.entry.command}`,
+      isPartialQuery: true,
+    });
+  } else if (action === "Copy Command") {
+    await vscode.env.clipboard.writeText(picked.entry.command);
+  }
+}
@@ -0,0 +1,126 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "fs";
+import * as path from "path";
+import { __resetMocks, __setMockConfig, window } from "./__mocks__/vscode";
+import { getConfig } from "./config";
+import {
+  CommandApprovalBroker,
+  getCommandPolicy,
+  policyAsks,
+  policyHasAgentRules,
+} from "./commandPolicy";
+
+beforeEach(() => {
+  __resetMocks();
+});
+
+// ---------------------------------------------------------------------------
+// getCommandPolicy() / policyAsks() / policyHasAgentRules()
+// ---------------------------------------------------------------------------
+
+describe("getCommandPolicy", () => {
+  it("has no policy by default", () => {
+    expect(getCommandPolicy(getConfig())).toBeUndefined();
+  });
+
+  it("has no policy when only allow patterns are configured", () => {
+    __setMockConfig({
+      "opencode-devcontainer.commandPolicy": { "*": { allow: ["npm *"] } },
+    });
+    expect(getCommandPolicy(getConfig())).toBeUndefined();
+  });
+
+  it("reads the rules and the default action", () => {
+    __setMockConfig({
+      "opencode-devcontainer.commandPolicy": { plan: { deny: ["git *"] } },
+      "opencode-devcontainer.commandPolicyDefault": "ask",
+    });
+    expect(getCommandPolicy(getConfig())).toEqual({
+      rules: { plan: { deny: ["git *"] } },
+      defaultAction: "ask",
+    });
+  });
+
+  it("tells whether a policy can ask for approval", () => {
+    expect(policyAsks(undefined)).toBe(false);
+    expect(policyAsks({ rules: { "*": { deny: ["rm *"] } }, defaultAction: "allow" })).toBe(
+      false
+    );
+    expect(policyAsks({ rules: { build: { ask: ["git push*"] } }, defaultAction: "allow" })).toBe(
+      true
+    );
+    expect(policyAsks({ rules: {}, defaultAction: "ask" })).toBe(true);
+  });
+
+  it("tells whether a policy has agent-specific rules", () => {
+    expect(policyHasAgentRules(undefined)).toBe(false);
+    expect(policyHasAgentRules({ rules: { "*": { deny: ["rm *"] } }, defaultAction: "allow" })).toBe(
+      false
+    );
+    expect(policyHasAgentRules({ rules: { plan: { deny: ["git *"] } }, defaultAction: "allow" })).toBe(
+      true
+    );
+  });
+});
+
+// ---------------------------------------------------------------------------
+// CommandApprovalBroker
+// ---------------------------------------------------------------------------
+
+describe("CommandApprovalBroker", () => {
+  let broker: CommandApprovalBroker;
+
+  beforeEach(() => {
+    broker = new CommandApprovalBroker();
+  });
+
+  afterEach(() => {
+    broker.dispose();
+  });
+
+  /** Write a request the way the shell wrapper does and wait for the response. */
+  async function request(id: string, content: string): Promise<string> {
+    fs.writeFileSync(path.join(broker.dir, `${id}.tmp`), content);
+    fs.renameSync(path.join(broker.dir, `${id}.tmp`), path.join(broker.dir, `${id}.request`));
+    const response = path.join(broker.dir, `${id}.response`);
+    while (!fs.existsSync(response)) {
+      await new Promise((r) => setTimeout(r, 10));
+    }
+    return fs.readFileSync(response, "utf-8");
+  }
+
+  it("allows a command the user approves", async () => {
+    window.showWarningMessage.mockResolvedValueOnce("Allow");
+
+    expect(await request("1", "build\ngit push*\ngit push origin\nmain")).toBe("allow");
+    expect(window.showWarningMessage).toHaveBeenCalledWith(
+      "OpenCode (build) wants to run a command in the dev container.",
+      {
+        modal: true,
+        detail: 'git push origin\nmain\n\nThe command policy asks for approval of "git push*".',
+      },
+      "Allow",
+      "Deny"
+    );
+  });
+
+  it("denies a dismissed prompt", async () => {
+    window.showWarningMessage.mockResolvedValueOnce(undefined);
+    expect(await request("2", "\n\nmake")).toBe("deny");
+    expect(window.showWarningMessage.mock.calls[0][0]).toBe(
+      "OpenCode wants to run a command in the dev container."
+    );
+  });
+
+  it("prompts once per request", async () => {
+    window.showWarningMessage.mockResolvedValue("Deny");
+    await request("3", "build\n\nls");
+    await new Promise((r) => setTimeout(r, 50));
+    expect(window.showWarningMessage).toHaveBeenCalledOnce();
+  });
+
+  it("removes its directory when disposed", () => {
+    broker.dispose();
+    expect(fs.existsSync(broker.dir)).toBe(false);
+  });
+});
@@ -0,0 +1,130 @@
+import * as vscode from "vscode";
+import * as fs from "fs";
+import * as path from "path";
+import { ExtensionConfig } from "./config";
+import { privateTempDir } from "./shellWrapper";
+
+/** What happens to a command OpenCode runs through the shell wrapper. */
+export type PolicyAction = "allow" | "ask" | "deny";
+
+/**
+ * Command patterns of one agent (or of every agent, under `*`). `*` in a
+ * pattern matches any text, and a pattern must match the whole command.
+ */
+export interface CommandPolicyRules {
+  allow?: string[];
+  ask?: string[];
+  deny?: string[];
+}
+
+/**
+ * The command policy the shell wrapper enforces. A command gets the first
+ * action, in the order deny, ask, allow, with a pattern matching it —
+ * among the running agent's rules or the `*` rules — and `defaultAction`
+ * otherwise.
+ */
+export interface CommandPolicy {
+  /** Rules keyed by agent id (see `AgentRegistry`); `*` applies to every agent. */
+  rules: Record<string, CommandPolicyRules>;
+  defaultAction: PolicyAction;
+}
+
+/** The configured policy, or `undefined` when it allows everything. */
+export function getCommandPolicy(config: ExtensionConfig): CommandPolicy | undefined {
+  const policy = { rules: config.commandPolicy, defaultAction: config.commandPolicyDefault };
+  const hasRules = Object.values(policy.rules).some(
+    (rules) => !!(rules.ask?.length || rules.deny?.length)
+  );
+  return hasRules || policy.defaultAction !== "allow" ? policy : undefined;
+}
+
+/** Whether a policy can pause a command to ask for approval. */
+export function policyAsks(policy: CommandPolicy | undefined): boolean {
+  return (
+    !!policy &&
+    (policy.defaultAction === "ask" ||
+      Object.values(policy.rules).some((rules) => !!rules.ask?.length))
+  );
+}
+
+/**
+ * Whether a policy has rules for particular agents besides the `*` ones.
+ * They need to know which agent runs a command, which only `opencode run`
+ * processes tell the shell wrapper.
+ */
+export function policyHasAgentRules(policy: CommandPolicy | undefined): boolean {
+  return (
+    !!policy &&
+    Object.entries(policy.rules).some(
+      ([agent, rules]) =>
+        agent !== "*" && !!(rules.allow?.length || rules.ask?.length || rules.deny?.length)
+    )
+  );
+}
+
+/**
+ * Answers the approval requests the shell wrapper writes for commands the
+ * policy marks `ask`.
+ *
+ * The wrapper writes `<id>.request` into {@link dir} — the agent, the
+ * matching pattern and the command on separate lines — and polls for
+ * `<id>.response` (`allow` or `deny`), which is written once the user
+ * answered the prompt. Disposing removes the directory, which the wrapper
+ * treats as a denial.
+ */
+export class CommandApprovalBroker implements vscode.Disposable {
+  readonly dir: string;
+  private readonly watcher: fs.FSWatcher;
+  /** Requests already prompted for; the watcher reports a file more than once. */
+  private readonly seen = new Set<string>();
+
+  constructor() {
+    this.dir = fs.mkdtempSync(path.join(privateTempDir(), `approvals-${process.pid}-`));
+    this.watcher = fs.watch(this.dir, (_event, filename) => {
+      if (filename?.endsWith(".request")) {
+        void this.answer(filename.slice(0, -".request".length));
+      }
+    });
+  }
+
+  private async answer(id: string): Promise<void> {
+    if (this.seen.has(id)) {
+      return;
+    }
+    let request: string;
+    try {
+      request = fs.readFileSync(path.join(this.dir, `${id}.request`), "utf-8");
+    } catch {
+      // Withdrawn: the wrapper timed out
+      return;
+    }
+    this.seen.add(id);
+
+    const [agent, rule, ...commandLines] = request.split("\n");
+    const command = commandLines.join("\n");
+    const choice = await vscode.window.showWarningMessage(
+      `${agent ? `OpenCode (${agent})` : "OpenCode"} wants to run a command in the dev container.`,
+      {
+        modal: true,
+        detail: rule
+          ? `${command}\n\nThe command policy asks for approval of "${rule}".`
+          : command,
+      },
+      "Allow",
+      "Deny"
+    );
+
+    const response = path.join(this.dir, `${id}.response`);
+    try {
+      fs.writeFileSync(`${response}.tmp`, choice === "Allow" ? "allow" : "deny");
+      fs.renameSync(`${response}.tmp`, response);
+    } catch {
+      // Disposed while the prompt was open
+    }
+  }
+
+  dispose(): void {
+    this.watcher.close();
+    fs.rmSync(this.dir, { recursive: true, force: true });
+  }
+}
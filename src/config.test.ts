@@ -1,6 +1,17 @@
 import { describe, it, expect, beforeEach } from "vitest";
-import { __resetMocks, __setMockConfig, __setWorkspaceFolders, Uri } from "./__mocks__/vscode";
-import { getConfig, getWorkspaceFolder } from "./config";
+import {
+  __resetMocks,
+  __setMockConfig,
+  __setMockWorkspaceConfig,
+  __setWorkspaceFolders,
+  Uri,
+} from "./__mocks__/vscode";
+import {
+  getConfig,
+  getWorkspaceFolder,
+  getWorkspaceFolderForPath,
+  getWorkspaceFolders,
+} from "./config";
 
 beforeEach(() => {
   __resetMocks();
@@ -17,10 +28,20 @@ describe("getConfig", () => {
     expect(cfg.opencodeConfigPath).toBe("");
     expect(cfg.devcontainerPath).toBe("");
     expect(cfg.dockerPath).toBe("docker");
+    expect(cfg.podmanPath).toBe("podman");
+    expect(cfg.containerRuntime).toBe("auto");
     expect(cfg.devcontainerCliPath).toBe("devcontainer");
     expect(cfg.executionMode).toBe("local-with-remote-exec");
+    expect(cfg.bridgeTransport).toBe("run");
+    expect(cfg.maxConcurrentRequests).toBe(3);
     expect(cfg.containerWorkspaceFolder).toBe("");
     expect(cfg.additionalEnvVars).toEqual({});
+    expect(cfg.commandPolicy).toEqual({});
+    expect(cfg.commandPolicyDefault).toBe("allow");
+    expect(cfg.commandRouting).toEqual([]);
+    expect(cfg.envFiles).toEqual([".env"]);
+    expect(cfg.forwardSshAgent).toBe(false);
+    expect(cfg.forwardGitCredentials).toBe(false);
     expect(cfg.forwardEnvVars).toEqual([
       "OPENAI_API_KEY",
       "ANTHROPIC_API_KEY",
@@ -42,6 +63,35 @@ describe("getConfig", () => {
     expect(cfg.executionMode).toBe("in-container");
     expect(cfg.additionalEnvVars).toEqual({ FOO: "bar" });
   });
+
+  it("reads command routes from the user's settings only", () => {
+    const userRoutes = [{ prefix: "gh", target: "host" }];
+    __setMockConfig({ "opencode-devcontainer.commandRouting": userRoutes });
+    __setMockWorkspaceConfig({
+      "opencode-devcontainer.commandRouting": [{ regex: ".*", target: "host" }],
+    });
+
+    expect(getConfig().commandRouting).toEqual(userRoutes);
+  });
+
+  it("ignores command routes set only by the workspace", () => {
+    __setMockWorkspaceConfig({
+      "opencode-devcontainer.commandRouting": [{ regex: ".*", target: "host" }],
+    });
+
+    expect(getConfig().commandRouting).toEqual([]);
+  });
+
+  it("ignores credential forwarding turned on by the workspace", () => {
+    __setMockWorkspaceConfig({
+      "opencode-devcontainer.forwardSshAgent": true,
+      "opencode-devcontainer.forwardGitCredentials": true,
+    });
+
+    const cfg = getConfig();
+    expect(cfg.forwardSshAgent).toBe(false);
+    expect(cfg.forwardGitCredentials).toBe(false);
+  });
 });
 
 // ---------------------------------------------------------------------------
@@ -72,3 +122,50 @@ describe("getWorkspaceFolder", () => {
     expect(getWorkspaceFolder()).toBe("/home/user/first");
   });
 });
+
+// ---------------------------------------------------------------------------
+// getWorkspaceFolders() / getWorkspaceFolderForPath()
+// ---------------------------------------------------------------------------
+
+describe("getWorkspaceFolders", () => {
+  it("returns an empty list without a workspace", () => {
+    __setWorkspaceFolders(undefined);
+    expect(getWorkspaceFolders()).toEqual([]);
+  });
+
+  it("returns every folder of a multi-root workspace", () => {
+    __setWorkspaceFolders([
+      { uri: Uri.file("/home/user/first") },
+      { uri: Uri.file("/home/user/second") },
+    ]);
+    expect(getWorkspaceFolders()).toEqual(["/home/user/first", "/home/user/second"]);
+  });
+});
+
+describe("getWorkspaceFolderForPath", () => {
+  beforeEach(() => {
+    __setWorkspaceFolders([
+      { uri: Uri.file("/home/user/mono") },
+      { uri: Uri.file("/home/user/mono/packages/api") },
+      { uri: Uri.file("/home/user/other") },
+    ]);
+  });
+
+  it("returns the folder containing the path", () => {
+    expect(getWorkspaceFolderForPath("/home/user/other/src/a.ts")).toBe("/home/user/other");
+  });
+
+  it("prefers the innermost folder", () => {
+    expect(getWorkspaceFolderForPath("/home/user/mono/packages/api/index.ts")).toBe(
+      "/home/user/mono/packages/api"
+    );
+  });
+
+  it("does not match sibling folders sharing a prefix", () => {
+    expect(getWorkspaceFolderForPath("/home/user/other-project/a.ts")).toBeUndefined();
+  });
+
+  it("matches the folder itself", () => {
+    expect(getWorkspaceFolderForPath("/home/user/mono")).toBe("/home/user/mono");
+  });
+});
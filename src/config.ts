@@ -1,39 +1,107 @@
 import * as vscode from "vscode";
+import * as path from "path";
+import { CommandPolicyRules, PolicyAction } from "./commandPolicy";
+
+/**
+ * Sends the commands matching `prefix` (the command itself or the command
+ * followed by arguments) or `regex` (a POSIX extended regular expression,
+ * as for `grep -E`) to the host or the container. The first matching
+ * route wins.
+ */
+export interface CommandRoute {
+  prefix?: string;
+  regex?: string;
+  target: "host" | "container";
+}
 
 export interface ExtensionConfig {
   opencodePath: string;
   opencodeConfigPath: string;
   devcontainerPath: string;
   dockerPath: string;
+  podmanPath: string;
+  containerRuntime: "auto" | "docker" | "podman";
+  dockerContext: string;
+  dockerHost: string;
   devcontainerCliPath: string;
   executionMode: "local-with-remote-exec" | "in-container";
+  bridgeTransport: "run" | "server";
+  maxConcurrentRequests: number;
   containerWorkspaceFolder: string;
+  containerShell: string;
   additionalEnvVars: Record<string, string>;
   forwardEnvVars: string[];
+  envFiles: string[];
+  forwardSshAgent: boolean;
+  forwardGitCredentials: boolean;
+  commandPolicy: Record<string, CommandPolicyRules>;
+  commandPolicyDefault: PolicyAction;
+  commandRouting: CommandRoute[];
 }
 
-export function getConfig(): ExtensionConfig {
-  const config = vscode.workspace.getConfiguration("opencode-devcontainer");
+/**
+ * Read the extension settings. Pass a workspace folder path to honour
+ * folder-level overrides in multi-root workspaces.
+ *
+ * Settings that let commands or credentials out of the container are read
+ * from the user's settings only, so a repository cannot turn them on.
+ */
+export function getConfig(folder?: string): ExtensionConfig {
+  const config = vscode.workspace.getConfiguration(
+    "opencode-devcontainer",
+    folder ? vscode.Uri.file(folder) : undefined
+  );
   return {
     opencodePath: config.get<string>("opencodePath", "opencode"),
     opencodeConfigPath: config.get<string>("opencodeConfigPath", ""),
     devcontainerPath: config.get<string>("devcontainerPath", ""),
     dockerPath: config.get<string>("dockerPath", "docker"),
+    podmanPath: config.get<string>("podmanPath", "podman"),
+    containerRuntime: config.get<"auto" | "docker" | "podman">("containerRuntime", "auto"),
+    dockerContext: config.get<string>("dockerContext", ""),
+    dockerHost: config.get<string>("dockerHost", ""),
     devcontainerCliPath: config.get<string>("devcontainerCliPath", "devcontainer"),
     executionMode: config.get<"local-with-remote-exec" | "in-container">(
       "executionMode",
       "local-with-remote-exec"
     ),
+    bridgeTransport: config.get<"run" | "server">("bridgeTransport", "run"),
+    maxConcurrentRequests: config.get<number>("maxConcurrentRequests", 3),
     containerWorkspaceFolder: config.get<string>("containerWorkspaceFolder", ""),
+    containerShell: config.get<string>("containerShell", ""),
     additionalEnvVars: config.get<Record<string, string>>("additionalEnvVars", {}),
     forwardEnvVars: config.get<string[]>("forwardEnvVars", [
       "OPENAI_API_KEY",
       "ANTHROPIC_API_KEY",
       "OPENCODE_*",
     ]),
+    envFiles: config.get<string[]>("envFiles", [".env"]),
+    forwardSshAgent: userSetting(config, "forwardSshAgent", false),
+    forwardGitCredentials: userSetting(config, "forwardGitCredentials", false),
+    commandPolicy: config.get<Record<string, CommandPolicyRules>>("commandPolicy", {}),
+    commandPolicyDefault: config.get<PolicyAction>("commandPolicyDefault", "allow"),
+    commandRouting: userSetting<CommandRoute[]>(config, "commandRouting", []),
   };
 }
 
+/** A setting's value from the user's settings, ignoring workspace and folder values. */
+function userSetting<T>(config: vscode.WorkspaceConfiguration, key: string, defaultValue: T): T {
+  return config.inspect<T>(key)?.globalValue ?? defaultValue;
+}
+
+/**
+ * Whether the workspace is trusted, warning that `action` needs trust
+ * when it is not. Starting the dev container or OpenCode runs code the
+ * repository defines, so Restricted Mode only shows the container status.
+ */
+export function requireWorkspaceTrust(action: string): boolean {
+  if (vscode.workspace.isTrusted) {
+    return true;
+  }
+  void vscode.window.showWarningMessage(`Trust this workspace to ${action}.`);
+  return false;
+}
+
 export function getWorkspaceFolder(): string | undefined {
   const folders = vscode.workspace.workspaceFolders;
   if (!folders || folders.length === 0) {
@@ -41,3 +109,18 @@ export function getWorkspaceFolder(): string | undefined {
   }
   return folders[0].uri.fsPath;
 }
+
+/** Paths of every folder in the (possibly multi-root) workspace. */
+export function getWorkspaceFolders(): string[] {
+  return (vscode.workspace.workspaceFolders ?? []).map((f) => f.uri.fsPath);
+}
+
+/**
+ * Return the workspace folder containing the given path. With nested
+ * folders the innermost one wins.
+ */
+export function getWorkspaceFolderForPath(fsPath: string): string | undefined {
+  return getWorkspaceFolders()
+    .filter((folder) => fsPath === folder || fsPath.startsWith(folder + path.sep))
+    .sort((a, b) => b.length - a.length)[0];
+}
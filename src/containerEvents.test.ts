@@ -0,0 +1,129 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { EventEmitter } from "events";
+import { __resetMocks } from "./__mocks__/vscode";
+
+vi.mock("child_process", async () => {
+  const actual = await vi.importActual("child_process");
+  return {
+    ...actual,
+    exec: vi.fn(),
+    spawn: vi.fn(),
+  };
+});
+
+import { spawn } from "child_process";
+import { ContainerEventWatcher } from "./containerEvents";
+import { resetContainerRuntime } from "./containerRuntime";
+
+const mockSpawn = spawn as unknown as ReturnType<typeof vi.fn>;
+
+function createMockChild() {
+  const child = Object.assign(new EventEmitter(), {
+    stdout: new EventEmitter(),
+    stderr: new EventEmitter(),
+    kill: vi.fn(() => child.emit("close", null)),
+  });
+  return child;
+}
+
+let children: ReturnType<typeof createMockChild>[];
+let onEvent: ReturnType<typeof vi.fn>;
+let onReconnect: ReturnType<typeof vi.fn>;
+let watcher: ContainerEventWatcher;
+
+/** Let the promise chain behind a closed event stream settle. */
+async function settle(): Promise<void> {
+  for (let i = 0; i < 5; i++) {
+    await Promise.resolve();
+  }
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  __resetMocks();
+  resetContainerRuntime();
+  children = [];
+  mockSpawn.mockReset().mockImplementation(() => {
+    const child = createMockChild();
+    children.push(child);
+    return child;
+  });
+  onEvent = vi.fn();
+  onReconnect = vi.fn();
+  watcher = new ContainerEventWatcher(onEvent, onReconnect);
+});
+
+afterEach(() => {
+  watcher.dispose();
+  vi.useRealTimers();
+});
+
+describe("ContainerEventWatcher", () => {
+  it("streams filtered events and reports parsed ones", () => {
+    watcher.watch({ "devcontainer.local_folder": "/home/user/project" });
+
+    expect(mockSpawn.mock.calls[0][0]).toBe(
+      "docker events --filter type=container --filter label=devcontainer.local_folder=/home/user/project " +
+        "--filter event=start --filter event=die --filter event=stop --filter event=destroy " +
+        "--filter event=restart --filter event=pause --filter event=unpause --filter event=oom " +
+        "--format '{{json .}}'"
+    );
+
+    children[0].stdout.emit(
+      "data",
+      JSON.stringify({ Type: "container", Action: "start", Actor: { ID: "abc123", Attributes: {} } }) +
+        "\nnot an event\n"
+    );
+    expect(onEvent).toHaveBeenCalledOnce();
+    expect(onEvent.mock.calls[0][0]).toMatchObject({ action: "start", containerId: "abc123" });
+  });
+
+  it("does not restart for the same labels", () => {
+    watcher.watch({ a: "1" });
+    watcher.watch({ a: "1" });
+
+    expect(mockSpawn).toHaveBeenCalledOnce();
+  });
+
+  it("restarts the stream when the labels change", () => {
+    watcher.watch({ a: "1" });
+    watcher.watch({ b: "2" });
+
+    expect(children[0].kill).toHaveBeenCalled();
+    expect(mockSpawn).toHaveBeenCalledTimes(2);
+    expect(mockSpawn.mock.calls[1][0]).toContain("label=b=2");
+  });
+
+  it("reconnects with backoff when the stream ends", async () => {
+    watcher.watch({ a: "1" });
+
+    children[0].emit("close", 1);
+    await settle();
+    vi.advanceTimersByTime(999);
+    expect(mockSpawn).toHaveBeenCalledOnce();
+    vi.advanceTimersByTime(1);
+    expect(mockSpawn).toHaveBeenCalledTimes(2);
+    expect(onReconnect).toHaveBeenCalledOnce();
+
+    children[1].emit("close", 1);
+    await settle();
+    vi.advanceTimersByTime(1999);
+    expect(mockSpawn).toHaveBeenCalledTimes(2);
+    vi.advanceTimersByTime(1);
+    expect(mockSpawn).toHaveBeenCalledTimes(3);
+  });
+
+  it("stops for good when disposed", async () => {
+    watcher.watch({ a: "1" });
+    watcher.dispose();
+    await settle();
+    vi.advanceTimersByTime(60000);
+
+    expect(children[0].kill).toHaveBeenCalled();
+    expect(mockSpawn).toHaveBeenCalledOnce();
+    expect(onReconnect).not.toHaveBeenCalled();
+
+    watcher.watch({ b: "2" });
+    expect(mockSpawn).toHaveBeenCalledOnce();
+  });
+});
@@ -0,0 +1,124 @@
+import * as vscode from "vscode";
+import {
+  ContainerEvent,
+  getContainerRuntime,
+  streamCommand,
+  toCommandLine,
+} from "./containerRuntime";
+
+/** First delay before reconnecting to the event stream. */
+const MIN_RECONNECT_DELAY = 1000;
+/** Upper bound for the exponential reconnect backoff. */
+const MAX_RECONNECT_DELAY = 30000;
+/** A stream that stayed up this long resets the backoff. */
+const STABLE_AFTER = 10000;
+
+/**
+ * A long-lived `docker events` / `podman events` subscription filtered to
+ * containers carrying a set of labels.
+ *
+ * The CLI exits when the daemon goes away (restart, Docker Desktop
+ * quitting); the watcher then reconnects with exponential backoff and
+ * calls `onReconnect` so the owner can re-sync the state it missed.
+ */
+export class ContainerEventWatcher implements vscode.Disposable {
+  private cancellation: vscode.CancellationTokenSource | undefined;
+  private reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+  private reconnectDelay = MIN_RECONNECT_DELAY;
+  /** {@link streamKey} of the current stream. */
+  private currentStream: string | undefined;
+  private labels: Record<string, string> = {};
+  private disposed = false;
+
+  constructor(
+    private readonly onEvent: (event: ContainerEvent) => void,
+    private readonly onReconnect: () => void
+  ) {}
+
+  /**
+   * Watch containers carrying every one of `labels`. Restarts the
+   * subscription when the labels, the container runtime or its daemon
+   * changed.
+   */
+  watch(labels: Record<string, string>): void {
+    if (this.disposed) {
+      return;
+    }
+    if (this.streamKey(labels) === this.currentStream) {
+      return;
+    }
+    this.labels = labels;
+    this.stop();
+    this.reconnectDelay = MIN_RECONNECT_DELAY;
+    this.connect(false);
+  }
+
+  private connect(reconnecting: boolean): void {
+    const runtime = getContainerRuntime();
+    const commandLine = toCommandLine([runtime.cliPath, ...runtime.eventsArgs(this.labels)]);
+    const cancellation = new vscode.CancellationTokenSource();
+    const startedAt = Date.now();
+    this.currentStream = this.streamKey(this.labels);
+    this.cancellation = cancellation;
+
+    streamCommand(commandLine, {
+      binaryPath: runtime.cliPath,
+      token: cancellation.token,
+      collectOutput: false,
+      onLine: (line, stream) => {
+        const event = stream === "stdout" ? runtime.parseEvent(line) : undefined;
+        if (event) {
+          this.onEvent(event);
+        }
+      },
+    })
+      .catch(() => undefined)
+      .then(() => {
+        if (this.disposed || cancellation.token.isCancellationRequested) {
+          return;
+        }
+        if (Date.now() - startedAt >= STABLE_AFTER) {
+          this.reconnectDelay = MIN_RECONNECT_DELAY;
+        }
+        this.scheduleReconnect();
+      });
+
+    if (reconnecting) {
+      this.onReconnect();
+    }
+  }
+
+  /** Identifies a stream: its command line and the daemon it talks to. */
+  private streamKey(labels: Record<string, string>): string {
+    const runtime = getContainerRuntime();
+    return JSON.stringify([
+      runtime.hostEnv(),
+      toCommandLine([runtime.cliPath, ...runtime.eventsArgs(labels)]),
+    ]);
+  }
+
+  private scheduleReconnect(): void {
+    const delay = this.reconnectDelay;
+    this.reconnectDelay = Math.min(delay * 2, MAX_RECONNECT_DELAY);
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = undefined;
+      this.connect(true);
+    }, delay);
+  }
+
+  private stop(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = undefined;
+    }
+    this.cancellation?.cancel();
+    this.cancellation?.dispose();
+    this.cancellation = undefined;
+    this.currentStream = undefined;
+  }
+
+  dispose(): void {
+    this.disposed = true;
+    this.stop();
+  }
+}
@@ -0,0 +1,583 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { EventEmitter } from "events";
+import { __resetMocks, __setMockConfig, CancellationTokenSource } from "./__mocks__/vscode";
+
+vi.mock("child_process", async () => {
+  const actual = await vi.importActual("child_process");
+  return {
+    ...actual,
+    exec: vi.fn(),
+    spawn: vi.fn(),
+  };
+});
+
+import { exec, spawn } from "child_process";
+import {
+  DockerRuntime,
+  PodmanRuntime,
+  detectContainerRuntime,
+  getContainerRuntime,
+  resetContainerRuntime,
+  shellQuote,
+  streamCommand,
+  toCommandLine,
+} from "./containerRuntime";
+
+const mockExec = exec as unknown as ReturnType<typeof vi.fn>;
+const mockSpawn = spawn as unknown as ReturnType<typeof vi.fn>;
+
+type ExecCallback = (err: Error | null, stdout: string, stderr: string) => void;
+
+/** Route mocked `exec` calls through a simple command → stdout function. */
+function respondWith(handler: (cmd: string) => string | Error): string[] {
+  const commands: string[] = [];
+  mockExec.mockImplementation((cmd: string, _opts: unknown, cb: ExecCallback) => {
+    commands.push(cmd);
+    const out = handler(cmd);
+    if (out instanceof Error) {
+      cb(out, "", out.message);
+    } else {
+      cb(null, out, "");
+    }
+  });
+  return commands;
+}
+
+beforeEach(() => {
+  __resetMocks();
+  resetContainerRuntime();
+  mockExec.mockReset();
+  mockSpawn.mockReset();
+});
+
+function createMockChild() {
+  return Object.assign(new EventEmitter(), {
+    stdout: new EventEmitter(),
+    stderr: new EventEmitter(),
+    kill: vi.fn(),
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Quoting helpers
+// ---------------------------------------------------------------------------
+
+describe("shellQuote / toCommandLine", () => {
+  it("leaves safe arguments bare", () => {
+    expect(shellQuote("label=devcontainer.local_folder=/home/user/p")).toBe(
+      "label=devcontainer.local_folder=/home/user/p"
+    );
+  });
+
+  it("single-quotes arguments with special characters", () => {
+    expect(shellQuote("{{json .}}")).toBe("'{{json .}}'");
+    expect(shellQuote("it's")).toBe("'it'\\''s'");
+  });
+
+  it("joins argv into a command line", () => {
+    expect(toCommandLine(["docker", "exec", "abc", "sh", "-c", "ls -la"])).toBe(
+      "docker exec abc sh -c 'ls -la'"
+    );
+  });
+});
+
+// ---------------------------------------------------------------------------
+// DockerRuntime
+// ---------------------------------------------------------------------------
+
+describe("DockerRuntime", () => {
+  const runtime = new DockerRuntime("docker");
+
+  it("builds exec args with workdir, env and tty flags", () => {
+    const args = runtime.execArgs("abc123", ["opencode"], {
+      interactive: true,
+      tty: true,
+      workdir: "/workspaces/proj",
+      env: { API_KEY: "secret" },
+    });
+    expect(args).toEqual([
+      "exec",
+      "-it",
+      "-w",
+      "/workspaces/proj",
+      "-e",
+      "API_KEY=secret",
+      "abc123",
+      "opencode",
+    ]);
+  });
+
+  it("passes inherited variables by name", () => {
+    const args = runtime.execArgs("abc123", ["opencode"], {
+      env: { API_KEY: "remote", PATH: "/opt/bin" },
+      inheritEnv: ["API_KEY"],
+    });
+    expect(args).toEqual(["exec", "-e", "PATH=/opt/bin", "-e", "API_KEY", "abc123", "opencode"]);
+  });
+
+  it("adds the user and unsets variables via env -u", () => {
+    const args = runtime.execArgs("abc123", ["sh", "-c", "ls"], {
+      user: "vscode",
+      unsetEnv: ["DEBUG", "NODE_OPTIONS"],
+    });
+    expect(args).toEqual([
+      "exec",
+      "-u",
+      "vscode",
+      "abc123",
+      "env",
+      "-u",
+      "DEBUG",
+      "-u",
+      "NODE_OPTIONS",
+      "sh",
+      "-c",
+      "ls",
+    ]);
+  });
+
+  it("builds events args filtered by labels and lifecycle action", () => {
+    expect(runtime.eventsArgs({ "devcontainer.local_folder": "/home/user/p" })).toEqual([
+      "events",
+      "--filter",
+      "type=container",
+      "--filter",
+      "label=devcontainer.local_folder=/home/user/p",
+      "--filter",
+      "event=start",
+      "--filter",
+      "event=die",
+      "--filter",
+      "event=stop",
+      "--filter",
+      "event=destroy",
+      "--filter",
+      "event=restart",
+      "--filter",
+      "event=pause",
+      "--filter",
+      "event=unpause",
+      "--filter",
+      "event=oom",
+      "--format",
+      "{{json .}}",
+    ]);
+  });
+
+  it("parses container events", () => {
+    const line = JSON.stringify({
+      status: "die",
+      id: "abc123",
+      Type: "container",
+      Action: "die",
+      Actor: { ID: "abc123", Attributes: { exitCode: "137", name: "proj", image: "node:20" } },
+    });
+    expect(runtime.parseEvent(line)).toEqual({
+      action: "die",
+      containerId: "abc123",
+      exitCode: 137,
+      attributes: { exitCode: "137", name: "proj", image: "node:20" },
+    });
+  });
+
+  it("strips the command from exec events and ignores other event types", () => {
+    const exec = JSON.stringify({
+      Type: "container",
+      Action: "exec_start: sh -c ls",
+      Actor: { ID: "abc123", Attributes: {} },
+    });
+    expect(runtime.parseEvent(exec)?.action).toBe("exec_start");
+    expect(runtime.parseEvent(JSON.stringify({ Type: "network", Action: "connect", Actor: { ID: "n1" } }))).toBeUndefined();
+    expect(runtime.parseEvent("not json")).toBeUndefined();
+  });
+
+  it("reads the container environment", async () => {
+    const commands = respondWith(() => '["PATH=/usr/bin","EMPTY=","EQ=a=b"]\n');
+    expect(await runtime.getEnv("abc123")).toEqual({ PATH: "/usr/bin", EMPTY: "", EQ: "a=b" });
+    expect(commands[0]).toBe("docker inspect -f '{{json .Config.Env}}' abc123");
+  });
+
+  it("reads the container mounts", async () => {
+    const commands = respondWith(() =>
+      JSON.stringify([
+        { Type: "bind", Source: "/home/user/p", Destination: "/workspaces/p", RW: true },
+        { Type: "volume", Name: "vol", Source: "/var/lib/docker/volumes/vol/_data", Destination: "/data" },
+      ])
+    );
+    expect(await runtime.getMounts("abc123")).toEqual([
+      { type: "bind", source: "/home/user/p", destination: "/workspaces/p" },
+      { type: "volume", source: "/var/lib/docker/volumes/vol/_data", destination: "/data" },
+    ]);
+    expect(commands[0]).toBe("docker inspect -f '{{json .Mounts}}' abc123");
+
+    respondWith(() => "<no value>");
+    expect(await runtime.getMounts("abc123")).toEqual([]);
+  });
+
+  it("finds containers with label filters", async () => {
+    const commands = respondWith(() => "abc123\ndef456\n");
+    const ids = await runtime.findContainers({ "devcontainer.local_folder": "/home/user/p" });
+
+    expect(ids).toEqual(["abc123", "def456"]);
+    expect(commands[0]).toBe(
+      "docker ps -q --filter label=devcontainer.local_folder=/home/user/p"
+    );
+  });
+
+  it("parses `ps --format {{json .}}` lines including comma-valued labels", async () => {
+    respondWith(() =>
+      JSON.stringify({
+        ID: "abc123",
+        Names: "proj-app-1",
+        State: "running",
+        Labels:
+          "com.docker.compose.project.config_files=/a.yml,/b.yml,com.docker.compose.service=app",
+      }) + "\n"
+    );
+
+    const [container] = await runtime.listContainers({ "com.docker.compose.project": "proj" });
+    expect(container.id).toBe("abc123");
+    expect(container.state).toBe("running");
+    expect(container.labels["com.docker.compose.service"]).toBe("app");
+    expect(container.labels["com.docker.compose.project.config_files"]).toBe("/a.yml,/b.yml");
+  });
+
+  it("reports running state via inspect", async () => {
+    respondWith(() => "true\n");
+    expect(await runtime.isRunning("abc123")).toBe(true);
+  });
+
+  it("treats <no value> labels as unset", async () => {
+    respondWith(() => "<no value>\n");
+    expect(await runtime.getLabel("abc123", "com.docker.compose.project")).toBeUndefined();
+  });
+
+  it("force-removes containers", async () => {
+    const commands = respondWith(() => "");
+    await runtime.remove("abc123");
+    expect(commands[0]).toBe("docker rm -f abc123");
+  });
+
+  it("runs docker compose with project and files", async () => {
+    const commands = respondWith(() => "");
+    await runtime.compose("proj", ["/a.yml"], "down");
+    expect(commands[0]).toBe("docker compose -p proj -f /a.yml down");
+  });
+});
+
+// ---------------------------------------------------------------------------
+// PodmanRuntime
+// ---------------------------------------------------------------------------
+
+describe("PodmanRuntime", () => {
+  const runtime = new PodmanRuntime("podman");
+
+  const psOutput = JSON.stringify([
+    {
+      Id: "abc123",
+      Names: ["proj-app-1"],
+      State: "running",
+      Labels: { "com.docker.compose.project": "proj", "com.docker.compose.service": "app" },
+    },
+    {
+      Id: "db456",
+      Names: ["proj-db-1"],
+      State: "exited",
+      Labels: { "com.docker.compose.project": "proj", "com.docker.compose.service": "db" },
+    },
+    {
+      Id: "other789",
+      Names: ["other"],
+      State: "running",
+      Labels: { "com.docker.compose.project": "other", "com.docker.compose.service": "app" },
+    },
+  ]);
+
+  it("builds events args with JSON output", () => {
+    expect(runtime.eventsArgs({ "com.docker.compose.project": "proj" })).toEqual([
+      "events",
+      "--filter",
+      "type=container",
+      "--filter",
+      "label=com.docker.compose.project=proj",
+      "--filter",
+      "event=start",
+      "--filter",
+      "event=died",
+      "--filter",
+      "event=stop",
+      "--filter",
+      "event=remove",
+      "--filter",
+      "event=restart",
+      "--filter",
+      "event=pause",
+      "--filter",
+      "event=unpause",
+      "--format",
+      "json",
+    ]);
+  });
+
+  it("maps Podman event statuses onto Docker actions", () => {
+    const died = JSON.stringify({
+      ID: "abc123",
+      Image: "node:20",
+      Name: "proj",
+      Status: "died",
+      Type: "container",
+      ContainerExitCode: 1,
+      Attributes: { "devcontainer.local_folder": "/home/user/p" },
+    });
+    expect(runtime.parseEvent(died)).toEqual({
+      action: "die",
+      containerId: "abc123",
+      exitCode: 1,
+      attributes: { "devcontainer.local_folder": "/home/user/p", name: "proj", image: "node:20" },
+    });
+    expect(
+      runtime.parseEvent(JSON.stringify({ ID: "abc123", Status: "remove", Type: "container" }))?.action
+    ).toBe("destroy");
+    expect(runtime.parseEvent(JSON.stringify({ ID: "img1", Status: "pull", Type: "image" }))).toBeUndefined();
+  });
+
+  it("uses the same exec flags as Docker", () => {
+    expect(runtime.execArgs("abc", ["ls"], { workdir: "/w" })).toEqual([
+      "exec",
+      "-w",
+      "/w",
+      "abc",
+      "ls",
+    ]);
+  });
+
+  it("parses the JSON array output and re-checks every label", async () => {
+    const commands = respondWith(() => psOutput);
+    const containers = await runtime.listContainers({ "com.docker.compose.project": "proj" });
+
+    expect(commands[0]).toContain("podman ps -a");
+    expect(commands[0]).toContain("--format json");
+    expect(containers.map((c) => c.id)).toEqual(["abc123", "db456"]);
+    expect(containers[0].name).toBe("proj-app-1");
+  });
+
+  it("only returns running containers from findContainers", async () => {
+    respondWith(() => psOutput);
+    const ids = await runtime.findContainers({
+      "com.docker.compose.project": "proj",
+      "com.docker.compose.service": "app",
+    });
+    expect(ids).toEqual(["abc123"]);
+  });
+
+  it("returns an empty list for unparseable output", async () => {
+    respondWith(() => "not json");
+    expect(await runtime.listContainers({})).toEqual([]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Selection
+// ---------------------------------------------------------------------------
+
+describe("getContainerRuntime", () => {
+  it("defaults to Docker with the configured dockerPath", () => {
+    __setMockConfig({ "opencode-devcontainer.dockerPath": "/usr/bin/docker" });
+    const runtime = getContainerRuntime();
+    expect(runtime.kind).toBe("docker");
+    expect(runtime.cliPath).toBe("/usr/bin/docker");
+  });
+
+  it("uses Podman when configured", () => {
+    __setMockConfig({ "opencode-devcontainer.containerRuntime": "podman" });
+    const runtime = getContainerRuntime();
+    expect(runtime.kind).toBe("podman");
+    expect(runtime.cliPath).toBe("podman");
+  });
+});
+
+describe("remote hosts", () => {
+  beforeEach(() => {
+    vi.stubEnv("DOCKER_HOST", "");
+    vi.stubEnv("DOCKER_CONTEXT", "");
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("has no host env by default", () => {
+    const runtime = new DockerRuntime("docker");
+    expect(runtime.hostEnv()).toEqual({});
+    expect(runtime.hostLabel()).toBeUndefined();
+  });
+
+  it("prefers dockerHost over dockerContext", () => {
+    __setMockConfig({
+      "opencode-devcontainer.dockerHost": "ssh://me@build-box",
+      "opencode-devcontainer.dockerContext": "other",
+    });
+    const runtime = new DockerRuntime("docker");
+    expect(runtime.hostEnv()).toEqual({ DOCKER_HOST: "ssh://me@build-box" });
+    expect(runtime.hostLabel()).toBe("ssh://me@build-box");
+  });
+
+  it("sets DOCKER_CONTEXT for a context and ignores the default context", () => {
+    __setMockConfig({ "opencode-devcontainer.dockerContext": "build-box" });
+    const runtime = new DockerRuntime("docker");
+    expect(runtime.hostEnv()).toEqual({ DOCKER_CONTEXT: "build-box" });
+    expect(runtime.hostLabel()).toBe("context build-box");
+
+    __setMockConfig({ "opencode-devcontainer.dockerContext": "default" });
+    expect(runtime.hostLabel()).toBeUndefined();
+  });
+
+  it("labels a host inherited from the environment", () => {
+    vi.stubEnv("DOCKER_HOST", "tcp://10.0.0.5:2376");
+    expect(new DockerRuntime("docker").hostLabel()).toBe("tcp://10.0.0.5:2376");
+  });
+
+  it("uses Podman's variables for Podman", () => {
+    const runtime = new PodmanRuntime("podman");
+    __setMockConfig({ "opencode-devcontainer.dockerHost": "ssh://me@box/run/podman/podman.sock" });
+    expect(runtime.hostEnv()).toEqual({ CONTAINER_HOST: "ssh://me@box/run/podman/podman.sock" });
+
+    __setMockConfig({ "opencode-devcontainer.dockerContext": "box" });
+    expect(runtime.hostEnv()).toEqual({ CONTAINER_CONNECTION: "box" });
+  });
+
+  it("passes the host to executed commands", async () => {
+    __setMockConfig({ "opencode-devcontainer.dockerHost": "ssh://me@build-box" });
+    let env: NodeJS.ProcessEnv | undefined;
+    mockExec.mockImplementation((_cmd: string, opts: { env: NodeJS.ProcessEnv }, cb: ExecCallback) => {
+      env = opts.env;
+      cb(null, "", "");
+    });
+
+    await getContainerRuntime().findContainers({ "devcontainer.local_folder": "/p" });
+    expect(env?.DOCKER_HOST).toBe("ssh://me@build-box");
+  });
+});
+
+describe("detectContainerRuntime", () => {
+  it("recognises the podman-docker shim", async () => {
+    respondWith(() => "podman version 4.9.3\n");
+    const runtime = await detectContainerRuntime();
+    expect(runtime.kind).toBe("podman");
+    expect(runtime.cliPath).toBe("docker");
+  });
+
+  it("picks Docker when the docker CLI answers", async () => {
+    respondWith(() => "Docker version 27.0.1, build abc\n");
+    expect((await detectContainerRuntime()).kind).toBe("docker");
+  });
+
+  it("falls back to podmanPath when docker is missing", async () => {
+    respondWith((cmd) =>
+      cmd.startsWith("docker") ? new Error("not found") : "podman version 5.0.0\n"
+    );
+    const runtime = await detectContainerRuntime();
+    expect(runtime.kind).toBe("podman");
+    expect(runtime.cliPath).toBe("podman");
+  });
+
+  it("caches the detected runtime until reset", async () => {
+    respondWith(() => "podman version 4.9.3\n");
+    await detectContainerRuntime();
+    expect(getContainerRuntime().kind).toBe("podman");
+
+    resetContainerRuntime();
+    expect(getContainerRuntime().kind).toBe("docker");
+  });
+
+  it("does not probe when the runtime is set explicitly", async () => {
+    __setMockConfig({ "opencode-devcontainer.containerRuntime": "docker" });
+    await detectContainerRuntime();
+    expect(mockExec).not.toHaveBeenCalled();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// streamCommand
+// ---------------------------------------------------------------------------
+
+describe("streamCommand", () => {
+  it("reports complete lines from both streams as they arrive", async () => {
+    const child = createMockChild();
+    mockSpawn.mockReturnValue(child);
+    const lines: string[] = [];
+
+    const pending = streamCommand("devcontainer up", {
+      cwd: "/home/user/project",
+      onLine: (line, stream) => lines.push(`${stream}:${line}`),
+    });
+    child.stderr.emit("data", '{"type":"text"}\n{"type":');
+    child.stderr.emit("data", '"raw"}\n');
+    child.stdout.emit("data", '{"outcome":"success"}');
+    child.stdout.emit("end");
+    child.emit("close", 0);
+
+    expect(await pending).toEqual({
+      stdout: '{"outcome":"success"}',
+      stderr: '{"type":"text"}\n{"type":"raw"}\n',
+    });
+    expect(lines).toEqual([
+      'stderr:{"type":"text"}',
+      'stderr:{"type":"raw"}',
+      'stdout:{"outcome":"success"}',
+    ]);
+    expect(mockSpawn).toHaveBeenCalledWith(
+      "devcontainer up",
+      expect.objectContaining({ cwd: "/home/user/project", shell: true })
+    );
+  });
+
+  it("only reports lines when output collection is off", async () => {
+    const child = createMockChild();
+    mockSpawn.mockReturnValue(child);
+    const lines: string[] = [];
+
+    const pending = streamCommand("docker events", {
+      collectOutput: false,
+      onLine: (line) => lines.push(line),
+    });
+    child.stdout.emit("data", '{"status":"start"}\n{"status":"die"}\n');
+    child.emit("close", 0);
+
+    expect(await pending).toEqual({ stdout: "", stderr: "" });
+    expect(lines).toEqual(['{"status":"start"}', '{"status":"die"}']);
+  });
+
+  it("rejects on a non-zero exit code", async () => {
+    const child = createMockChild();
+    mockSpawn.mockReturnValue(child);
+
+    const pending = streamCommand("devcontainer build");
+    child.emit("close", 1);
+
+    await expect(pending).rejects.toThrow("Command failed with exit code 1: devcontainer build");
+  });
+
+  it("kills the process when cancelled", async () => {
+    const child = createMockChild();
+    child.kill.mockImplementation(() => child.emit("close", null));
+    mockSpawn.mockReturnValue(child);
+    const source = new CancellationTokenSource();
+
+    const pending = streamCommand("devcontainer up", { token: source.token as any });
+    source.cancel();
+
+    await expect(pending).rejects.toThrow("Command cancelled: devcontainer up");
+    expect(child.kill).toHaveBeenCalled();
+  });
+
+  it("does not start when already cancelled", async () => {
+    const source = new CancellationTokenSource();
+    source.cancel();
+
+    await expect(streamCommand("devcontainer up", { token: source.token as any })).rejects.toThrow(
+      "Command cancelled"
+    );
+    expect(mockSpawn).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,726 @@
+import * as vscode from "vscode";
+import { exec, spawn } from "child_process";
+import * as path from "path";
+import { getConfig } from "./config";
+
+export type ContainerRuntimeKind = "docker" | "podman";
+
+/** A container as reported by `ps`, normalised across runtimes. */
+export interface ContainerSummary {
+  id: string;
+  name: string;
+  /** Runtime container state, e.g. "running", "exited", "created". */
+  state: string;
+  labels: Record<string, string>;
+}
+
+export interface ExecOptions {
+  /** Working directory inside the container (`-w`). */
+  workdir?: string;
+  /** Environment variables to set for the command (`-e KEY=value`). */
+  env?: Record<string, string>;
+  /**
+   * Variables passed on from the caller's environment by name (`-e KEY`),
+   * so their values never appear on a command line. Takes precedence over
+   * `env`.
+   */
+  inheritEnv?: string[];
+  /** Variables to remove from the command's environment (via `env -u`). */
+  unsetEnv?: string[];
+  /** User to run the command as (`-u`). */
+  user?: string;
+  /** Keep stdin open (`-i`). */
+  interactive?: boolean;
+  /** Allocate a TTY (`-t`). */
+  tty?: boolean;
+}
+
+/** A mount of a container, from `inspect`. */
+export interface ContainerMount {
+  /** "bind", "volume", "tmpfs", ... */
+  type: string;
+  /** Host path of a bind mount (on the daemon's host); volume data path otherwise. */
+  source: string;
+  /** Path inside the container. */
+  destination: string;
+}
+
+/** A container lifecycle event from the runtime's event stream. */
+export interface ContainerEvent {
+  /**
+   * Docker's action name ("start", "die", "oom", "destroy", ...); Podman
+   * statuses are mapped onto it.
+   */
+  action: string;
+  containerId: string;
+  /** Exit code of a "die" event. */
+  exitCode?: number;
+  /** Container labels and attributes such as `name` and `image`. */
+  attributes: Record<string, string>;
+}
+
+/**
+ * The container CLI every module goes through instead of invoking
+ * `docker` directly.
+ *
+ * Argument builders (`execArgs`) are used where the caller spawns the
+ * process itself (bridge, terminal, shell wrapper); the async methods run
+ * the CLI and parse its output.
+ */
+export interface ContainerRuntime {
+  readonly kind: ContainerRuntimeKind;
+  /** Path to the CLI binary. */
+  readonly cliPath: string;
+
+  /**
+   * Standalone Compose binary, for the devcontainer CLI to fall back on
+   * when `<cliPath> compose` is not available.
+   */
+  readonly composeCliPath: string;
+
+  /**
+   * Environment variables pointing the CLI at the daemon chosen with the
+   * `dockerHost` / `dockerContext` settings; empty for the default daemon.
+   * Every process that runs the CLI (including the devcontainer CLI and
+   * the shell wrapper) must get these.
+   */
+  hostEnv(): Record<string, string>;
+
+  /**
+   * The daemon containers live on when it is not the default one, from
+   * the settings or the inherited environment, e.g. `ssh://me@build-box`
+   * or `context build-box`.
+   */
+  hostLabel(): string | undefined;
+
+  /** Build the arguments (without the CLI path) for `exec` in a container. */
+  execArgs(containerId: string, command: string[], options?: ExecOptions): string[];
+
+  /**
+   * Build the arguments for `events`, streaming container events of
+   * containers carrying every one of the given labels.
+   */
+  eventsArgs(labels: Record<string, string>): string[];
+
+  /** Parse a line of `events` output; `undefined` for anything else. */
+  parseEvent(line: string): ContainerEvent | undefined;
+
+  /** Run a command in a container and collect its output. */
+  exec(
+    containerId: string,
+    command: string[],
+    options?: ExecOptions
+  ): Promise<{ stdout: string; stderr: string }>;
+
+  /** IDs of running containers carrying every one of the given labels. */
+  findContainers(labels: Record<string, string>): Promise<string[]>;
+
+  /** All containers (any state) carrying every one of the given labels. */
+  listContainers(labels: Record<string, string>): Promise<ContainerSummary[]>;
+
+  /** Whether the container is running. Rejects if it does not exist. */
+  isRunning(containerId: string): Promise<boolean>;
+
+  /** Value of a label on the container, if set. */
+  getLabel(containerId: string, label: string): Promise<string | undefined>;
+
+  /** The container's configured environment (`Config.Env`). */
+  getEnv(containerId: string): Promise<Record<string, string>>;
+
+  /** The container's mounts (`Mounts`). */
+  getMounts(containerId: string): Promise<ContainerMount[]>;
+
+  stop(containerId: string): Promise<void>;
+
+  /** Force-remove a container, running or not. */
+  remove(containerId: string): Promise<void>;
+
+  /** Run a project-wide Compose action. */
+  compose(
+    project: string,
+    files: string[],
+    action: "stop" | "down" | "restart"
+  ): Promise<void>;
+}
+
+/**
+ * Container lifecycle actions the event stream is filtered to; others,
+ * such as the `exec_*` events of every command run in the container, are
+ * left out.
+ */
+const WATCHED_ACTIONS = ["start", "die", "stop", "destroy", "restart", "pause", "unpause", "oom"];
+
+/**
+ * Runtime backed by the Docker CLI.
+ */
+export class DockerRuntime implements ContainerRuntime {
+  readonly kind: ContainerRuntimeKind = "docker";
+
+  readonly composeCliPath: string = "docker-compose";
+
+  /** Variables the CLI reads the daemon address and context from. */
+  protected readonly hostVariables = { host: "DOCKER_HOST", context: "DOCKER_CONTEXT" };
+
+  constructor(readonly cliPath: string) {}
+
+  hostEnv(): Record<string, string> {
+    const { dockerHost, dockerContext } = getConfig();
+    // An explicit host wins over a context, as it does for the CLI itself.
+    if (dockerHost) {
+      return { [this.hostVariables.host]: dockerHost };
+    }
+    if (dockerContext) {
+      return { [this.hostVariables.context]: dockerContext };
+    }
+    return {};
+  }
+
+  hostLabel(): string | undefined {
+    const env = { ...process.env, ...this.hostEnv() };
+    const host = env[this.hostVariables.host];
+    const context = env[this.hostVariables.context];
+    if (host) {
+      return host;
+    }
+    return context && context !== "default" ? `context ${context}` : undefined;
+  }
+
+  execArgs(containerId: string, command: string[], options: ExecOptions = {}): string[] {
+    const args = ["exec"];
+    if (options.interactive && options.tty) {
+      args.push("-it");
+    } else if (options.interactive) {
+      args.push("-i");
+    } else if (options.tty) {
+      args.push("-t");
+    }
+    if (options.user) {
+      args.push("-u", options.user);
+    }
+    if (options.workdir) {
+      args.push("-w", options.workdir);
+    }
+    for (const [key, value] of Object.entries(options.env ?? {})) {
+      if (!options.inheritEnv?.includes(key)) {
+        args.push("-e", `${key}=${value}`);
+      }
+    }
+    for (const name of options.inheritEnv ?? []) {
+      args.push("-e", name);
+    }
+    args.push(containerId);
+    if (options.unsetEnv?.length) {
+      args.push("env", ...options.unsetEnv.flatMap((name) => ["-u", name]));
+    }
+    args.push(...command);
+    return args;
+  }
+
+  exec(
+    containerId: string,
+    command: string[],
+    options?: ExecOptions
+  ): Promise<{ stdout: string; stderr: string }> {
+    return this.run(this.execArgs(containerId, command, options));
+  }
+
+  eventsArgs(labels: Record<string, string>): string[] {
+    return [
+      "events",
+      "--filter",
+      "type=container",
+      ...this.labelFilters(labels),
+      ...this.eventFilters(WATCHED_ACTIONS),
+      "--format",
+      "{{json .}}",
+    ];
+  }
+
+  parseEvent(line: string): ContainerEvent | undefined {
+    const raw = parseJsonObject(line);
+    if (!raw || raw.Type !== "container") {
+      return undefined;
+    }
+    const actor = (raw.Actor ?? {}) as { ID?: string; Attributes?: Record<string, string> };
+    const attributes = actor.Attributes ?? {};
+    // Actions such as "exec_start: sh -c ..." carry the command after a colon.
+    const action = String(raw.Action ?? raw.status ?? "").split(":")[0];
+    const containerId = String(actor.ID ?? raw.id ?? "");
+    if (!action || !containerId) {
+      return undefined;
+    }
+    return {
+      action,
+      containerId,
+      exitCode: attributes.exitCode !== undefined ? Number(attributes.exitCode) : undefined,
+      attributes,
+    };
+  }
+
+  async findContainers(labels: Record<string, string>): Promise<string[]> {
+    const result = await this.run(["ps", "-q", ...this.labelFilters(labels)]);
+    return splitLines(result.stdout);
+  }
+
+  async listContainers(labels: Record<string, string>): Promise<ContainerSummary[]> {
+    const result = await this.run([
+      "ps",
+      "-a",
+      ...this.labelFilters(labels),
+      "--format",
+      "{{json .}}",
+    ]);
+
+    const containers: ContainerSummary[] = [];
+    for (const line of splitLines(result.stdout)) {
+      try {
+        const parsed = JSON.parse(line) as Record<string, unknown>;
+        containers.push({
+          id: String(parsed.ID ?? ""),
+          name: String(parsed.Names ?? ""),
+          state: String(parsed.State ?? "unknown"),
+          labels: parseLabelString(String(parsed.Labels ?? "")),
+        });
+      } catch {
+        // Not a JSON line, skip
+      }
+    }
+    return containers;
+  }
+
+  async isRunning(containerId: string): Promise<boolean> {
+    const result = await this.run(["inspect", "-f", "{{.State.Running}}", containerId]);
+    return result.stdout.trim() === "true";
+  }
+
+  async getLabel(containerId: string, label: string): Promise<string | undefined> {
+    const result = await this.run([
+      "inspect",
+      "-f",
+      `{{index .Config.Labels "${label}"}}`,
+      containerId,
+    ]);
+    const value = result.stdout.trim();
+    return value && value !== "<no value>" ? value : undefined;
+  }
+
+  async getEnv(containerId: string): Promise<Record<string, string>> {
+    const result = await this.run(["inspect", "-f", "{{json .Config.Env}}", containerId]);
+    const env: Record<string, string> = {};
+    let entries: unknown;
+    try {
+      entries = JSON.parse(result.stdout.trim() || "[]");
+    } catch {
+      return env;
+    }
+    for (const entry of Array.isArray(entries) ? entries : []) {
+      const idx = String(entry).indexOf("=");
+      if (idx > 0) {
+        env[String(entry).substring(0, idx)] = String(entry).substring(idx + 1);
+      }
+    }
+    return env;
+  }
+
+  async getMounts(containerId: string): Promise<ContainerMount[]> {
+    const result = await this.run(["inspect", "-f", "{{json .Mounts}}", containerId]);
+    let entries: unknown;
+    try {
+      entries = JSON.parse(result.stdout.trim() || "[]");
+    } catch {
+      return [];
+    }
+    return (Array.isArray(entries) ? entries : [])
+      .filter((m): m is Record<string, unknown> => !!m && typeof m === "object")
+      .map((m) => ({
+        type: String(m.Type ?? ""),
+        source: String(m.Source ?? ""),
+        destination: String(m.Destination ?? ""),
+      }))
+      .filter((m) => m.source && m.destination);
+  }
+
+  async stop(containerId: string): Promise<void> {
+    await this.run(["stop", containerId]);
+  }
+
+  async remove(containerId: string): Promise<void> {
+    await this.run(["rm", "-f", containerId]);
+  }
+
+  async compose(
+    project: string,
+    files: string[],
+    action: "stop" | "down" | "restart"
+  ): Promise<void> {
+    const fileArgs = files.flatMap((f) => ["-f", f]);
+    await this.run(["compose", "-p", project, ...fileArgs, action]);
+  }
+
+  protected eventFilters(actions: string[]): string[] {
+    return actions.flatMap((action) => ["--filter", `event=${action}`]);
+  }
+
+  protected labelFilters(labels: Record<string, string>): string[] {
+    return Object.entries(labels).flatMap(([key, value]) => [
+      "--filter",
+      `label=${key}=${value}`,
+    ]);
+  }
+
+  protected run(args: string[]): Promise<{ stdout: string; stderr: string }> {
+    return execCommand(toCommandLine([this.cliPath, ...args]), { binaryPath: this.cliPath });
+  }
+}
+
+/** Podman event statuses that differ from Docker's action names. */
+const PODMAN_ACTIONS: Record<string, string> = {
+  died: "die",
+  remove: "destroy",
+};
+
+/** {@link WATCHED_ACTIONS} as Podman statuses; Podman reports no OOM event. */
+const PODMAN_WATCHED_STATUSES = ["start", "died", "stop", "remove", "restart", "pause", "unpause"];
+
+/**
+ * Runtime backed by the Podman CLI.
+ *
+ * Podman accepts Docker's `exec` flags, but its `ps` JSON output is a
+ * single array with object-valued labels, and older releases OR together
+ * repeated `label=` filters — so label matching is re-checked here.
+ */
+export class PodmanRuntime extends DockerRuntime {
+  readonly kind: ContainerRuntimeKind = "podman";
+  readonly composeCliPath: string = "podman-compose";
+
+  protected readonly hostVariables = { host: "CONTAINER_HOST", context: "CONTAINER_CONNECTION" };
+
+  eventsArgs(labels: Record<string, string>): string[] {
+    return [
+      "events",
+      "--filter",
+      "type=container",
+      ...this.labelFilters(labels),
+      ...this.eventFilters(PODMAN_WATCHED_STATUSES),
+      "--format",
+      "json",
+    ];
+  }
+
+  parseEvent(line: string): ContainerEvent | undefined {
+    const raw = parseJsonObject(line);
+    if (!raw || raw.Type !== "container") {
+      return undefined;
+    }
+    const status = String(raw.Status ?? "");
+    const containerId = String(raw.ID ?? "");
+    if (!status || !containerId) {
+      return undefined;
+    }
+    const exitCode = raw.ContainerExitCode;
+    return {
+      action: PODMAN_ACTIONS[status] ?? status,
+      containerId,
+      exitCode: status === "died" && typeof exitCode === "number" ? exitCode : undefined,
+      attributes: {
+        ...((raw.Attributes ?? {}) as Record<string, string>),
+        name: String(raw.Name ?? ""),
+        image: String(raw.Image ?? ""),
+      },
+    };
+  }
+
+  async findContainers(labels: Record<string, string>): Promise<string[]> {
+    const containers = await this.psJson(labels, false);
+    return containers.filter((c) => c.state === "running").map((c) => c.id);
+  }
+
+  async listContainers(labels: Record<string, string>): Promise<ContainerSummary[]> {
+    return this.psJson(labels, true);
+  }
+
+  private async psJson(
+    labels: Record<string, string>,
+    all: boolean
+  ): Promise<ContainerSummary[]> {
+    const args = ["ps", ...(all ? ["-a"] : []), ...this.labelFilters(labels), "--format", "json"];
+    const result = await this.run(args);
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(result.stdout.trim() || "[]");
+    } catch {
+      return [];
+    }
+    if (!Array.isArray(parsed)) {
+      return [];
+    }
+
+    return parsed
+      .map((raw: Record<string, unknown>) => ({
+        id: String(raw.Id ?? raw.ID ?? ""),
+        name: Array.isArray(raw.Names) ? String(raw.Names[0] ?? "") : String(raw.Names ?? ""),
+        state: String(raw.State ?? "unknown"),
+        labels:
+          raw.Labels && typeof raw.Labels === "object"
+            ? (raw.Labels as Record<string, string>)
+            : {},
+      }))
+      .filter((c) => Object.entries(labels).every(([k, v]) => c.labels[k] === v));
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Selection
+// ---------------------------------------------------------------------------
+
+let detectedRuntime: ContainerRuntime | undefined;
+
+/**
+ * Return the container runtime to use.
+ *
+ * Uses the result of {@link detectContainerRuntime} when detection has
+ * run; otherwise falls back to the `containerRuntime` setting (Docker for
+ * "auto").
+ */
+export function getContainerRuntime(): ContainerRuntime {
+  if (detectedRuntime) {
+    return detectedRuntime;
+  }
+  const config = getConfig();
+  return config.containerRuntime === "podman"
+    ? new PodmanRuntime(config.podmanPath)
+    : new DockerRuntime(config.dockerPath);
+}
+
+/**
+ * Resolve the runtime from the `containerRuntime` setting. In "auto"
+ * mode, `dockerPath` is probed first (recognising the podman-docker shim),
+ * then `podmanPath`. The result is cached until {@link resetContainerRuntime}.
+ */
+export async function detectContainerRuntime(): Promise<ContainerRuntime> {
+  const config = getConfig();
+
+  if (config.containerRuntime === "docker") {
+    detectedRuntime = new DockerRuntime(config.dockerPath);
+  } else if (config.containerRuntime === "podman") {
+    detectedRuntime = new PodmanRuntime(config.podmanPath);
+  } else {
+    const dockerVersion = await probeVersion(config.dockerPath);
+    if (dockerVersion !== undefined) {
+      detectedRuntime = /podman/i.test(dockerVersion)
+        ? new PodmanRuntime(config.dockerPath)
+        : new DockerRuntime(config.dockerPath);
+    } else if ((await probeVersion(config.podmanPath)) !== undefined) {
+      detectedRuntime = new PodmanRuntime(config.podmanPath);
+    } else {
+      detectedRuntime = new DockerRuntime(config.dockerPath);
+    }
+  }
+
+  return detectedRuntime;
+}
+
+/** Forget the detected runtime, e.g. after the settings changed. */
+export function resetContainerRuntime(): void {
+  detectedRuntime = undefined;
+}
+
+async function probeVersion(cliPath: string): Promise<string | undefined> {
+  try {
+    const result = await execCommand(toCommandLine([cliPath, "--version"]), {
+      binaryPath: cliPath,
+    });
+    return result.stdout;
+  } catch {
+    return undefined;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Process helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Quote a single argument for a POSIX shell command line. Arguments made
+ * only of safe characters are left bare.
+ */
+export function shellQuote(arg: string): string {
+  if (/^[\w@%+=:,./-]+$/.test(arg)) {
+    return arg;
+  }
+  return `'${arg.replace(/'/g, "'\\''")}'`;
+}
+
+/** Join an argv array into a shell command line. */
+export function toCommandLine(argv: string[]): string {
+  return argv.map(shellQuote).join(" ");
+}
+
+/**
+ * Run a shell command line and collect its output.
+ */
+export function execCommand(
+  command: string,
+  options?: { cwd?: string; timeout?: number; binaryPath?: string }
+): Promise<{ stdout: string; stderr: string }> {
+  const env = commandEnv(options?.binaryPath);
+
+  return new Promise((resolve, reject) => {
+    exec(
+      command,
+      { cwd: options?.cwd, timeout: options?.timeout ?? 120000, env },
+      (error, stdout, stderr) => {
+        if (error) {
+          // `exitCode` lets callers tell a failing command from a failure to run it.
+          reject(
+            Object.assign(new Error(`Command failed: ${command}\n${stderr || error.message}`), {
+              exitCode: typeof error.code === "number" ? error.code : undefined,
+            })
+          );
+          return;
+        }
+        resolve({ stdout, stderr });
+      }
+    );
+  });
+}
+
+export interface StreamCommandOptions {
+  cwd?: string;
+  /** The binary the command line runs, see {@link commandEnv}. */
+  binaryPath?: string;
+  /** Called with every line the command writes, as it is written. */
+  onLine?: (line: string, stream: "stdout" | "stderr") => void;
+  /** Kills the command when cancellation is requested. */
+  token?: vscode.CancellationToken;
+  /**
+   * Collect the output for the result (the default). Turn off for
+   * commands that run indefinitely, such as the event stream, which only
+   * need `onLine`.
+   */
+  collectOutput?: boolean;
+}
+
+/**
+ * Run a shell command line without a timeout, streaming its output line
+ * by line. Used for long-running commands such as image builds.
+ *
+ * Resolves with the collected output unless `collectOutput` is off.
+ * Rejects when the command exits non-zero or is cancelled.
+ */
+export function streamCommand(
+  command: string,
+  options: StreamCommandOptions = {}
+): Promise<{ stdout: string; stderr: string }> {
+  return new Promise((resolve, reject) => {
+    if (options.token?.isCancellationRequested) {
+      reject(new Error(`Command cancelled: ${command}`));
+      return;
+    }
+
+    const child = spawn(command, { cwd: options.cwd, env: commandEnv(options.binaryPath), shell: true });
+    const output = { stdout: "", stderr: "" };
+    const collectOutput = options.collectOutput ?? true;
+    let cancelled = false;
+
+    const cancelListener = options.token?.onCancellationRequested(() => {
+      cancelled = true;
+      child.kill();
+    });
+
+    for (const stream of ["stdout", "stderr"] as const) {
+      let pending = "";
+      child[stream]?.on("data", (chunk: Buffer | string) => {
+        const text = chunk.toString();
+        if (collectOutput) {
+          output[stream] += text;
+        }
+        pending += text;
+        const lines = pending.split(/\r?\n/);
+        pending = lines.pop() ?? "";
+        for (const line of lines) {
+          options.onLine?.(line, stream);
+        }
+      });
+      child[stream]?.on("end", () => {
+        if (pending) {
+          options.onLine?.(pending, stream);
+          pending = "";
+        }
+      });
+    }
+
+    child.on("error", (err) => {
+      cancelListener?.dispose();
+      reject(new Error(`Command failed: ${command}\n${err.message}`));
+    });
+    child.on("close", (code) => {
+      cancelListener?.dispose();
+      if (cancelled) {
+        reject(new Error(`Command cancelled: ${command}`));
+      } else if (code !== 0) {
+        reject(new Error(`Command failed with exit code ${code}: ${command}`));
+      } else {
+        resolve(output);
+      }
+    });
+  });
+}
+
+/**
+ * The environment for a command line: the container runtime's
+ * {@link ContainerRuntime.hostEnv}, so the runtime CLI and the
+ * devcontainer CLI talk to the configured daemon. When the command's
+ * binary is an absolute path, its parent directory is also put on PATH. This fixes
+ * environments where node is managed by nvm and the devcontainer CLI
+ * (a #!/usr/bin/env node script) lives in the same bin directory as the
+ * node binary, but that directory isn't on the default PATH inherited by
+ * child processes (common when VS Code is launched from the OS
+ * application launcher rather than a terminal).
+ */
+function commandEnv(binaryPath: string | undefined): NodeJS.ProcessEnv {
+  const env = { ...process.env, ...getContainerRuntime().hostEnv() };
+  if (binaryPath && path.isAbsolute(binaryPath)) {
+    const binDir = path.dirname(binaryPath);
+    env.PATH = binDir + path.delimiter + (env.PATH || "");
+  }
+  return env;
+}
+
+function splitLines(text: string): string[] {
+  return text
+    .split("\n")
+    .map((l) => l.trim())
+    .filter(Boolean);
+}
+
+/** Parse a line holding a JSON object; `undefined` for anything else. */
+function parseJsonObject(line: string): Record<string, unknown> | undefined {
+  try {
+    const parsed = JSON.parse(line.trim());
+    return parsed && typeof parsed === "object" && !Array.isArray(parsed) ? parsed : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Parse Docker's comma-separated `Labels` column. Values may themselves
+ * contain commas (e.g. Compose's `config_files`), so a segment without
+ * `=` is appended to the previous value.
+ */
+function parseLabelString(raw: string): Record<string, string> {
+  const labels: Record<string, string> = {};
+  let lastKey: string | undefined;
+  for (const segment of raw.split(",")) {
+    const idx = segment.indexOf("=");
+    if (idx > 0) {
+      lastKey = segment.substring(0, idx);
+      labels[lastKey] = segment.substring(idx + 1);
+    } else if (lastKey && segment) {
+      labels[lastKey] += `,${segment}`;
+    }
+  }
+  return labels;
+}
@@ -0,0 +1,180 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import * as fs from "fs";
+import * as net from "net";
+import * as os from "os";
+import * as path from "path";
+import { __resetMocks } from "./__mocks__/vscode";
+
+vi.mock("child_process", async () => {
+  const actual = await vi.importActual("child_process");
+  return {
+    ...actual,
+    spawn: vi.fn(),
+  };
+});
+
+import * as childProcess from "child_process";
+import { CredentialRelay } from "./credentialRelay";
+import { resetContainerRuntime } from "./containerRuntime";
+
+const { spawn: realSpawn } = await vi.importActual<typeof childProcess>("child_process");
+const mockSpawn = childProcess.spawn as unknown as ReturnType<typeof vi.fn>;
+
+/** What the host's `git credential fill` prints. */
+const GIT_FILL = `process.stdin.resume();
+let input = "";
+process.stdin.on("data", (d) => (input += d));
+process.stdin.on("end", () => {
+  if (!input.includes("host=example.com")) process.exit(128);
+  process.stdout.write("protocol=https\\nhost=example.com\\nusername=me\\npassword=hunter2\\n");
+});`;
+
+let tmp: string;
+let relay: CredentialRelay | undefined;
+let execArgs: string[];
+
+beforeEach(() => {
+  __resetMocks();
+  resetContainerRuntime();
+  tmp = fs.mkdtempSync(path.join(os.tmpdir(), "credential-relay-test-"));
+  // Run the container side with the local node instead of `docker exec`.
+  mockSpawn.mockReset().mockImplementation((command: string, args: string[], options: object) => {
+    if (command === "git") {
+      return realSpawn(process.execPath, ["-e", GIT_FILL], options);
+    }
+    execArgs = args;
+    return realSpawn(process.execPath, args.slice(args.indexOf("node") + 1), options);
+  });
+});
+
+afterEach(() => {
+  relay?.dispose();
+  relay = undefined;
+  vi.unstubAllEnvs();
+  fs.rmSync(tmp, { recursive: true, force: true });
+});
+
+function request(socketPath: string, data: string, halfClose = false): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const socket = net.connect(socketPath, () => {
+      socket.write(data);
+      if (halfClose) {
+        socket.end();
+      }
+    });
+    let response = "";
+    socket.on("data", (chunk) => {
+      response += chunk.toString();
+      if (!halfClose) {
+        socket.end();
+      }
+    });
+    socket.on("close", () => resolve(response));
+    socket.on("error", reject);
+  });
+}
+
+async function waitFor(condition: () => boolean): Promise<void> {
+  for (let i = 0; i < 100 && !condition(); i++) {
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+}
+
+describe("CredentialRelay", () => {
+  it("runs node in the container as the given user", async () => {
+    relay = new CredentialRelay("abc123", ["git-credential"], { user: "vscode", cwd: tmp });
+    await relay.ready;
+
+    expect(execArgs.slice(0, 5)).toEqual(["exec", "-i", "-u", "vscode", "abc123"]);
+    expect(execArgs.slice(5, 7)).toEqual(["node", "-e"]);
+  });
+
+  it("relays SSH agent connections to the host's agent", async () => {
+    const agentPath = path.join(tmp, "agent.sock");
+    const agent = net.createServer((socket) => {
+      socket.on("data", (data) => socket.write(`agent:${data}`));
+    });
+    await new Promise<void>((resolve) => agent.listen(agentPath, resolve));
+    vi.stubEnv("SSH_AUTH_SOCK", agentPath);
+
+    try {
+      relay = new CredentialRelay("abc123", ["ssh-agent"], { cwd: tmp });
+      await relay.ready;
+
+      expect(relay.env()).toEqual({ SSH_AUTH_SOCK: `${relay.dir}/ssh-agent.sock` });
+      expect(await request(relay.env().SSH_AUTH_SOCK, "hello")).toBe("agent:hello");
+      expect(await request(relay.env().SSH_AUTH_SOCK, "again")).toBe("agent:again");
+    } finally {
+      agent.close();
+    }
+  });
+
+  it("answers git credential requests with the host's git", async () => {
+    relay = new CredentialRelay("abc123", ["git-credential"], { cwd: tmp });
+    await relay.ready;
+
+    expect(relay.env()).toEqual({
+      GIT_CONFIG_COUNT: "1",
+      GIT_CONFIG_KEY_0: "credential.helper",
+      GIT_CONFIG_VALUE_0: `!node ${relay.dir}/git-credential-helper.js`,
+    });
+
+    expect(relay.env({ GIT_CONFIG_COUNT: "2" })).toEqual({
+      GIT_CONFIG_COUNT: "3",
+      GIT_CONFIG_KEY_2: "credential.helper",
+      GIT_CONFIG_VALUE_2: `!node ${relay.dir}/git-credential-helper.js`,
+    });
+
+    const helper = realSpawn(process.execPath, [`${relay.dir}/git-credential-helper.js`, "get"]);
+    let stdout = "";
+    helper.stdout.on("data", (d) => (stdout += d));
+    helper.stdin.end("protocol=https\nhost=example.com\n\n");
+    await new Promise((resolve) => helper.on("close", resolve));
+
+    expect(stdout).toContain("password=hunter2");
+    expect(mockSpawn).toHaveBeenCalledWith(
+      "git",
+      ["credential", "fill"],
+      expect.objectContaining({ cwd: tmp })
+    );
+  });
+
+  it("answers an unknown credential with nothing", async () => {
+    relay = new CredentialRelay("abc123", ["git-credential"], { cwd: tmp });
+    await relay.ready;
+
+    const response = await request(
+      `${relay.dir}/git-credential.sock`,
+      "protocol=https\nhost=other.example\n\n",
+      true
+    );
+    expect(response).toBe("");
+  });
+
+  it("removes its directory in the container when disposed", async () => {
+    relay = new CredentialRelay("abc123", ["git-credential"], { cwd: tmp });
+    await relay.ready;
+    const dir = relay.dir;
+    expect(fs.existsSync(dir)).toBe(true);
+
+    relay.dispose();
+    await waitFor(() => !fs.existsSync(dir));
+
+    expect(fs.existsSync(dir)).toBe(false);
+  });
+
+  it("rejects ready with the error when node is missing", async () => {
+    mockSpawn.mockImplementation((_command: string, _args: string[], options: object) =>
+      realSpawn(
+        process.execPath,
+        ["-e", 'process.stderr.write("exec: \\"node\\": not found"); process.exit(127)'],
+        options
+      )
+    );
+    const onExit = vi.fn();
+    relay = new CredentialRelay("abc123", ["ssh-agent"], { cwd: tmp, onExit });
+
+    await expect(relay.ready).rejects.toThrow('exec: "node": not found');
+    expect(onExit).toHaveBeenCalledOnce();
+  });
+});
@@ -0,0 +1,333 @@
+import * as vscode from "vscode";
+import * as net from "net";
+import { ChildProcess, spawn } from "child_process";
+import { randomBytes } from "crypto";
+import { getContainerRuntime } from "./containerRuntime";
+
+/** What a relay forwards: the host's SSH agent, or its git credentials. */
+export type RelayChannel = "ssh-agent" | "git-credential";
+
+/** How long the relay may take to start listening in the container. */
+const READY_TIMEOUT = 15000;
+
+// Frame types. A frame is the type (1 byte), the connection id and the
+// payload length (4 bytes each, big-endian), then the payload.
+const OPEN = 1;
+const DATA = 2;
+const END = 3;
+const READY = 4;
+const HEADER_LENGTH = 9;
+
+/**
+ * Git credential helper installed in the container: passes `get`
+ * requests to the relay, which answers them with `git credential fill` on
+ * the host. Storing and erasing credentials stays with the host's helpers.
+ */
+const GIT_CREDENTIAL_HELPER = `const net = require("net");
+const path = require("path");
+if (process.argv[2] !== "get") {
+  process.exit(0);
+}
+const socket = net.connect(path.join(__dirname, "git-credential.sock"));
+socket.on("error", () => process.exit(0));
+process.stdin.pipe(socket);
+socket.pipe(process.stdout);
+`;
+
+/**
+ * Runs in the container under `node -e`, with the directory to listen in
+ * and the channels as arguments. Each connection to `<dir>/<channel>.sock`
+ * is multiplexed over stdin/stdout; stdin closing removes the directory.
+ */
+const RELAY_SCRIPT = `const fs = require("fs");
+const net = require("net");
+const path = require("path");
+const [dir, ...channels] = process.argv.slice(1);
+const sockets = new Map();
+let nextId = 1;
+let listening = 0;
+
+function send(type, id, payload) {
+  const header = Buffer.alloc(${HEADER_LENGTH});
+  header.writeUInt8(type, 0);
+  header.writeUInt32BE(id, 1);
+  header.writeUInt32BE(payload ? payload.length : 0, 5);
+  process.stdout.write(payload ? Buffer.concat([header, payload]) : header);
+}
+
+function cleanup() {
+  fs.rmSync(dir, { recursive: true, force: true });
+  process.exit(0);
+}
+
+fs.mkdirSync(dir, { mode: 0o700 });
+if (channels.includes("git-credential")) {
+  fs.writeFileSync(path.join(dir, "git-credential-helper.js"), ${JSON.stringify(GIT_CREDENTIAL_HELPER)});
+}
+for (const channel of channels) {
+  const server = net.createServer({ allowHalfOpen: true }, (socket) => {
+    const id = nextId++;
+    let ended = false;
+    const end = () => {
+      if (!ended) {
+        ended = true;
+        send(${END}, id);
+      }
+    };
+    sockets.set(id, socket);
+    send(${OPEN}, id, Buffer.from(channel));
+    socket.on("data", (data) => send(${DATA}, id, data));
+    socket.on("end", end);
+    socket.on("error", () => socket.destroy());
+    socket.on("close", () => {
+      sockets.delete(id);
+      end();
+    });
+  });
+  server.listen(path.join(dir, channel + ".sock"), () => {
+    if (++listening === channels.length) {
+      send(${READY}, 0);
+    }
+  });
+}
+
+let buffer = Buffer.alloc(0);
+process.stdin.on("data", (chunk) => {
+  buffer = Buffer.concat([buffer, chunk]);
+  while (buffer.length >= ${HEADER_LENGTH}) {
+    const length = buffer.readUInt32BE(5);
+    if (buffer.length < ${HEADER_LENGTH} + length) {
+      break;
+    }
+    const type = buffer.readUInt8(0);
+    const socket = sockets.get(buffer.readUInt32BE(1));
+    const payload = buffer.subarray(${HEADER_LENGTH}, ${HEADER_LENGTH} + length);
+    buffer = buffer.subarray(${HEADER_LENGTH} + length);
+    if (socket && type === ${DATA}) {
+      socket.write(payload);
+    } else if (socket && type === ${END}) {
+      socket.end();
+    }
+  }
+});
+process.stdin.on("end", cleanup);
+process.on("SIGTERM", cleanup);
+`;
+
+function frame(type: number, id: number, payload?: Buffer): Buffer {
+  const header = Buffer.alloc(HEADER_LENGTH);
+  header.writeUInt8(type, 0);
+  header.writeUInt32BE(id, 1);
+  header.writeUInt32BE(payload?.length ?? 0, 5);
+  return payload ? Buffer.concat([header, payload]) : header;
+}
+
+/** A connection made in the container, relayed to the host. */
+interface RelayedConnection {
+  /** The host SSH agent connection. */
+  socket?: net.Socket;
+  /** A git credential request received so far. */
+  request?: Buffer[];
+}
+
+/**
+ * Forwards the host's SSH agent and git credentials into a dev container.
+ *
+ * A `node` process started with `docker exec -i` listens on Unix sockets
+ * in a private directory under `/tmp` in the container and multiplexes
+ * every connection over its stdin/stdout. The relay connects SSH agent
+ * connections to the host's `SSH_AUTH_SOCK`, and answers git credential
+ * requests with the host's `git credential fill`. {@link env} points
+ * commands run in the container at the sockets.
+ *
+ * The container needs `node` on PATH; {@link ready} rejects otherwise.
+ */
+export class CredentialRelay implements vscode.Disposable {
+  /** Container directory holding the sockets. */
+  readonly dir = `/tmp/opencode-devcontainer-relay-${randomBytes(6).toString("hex")}`;
+  /** Resolves once the relay listens in the container. */
+  readonly ready: Promise<void>;
+
+  private readonly child: ChildProcess;
+  private readonly connections = new Map<number, RelayedConnection>();
+  private buffer = Buffer.alloc(0);
+  private stderr = "";
+  private disposed = false;
+
+  /**
+   * @param user Container user to listen as, so the sockets belong to the
+   *   user commands run as.
+   * @param cwd Host directory `git credential fill` runs in.
+   * @param onExit Called when the relay stops other than through
+   *   {@link dispose}, e.g. because the container stopped.
+   */
+  constructor(
+    containerId: string,
+    readonly channels: RelayChannel[],
+    private readonly options: { user?: string; cwd: string; onExit?: () => void }
+  ) {
+    const runtime = getContainerRuntime();
+    this.child = spawn(
+      runtime.cliPath,
+      runtime.execArgs(containerId, ["node", "-e", RELAY_SCRIPT, this.dir, ...channels], {
+        user: options.user,
+        interactive: true,
+      }),
+      { env: { ...process.env, ...runtime.hostEnv() }, stdio: ["pipe", "pipe", "pipe"] }
+    );
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    this.ready = new Promise<void>((resolve, reject) => {
+      timer = setTimeout(() => {
+        reject(new Error("The relay did not start in time."));
+        this.dispose();
+      }, READY_TIMEOUT);
+      this.child.stdout?.on("data", (chunk: Buffer) => this.receive(chunk, resolve));
+      this.child.on("error", reject);
+      this.child.on("close", (code) => {
+        reject(new Error(this.stderr.trim() || `The relay exited with code ${code}.`));
+        this.closeConnections();
+        if (!this.disposed) {
+          this.disposed = true;
+          this.options.onExit?.();
+        }
+      });
+    }).finally(() => clearTimeout(timer));
+    // Rejections are for whoever awaits ready; onExit reports later exits.
+    this.ready.catch(() => undefined);
+
+    this.child.stderr?.on("data", (data: Buffer) => {
+      this.stderr += data.toString("utf-8");
+    });
+    // The relay exiting closes its stdin under us.
+    this.child.stdin?.on("error", () => undefined);
+  }
+
+  /**
+   * Environment that points commands run in the container at the relay:
+   * `SSH_AUTH_SOCK`, and a git credential helper added through
+   * `GIT_CONFIG_COUNT` so the container's own git config stays untouched.
+   * The helper goes after the `GIT_CONFIG_*` entries `baseEnv`, the
+   * environment the commands get otherwise, already has.
+   */
+  env(baseEnv: Record<string, string> = {}): Record<string, string> {
+    const env: Record<string, string> = {};
+    if (this.channels.includes("ssh-agent")) {
+      env.SSH_AUTH_SOCK = `${this.dir}/ssh-agent.sock`;
+    }
+    if (this.channels.includes("git-credential")) {
+      const count = Number.parseInt(baseEnv.GIT_CONFIG_COUNT ?? "", 10);
+      const index = Number.isInteger(count) && count > 0 ? count : 0;
+      env.GIT_CONFIG_COUNT = String(index + 1);
+      env[`GIT_CONFIG_KEY_${index}`] = "credential.helper";
+      env[`GIT_CONFIG_VALUE_${index}`] = `!node ${this.dir}/git-credential-helper.js`;
+    }
+    return env;
+  }
+
+  private receive(chunk: Buffer, onReady: () => void): void {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+    while (this.buffer.length >= HEADER_LENGTH) {
+      const length = this.buffer.readUInt32BE(5);
+      if (this.buffer.length < HEADER_LENGTH + length) {
+        return;
+      }
+      const type = this.buffer.readUInt8(0);
+      const id = this.buffer.readUInt32BE(1);
+      const payload = this.buffer.subarray(HEADER_LENGTH, HEADER_LENGTH + length);
+      this.buffer = this.buffer.subarray(HEADER_LENGTH + length);
+
+      if (type === READY) {
+        onReady();
+      } else if (type === OPEN) {
+        this.open(id, payload.toString("utf-8") as RelayChannel);
+      } else if (type === DATA) {
+        const connection = this.connections.get(id);
+        connection?.socket?.write(payload);
+        connection?.request?.push(Buffer.from(payload));
+      } else if (type === END) {
+        const connection = this.connections.get(id);
+        if (connection?.request) {
+          void this.answerCredentialRequest(id, Buffer.concat(connection.request));
+        }
+        connection?.socket?.end();
+      }
+    }
+  }
+
+  private send(type: number, id: number, payload?: Buffer): void {
+    if (!this.disposed) {
+      this.child.stdin?.write(frame(type, id, payload));
+    }
+  }
+
+  private open(id: number, channel: RelayChannel): void {
+    const agent = process.env.SSH_AUTH_SOCK;
+    if (channel === "git-credential") {
+      this.connections.set(id, { request: [] });
+      return;
+    }
+    if (channel !== "ssh-agent" || !agent) {
+      this.send(END, id);
+      return;
+    }
+
+    const socket = net.connect(agent);
+    let ended = false;
+    const end = () => {
+      if (!ended) {
+        ended = true;
+        this.send(END, id);
+      }
+    };
+    this.connections.set(id, { socket });
+    socket.on("data", (data: Buffer) => this.send(DATA, id, data));
+    socket.on("end", end);
+    socket.on("error", () => socket.destroy());
+    socket.on("close", () => {
+      this.connections.delete(id);
+      end();
+    });
+  }
+
+  /** Answer a credential helper's `get` request from the host's git. */
+  private async answerCredentialRequest(id: number, request: Buffer): Promise<void> {
+    this.connections.delete(id);
+    const answer = await new Promise<Buffer | undefined>((resolve) => {
+      const git = spawn("git", ["credential", "fill"], {
+        cwd: this.options.cwd,
+        // Fail rather than wait for input on a terminal nobody sees.
+        env: { ...process.env, GIT_TERMINAL_PROMPT: "0" },
+        stdio: ["pipe", "pipe", "ignore"],
+      });
+      const stdout: Buffer[] = [];
+      git.stdout?.on("data", (data: Buffer) => stdout.push(data));
+      git.on("error", () => resolve(undefined));
+      git.on("close", (code) => resolve(code === 0 ? Buffer.concat(stdout) : undefined));
+      git.stdin?.on("error", () => undefined);
+      git.stdin?.end(request);
+    });
+    if (answer?.length) {
+      this.send(DATA, id, answer);
+    }
+    this.send(END, id);
+  }
+
+  private closeConnections(): void {
+    for (const connection of this.connections.values()) {
+      connection.socket?.destroy();
+    }
+    this.connections.clear();
+  }
+
+  dispose(): void {
+    if (this.disposed) {
+      return;
+    }
+    this.disposed = true;
+    this.closeConnections();
+    // Closing stdin makes the relay remove its directory and exit.
+    this.child.stdin?.end();
+    this.child.kill();
+  }
+}
@@ -0,0 +1,285 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("fs", async () => {
+  const actual = await vi.importActual("fs");
+  return {
+    ...actual,
+    readFileSync: vi.fn(() => ""),
+    existsSync: vi.fn(() => false),
+    readdirSync: vi.fn(() => []),
+  };
+});
+
+import * as fs from "fs";
+import {
+  buildDevcontainerConfig,
+  discoverDevcontainerConfigs,
+  loadDevcontainerConfig,
+  parseJsonc,
+  parseMountString,
+  substituteVariables,
+} from "./devcontainerConfig";
+
+const mockReadFileSync = fs.readFileSync as ReturnType<typeof vi.fn>;
+const mockExistsSync = fs.existsSync as ReturnType<typeof vi.fn>;
+const mockReaddirSync = fs.readdirSync as unknown as ReturnType<typeof vi.fn>;
+
+const CONFIG_FILE = "/home/user/project/.devcontainer/devcontainer.json";
+const context = { localWorkspaceFolder: "/home/user/project", localEnv: { HOME: "/home/user" } };
+
+beforeEach(() => {
+  mockReadFileSync.mockReset().mockReturnValue("");
+  mockExistsSync.mockReset().mockReturnValue(false);
+  mockReaddirSync.mockReset().mockReturnValue([]);
+});
+
+// ---------------------------------------------------------------------------
+// discoverDevcontainerConfigs
+// ---------------------------------------------------------------------------
+
+describe("discoverDevcontainerConfigs", () => {
+  it("returns configs from every spec location in order", () => {
+    mockReaddirSync.mockReturnValue([
+      { name: "python", isDirectory: () => true },
+      { name: "node", isDirectory: () => true },
+    ]);
+    mockExistsSync.mockReturnValue(true);
+
+    expect(discoverDevcontainerConfigs("/ws")).toEqual([
+      "/ws/.devcontainer/devcontainer.json",
+      "/ws/.devcontainer.json",
+      "/ws/.devcontainer/node/devcontainer.json",
+      "/ws/.devcontainer/python/devcontainer.json",
+      "/ws/devcontainer.json",
+    ]);
+  });
+
+  it("only returns files that exist", () => {
+    mockReaddirSync.mockImplementation(() => {
+      throw new Error("ENOENT");
+    });
+    mockExistsSync.mockImplementation((p: unknown) => String(p) === "/ws/.devcontainer.json");
+
+    expect(discoverDevcontainerConfigs("/ws")).toEqual(["/ws/.devcontainer.json"]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// parseJsonc
+// ---------------------------------------------------------------------------
+
+describe("parseJsonc", () => {
+  it("strips line and block comments", () => {
+    expect(
+      parseJsonc(`{
+        // line comment
+        "a": 1, /* block */
+        "b": 2
+      }`)
+    ).toEqual({ a: 1, b: 2 });
+  });
+
+  it("keeps // inside string values such as URLs", () => {
+    expect(parseJsonc('{ "url": "https://example.com/x" // trailing\n }')).toEqual({
+      url: "https://example.com/x",
+    });
+  });
+
+  it("keeps comment markers and escaped quotes inside strings", () => {
+    expect(parseJsonc('{ "s": "a \\"/* not */\\" b" }')).toEqual({ s: 'a "/* not */" b' });
+  });
+
+  it("removes trailing commas in objects and arrays", () => {
+    expect(parseJsonc('{ "a": [1, 2,], "b": { "c": 3, }, }')).toEqual({
+      a: [1, 2],
+      b: { c: 3 },
+    });
+  });
+
+  it("keeps commas followed by brackets inside strings", () => {
+    expect(parseJsonc('{ "a": ", }" }')).toEqual({ a: ", }" });
+  });
+});
+
+// ---------------------------------------------------------------------------
+// substituteVariables
+// ---------------------------------------------------------------------------
+
+describe("substituteVariables", () => {
+  it("replaces local workspace folder variables", () => {
+    expect(
+      substituteVariables("${localWorkspaceFolder}:${localWorkspaceFolderBasename}", context)
+    ).toBe("/home/user/project:project");
+  });
+
+  it("replaces container workspace folder variables when known", () => {
+    const ctx = { ...context, containerWorkspaceFolder: "/workspaces/app" };
+    expect(substituteVariables("${containerWorkspaceFolderBasename}", ctx)).toBe("app");
+    expect(substituteVariables("${containerWorkspaceFolder}/bin", ctx)).toBe(
+      "/workspaces/app/bin"
+    );
+  });
+
+  it("resolves localEnv with defaults", () => {
+    expect(substituteVariables("${localEnv:HOME}", context)).toBe("/home/user");
+    expect(substituteVariables("${localEnv:MISSING}", context)).toBe("");
+    expect(substituteVariables("${localEnv:MISSING:fallback:x}", context)).toBe("fallback:x");
+  });
+
+  it("leaves containerEnv untouched until the container env is known", () => {
+    expect(substituteVariables("${containerEnv:PATH}:/extra", context)).toBe(
+      "${containerEnv:PATH}:/extra"
+    );
+    expect(
+      substituteVariables("${containerEnv:PATH}:/extra", {
+        ...context,
+        containerEnv: { PATH: "/usr/bin" },
+      })
+    ).toBe("/usr/bin:/extra");
+  });
+
+  it("leaves unknown variables as-is", () => {
+    expect(substituteVariables("${devcontainerId}", context)).toBe("${devcontainerId}");
+  });
+});
+
+// ---------------------------------------------------------------------------
+// parseMountString
+// ---------------------------------------------------------------------------
+
+describe("parseMountString", () => {
+  it("parses source, target and type", () => {
+    expect(parseMountString("source=/src,target=/workspace,type=bind,consistency=cached")).toEqual({
+      source: "/src",
+      target: "/workspace",
+      type: "bind",
+    });
+  });
+
+  it("returns undefined without a target", () => {
+    expect(parseMountString("source=/src,type=bind")).toBeUndefined();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// buildDevcontainerConfig
+// ---------------------------------------------------------------------------
+
+describe("buildDevcontainerConfig", () => {
+  it("defaults workspaceFolder to /workspaces/<basename>", () => {
+    const cfg = buildDevcontainerConfig({ image: "node:20" }, CONFIG_FILE, context);
+    expect(cfg.workspaceFolder).toBe("/workspaces/project");
+    expect(cfg.image).toBe("node:20");
+  });
+
+  it("substitutes variables in workspaceFolder", () => {
+    const cfg = buildDevcontainerConfig(
+      { workspaceFolder: "/src/${localWorkspaceFolderBasename}" },
+      CONFIG_FILE,
+      context
+    );
+    expect(cfg.workspaceFolder).toBe("/src/project");
+  });
+
+  it("uses the workspaceMount target when workspaceFolder is absent", () => {
+    const cfg = buildDevcontainerConfig(
+      { workspaceMount: "source=${localWorkspaceFolder},target=/code,type=bind" },
+      CONFIG_FILE,
+      context
+    );
+    expect(cfg.workspaceMount).toEqual({
+      source: "/home/user/project",
+      target: "/code",
+      type: "bind",
+    });
+    expect(cfg.workspaceFolder).toBe("/code");
+  });
+
+  it("defaults workspaceFolder to / for Compose configs", () => {
+    const cfg = buildDevcontainerConfig(
+      { dockerComposeFile: "docker-compose.yml", service: "app" },
+      CONFIG_FILE,
+      context
+    );
+    expect(cfg.workspaceFolder).toBe("/");
+    expect(cfg.dockerComposeFile).toEqual([
+      "/home/user/project/.devcontainer/docker-compose.yml",
+    ]);
+    expect(cfg.service).toBe("app");
+  });
+
+  it("resolves containerWorkspaceFolder in other properties", () => {
+    const cfg = buildDevcontainerConfig(
+      {
+        workspaceFolder: "/workspaces/app",
+        remoteEnv: { PATH: "${containerEnv:PATH}:${containerWorkspaceFolder}/bin", UNSET: null },
+        containerEnv: { APP_HOME: "${containerWorkspaceFolder}", PORT: 3000 },
+      },
+      CONFIG_FILE,
+      context
+    );
+    expect(cfg.remoteEnv).toEqual({
+      PATH: "${containerEnv:PATH}:/workspaces/app/bin",
+      UNSET: null,
+    });
+    expect(cfg.containerEnv).toEqual({ APP_HOME: "/workspaces/app", PORT: "3000" });
+  });
+
+  it("reads users, runArgs and forwardPorts", () => {
+    const cfg = buildDevcontainerConfig(
+      {
+        remoteUser: "node",
+        containerUser: "root",
+        runArgs: ["--cap-add=SYS_PTRACE", "--name", "${localWorkspaceFolderBasename}-dev"],
+        forwardPorts: [3000, "db:5432", { invalid: true }],
+      },
+      CONFIG_FILE,
+      context
+    );
+    expect(cfg.remoteUser).toBe("node");
+    expect(cfg.containerUser).toBe("root");
+    expect(cfg.runArgs).toEqual(["--cap-add=SYS_PTRACE", "--name", "project-dev"]);
+    expect(cfg.forwardPorts).toEqual([3000, "db:5432"]);
+  });
+
+  it("reads userEnvProbe, defaulting to loginInteractiveShell", () => {
+    expect(buildDevcontainerConfig({}, CONFIG_FILE, context).userEnvProbe).toBe(
+      "loginInteractiveShell"
+    );
+    expect(
+      buildDevcontainerConfig({ userEnvProbe: "loginShell" }, CONFIG_FILE, context).userEnvProbe
+    ).toBe("loginShell");
+    expect(
+      buildDevcontainerConfig({ userEnvProbe: "bogus" }, CONFIG_FILE, context).userEnvProbe
+    ).toBe("loginInteractiveShell");
+  });
+});
+
+// ---------------------------------------------------------------------------
+// loadDevcontainerConfig
+// ---------------------------------------------------------------------------
+
+describe("loadDevcontainerConfig", () => {
+  it("reads and parses the file", () => {
+    mockReadFileSync.mockReturnValue(`{
+      // Image from a registry URL
+      "image": "mcr.microsoft.com/devcontainers/base:ubuntu",
+      "workspaceFolder": "/workspaces/\${localWorkspaceFolderBasename}",
+    }`);
+
+    const cfg = loadDevcontainerConfig(CONFIG_FILE, context);
+    expect(cfg?.configFile).toBe(CONFIG_FILE);
+    expect(cfg?.image).toBe("mcr.microsoft.com/devcontainers/base:ubuntu");
+    expect(cfg?.workspaceFolder).toBe("/workspaces/project");
+  });
+
+  it("returns undefined for unreadable or invalid files", () => {
+    mockReadFileSync.mockImplementation(() => {
+      throw new Error("ENOENT");
+    });
+    expect(loadDevcontainerConfig(CONFIG_FILE, context)).toBeUndefined();
+
+    mockReadFileSync.mockReturnValue("[1, 2]");
+    expect(loadDevcontainerConfig(CONFIG_FILE, context)).toBeUndefined();
+  });
+});
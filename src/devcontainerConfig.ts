@@ -0,0 +1,389 @@
+import * as fs from "fs";
+import * as path from "path";
+
+/**
+ * Parsed `workspaceMount`, e.g.
+ * `source=${localWorkspaceFolder},target=/workspace,type=bind`.
+ */
+export interface WorkspaceMount {
+  source?: string;
+  target: string;
+  type?: string;
+}
+
+/**
+ * The subset of the devcontainer.json spec the extension understands,
+ * with variables already substituted.
+ *
+ * See https://containers.dev/implementors/json_reference/.
+ */
+export interface DevcontainerConfig {
+  /** Absolute path of the devcontainer.json file. */
+  configFile: string;
+  name?: string;
+  image?: string;
+  /** Compose files, resolved relative to the config file. */
+  dockerComposeFile: string[];
+  service?: string;
+  /** Workspace path inside the container (spec defaults applied). */
+  workspaceFolder: string;
+  workspaceMount?: WorkspaceMount;
+  remoteUser?: string;
+  containerUser?: string;
+  /** `null` values unset a variable, as allowed by the spec. */
+  remoteEnv: Record<string, string | null>;
+  /** How the user's environment is captured (spec default: `loginInteractiveShell`). */
+  userEnvProbe: UserEnvProbe;
+  containerEnv: Record<string, string>;
+  runArgs: string[];
+  forwardPorts: Array<number | string>;
+  /** The parsed file before substitution, for properties not modelled here. */
+  raw: Record<string, unknown>;
+}
+
+/**
+ * The shell flavour `userEnvProbe` starts to capture the environment
+ * tools like nvm or asdf set up in the user's profile and rc files.
+ */
+export type UserEnvProbe = "none" | "loginShell" | "loginInteractiveShell" | "interactiveShell";
+
+const USER_ENV_PROBES: UserEnvProbe[] = [
+  "none",
+  "loginShell",
+  "loginInteractiveShell",
+  "interactiveShell",
+];
+
+/** Values available to `${...}` variable substitution. */
+export interface SubstitutionContext {
+  localWorkspaceFolder: string;
+  containerWorkspaceFolder?: string;
+  /** Host environment for `${localEnv:...}`; defaults to `process.env`. */
+  localEnv?: Record<string, string | undefined>;
+  /**
+   * Container environment for `${containerEnv:...}`. When absent those
+   * references are left untouched so they can be resolved later.
+   */
+  containerEnv?: Record<string, string | undefined>;
+}
+
+// ---------------------------------------------------------------------------
+// Discovery
+// ---------------------------------------------------------------------------
+
+/**
+ * Find every devcontainer.json in the spec's locations, in order:
+ *  1. `.devcontainer/devcontainer.json`
+ *  2. `.devcontainer.json`
+ *  3. `.devcontainer/<folder>/devcontainer.json` (one level deep)
+ *
+ * A root-level `devcontainer.json` is also accepted for backwards
+ * compatibility.
+ */
+export function discoverDevcontainerConfigs(workspaceFolder: string): string[] {
+  const devcontainerDir = path.join(workspaceFolder, ".devcontainer");
+  const candidates = [
+    path.join(devcontainerDir, "devcontainer.json"),
+    path.join(workspaceFolder, ".devcontainer.json"),
+  ];
+
+  try {
+    const entries = fs.readdirSync(devcontainerDir, { withFileTypes: true });
+    for (const entry of entries
+      .filter((e) => e.isDirectory())
+      .sort((a, b) => a.name.localeCompare(b.name))) {
+      candidates.push(path.join(devcontainerDir, entry.name, "devcontainer.json"));
+    }
+  } catch {
+    // No .devcontainer directory
+  }
+
+  candidates.push(path.join(workspaceFolder, "devcontainer.json"));
+
+  return candidates.filter((c) => fs.existsSync(c));
+}
+
+// ---------------------------------------------------------------------------
+// JSONC
+// ---------------------------------------------------------------------------
+
+/**
+ * Parse JSON with comments and trailing commas (JSONC), as used by
+ * devcontainer.json. Comment markers inside string literals — such as
+ * `//` in URLs — are left alone.
+ */
+export function parseJsonc(text: string): unknown {
+  return JSON.parse(stripTrailingCommas(stripComments(text)));
+}
+
+function stripComments(text: string): string {
+  let result = "";
+  let i = 0;
+  while (i < text.length) {
+    const ch = text[i];
+    const next = text[i + 1];
+
+    if (ch === '"') {
+      const end = skipString(text, i);
+      result += text.substring(i, end);
+      i = end;
+    } else if (ch === "/" && next === "/") {
+      while (i < text.length && text[i] !== "\n") {
+        i++;
+      }
+    } else if (ch === "/" && next === "*") {
+      const end = text.indexOf("*/", i + 2);
+      i = end === -1 ? text.length : end + 2;
+      result += " ";
+    } else {
+      result += ch;
+      i++;
+    }
+  }
+  return result;
+}
+
+function stripTrailingCommas(text: string): string {
+  let result = "";
+  let i = 0;
+  while (i < text.length) {
+    const ch = text[i];
+    if (ch === '"') {
+      const end = skipString(text, i);
+      result += text.substring(i, end);
+      i = end;
+      continue;
+    }
+    if (ch === ",") {
+      let j = i + 1;
+      while (j < text.length && /\s/.test(text[j])) {
+        j++;
+      }
+      if (text[j] === "}" || text[j] === "]") {
+        i++;
+        continue;
+      }
+    }
+    result += ch;
+    i++;
+  }
+  return result;
+}
+
+/** Return the index just past the string literal starting at `start`. */
+function skipString(text: string, start: number): number {
+  let i = start + 1;
+  while (i < text.length) {
+    if (text[i] === "\\") {
+      i += 2;
+    } else if (text[i] === '"') {
+      return i + 1;
+    } else {
+      i++;
+    }
+  }
+  return i;
+}
+
+// ---------------------------------------------------------------------------
+// Variable substitution
+// ---------------------------------------------------------------------------
+
+/**
+ * Replace the spec's `${...}` variables in a string:
+ * `localEnv`/`env`, `containerEnv` (with optional `:default`),
+ * `localWorkspaceFolder[Basename]` and `containerWorkspaceFolder[Basename]`.
+ * Unknown variables are left as-is.
+ */
+export function substituteVariables(value: string, context: SubstitutionContext): string {
+  return value.replace(/\$\{([^}]+)\}/g, (match, expr: string) => {
+    const [name, ...rest] = expr.split(":");
+    switch (name) {
+      case "localWorkspaceFolder":
+        return context.localWorkspaceFolder;
+      case "localWorkspaceFolderBasename":
+        return path.basename(context.localWorkspaceFolder);
+      case "containerWorkspaceFolder":
+        return context.containerWorkspaceFolder ?? match;
+      case "containerWorkspaceFolderBasename":
+        return context.containerWorkspaceFolder
+          ? path.posix.basename(context.containerWorkspaceFolder)
+          : match;
+      case "localEnv":
+      case "env": {
+        const [varName, ...defaultParts] = rest;
+        const env = context.localEnv ?? process.env;
+        return env[varName] ?? defaultParts.join(":");
+      }
+      case "containerEnv": {
+        if (!context.containerEnv) {
+          return match;
+        }
+        const [varName, ...defaultParts] = rest;
+        return context.containerEnv[varName] ?? defaultParts.join(":");
+      }
+      default:
+        return match;
+    }
+  });
+}
+
+/** Apply {@link substituteVariables} to every string in a JSON value. */
+export function substituteDeep<T>(value: T, context: SubstitutionContext): T {
+  if (typeof value === "string") {
+    return substituteVariables(value, context) as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map((v) => substituteDeep(v, context)) as T;
+  }
+  if (value && typeof value === "object") {
+    const result: Record<string, unknown> = {};
+    for (const [key, v] of Object.entries(value)) {
+      result[key] = substituteDeep(v, context);
+    }
+    return result as T;
+  }
+  return value;
+}
+
+// ---------------------------------------------------------------------------
+// Model
+// ---------------------------------------------------------------------------
+
+/**
+ * Parse a `workspaceMount` string (`key=value` pairs separated by commas).
+ */
+export function parseMountString(mount: string): WorkspaceMount | undefined {
+  const fields: Record<string, string> = {};
+  for (const part of mount.split(",")) {
+    const idx = part.indexOf("=");
+    if (idx > 0) {
+      fields[part.substring(0, idx).trim()] = part.substring(idx + 1).trim();
+    }
+  }
+  const target = fields.target ?? fields.dst ?? fields.destination;
+  if (!target) {
+    return undefined;
+  }
+  return {
+    source: fields.source ?? fields.src,
+    target,
+    type: fields.type,
+  };
+}
+
+/**
+ * Build the {@link DevcontainerConfig} model from parsed devcontainer.json
+ * content.
+ */
+export function buildDevcontainerConfig(
+  raw: Record<string, unknown>,
+  configFile: string,
+  context: SubstitutionContext
+): DevcontainerConfig {
+  const configDir = path.dirname(configFile);
+  const localContext: SubstitutionContext = { ...context, containerWorkspaceFolder: undefined };
+
+  const composeFiles = asStringArray(raw.dockerComposeFile);
+  const workspaceMount =
+    typeof raw.workspaceMount === "string"
+      ? parseMountString(substituteVariables(raw.workspaceMount, localContext))
+      : undefined;
+
+  // workspaceFolder may only use local variables; everything else may also
+  // refer to the resulting container workspace folder.
+  let workspaceFolder: string;
+  if (typeof raw.workspaceFolder === "string" && raw.workspaceFolder) {
+    workspaceFolder = substituteVariables(raw.workspaceFolder, localContext);
+  } else if (workspaceMount) {
+    workspaceFolder = workspaceMount.target;
+  } else if (composeFiles.length > 0) {
+    workspaceFolder = "/";
+  } else {
+    workspaceFolder = `/workspaces/${path.basename(context.localWorkspaceFolder)}`;
+  }
+
+  const fullContext: SubstitutionContext = {
+    ...context,
+    containerWorkspaceFolder: workspaceFolder,
+  };
+  const sub = <T>(value: T): T => substituteDeep(value, fullContext);
+
+  return {
+    configFile,
+    name: asString(sub(raw.name)),
+    image: asString(sub(raw.image)),
+    dockerComposeFile: composeFiles.map((f) => path.resolve(configDir, sub(f))),
+    service: asString(sub(raw.service)),
+    workspaceFolder,
+    workspaceMount,
+    remoteUser: asString(sub(raw.remoteUser)),
+    containerUser: asString(sub(raw.containerUser)),
+    remoteEnv: asEnvRecord(sub(raw.remoteEnv), true) as Record<string, string | null>,
+    userEnvProbe: USER_ENV_PROBES.includes(raw.userEnvProbe as UserEnvProbe)
+      ? (raw.userEnvProbe as UserEnvProbe)
+      : "loginInteractiveShell",
+    containerEnv: asEnvRecord(sub(raw.containerEnv), false) as Record<string, string>,
+    runArgs: asStringArray(sub(raw.runArgs)),
+    forwardPorts: Array.isArray(raw.forwardPorts)
+      ? (sub(raw.forwardPorts) as unknown[]).filter(
+          (p): p is number | string => typeof p === "number" || typeof p === "string"
+        )
+      : [],
+    raw,
+  };
+}
+
+/**
+ * Read and parse a devcontainer.json file into a {@link DevcontainerConfig}.
+ * Returns `undefined` if the file does not exist or cannot be parsed.
+ */
+export function loadDevcontainerConfig(
+  configFile: string,
+  context: SubstitutionContext
+): DevcontainerConfig | undefined {
+  try {
+    const content = fs.readFileSync(configFile, "utf-8");
+    const parsed = parseJsonc(content);
+    if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+      return undefined;
+    }
+    return buildDevcontainerConfig(parsed as Record<string, unknown>, configFile, context);
+  } catch {
+    return undefined;
+  }
+}
+
+function asString(value: unknown): string | undefined {
+  return typeof value === "string" && value ? value : undefined;
+}
+
+function asStringArray(value: unknown): string[] {
+  if (typeof value === "string") {
+    return [value];
+  }
+  if (Array.isArray(value)) {
+    return value.filter((v): v is string => typeof v === "string");
+  }
+  return [];
+}
+
+function asEnvRecord(
+  value: unknown,
+  allowNull: boolean
+): Record<string, string | null> {
+  const result: Record<string, string | null> = {};
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return result;
+  }
+  for (const [key, v] of Object.entries(value)) {
+    if (typeof v === "string") {
+      result[key] = v;
+    } else if (v === null && allowNull) {
+      result[key] = null;
+    } else if (typeof v === "number" || typeof v === "boolean") {
+      result[key] = String(v);
+    }
+  }
+  return result;
+}
@@ -0,0 +1,114 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { __resetMocks } from "./__mocks__/vscode";
+import * as vscode from "./__mocks__/vscode";
+import {
+  detectPhase,
+  disposeDevcontainerLog,
+  formatLogEntry,
+  getDevcontainerLog,
+  parseLogLine,
+} from "./devcontainerLog";
+
+beforeEach(() => {
+  __resetMocks();
+  disposeDevcontainerLog();
+});
+
+// ---------------------------------------------------------------------------
+// parseLogLine / formatLogEntry
+// ---------------------------------------------------------------------------
+
+describe("parseLogLine", () => {
+  it("parses JSON log entries", () => {
+    expect(parseLogLine('{"type":"text","level":2,"text":"Resolving Feature dependencies..."}')).toEqual({
+      type: "text",
+      level: 2,
+      text: "Resolving Feature dependencies...",
+    });
+  });
+
+  it("ignores plain text and malformed JSON", () => {
+    expect(parseLogLine("[2024-01-01T00:00:00.000Z] Start: Run")).toBeUndefined();
+    expect(parseLogLine("{not json")).toBeUndefined();
+    expect(parseLogLine('{"outcome":"success"}')).toBeUndefined();
+  });
+});
+
+describe("formatLogEntry", () => {
+  it("renders text, steps and progress", () => {
+    expect(formatLogEntry({ type: "raw", text: "Step 1/4\n" })).toBe("Step 1/4");
+    expect(formatLogEntry({ type: "start", text: "Run: docker build" })).toBe("[start] Run: docker build");
+    expect(formatLogEntry({ type: "stop", text: "Run: docker build" })).toBe("[done] Run: docker build");
+    expect(
+      formatLogEntry({ type: "progress", name: "Running postCreateCommand...", status: "succeeded" })
+    ).toBe("[succeeded] Running postCreateCommand...");
+  });
+
+  it("skips entries without text", () => {
+    expect(formatLogEntry({ type: "start" })).toBeUndefined();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// detectPhase
+// ---------------------------------------------------------------------------
+
+describe("detectPhase", () => {
+  it("detects image builds", () => {
+    expect(detectPhase({ type: "start", text: "Run: docker buildx build --load -f Dockerfile ." })?.phase).toBe(
+      "building"
+    );
+    expect(detectPhase({ type: "start", text: "Run: podman build -f Dockerfile ." })?.phase).toBe("building");
+    expect(
+      detectPhase({ type: "start", text: "Run: docker compose -f docker-compose.yml build" })?.phase
+    ).toBe("building");
+  });
+
+  it("detects container creation", () => {
+    expect(detectPhase({ type: "start", text: "Run: docker run --sig-proxy=false node:20" })).toEqual({
+      phase: "creating",
+      message: "Creating container...",
+    });
+    expect(
+      detectPhase({ type: "start", text: "Run: docker compose -p proj -f a.yml up -d" })?.phase
+    ).toBe("creating");
+  });
+
+  it("names the lifecycle command being run", () => {
+    expect(
+      detectPhase({ type: "progress", name: "Running postCreateCommand...", stepDetail: "npm ci" })
+    ).toEqual({ phase: "lifecycle", message: "Running postCreateCommand: npm ci" });
+    expect(detectPhase({ type: "text", text: "Running the onCreateCommand from devcontainer.json..." })).toEqual({
+      phase: "lifecycle",
+      message: "Running onCreateCommand...",
+    });
+  });
+
+  it("ignores raw output and unrelated steps", () => {
+    expect(detectPhase({ type: "raw", text: "docker build output" })).toBeUndefined();
+    expect(detectPhase({ type: "start", text: "Run: docker inspect --type image node:20" })).toBeUndefined();
+    expect(detectPhase({ type: "text", text: "postCreateCommand from devcontainer.json" })).toBeUndefined();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Output channel
+// ---------------------------------------------------------------------------
+
+describe("getDevcontainerLog", () => {
+  it("creates the output channel once", () => {
+    const log = getDevcontainerLog();
+
+    expect(getDevcontainerLog()).toBe(log);
+    expect(vscode.window.createOutputChannel).toHaveBeenCalledOnce();
+    expect(vscode.window.createOutputChannel).toHaveBeenCalledWith("OpenCode Dev Container");
+  });
+
+  it("creates a new channel after disposal", () => {
+    const log = getDevcontainerLog();
+    disposeDevcontainerLog();
+
+    expect(log.dispose).toHaveBeenCalled();
+    expect(getDevcontainerLog()).not.toBe(log);
+  });
+});
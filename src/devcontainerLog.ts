@@ -0,0 +1,114 @@
+import * as vscode from "vscode";
+
+/**
+ * A line of `devcontainer --log-format json` output (written to stderr).
+ *
+ *  - `text` / `raw` — log messages and raw output of the commands it runs
+ *  - `start` / `stop` — a step such as `Run: docker buildx build ...`
+ *  - `progress` — lifecycle command progress (`Running postCreateCommand...`)
+ */
+export interface DevcontainerLogEntry {
+  type: "text" | "raw" | "start" | "stop" | "progress";
+  level?: number;
+  timestamp?: number;
+  text?: string;
+  name?: string;
+  status?: string;
+  stepDetail?: string;
+}
+
+/** The stages of `devcontainer up` reported in the progress notification. */
+export type StartupPhase = "building" | "creating" | "lifecycle";
+
+export interface PhaseUpdate {
+  phase: StartupPhase;
+  /** Message for the progress notification. */
+  message: string;
+}
+
+const LIFECYCLE_COMMAND =
+  /\b(initializeCommand|onCreateCommand|updateContentCommand|postCreateCommand|postStartCommand|postAttachCommand)\b/;
+
+/** Parse a JSON log line; returns `undefined` for anything else. */
+export function parseLogLine(line: string): DevcontainerLogEntry | undefined {
+  const trimmed = line.trim();
+  if (!trimmed.startsWith("{")) {
+    return undefined;
+  }
+  try {
+    const parsed = JSON.parse(trimmed) as DevcontainerLogEntry;
+    return typeof parsed.type === "string" ? parsed : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/** Render a log entry for the output channel, or `undefined` to skip it. */
+export function formatLogEntry(entry: DevcontainerLogEntry): string | undefined {
+  switch (entry.type) {
+    case "text":
+    case "raw":
+      return entry.text?.replace(/\r?\n$/, "");
+    case "start":
+      return entry.text ? `[start] ${entry.text}` : undefined;
+    case "stop":
+      return entry.text ? `[done] ${entry.text}` : undefined;
+    case "progress":
+      return entry.name
+        ? `[${entry.status ?? "progress"}] ${entry.name}${entry.stepDetail ? ` ${entry.stepDetail}` : ""}`
+        : undefined;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Work out which startup phase a log entry belongs to: image builds,
+ * container creation, or one of the lifecycle commands.
+ */
+export function detectPhase(entry: DevcontainerLogEntry): PhaseUpdate | undefined {
+  const text = entry.type === "progress" ? entry.name ?? "" : entry.text ?? "";
+  if (entry.type === "raw" || !text) {
+    return undefined;
+  }
+
+  const lifecycle = LIFECYCLE_COMMAND.exec(text);
+  if (lifecycle && (entry.type === "progress" || entry.type === "start" || /^Running\b/.test(text))) {
+    return {
+      phase: "lifecycle",
+      message: entry.stepDetail
+        ? `Running ${lifecycle[1]}: ${entry.stepDetail}`
+        : `Running ${lifecycle[1]}...`,
+    };
+  }
+
+  if (entry.type !== "start") {
+    return undefined;
+  }
+  if (/\b(docker|podman)( buildx)? build\b|\bcompose\b.*\bbuild\b/.test(text)) {
+    return { phase: "building", message: "Building image..." };
+  }
+  if (/\b(docker|podman) (run|create)\b|\bcompose\b.*\bup\b/.test(text)) {
+    return { phase: "creating", message: "Creating container..." };
+  }
+  return undefined;
+}
+
+// ---------------------------------------------------------------------------
+// Output channel
+// ---------------------------------------------------------------------------
+
+let logChannel: vscode.OutputChannel | undefined;
+
+/** The output channel the devcontainer CLI's log is streamed into. */
+export function getDevcontainerLog(): vscode.OutputChannel {
+  if (!logChannel) {
+    logChannel = vscode.window.createOutputChannel("OpenCode Dev Container");
+  }
+  return logChannel;
+}
+
+export function disposeDevcontainerLog(): void {
+  logChannel?.dispose();
+  logChannel = undefined;
+}
@@ -1,12 +1,17 @@
 import { describe, it, expect, beforeEach, vi } from "vitest";
+import { EventEmitter } from "events";
 import {
   __resetMocks,
+  CancellationTokenSource,
   __setMockConfig,
   __setWorkspaceFolders,
   Uri,
 } from "./__mocks__/vscode";
 import * as vscode from "./__mocks__/vscode";
 import { DevcontainerManager } from "./devcontainerManager";
+import { OpenCodeBridge } from "./chat/opencodeBridge";
+import { CommandAuditLog } from "./commandAudit";
+import { disposeDevcontainerLog } from "./devcontainerLog";
 
 // Mock both fs and child_process at module level so properties are configurable
 vi.mock("fs", async () => {
@@ -15,6 +20,7 @@ vi.mock("fs", async () => {
     ...actual,
     existsSync: vi.fn(() => false),
     readFileSync: vi.fn(() => ""),
+    readdirSync: vi.fn(() => []),
     mkdirSync: vi.fn(),
     writeFileSync: vi.fn(),
     unlinkSync: vi.fn(),
@@ -31,22 +37,104 @@ vi.mock("child_process", async () => {
   };
 });
 
+const relays = vi.hoisted(() => ({
+  created: [] as {
+    channels: string[];
+    options: { user?: string };
+    env: ReturnType<typeof vi.fn>;
+    dispose: () => void;
+  }[],
+  ready: Promise.resolve(),
+  env: { SSH_AUTH_SOCK: "/tmp/relay/ssh-agent.sock" } as Record<string, string>,
+}));
+
+vi.mock("./credentialRelay", () => ({
+  CredentialRelay: vi.fn(function (
+    this: Record<string, unknown>,
+    _containerId: string,
+    channels: string[],
+    options: { user?: string }
+  ) {
+    const env = relays.env;
+    Object.assign(this, {
+      channels,
+      options,
+      ready: relays.ready,
+      env: vi.fn(() => env),
+      dispose: vi.fn(),
+    });
+    relays.created.push(this as never);
+  }),
+}));
+
 // Import after mocking
 import * as fs from "fs";
-import { exec } from "child_process";
+import { exec, spawn } from "child_process";
 
 const mockExistsSync = fs.existsSync as ReturnType<typeof vi.fn>;
 const mockReadFileSync = fs.readFileSync as ReturnType<typeof vi.fn>;
+const mockReaddirSync = fs.readdirSync as unknown as ReturnType<typeof vi.fn>;
 const mockExec = exec as unknown as ReturnType<typeof vi.fn>;
+const mockSpawn = spawn as unknown as ReturnType<typeof vi.fn>;
+
+type CommandHandler = (cmd: string, opts: Record<string, unknown>) => string | Error;
+
+/**
+ * Answer exec()-based commands and the streamed devcontainer CLI commands
+ * (spawned) with the same handler, returning stdout or an error.
+ */
+function mockCommands(handler: CommandHandler) {
+  mockExec.mockImplementation(
+    (
+      cmd: string,
+      opts: Record<string, unknown>,
+      cb: (err: Error | null, stdout: string, stderr: string) => void
+    ) => {
+      const result = handler(cmd, opts);
+      if (result instanceof Error) {
+        cb(result, "", "");
+      } else {
+        cb(null, result, "");
+      }
+    }
+  );
+  mockSpawn.mockImplementation((cmd: string, opts: Record<string, unknown>) =>
+    createMockChild(handler(cmd, opts))
+  );
+}
+
+/** A spawned process that writes `result` (and `logLines` to stderr) and exits. */
+function createMockChild(result: string | Error, logLines: string[] = []) {
+  const child = Object.assign(new EventEmitter(), {
+    stdout: new EventEmitter(),
+    stderr: new EventEmitter(),
+    kill: vi.fn(),
+  });
+  setImmediate(() => {
+    for (const line of logLines) {
+      child.stderr.emit("data", `${line}\n`);
+    }
+    if (!(result instanceof Error)) {
+      child.stdout.emit("data", result);
+    }
+    child.stdout.emit("end");
+    child.stderr.emit("end");
+    child.emit("close", result instanceof Error ? 1 : 0);
+  });
+  return child;
+}
 
 let manager: DevcontainerManager;
 
 beforeEach(() => {
   __resetMocks();
   __setWorkspaceFolders([{ uri: Uri.file("/home/user/project") }]);
-  manager = new DevcontainerManager();
+  manager = new DevcontainerManager("/home/user/project");
   mockExistsSync.mockReset().mockReturnValue(false);
   mockReadFileSync.mockReset().mockReturnValue("");
+  mockReaddirSync.mockReset().mockReturnValue([]);
+  mockSpawn.mockReset();
+  disposeDevcontainerLog();
 });
 
 // ---------------------------------------------------------------------------
@@ -72,10 +160,14 @@ describe("initial state", () => {
 // ---------------------------------------------------------------------------
 
 describe("detectDevcontainerConfig", () => {
-  it("returns undefined when no workspace folder", async () => {
-    __setWorkspaceFolders(undefined);
+  it("looks in the manager's own workspace folder", async () => {
+    manager = new DevcontainerManager("/home/user/api");
+    mockExistsSync.mockImplementation((p: unknown) => {
+      return String(p) === "/home/user/api/.devcontainer/devcontainer.json";
+    });
+
     const result = await manager.detectDevcontainerConfig();
-    expect(result).toBeUndefined();
+    expect(result).toBe("/home/user/api/.devcontainer/devcontainer.json");
   });
 
   it("checks custom devcontainer path from config", async () => {
@@ -88,7 +180,7 @@ describe("detectDevcontainerConfig", () => {
     });
 
     const result = await manager.detectDevcontainerConfig();
-    expect(result).toBe("/home/user/project/custom/.devcontainer");
+    expect(result).toBe("/home/user/project/custom/.devcontainer/devcontainer.json");
   });
 
   it("detects .devcontainer/devcontainer.json", async () => {
@@ -97,7 +189,7 @@ describe("detectDevcontainerConfig", () => {
     });
 
     const result = await manager.detectDevcontainerConfig();
-    expect(result).toBe("/home/user/project/.devcontainer");
+    expect(result).toBe("/home/user/project/.devcontainer/devcontainer.json");
   });
 
   it("detects root-level devcontainer.json", async () => {
@@ -106,7 +198,16 @@ describe("detectDevcontainerConfig", () => {
     });
 
     const result = await manager.detectDevcontainerConfig();
-    expect(result).toBe("/home/user/project");
+    expect(result).toBe("/home/user/project/devcontainer.json");
+  });
+
+  it("detects .devcontainer.json at the workspace root", async () => {
+    mockExistsSync.mockImplementation((p: unknown) => {
+      return String(p) === "/home/user/project/.devcontainer.json";
+    });
+
+    const result = await manager.detectDevcontainerConfig();
+    expect(result).toBe("/home/user/project/.devcontainer.json");
   });
 
   it("returns undefined when no config file found", async () => {
@@ -117,6 +218,119 @@ describe("detectDevcontainerConfig", () => {
   });
 });
 
+// ---------------------------------------------------------------------------
+// Multiple configurations
+// ---------------------------------------------------------------------------
+
+describe("multiple devcontainer configurations", () => {
+  const backend = "/home/user/project/.devcontainer/backend/devcontainer.json";
+  const frontend = "/home/user/project/.devcontainer/frontend/devcontainer.json";
+
+  function createMemento(initial: Record<string, unknown> = {}) {
+    const values = { ...initial };
+    return {
+      get: vi.fn((key: string) => values[key]),
+      update: vi.fn(async (key: string, value: unknown) => {
+        values[key] = value;
+      }),
+      keys: () => Object.keys(values),
+    };
+  }
+
+  beforeEach(() => {
+    mockReaddirSync.mockReturnValue([
+      { name: "frontend", isDirectory: () => true },
+      { name: "backend", isDirectory: () => true },
+      { name: "README.md", isDirectory: () => false },
+    ]);
+    mockExistsSync.mockImplementation((p: unknown) => {
+      return String(p) === backend || String(p) === frontend;
+    });
+    mockReadFileSync.mockImplementation((p: unknown) => {
+      return String(p) === backend ? '{ "name": "Backend" }' : "{}";
+    });
+  });
+
+  it("discovers configs in .devcontainer sub-folders", async () => {
+    expect(await manager.detectDevcontainerConfigs()).toEqual([backend, frontend]);
+  });
+
+  it("shows a picker and remembers the choice", async () => {
+    const memento = createMemento();
+    manager = new DevcontainerManager("/home/user/project", memento as any);
+    vscode.window.showQuickPick.mockImplementation(async (items: any[]) => items[1]);
+
+    const selected = await manager.selectDevcontainerConfig();
+
+    expect(selected).toBe(frontend);
+    const items = vscode.window.showQuickPick.mock.calls[0][0] as any[];
+    expect(items[0].label).toBe("Backend");
+    expect(items[0].description).toBe(".devcontainer/backend/devcontainer.json");
+    expect(memento.update).toHaveBeenCalledWith(
+      "opencode-devcontainer.selectedConfig:/home/user/project",
+      ".devcontainer/frontend/devcontainer.json"
+    );
+
+    // Subsequent calls reuse the remembered choice without prompting.
+    vscode.window.showQuickPick.mockClear();
+    expect(await manager.selectDevcontainerConfig()).toBe(frontend);
+    expect(await manager.detectDevcontainerConfig()).toBe(frontend);
+    expect(vscode.window.showQuickPick).not.toHaveBeenCalled();
+  });
+
+  it("prompts again when forced", async () => {
+    const memento = createMemento({
+      "opencode-devcontainer.selectedConfig:/home/user/project": ".devcontainer/frontend/devcontainer.json",
+    });
+    manager = new DevcontainerManager("/home/user/project", memento as any);
+    vscode.window.showQuickPick.mockImplementation(async (items: any[]) => items[0]);
+
+    expect(await manager.selectDevcontainerConfig(true)).toBe(backend);
+    expect(vscode.window.showQuickPick).toHaveBeenCalledOnce();
+  });
+
+  it("passes --config to devcontainer up", async () => {
+    manager = new DevcontainerManager(
+      "/home/user/project",
+      createMemento({
+        "opencode-devcontainer.selectedConfig:/home/user/project": ".devcontainer/backend/devcontainer.json",
+      }) as any
+    );
+    const commands: string[] = [];
+    mockCommands((cmd) => {
+      commands.push(cmd);
+      return cmd.includes("devcontainer up") ? JSON.stringify({ containerId: "abc123" }) : "";
+    });
+
+    await manager.startDevcontainer();
+
+    const upCmd = commands.find((c) => c.includes("devcontainer up"));
+    expect(upCmd).toContain(`--config ${backend}`);
+    expect(manager.containerId).toBe("abc123");
+  });
+
+  it("does not start when the picker is dismissed", async () => {
+    vscode.window.showQuickPick.mockResolvedValue(undefined);
+    mockExec.mockClear();
+
+    expect(await manager.startDevcontainer()).toBeUndefined();
+    expect(mockExec).not.toHaveBeenCalled();
+    expect(mockSpawn).not.toHaveBeenCalled();
+    expect(manager.state).toBe("not-found");
+  });
+
+  it("does not start in an untrusted workspace", async () => {
+    vscode.__setWorkspaceTrusted(false);
+    mockExec.mockClear();
+
+    expect(await manager.startDevcontainer()).toBeUndefined();
+    expect(mockSpawn).not.toHaveBeenCalled();
+    expect(vscode.window.showWarningMessage).toHaveBeenCalledWith(
+      "Trust this workspace to start its dev container."
+    );
+  });
+});
+
 // ---------------------------------------------------------------------------
 // parseWorkspaceFolder
 // ---------------------------------------------------------------------------
@@ -131,10 +345,10 @@ describe("parseWorkspaceFolder", () => {
     expect(result).toBe("/custom/workspace");
   });
 
-  it("returns /workspaces/project when no config and no workspace folder", async () => {
-    __setWorkspaceFolders(undefined);
+  it("uses the basename of the manager's own folder", async () => {
+    manager = new DevcontainerManager("/home/user/api");
     const result = await manager.parseWorkspaceFolder();
-    expect(result).toBe("/workspaces/project");
+    expect(result).toBe("/workspaces/api");
   });
 
   it("returns /workspaces/<basename> when no devcontainer config found", async () => {
@@ -174,6 +388,35 @@ describe("parseWorkspaceFolder", () => {
     const result = await manager.parseWorkspaceFolder();
     expect(result).toBe("/workspace/commented");
   });
+
+  it("substitutes variables and tolerates URLs and trailing commas", async () => {
+    mockExistsSync.mockImplementation((p: unknown) => {
+      return String(p) === "/home/user/project/.devcontainer/devcontainer.json";
+    });
+
+    mockReadFileSync.mockImplementation(() => {
+      return `{
+        "image": "https://registry.example.com/base", // not a comment start
+        "workspaceFolder": "/src/\${localWorkspaceFolderBasename}",
+      }`;
+    });
+
+    const result = await manager.parseWorkspaceFolder();
+    expect(result).toBe("/src/project");
+  });
+
+  it("falls back to the workspaceMount target", async () => {
+    mockExistsSync.mockImplementation((p: unknown) => {
+      return String(p) === "/home/user/project/.devcontainer/devcontainer.json";
+    });
+
+    mockReadFileSync.mockImplementation(() => {
+      return '{ "workspaceMount": "source=${localWorkspaceFolder},target=/code,type=bind" }';
+    });
+
+    const result = await manager.parseWorkspaceFolder();
+    expect(result).toBe("/code");
+  });
 });
 
 // ---------------------------------------------------------------------------
@@ -185,7 +428,10 @@ describe("onStateChanged", () => {
     const listener = vi.fn();
     manager.onStateChanged(listener);
 
-    __setWorkspaceFolders(undefined);
+    mockExec.mockImplementation(
+      (_cmd: string, _opts: unknown, cb: (err: Error | null, stdout: string, stderr: string) => void) =>
+        cb(null, "", "")
+    );
     await manager.refreshStatus();
 
     expect(listener).toHaveBeenCalledWith("not-found");
@@ -204,6 +450,860 @@ describe("execInContainer", () => {
   });
 });
 
+// ---------------------------------------------------------------------------
+// rebuildDevcontainer
+// ---------------------------------------------------------------------------
+
+describe("rebuildDevcontainer", () => {
+  let commands: string[];
+  let nextId: string;
+
+  beforeEach(() => {
+    commands = [];
+    nextId = "old111";
+    mockExistsSync.mockImplementation((p: unknown) => {
+      return String(p) === "/home/user/project/.devcontainer/devcontainer.json";
+    });
+    mockReadFileSync.mockReturnValue('{ "build": { "dockerfile": "Dockerfile" } }');
+    mockCommands((cmd) => {
+      commands.push(cmd);
+      return cmd.includes("devcontainer up") ? JSON.stringify({ containerId: nextId }) : "";
+    });
+  });
+
+  it("removes the tracked container, rebuilds the image and starts a new one", async () => {
+    await manager.startDevcontainer();
+    commands = [];
+    nextId = "new222";
+
+    const info = await manager.rebuildDevcontainer();
+
+    expect(commands[0]).toBe("docker rm -f old111");
+    expect(commands[1]).toContain("devcontainer build --workspace-folder");
+    expect(commands[1]).not.toContain("--no-cache");
+    expect(commands[2]).toContain("devcontainer up");
+    expect(commands[2]).toContain("--remove-existing-container");
+    expect(info?.containerId).toBe("new222");
+    expect(manager.containerId).toBe("new222");
+    expect(manager.state).toBe("running");
+  });
+
+  it("passes --no-cache to the build", async () => {
+    await manager.rebuildDevcontainer("rebuild-no-cache");
+
+    const buildCmd = commands.find((c) => c.includes("devcontainer build"));
+    expect(buildCmd).toContain("--no-cache");
+  });
+
+  it("skips the image build when recreating", async () => {
+    await manager.rebuildDevcontainer("recreate");
+
+    expect(commands.some((c) => c.includes("devcontainer build"))).toBe(false);
+    expect(commands.find((c) => c.includes("devcontainer up"))).toContain(
+      "--remove-existing-container"
+    );
+  });
+
+  it("reports build failures", async () => {
+    mockCommands((cmd) => {
+      return cmd.includes("build") ? new Error("boom") : "";
+    });
+
+    expect(await manager.rebuildDevcontainer()).toBeUndefined();
+    expect(manager.state).toBe("error");
+    expect(vscode.window.showErrorMessage).toHaveBeenCalledWith(
+      expect.stringContaining("Failed to rebuild dev container"),
+      "Show Log"
+    );
+  });
+});
+
+// ---------------------------------------------------------------------------
+// startDevcontainer – log streaming, progress and cancellation
+// ---------------------------------------------------------------------------
+
+describe("startDevcontainer log and progress", () => {
+  const logLines = [
+    JSON.stringify({ type: "start", level: 2, text: "Run: docker buildx build -f Dockerfile ." }),
+    JSON.stringify({ type: "raw", level: 2, text: "#1 [internal] load build definition\n" }),
+    JSON.stringify({ type: "start", level: 2, text: "Run: docker run --sig-proxy=false -a STDOUT node:20" }),
+    JSON.stringify({ type: "progress", name: "Running postCreateCommand...", status: "running", stepDetail: "npm ci" }),
+  ];
+
+  beforeEach(() => {
+    mockExistsSync.mockImplementation((p: unknown) => {
+      return String(p) === "/home/user/project/.devcontainer/devcontainer.json";
+    });
+    mockCommands(() => "");
+  });
+
+  it("runs devcontainer up with --log-format json and streams the log", async () => {
+    mockSpawn.mockImplementationOnce(() =>
+      createMockChild(JSON.stringify({ outcome: "success", containerId: "abc123" }), logLines)
+    );
+
+    await manager.startDevcontainer();
+
+    expect(mockSpawn.mock.calls[0][0]).toContain("devcontainer up");
+    expect(mockSpawn.mock.calls[0][0]).toContain("--log-format json");
+    const log = vscode.window.createOutputChannel.mock.results[0].value;
+    expect(log.appendLine).toHaveBeenCalledWith(expect.stringMatching(/^> .*devcontainer up/));
+    expect(log.appendLine).toHaveBeenCalledWith("#1 [internal] load build definition");
+    expect(log.appendLine).toHaveBeenCalledWith("[running] Running postCreateCommand... npm ci");
+  });
+
+  it("points the devcontainer CLI at the configured runtime", async () => {
+    __setMockConfig({
+      "opencode-devcontainer.containerRuntime": "podman",
+      "opencode-devcontainer.podmanPath": "/opt/podman/bin/podman",
+    });
+    mockSpawn.mockImplementationOnce(() =>
+      createMockChild(JSON.stringify({ outcome: "success", containerId: "abc123" }), [])
+    );
+
+    await manager.startDevcontainer();
+
+    const upCmd: string = mockSpawn.mock.calls[0][0];
+    expect(upCmd).toContain("--docker-path /opt/podman/bin/podman");
+    expect(upCmd).toContain("--docker-compose-path podman-compose");
+  });
+
+  it("reports build, create and lifecycle phases", async () => {
+    mockSpawn.mockImplementationOnce(() =>
+      createMockChild(JSON.stringify({ outcome: "success", containerId: "abc123" }), logLines)
+    );
+    const progress = { report: vi.fn() };
+
+    await manager.startDevcontainer(progress);
+
+    expect(progress.report.mock.calls.map(([p]) => p.message)).toEqual([
+      "Building image...",
+      "Creating container...",
+      "Running postCreateCommand: npm ci",
+    ]);
+    expect(manager.containerId).toBe("abc123");
+  });
+
+  it("kills the CLI and re-detects the status when cancelled", async () => {
+    const child = Object.assign(new EventEmitter(), {
+      stdout: new EventEmitter(),
+      stderr: new EventEmitter(),
+      kill: vi.fn(() => child.emit("close", null)),
+    });
+    mockSpawn.mockImplementationOnce(() => child);
+    const source = new CancellationTokenSource();
+
+    const pending = manager.startDevcontainer(undefined, source.token as any);
+    await new Promise((resolve) => setImmediate(resolve));
+    source.cancel();
+
+    expect(await pending).toBeUndefined();
+    expect(child.kill).toHaveBeenCalled();
+    expect(manager.state).toBe("not-found");
+    expect(vscode.window.showErrorMessage).not.toHaveBeenCalled();
+    expect(vscode.window.showInformationMessage).toHaveBeenCalledWith(
+      "Dev container start cancelled."
+    );
+  });
+
+  it("offers to show the log when startup fails", async () => {
+    mockSpawn.mockImplementationOnce(() => createMockChild(new Error("up failed")));
+    vscode.window.showErrorMessage.mockResolvedValueOnce("Show Log");
+
+    await manager.startDevcontainer();
+
+    expect(manager.state).toBe("error");
+    const log = vscode.window.createOutputChannel.mock.results[0].value;
+    expect(log.show).toHaveBeenCalled();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// remoteUser / remoteEnv
+// ---------------------------------------------------------------------------
+
+describe("remote user and environment", () => {
+  let commands: string[];
+
+  beforeEach(() => {
+    commands = [];
+    mockExistsSync.mockImplementation((p: unknown) => {
+      return String(p) === "/home/user/project/.devcontainer/devcontainer.json";
+    });
+    mockReadFileSync.mockReturnValue(`{
+      "image": "node:20",
+      "containerUser": "root",
+      "remoteUser": "node",
+      "remoteEnv": {
+        "PATH": "\${containerEnv:PATH}:/home/node/.local/bin",
+        "DEBUG": null
+      }
+    }`);
+    mockCommands((cmd) => {
+      commands.push(cmd);
+      if (cmd.includes("devcontainer up")) {
+        return JSON.stringify({ containerId: "abc123" });
+      } else if (cmd.includes(".Config.Env")) {
+        return '["PATH=/usr/local/bin:/usr/bin","HOME=/root"]';
+      } else {
+        return "ok";
+      }
+    });
+  });
+
+  it("resolves the user and remoteEnv against the container environment", async () => {
+    await manager.startDevcontainer();
+
+    expect(await manager.getRemoteExecOptions()).toEqual({
+      user: "node",
+      env: { PATH: "/usr/local/bin:/usr/bin:/home/node/.local/bin" },
+      unsetEnv: ["DEBUG"],
+    });
+  });
+
+  it("falls back to containerUser", async () => {
+    mockReadFileSync.mockReturnValue('{ "image": "node:20", "containerUser": "vscode" }');
+    await manager.startDevcontainer();
+
+    expect((await manager.getRemoteExecOptions()).user).toBe("vscode");
+  });
+
+  it("runs execInContainer as the remote user with remoteEnv", async () => {
+    await manager.startDevcontainer();
+    await manager.execInContainer("npm test");
+
+    const execCmd = commands.find((c) => c.includes("npm test"))!;
+    expect(execCmd).toContain("-u node");
+    expect(execCmd).toContain("-e PATH=/usr/local/bin:/usr/bin:/home/node/.local/bin");
+    expect(execCmd).toContain("abc123 env -u DEBUG sh -c 'npm test'");
+  });
+
+  it("runs execInContainer in the container directory of a host cwd", async () => {
+    await manager.startDevcontainer();
+    await manager.execInContainer("npm test", "/home/user/project/packages/api");
+    await manager.execInContainer("ls", "/tmp");
+
+    const execCmds = commands.filter((c) => c.includes(" -w "));
+    expect(execCmds[0]).toContain("-w /workspaces/project/packages/api");
+    expect(execCmds[1]).toContain("-w /workspaces/project");
+  });
+
+  it("records execInContainer commands in the audit log", async () => {
+    const auditLog = new CommandAuditLog("/tmp/commands.jsonl");
+    const append = vi.spyOn(auditLog, "append").mockImplementation(() => undefined);
+    manager = new DevcontainerManager("/home/user/project", undefined, auditLog);
+    await manager.startDevcontainer();
+    await manager.execInContainer("npm test", "/home/user/project/packages/api");
+
+    expect(append).toHaveBeenCalledWith(
+      expect.objectContaining({
+        source: "exec",
+        cwd: "/workspaces/project/packages/api",
+        command: "npm test",
+        exitCode: 0,
+      })
+    );
+  });
+
+  it("records the exit code of a failing execInContainer command", async () => {
+    const auditLog = new CommandAuditLog("/tmp/commands.jsonl");
+    const append = vi.spyOn(auditLog, "append").mockImplementation(() => undefined);
+    manager = new DevcontainerManager("/home/user/project", undefined, auditLog);
+    await manager.startDevcontainer();
+    mockCommands((cmd) =>
+      cmd.includes("make") ? Object.assign(new Error("make failed"), { code: 2 }) : "ok"
+    );
+
+    await expect(manager.execInContainer("make")).rejects.toThrow("Command failed");
+    expect(append).toHaveBeenCalledWith(
+      expect.objectContaining({ command: "make", exitCode: 2 })
+    );
+  });
+
+  it("inspects the container environment only once", async () => {
+    await manager.startDevcontainer();
+    await manager.execInContainer("ls");
+    await manager.execInContainer("ls");
+
+    expect(commands.filter((c) => c.includes(".Config.Env"))).toHaveLength(1);
+  });
+});
+
+describe("credential forwarding", () => {
+  beforeEach(() => {
+    relays.created = [];
+    relays.ready = Promise.resolve();
+    mockExistsSync.mockImplementation((p: unknown) => {
+      return String(p) === "/home/user/project/.devcontainer/devcontainer.json";
+    });
+    mockReadFileSync.mockReturnValue(
+      '{ "image": "node:20", "remoteUser": "node", "userEnvProbe": "none" }'
+    );
+    mockCommands((cmd) =>
+      cmd.includes("devcontainer up") ? JSON.stringify({ containerId: "abc123" }) : "ok"
+    );
+  });
+
+  it("starts no relay by default", async () => {
+    await manager.startDevcontainer();
+
+    expect((await manager.getRemoteExecOptions()).env).toEqual({});
+    expect(relays.created).toHaveLength(0);
+  });
+
+  it("points commands at the relay as the remote user", async () => {
+    vi.stubEnv("SSH_AUTH_SOCK", "/run/user/1000/agent.sock");
+    __setMockConfig({
+      "opencode-devcontainer.forwardSshAgent": true,
+      "opencode-devcontainer.forwardGitCredentials": true,
+    });
+    try {
+      await manager.startDevcontainer();
+      const options = await manager.getRemoteExecOptions();
+
+      expect(options.env).toEqual({ SSH_AUTH_SOCK: "/tmp/relay/ssh-agent.sock" });
+      expect(relays.created[0].channels).toEqual(["ssh-agent", "git-credential"]);
+      expect(relays.created[0].options.user).toBe("node");
+    } finally {
+      vi.unstubAllEnvs();
+    }
+  });
+
+  it("starts one relay for concurrent callers", async () => {
+    __setMockConfig({ "opencode-devcontainer.forwardGitCredentials": true });
+    await manager.startDevcontainer();
+
+    const [first, second] = await Promise.all([
+      manager.getRemoteExecOptions(),
+      manager.getRemoteExecOptions(),
+    ]);
+
+    expect(relays.created).toHaveLength(1);
+    expect(relays.created[0].dispose).not.toHaveBeenCalled();
+    expect(first.env).toEqual(second.env);
+  });
+
+  it("adds the credential helper after the git config from remoteEnv", async () => {
+    mockReadFileSync.mockReturnValue(
+      `{ "image": "node:20", "userEnvProbe": "none",
+         "remoteEnv": { "GIT_CONFIG_COUNT": "1", "GIT_CONFIG_KEY_0": "safe.directory" } }`
+    );
+    __setMockConfig({ "opencode-devcontainer.forwardGitCredentials": true });
+    await manager.startDevcontainer();
+    await manager.getRemoteExecOptions();
+
+    expect(relays.created[0].env).toHaveBeenCalledWith(
+      expect.objectContaining({ GIT_CONFIG_COUNT: "1", GIT_CONFIG_KEY_0: "safe.directory" })
+    );
+  });
+
+  it("skips the SSH agent when the host has none", async () => {
+    vi.stubEnv("SSH_AUTH_SOCK", undefined);
+    __setMockConfig({ "opencode-devcontainer.forwardSshAgent": true });
+    try {
+      await manager.startDevcontainer();
+      await manager.getRemoteExecOptions();
+
+      expect(relays.created).toHaveLength(0);
+    } finally {
+      vi.unstubAllEnvs();
+    }
+  });
+
+  it("warns and runs commands without the relay when it fails", async () => {
+    relays.ready = Promise.reject(new Error('exec: "node": not found'));
+    relays.ready.catch(() => undefined);
+    __setMockConfig({ "opencode-devcontainer.forwardGitCredentials": true });
+    await manager.startDevcontainer();
+
+    expect((await manager.getRemoteExecOptions()).env).toEqual({});
+    expect(relays.created[0].dispose).toHaveBeenCalled();
+    expect(vscode.window.showWarningMessage).toHaveBeenCalledWith(
+      expect.stringContaining("needs node in the container"),
+      "Show Log"
+    );
+  });
+
+  it("stops the relay when the container goes away", async () => {
+    __setMockConfig({ "opencode-devcontainer.forwardGitCredentials": true });
+    await manager.startDevcontainer();
+    await manager.getRemoteExecOptions();
+
+    await manager.stopDevcontainer();
+
+    expect(relays.created[0].dispose).toHaveBeenCalled();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Container shell and userEnvProbe
+// ---------------------------------------------------------------------------
+
+describe("container shell and user environment", () => {
+  let commands: string[];
+  let loginShell: string;
+  let probeOutput: string;
+
+  beforeEach(() => {
+    commands = [];
+    loginShell = "/bin/bash\n";
+    probeOutput =
+      "nvm loaded\n__OPENCODE_ENV_PROBE__" +
+      [
+        "PATH=/home/node/.nvm/versions/node/v20/bin:/usr/bin",
+        "HOME=/home/node",
+        "NVM_DIR=/home/node/.nvm",
+        "PWD=/home/node",
+        "SHLVL=1",
+      ].join("\0") +
+      "\0__OPENCODE_ENV_PROBE__";
+    mockExistsSync.mockImplementation((p: unknown) => {
+      return String(p) === "/home/user/project/.devcontainer/devcontainer.json";
+    });
+    mockReadFileSync.mockReturnValue(`{
+      "image": "node:20",
+      "remoteUser": "node",
+      "remoteEnv": { "PATH": "\${containerEnv:PATH}:/extra/bin" }
+    }`);
+    mockCommands((cmd) => {
+      commands.push(cmd);
+      if (cmd.includes("devcontainer up")) {
+        return JSON.stringify({ containerId: "abc123" });
+      } else if (cmd.includes(".Config.Env")) {
+        return '["PATH=/usr/bin","HOME=/home/node"]';
+      } else if (cmd.includes("getent passwd")) {
+        return loginShell;
+      } else if (cmd.includes("/proc/self/environ")) {
+        return probeOutput;
+      }
+      return "";
+    });
+  });
+
+  it("detects the container user's login shell", async () => {
+    await manager.startDevcontainer();
+
+    expect(await manager.getContainerShell()).toBe("/bin/bash");
+    await manager.execInContainer("source .env && [[ -n $X ]]");
+    expect(commands.find((c) => c.includes("source .env"))).toContain(
+      "abc123 /bin/bash -c 'source .env && [[ -n $X ]]'"
+    );
+    expect(commands.find((c) => c.includes("getent passwd"))).toContain("-u node");
+  });
+
+  it("falls back to sh for nologin shells", async () => {
+    loginShell = "/usr/sbin/nologin\n";
+    await manager.startDevcontainer();
+    expect(await manager.getContainerShell()).toBe("sh");
+  });
+
+  it("prefers the containerShell setting", async () => {
+    __setMockConfig({ "opencode-devcontainer.containerShell": "zsh" });
+    await manager.startDevcontainer();
+
+    expect(await manager.getContainerShell()).toBe("zsh");
+    expect(commands.some((c) => c.includes("getent passwd"))).toBe(false);
+  });
+
+  it("probes the login interactive environment and applies remoteEnv on top", async () => {
+    await manager.startDevcontainer();
+    const options = await manager.getRemoteExecOptions();
+
+    const probe = commands.find((c) => c.includes("/proc/self/environ"))!;
+    expect(probe).toContain("-u node abc123 /bin/bash -l -i -c");
+    expect(options.env).toEqual({
+      PATH: "/home/node/.nvm/versions/node/v20/bin:/usr/bin:/extra/bin",
+      NVM_DIR: "/home/node/.nvm",
+    });
+  });
+
+  it("skips the probe for userEnvProbe none", async () => {
+    mockReadFileSync.mockReturnValue('{ "image": "node:20", "userEnvProbe": "none" }');
+    await manager.startDevcontainer();
+
+    expect((await manager.getRemoteExecOptions()).env).toEqual({});
+    expect(commands.some((c) => c.includes("/proc/self/environ"))).toBe(false);
+  });
+
+  it("ignores a failing probe", async () => {
+    probeOutput = "bash: cat: command not found";
+    await manager.startDevcontainer();
+
+    expect((await manager.getRemoteExecOptions()).env).toEqual({ PATH: "/usr/bin:/extra/bin" });
+  });
+
+  it("probes once per container start", async () => {
+    await manager.startDevcontainer();
+    await manager.execInContainer("ls");
+    await manager.execInContainer("ls");
+    expect(commands.filter((c) => c.includes("/proc/self/environ"))).toHaveLength(1);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Path mapping
+// ---------------------------------------------------------------------------
+
+describe("getPathMapper", () => {
+  let mounts: string;
+  let commands: string[];
+
+  beforeEach(() => {
+    commands = [];
+    mounts = "[]";
+    mockExistsSync.mockImplementation((p: unknown) => {
+      return String(p) === "/home/user/project/.devcontainer/devcontainer.json";
+    });
+    mockReadFileSync.mockReturnValue('{ "image": "node:20" }');
+    mockCommands((cmd) => {
+      commands.push(cmd);
+      if (cmd.includes("devcontainer up")) {
+        return JSON.stringify({ containerId: "abc123" });
+      }
+      return cmd.includes(".Mounts") ? mounts : "";
+    });
+  });
+
+  it("maps the container's bind mounts and ignores volumes", async () => {
+    mounts = JSON.stringify([
+      { Type: "bind", Source: "/home/user/project", Destination: "/workspaces/project" },
+      { Type: "bind", Source: "/home/user/.aws", Destination: "/home/node/.aws" },
+      { Type: "volume", Source: "/var/lib/docker/volumes/x/_data", Destination: "/commandhistory" },
+    ]);
+    await manager.startDevcontainer();
+    const mapper = await manager.getPathMapper();
+
+    expect(mapper.toContainer("/home/user/.aws/config")).toBe("/home/node/.aws/config");
+    expect(mapper.toHost("/workspaces/project/src/a.ts")).toBe("/home/user/project/src/a.ts");
+    expect(mapper.toHost("/commandhistory/.bash_history")).toBeUndefined();
+  });
+
+  it("falls back to the workspace folder when its mount is not a host path", async () => {
+    mounts = JSON.stringify([
+      { Type: "bind", Source: "/run/desktop/mnt/host/c/project", Destination: "/workspaces/project" },
+    ]);
+    await manager.startDevcontainer();
+    const mapper = await manager.getPathMapper();
+
+    expect(mapper.toContainer("/home/user/project/src")).toBe("/workspaces/project/src");
+  });
+
+  it("inspects the mounts once per container", async () => {
+    await manager.startDevcontainer();
+    await manager.getPathMapper();
+    await manager.getPathMapper();
+
+    expect(commands.filter((c) => c.includes(".Mounts"))).toHaveLength(1);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Lifecycle commands
+// ---------------------------------------------------------------------------
+
+describe("lifecycle commands", () => {
+  let commands: string[];
+  let lifecycle: { resolve: (result: string | Error) => void };
+
+  beforeEach(() => {
+    commands = [];
+    mockExistsSync.mockImplementation((p: unknown) => {
+      return String(p) === "/home/user/project/.devcontainer/devcontainer.json";
+    });
+    mockCommands((cmd) => {
+      commands.push(cmd);
+      return cmd.includes("devcontainer up") ? JSON.stringify({ containerId: "abc123" }) : "";
+    });
+    // Hold run-user-commands until the test lets it finish.
+    const spawnCommand = mockSpawn.getMockImplementation()!;
+    mockSpawn.mockImplementation((cmd: string, opts: Record<string, unknown>) => {
+      if (!cmd.includes("run-user-commands")) {
+        return spawnCommand(cmd, opts);
+      }
+      commands.push(cmd);
+      const child = Object.assign(new EventEmitter(), {
+        stdout: new EventEmitter(),
+        stderr: new EventEmitter(),
+        kill: vi.fn(),
+      });
+      lifecycle = {
+        resolve: (result) => child.emit("close", result instanceof Error ? 1 : 0),
+      };
+      return child;
+    });
+  });
+
+  /** Wait until `devcontainer run-user-commands` was spawned. */
+  async function untilLifecycleStarted(): Promise<void> {
+    while (!commands.some((c) => c.includes("run-user-commands"))) {
+      await new Promise((resolve) => setImmediate(resolve));
+    }
+  }
+
+  it("runs the lifecycle commands after devcontainer up", async () => {
+    const pending = manager.startDevcontainer();
+    await untilLifecycleStarted();
+    lifecycle.resolve("");
+    await pending;
+
+    const up = commands.find((c) => c.includes("devcontainer up"))!;
+    expect(up).toContain("--skip-post-create");
+    const userCommands = commands.find((c) => c.includes("run-user-commands"))!;
+    expect(userCommands).toContain("--config /home/user/project/.devcontainer/devcontainer.json");
+    expect(commands.indexOf(userCommands)).toBeGreaterThan(commands.indexOf(up));
+  });
+
+  it("is initializing until the lifecycle commands finish", async () => {
+    const states: string[] = [];
+    manager.onStateChanged((state) => states.push(state));
+
+    const pending = manager.startDevcontainer();
+    await untilLifecycleStarted();
+
+    expect(manager.state).toBe("initializing");
+    expect(manager.containerId).toBe("abc123");
+
+    lifecycle.resolve("");
+    await pending;
+
+    expect(states).toEqual(["starting", "initializing", "running"]);
+  });
+
+  it("stays initializing when the status is refreshed meanwhile", async () => {
+    const pending = manager.startDevcontainer();
+    await untilLifecycleStarted();
+    mockCommands((cmd) => (cmd.includes("State.Running") ? "true" : ""));
+
+    await manager.refreshStatus();
+
+    expect(manager.state).toBe("initializing");
+    lifecycle.resolve("");
+    expect((await pending)?.state).toBe("running");
+  });
+
+  it("reports the state the container is in once the lifecycle commands ran", async () => {
+    const pending = manager.startDevcontainer();
+    await untilLifecycleStarted();
+    await manager.stopDevcontainer();
+    lifecycle.resolve("");
+
+    expect((await pending)?.state).toBe("stopped");
+  });
+
+  it("resolves whenReady once the container is ready", async () => {
+    const pending = manager.startDevcontainer();
+    await untilLifecycleStarted();
+    const ready = manager.whenReady();
+    lifecycle.resolve("");
+
+    expect(await ready).toBe(true);
+    await pending;
+  });
+
+  it("resolves whenReady with false when the container goes away", async () => {
+    const pending = manager.startDevcontainer();
+    await untilLifecycleStarted();
+    const ready = manager.whenReady();
+    await manager.stopDevcontainer();
+
+    expect(await ready).toBe(false);
+    lifecycle.resolve("");
+    await pending;
+    expect(manager.state).toBe("stopped");
+  });
+
+  it("warns about failing lifecycle commands but still uses the container", async () => {
+    const pending = manager.startDevcontainer();
+    await untilLifecycleStarted();
+    lifecycle.resolve(new Error("postCreateCommand failed"));
+    await pending;
+
+    expect(manager.state).toBe("running");
+    expect(vscode.window.showWarningMessage).toHaveBeenCalledWith(
+      expect.stringContaining("lifecycle commands failed"),
+      "Show Log"
+    );
+  });
+
+  it("answers whenReady immediately when not starting", async () => {
+    expect(await manager.whenReady()).toBe(false);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Runtime events
+// ---------------------------------------------------------------------------
+
+describe("container events", () => {
+  let events: EventEmitter;
+  let running: boolean;
+
+  /** Write a Docker event for `id` to the event stream. */
+  function emitEvent(action: string, id = "abc123") {
+    events.emit(
+      "data",
+      JSON.stringify({ Type: "container", Action: action, Actor: { ID: id, Attributes: {} } }) + "\n"
+    );
+  }
+
+  /** Let the async event handler finish. */
+  const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+  beforeEach(async () => {
+    running = true;
+    mockExistsSync.mockImplementation((p: unknown) => {
+      return String(p) === "/home/user/project/.devcontainer/devcontainer.json";
+    });
+    mockCommands((cmd) => {
+      if (cmd.includes("ps -q")) {
+        return running ? "abc123\n" : "";
+      }
+      if (cmd.includes("State.Running")) {
+        return String(running);
+      }
+      return "";
+    });
+    mockSpawn.mockImplementation(() => {
+      const child = Object.assign(new EventEmitter(), {
+        stdout: new EventEmitter(),
+        stderr: new EventEmitter(),
+        kill: vi.fn(),
+      });
+      events = child.stdout;
+      return child;
+    });
+
+    await manager.refreshStatus();
+    manager.watchContainerEvents();
+  });
+
+  it("watches the containers of the workspace folder", () => {
+    expect(mockSpawn.mock.calls[0][0]).toContain(
+      "docker events --filter type=container --filter label=devcontainer.local_folder=/home/user/project"
+    );
+  });
+
+  it("marks the container stopped when it dies", async () => {
+    const listener = vi.fn();
+    manager.onStateChanged(listener);
+
+    emitEvent("die");
+    await flush();
+
+    expect(manager.state).toBe("stopped");
+    expect(manager.containerId).toBe("abc123");
+    expect(listener).toHaveBeenCalledWith("stopped");
+  });
+
+  it("marks the container running again when it starts", async () => {
+    emitEvent("die");
+    emitEvent("start");
+    await flush();
+
+    expect(manager.state).toBe("running");
+  });
+
+  it("starts a new credential relay and announces it when the container restarts", async () => {
+    relays.created = [];
+    relays.ready = Promise.resolve();
+    __setMockConfig({ "opencode-devcontainer.forwardGitCredentials": true });
+    await manager.getRemoteExecOptions();
+    const listener = vi.fn();
+    manager.onRemoteExecOptionsChanged(listener);
+
+    emitEvent("die");
+    emitEvent("start");
+    await vi.waitFor(() => expect(listener).toHaveBeenCalledOnce());
+
+    expect(relays.created).toHaveLength(2);
+    expect(relays.created[0].dispose).toHaveBeenCalled();
+    expect(listener.mock.calls[0][0].env).toEqual(relays.created[1].env());
+  });
+
+  it("rewrites the chat bridge's shell wrapper when the container restarts", async () => {
+    relays.created = [];
+    relays.ready = Promise.resolve();
+    __setMockConfig({ "opencode-devcontainer.forwardSshAgent": true });
+    vi.stubEnv("SSH_AUTH_SOCK", "/run/user/1000/agent.sock");
+    const bridge = new OpenCodeBridge(manager);
+    try {
+      await bridge.start();
+      const writes = (fs.writeFileSync as unknown as ReturnType<typeof vi.fn>).mock.calls;
+      const written = writes.length;
+      const [wrapperPath] = writes.at(-1)!;
+      relays.env = { SSH_AUTH_SOCK: "/tmp/relay-2/ssh-agent.sock" };
+
+      emitEvent("die");
+      emitEvent("start");
+      await vi.waitFor(() => expect(writes.length).toBeGreaterThan(written));
+
+      expect(writes.at(-1)![0]).toBe(wrapperPath);
+      expect(String(writes.at(-1)![1])).toContain("/tmp/relay-2/ssh-agent.sock");
+    } finally {
+      bridge.dispose();
+      vi.unstubAllEnvs();
+      relays.env = { SSH_AUTH_SOCK: "/tmp/relay/ssh-agent.sock" };
+    }
+  });
+
+  it("announces no new exec options when none were handed out", async () => {
+    const listener = vi.fn();
+    manager.onRemoteExecOptionsChanged(listener);
+
+    emitEvent("restart");
+    await flush();
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it("warns when the container was OOM-killed", async () => {
+    emitEvent("oom");
+    emitEvent("die");
+    await flush();
+
+    expect(manager.state).toBe("stopped");
+    expect(vscode.window.showWarningMessage).toHaveBeenCalledWith(
+      "The dev container ran out of memory and was killed."
+    );
+  });
+
+  it("forgets the container when it is removed", async () => {
+    emitEvent("destroy");
+    await flush();
+
+    expect(manager.state).toBe("not-found");
+    expect(manager.containerId).toBeUndefined();
+  });
+
+  it("ignores events of other containers", async () => {
+    emitEvent("die", "other999");
+    await flush();
+
+    expect(manager.state).toBe("running");
+  });
+
+  it("picks up a container started outside the extension", async () => {
+    running = false;
+    emitEvent("destroy");
+    await flush();
+    running = true;
+
+    emitEvent("start", "abc123");
+    await flush();
+    await flush();
+
+    expect(manager.state).toBe("running");
+    expect(manager.containerId).toBe("abc123");
+  });
+
+  it("stops watching when disposed", () => {
+    const child = mockSpawn.mock.results[0].value;
+    manager.dispose();
+
+    expect(child.kill).toHaveBeenCalled();
+  });
+});
+
 // ---------------------------------------------------------------------------
 // stopDevcontainer
 // ---------------------------------------------------------------------------
@@ -233,27 +1333,38 @@ describe("startDevcontainer PATH handling", () => {
       "opencode-devcontainer.devcontainerCliPath": "/usr/local/nvm/versions/node/v20/bin/devcontainer",
     });
 
-    // Make exec call succeed with a container ID
-    mockExec.mockImplementation(
-      (
-        cmd: string,
-        opts: Record<string, unknown>,
-        cb: (err: Error | null, stdout: string, stderr: string) => void
-      ) => {
-        if (cmd.includes("devcontainer up")) {
-          // Verify that the env.PATH starts with the binary's directory
-          const env = opts.env as Record<string, string>;
-          expect(env).toBeDefined();
-          expect(env.PATH).toMatch(/^\/usr\/local\/nvm\/versions\/node\/v20\/bin/);
-          cb(null, JSON.stringify({ containerId: "abc123" }), "");
-        } else {
-          cb(null, "", "");
-        }
+    mockCommands((cmd, opts) => {
+      if (cmd.includes("devcontainer up")) {
+        // Verify that the env.PATH starts with the binary's directory
+        const env = opts.env as Record<string, string>;
+        expect(env).toBeDefined();
+        expect(env.PATH).toMatch(/^\/usr\/local\/nvm\/versions\/node\/v20\/bin/);
+        return JSON.stringify({ containerId: "abc123" });
+      } else {
+        return "";
       }
-    );
+    });
+
+    await manager.startDevcontainer();
+    expect(mockSpawn).toHaveBeenCalled();
+  });
+
+  it("quotes a devcontainerCliPath with spaces and still puts its directory on PATH", async () => {
+    __setMockConfig({
+      "opencode-devcontainer.devcontainerCliPath": "/Users/me/Library/Application Support/bin/devcontainer",
+    });
+    let env: Record<string, string> | undefined;
+    mockCommands((cmd, opts) => {
+      if (cmd.includes(" up ")) {
+        expect(cmd).toMatch(/^'\/Users\/me\/Library\/Application Support\/bin\/devcontainer' up /);
+        env = opts.env as Record<string, string>;
+        return JSON.stringify({ containerId: "abc123" });
+      }
+      return "";
+    });
 
     await manager.startDevcontainer();
-    expect(mockExec).toHaveBeenCalled();
+    expect(env?.PATH).toMatch(/^\/Users\/me\/Library\/Application Support\/bin:/);
   });
 
   it("does not modify PATH when devcontainerCliPath is a bare command", async () => {
@@ -263,24 +1374,165 @@ describe("startDevcontainer PATH handling", () => {
 
     const originalPath = process.env.PATH;
 
-    mockExec.mockImplementation(
-      (
-        cmd: string,
-        opts: Record<string, unknown>,
-        cb: (err: Error | null, stdout: string, stderr: string) => void
-      ) => {
-        if (cmd.includes("devcontainer up")) {
-          const env = opts.env as Record<string, string>;
-          expect(env.PATH).toBe(originalPath);
-          cb(null, JSON.stringify({ containerId: "abc123" }), "");
-        } else {
-          cb(null, "", "");
-        }
+    mockCommands((cmd, opts) => {
+      if (cmd.includes("devcontainer up")) {
+        const env = opts.env as Record<string, string>;
+        expect(env.PATH).toBe(originalPath);
+        return JSON.stringify({ containerId: "abc123" });
+      } else {
+        return "";
       }
-    );
+    });
+
+    await manager.startDevcontainer();
+    expect(mockSpawn).toHaveBeenCalled();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Docker Compose–based devcontainers
+// ---------------------------------------------------------------------------
+
+describe("Docker Compose support", () => {
+  const composeJson = `{
+    // Compose-based devcontainer
+    "dockerComposeFile": ["docker-compose.yml"],
+    "service": "app",
+    "workspaceFolder": "/workspaces/project"
+  }`;
+
+  const psLines = [
+    JSON.stringify({
+      ID: "abc123",
+      Labels: "com.docker.compose.project=project_devcontainer,com.docker.compose.service=app",
+      State: "running",
+    }),
+    JSON.stringify({
+      ID: "db456",
+      Labels: "com.docker.compose.service=db,com.docker.compose.project=project_devcontainer",
+      State: "running",
+    }),
+    JSON.stringify({
+      ID: "redis789",
+      Labels: "com.docker.compose.project=project_devcontainer,com.docker.compose.service=redis",
+      State: "exited",
+    }),
+  ].join("\n");
+
+  let commands: string[];
+
+  beforeEach(() => {
+    commands = [];
+    mockExistsSync.mockImplementation((p: unknown) => {
+      return String(p) === "/home/user/project/.devcontainer/devcontainer.json";
+    });
+    mockReadFileSync.mockReturnValue(composeJson);
+    mockCommands((cmd) => {
+      commands.push(cmd);
+      if (cmd.includes("devcontainer up")) {
+        return JSON.stringify({
+          outcome: "success",
+          containerId: "abc123",
+          composeProjectName: "project_devcontainer",
+        });
+      } else if (cmd.includes("ps -a") && cmd.includes("com.docker.compose.project=project_devcontainer")) {
+        return psLines;
+      } else {
+        return "";
+      }
+    });
+  });
+
+  it("reads dockerComposeFile and service from devcontainer.json", async () => {
+    const compose = await manager.getComposeConfig();
+    expect(compose).toEqual({
+      files: ["/home/user/project/.devcontainer/docker-compose.yml"],
+      service: "app",
+    });
+  });
+
+  it("returns undefined for non-Compose devcontainers", async () => {
+    mockReadFileSync.mockReturnValue('{ "image": "node:20" }');
+    expect(await manager.getComposeConfig()).toBeUndefined();
+  });
 
+  it("tracks the Compose project and every service after start", async () => {
     await manager.startDevcontainer();
-    expect(mockExec).toHaveBeenCalled();
+
+    expect(manager.composeProject).toBe("project_devcontainer");
+    expect(manager.services.map((s) => s.service)).toEqual(["app", "db", "redis"]);
+    expect(manager.services.find((s) => s.service === "app")?.primary).toBe(true);
+    expect(manager.services.find((s) => s.service === "db")?.primary).toBe(false);
+    expect(manager.services.find((s) => s.service === "redis")?.state).toBe("exited");
+  });
+
+  it("resolves the primary container from compose labels when not reported", async () => {
+    mockCommands((cmd) => {
+      commands.push(cmd);
+      if (
+        cmd.includes("ps -q") &&
+        cmd.includes("label=com.docker.compose.project=project_devcontainer") &&
+        cmd.includes("label=com.docker.compose.service=app")
+      ) {
+        return "abc123\n";
+      } else if (cmd.includes("inspect")) {
+        return "project_devcontainer\n";
+      } else {
+        return "";
+      }
+    });
+
+    const info = await manager.startDevcontainer();
+    expect(info?.containerId).toBe("abc123");
+    expect(manager.composeProject).toBe("project_devcontainer");
+  });
+
+  it("stops the whole project via docker compose", async () => {
+    await manager.startDevcontainer();
+    await manager.stopDevcontainer();
+
+    const stopCmd = commands.find((c) => c.includes("docker compose"));
+    expect(stopCmd).toContain("docker compose -p project_devcontainer");
+    expect(stopCmd).toContain("-f /home/user/project/.devcontainer/docker-compose.yml");
+    expect(stopCmd).toMatch(/ stop$/);
+    expect(manager.state).toBe("stopped");
+    expect(manager.services).toEqual([]);
+  });
+
+  it("takes the project down", async () => {
+    await manager.startDevcontainer();
+    await manager.downComposeProject();
+
+    expect(commands.some((c) => c.includes("docker compose") && c.endsWith(" down"))).toBe(true);
+    expect(manager.state).toBe("not-found");
+    expect(manager.containerId).toBeUndefined();
+  });
+
+  it("takes the project down before rebuilding", async () => {
+    await manager.startDevcontainer();
+    commands = [];
+
+    await manager.rebuildDevcontainer("recreate");
+
+    expect(commands[0]).toContain("docker compose -p project_devcontainer");
+    expect(commands[0]).toContain(" down");
+    expect(manager.composeProject).toBe("project_devcontainer");
+  });
+
+  it("restarts the project and stays tracked", async () => {
+    await manager.startDevcontainer();
+    await manager.restartComposeProject();
+
+    expect(commands.some((c) => c.includes("docker compose") && c.endsWith(" restart"))).toBe(true);
+    expect(manager.state).toBe("running");
+    expect(manager.containerId).toBe("abc123");
+  });
+
+  it("warns when compose actions are used without a Compose project", async () => {
+    await manager.restartComposeProject();
+    expect(vscode.window.showWarningMessage).toHaveBeenCalledWith(
+      "The dev container is not a Compose project."
+    );
   });
 });
 
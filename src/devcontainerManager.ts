@@ -1,24 +1,150 @@
 import * as vscode from "vscode";
-import { exec } from "child_process";
 import * as path from "path";
 import * as fs from "fs";
-import { getConfig, getWorkspaceFolder } from "./config";
+import { getConfig, requireWorkspaceTrust } from "./config";
+import {
+  ContainerEvent,
+  ContainerSummary,
+  ExecOptions,
+  getContainerRuntime,
+  streamCommand,
+  toCommandLine,
+} from "./containerRuntime";
+import {
+  DevcontainerConfig,
+  UserEnvProbe,
+  discoverDevcontainerConfigs,
+  loadDevcontainerConfig,
+  substituteVariables,
+} from "./devcontainerConfig";
+import { ContainerEventWatcher } from "./containerEvents";
+import { PathMapper, PathMapping } from "./pathMapper";
+import { CommandAuditLog } from "./commandAudit";
+import { CredentialRelay, RelayChannel } from "./credentialRelay";
+import {
+  StartupPhase,
+  detectPhase,
+  formatLogEntry,
+  getDevcontainerLog,
+  parseLogLine,
+} from "./devcontainerLog";
 
 export interface DevcontainerInfo {
   containerId: string;
   workspaceFolder: string;
   remoteWorkspaceFolder: string;
-  state: "running" | "stopped" | "not-found";
+  /** The state once the lifecycle commands ran; the container may have stopped meanwhile. */
+  state: DevcontainerState;
 }
 
-export type DevcontainerState = "running" | "stopped" | "starting" | "not-found" | "error";
+/**
+ * `initializing` means the container is up but its lifecycle commands
+ * (onCreate, updateContent, postCreate, postStart, postAttach) are still
+ * running; `running` means it is ready for OpenCode.
+ */
+export type DevcontainerState =
+  | "running"
+  | "initializing"
+  | "stopped"
+  | "starting"
+  | "not-found"
+  | "error";
+
+/**
+ * How {@link DevcontainerManager.rebuildDevcontainer} brings the container
+ * back:
+ *  - `rebuild`          — rebuild the image (using the build cache), then recreate
+ *  - `rebuild-no-cache` — rebuild the image from scratch, then recreate
+ *  - `recreate`         — recreate the container from the existing image
+ */
+export type RebuildMode = "rebuild" | "rebuild-no-cache" | "recreate";
+
+/**
+ * A single service container belonging to a Docker Compose–based
+ * devcontainer (`dockerComposeFile` + `service` in devcontainer.json).
+ */
+export interface ComposeServiceInfo {
+  service: string;
+  containerId: string;
+  /** Docker container state, e.g. "running", "exited", "created". */
+  state: string;
+  /** True for the service named by `service` in devcontainer.json. */
+  primary: boolean;
+}
+
+/** Receives phase messages while the devcontainer CLI runs. */
+export type StartupProgress = vscode.Progress<{ message?: string }>;
+
+/** Compose settings read from devcontainer.json. */
+interface ComposeConfig {
+  files: string[];
+  service: string;
+}
+
+/** workspaceState key holding the chosen config, relative to the workspace. */
+const SELECTED_CONFIG_KEY = "opencode-devcontainer.selectedConfig";
+
+/** Shell flags per `userEnvProbe` mode. */
+const PROBE_SHELL_FLAGS: Record<Exclude<UserEnvProbe, "none">, string[]> = {
+  loginShell: ["-l"],
+  interactiveShell: ["-i"],
+  loginInteractiveShell: ["-l", "-i"],
+};
+
+/** Delimits the probed environment from whatever the rc files print. */
+const PROBE_MARKER = "__OPENCODE_ENV_PROBE__";
+
+/** Per-process variables not worth passing on from the probe. */
+const UNPROBED_VARIABLES = new Set(["_", "PWD", "OLDPWD", "SHLVL", "HOSTNAME"]);
+
+/** A credential relay that exited sooner is not restarted, to avoid a restart loop. */
+const RELAY_RESTART_MIN_UPTIME = 10000;
+
+const COMPOSE_PROJECT_LABEL = "com.docker.compose.project";
+const COMPOSE_SERVICE_LABEL = "com.docker.compose.service";
 
 export class DevcontainerManager {
   private _state: DevcontainerState = "not-found";
   private _containerId: string | undefined;
   private _remoteWorkspaceFolder: string | undefined;
+  private _composeProject: string | undefined;
+  private _services: ComposeServiceInfo[] = [];
+  private _devcontainerConfig: DevcontainerConfig | undefined;
+  private _remoteExecOptions: ExecOptions | undefined;
+  /** Container exec options were last handed out for, e.g. into a shell wrapper. */
+  private _execOptionsContainerId: string | undefined;
+  private _credentialRelay: CredentialRelay | undefined;
+  /** The relay being started, shared by concurrent callers. */
+  private _credentialRelayStart: Promise<Record<string, string>> | undefined;
+  private _containerShell: string | undefined;
+  private _pathMapper: PathMapper | undefined;
+  private _eventWatcher: ContainerEventWatcher | undefined;
+  /** Set by an "oom" event until the container's "die" event arrives. */
+  private _oomKilled = false;
+  /** True while the lifecycle commands of the tracked container run. */
+  private _lifecyclePending = false;
   private _onStateChanged = new vscode.EventEmitter<DevcontainerState>();
   public readonly onStateChanged = this._onStateChanged.event;
+  private _onRemoteExecOptionsChanged = new vscode.EventEmitter<ExecOptions>();
+  /**
+   * Fires with new exec options for a container whose earlier options were
+   * handed out — after it restarted or its credential relay was replaced —
+   * so shell wrappers pointing at the old relay sockets can be rewritten.
+   */
+  public readonly onRemoteExecOptionsChanged = this._onRemoteExecOptionsChanged.event;
+
+  /**
+   * @param workspaceFolder The host workspace folder this manager owns.
+   *   Multi-root workspaces get one manager per folder with a devcontainer.
+   * @param workspaceState Used to remember which devcontainer.json was
+   *   picked when the folder has several.
+   */
+  constructor(
+    readonly workspaceFolder: string,
+    private readonly workspaceState?: vscode.Memento,
+    /** Where commands run in the container are recorded, if anywhere. */
+    readonly auditLog?: CommandAuditLog
+  ) {}
 
   get state(): DevcontainerState {
     return this._state;
@@ -32,161 +158,594 @@ export class DevcontainerManager {
     return this._remoteWorkspaceFolder;
   }
 
+  /** The parsed devcontainer.json of the tracked container. */
+  get devcontainerConfig(): DevcontainerConfig | undefined {
+    return this._devcontainerConfig;
+  }
+
+  /** Compose project name when the devcontainer is Compose-based. */
+  get composeProject(): string | undefined {
+    return this._composeProject;
+  }
+
+  /** Every service container of the Compose project (empty otherwise). */
+  get services(): ComposeServiceInfo[] {
+    return this._services;
+  }
+
   private setState(state: DevcontainerState): void {
     this._state = state;
     this._onStateChanged.fire(state);
+    this.updateEventFilter();
+  }
+
+  /** The state of a running container, which is not ready until its lifecycle commands finished. */
+  private runningState(): DevcontainerState {
+    return this._lifecyclePending ? "initializing" : "running";
   }
 
   /**
-   * Detect if a devcontainer.json exists in the workspace.
+   * Wait until the container is ready for OpenCode. Resolves `true` once
+   * the state is `running`, and `false` when the container stops or fails
+   * to start first, or `token` is cancelled.
    */
-  async detectDevcontainerConfig(): Promise<string | undefined> {
-    const workspaceFolder = getWorkspaceFolder();
-    if (!workspaceFolder) {
-      return undefined;
+  whenReady(token?: vscode.CancellationToken): Promise<boolean> {
+    const pending = (state: DevcontainerState) => state === "starting" || state === "initializing";
+    if (!pending(this._state)) {
+      return Promise.resolve(this._state === "running");
+    }
+
+    return new Promise((resolve) => {
+      const done = (ready: boolean) => {
+        stateListener.dispose();
+        cancelListener?.dispose();
+        resolve(ready);
+      };
+      const stateListener = this.onStateChanged((state) => {
+        if (!pending(state)) {
+          done(state === "running");
+        }
+      });
+      const cancelListener = token?.onCancellationRequested(() => done(false));
+    });
+  }
+
+  /**
+   * Follow the runtime's event stream so the state changes as soon as the
+   * container is started, stops, dies, is OOM-killed or removed outside
+   * the extension. Safe to call more than once.
+   */
+  watchContainerEvents(): void {
+    if (!this._eventWatcher) {
+      this._eventWatcher = new ContainerEventWatcher(
+        (event) => void this.handleContainerEvent(event),
+        // Events were missed while disconnected, so re-detect everything.
+        () => void (this._state !== "starting" && this.refreshStatus())
+      );
+    }
+    this.updateEventFilter();
+  }
+
+  /**
+   * Watch the whole Compose project once it is known, otherwise the
+   * containers the devcontainer CLI created for this folder.
+   */
+  private updateEventFilter(): void {
+    this._eventWatcher?.watch(
+      this._composeProject
+        ? { [COMPOSE_PROJECT_LABEL]: this._composeProject }
+        : { "devcontainer.local_folder": this.workspaceFolder }
+    );
+  }
+
+  private async handleContainerEvent(event: ContainerEvent): Promise<void> {
+    // Start and rebuild track the containers they create themselves.
+    if (this._state === "starting") {
+      return;
     }
 
-    const config = getConfig();
+    if (!this._containerId) {
+      if (event.action === "start") {
+        await this.refreshStatus();
+      }
+      return;
+    }
+
+    if (this._composeProject) {
+      await this.refreshComposeServices();
+    }
+    if (!this.isTrackedContainer(event.containerId)) {
+      // A sibling Compose service changed; let listeners re-render.
+      this._onStateChanged.fire(this._state);
+      return;
+    }
+
+    switch (event.action) {
+      case "start":
+      case "restart":
+        // A restarted container gets its user environment probed again,
+        // and the credential relay that stopped with it is started again.
+        this._oomKilled = false;
+        this.resetRemoteExecOptions();
+        this.setState(this.runningState());
+        break;
+      case "unpause":
+        this._oomKilled = false;
+        this.setState(this.runningState());
+        break;
+      case "oom":
+        this._oomKilled = true;
+        break;
+      case "die":
+        this.setState("stopped");
+        if (this._oomKilled) {
+          this._oomKilled = false;
+          vscode.window.showWarningMessage(
+            "The dev container ran out of memory and was killed."
+          );
+        }
+        break;
+      case "destroy":
+        this.clearContainer();
+        this.setState("not-found");
+        break;
+    }
+  }
+
+  /** Whether `id` (full or short) is the tracked primary container. */
+  private isTrackedContainer(id: string): boolean {
+    const tracked = this._containerId;
+    return !!tracked && !!id && (tracked.startsWith(id) || id.startsWith(tracked));
+  }
+
+  /**
+   * List every devcontainer.json in the workspace. When the
+   * `devcontainerPath` setting is set, only that config is returned.
+   */
+  async detectDevcontainerConfigs(): Promise<string[]> {
+    const workspaceFolder = this.workspaceFolder;
+    const config = getConfig(workspaceFolder);
     if (config.devcontainerPath) {
       const customPath = path.resolve(workspaceFolder, config.devcontainerPath);
       if (fs.existsSync(path.join(customPath, "devcontainer.json"))) {
-        return customPath;
+        return [path.join(customPath, "devcontainer.json")];
       }
       if (fs.existsSync(customPath) && customPath.endsWith("devcontainer.json")) {
-        return path.dirname(customPath);
+        return [customPath];
       }
     }
 
-    // Standard locations
-    const devcontainerDir = path.join(workspaceFolder, ".devcontainer");
-    if (fs.existsSync(path.join(devcontainerDir, "devcontainer.json"))) {
-      return devcontainerDir;
+    return discoverDevcontainerConfigs(workspaceFolder);
+  }
+
+  /**
+   * Detect the devcontainer.json to use, without prompting: the
+   * remembered choice if it still exists, otherwise the first one found.
+   */
+  async detectDevcontainerConfig(): Promise<string | undefined> {
+    const configs = await this.detectDevcontainerConfigs();
+    return this.rememberedConfig(configs) ?? configs[0];
+  }
+
+  /**
+   * Choose the devcontainer.json to start. Shows a picker when the
+   * workspace has several and none has been chosen yet (or `force` is
+   * set), and remembers the choice in workspace state.
+   */
+  async selectDevcontainerConfig(force = false): Promise<string | undefined> {
+    const configs = await this.detectDevcontainerConfigs();
+    if (configs.length <= 1) {
+      return configs[0];
+    }
+
+    const remembered = this.rememberedConfig(configs);
+    if (remembered && !force) {
+      return remembered;
     }
 
-    // Root-level devcontainer.json
-    if (fs.existsSync(path.join(workspaceFolder, "devcontainer.json"))) {
-      return workspaceFolder;
+    const workspaceFolder = this.workspaceFolder;
+    const items = configs.map((configFile) => {
+      const relative = path.relative(workspaceFolder, configFile);
+      const name = loadDevcontainerConfig(configFile, {
+        localWorkspaceFolder: workspaceFolder,
+      })?.name;
+      return {
+        label: name ?? relative,
+        description: name ? relative : undefined,
+        picked: configFile === remembered,
+        configFile,
+      };
+    });
+
+    const selected = await vscode.window.showQuickPick(items, {
+      placeHolder: "Select a dev container configuration",
+    });
+    if (!selected) {
+      return undefined;
     }
 
-    return undefined;
+    await this.workspaceState?.update(
+      this.selectedConfigKey,
+      path.relative(workspaceFolder, selected.configFile)
+    );
+    return selected.configFile;
+  }
+
+  private rememberedConfig(configs: string[]): string | undefined {
+    const relative = this.workspaceState?.get<string>(this.selectedConfigKey);
+    if (!relative) {
+      return undefined;
+    }
+    const configFile = path.resolve(this.workspaceFolder, relative);
+    return configs.includes(configFile) ? configFile : undefined;
+  }
+
+  /** Per-folder key, so each root of a multi-root workspace has its own choice. */
+  private get selectedConfigKey(): string {
+    return `${SELECTED_CONFIG_KEY}:${this.workspaceFolder}`;
+  }
+
+  /**
+   * Load the devcontainer.json model (JSONC-parsed, variables substituted)
+   * for the workspace.
+   */
+  async getDevcontainerConfig(): Promise<DevcontainerConfig | undefined> {
+    const configFile = await this.detectDevcontainerConfig();
+    if (!configFile) {
+      return undefined;
+    }
+
+    return loadDevcontainerConfig(configFile, { localWorkspaceFolder: this.workspaceFolder });
   }
 
   /**
    * Parse the devcontainer.json to extract the workspace folder mount.
    */
   async parseWorkspaceFolder(): Promise<string> {
-    const config = getConfig();
+    const config = getConfig(this.workspaceFolder);
     if (config.containerWorkspaceFolder) {
       return config.containerWorkspaceFolder;
     }
 
-    const workspaceFolder = getWorkspaceFolder();
-    if (!workspaceFolder) {
-      return "/workspaces/project";
+    const devcontainerConfig = await this.getDevcontainerConfig();
+    if (devcontainerConfig) {
+      return devcontainerConfig.workspaceFolder;
     }
 
-    const configDir = await this.detectDevcontainerConfig();
-    if (!configDir) {
-      return `/workspaces/${path.basename(workspaceFolder)}`;
+    return `/workspaces/${path.basename(this.workspaceFolder)}`;
+  }
+
+  /**
+   * Read the Compose settings from devcontainer.json, if the devcontainer
+   * is defined via `dockerComposeFile` + `service`.
+   */
+  async getComposeConfig(): Promise<ComposeConfig | undefined> {
+    const devcontainerConfig = await this.getDevcontainerConfig();
+    if (
+      !devcontainerConfig?.service ||
+      devcontainerConfig.dockerComposeFile.length === 0
+    ) {
+      return undefined;
     }
 
+    return {
+      files: devcontainerConfig.dockerComposeFile,
+      service: devcontainerConfig.service,
+    };
+  }
+
+  /**
+   * Start the devcontainer using the devcontainer CLI.
+   *
+   * The CLI's log is streamed into the "OpenCode Dev Container" output
+   * channel and its build / create / lifecycle-command phases are reported
+   * to `progress`. There is no timeout — first builds can take a long
+   * time — but the CLI is killed when `token` is cancelled.
+   */
+  async startDevcontainer(
+    progress?: StartupProgress,
+    token?: vscode.CancellationToken
+  ): Promise<DevcontainerInfo | undefined> {
+    const configFile = await this.configFileToStart();
+    if (!configFile) {
+      return undefined;
+    }
+
+    this.setState("starting");
     try {
-      const devcontainerJsonPath = configDir.endsWith("devcontainer.json")
-        ? configDir
-        : path.join(configDir, "devcontainer.json");
-      const content = fs.readFileSync(devcontainerJsonPath, "utf-8");
-      // Strip comments (JSON with comments support)
-      const stripped = content.replace(/\/\/.*$/gm, "").replace(/\/\*[\s\S]*?\*\//g, "");
-      const parsed = JSON.parse(stripped);
-
-      if (parsed.workspaceFolder) {
-        return parsed.workspaceFolder;
-      }
-    } catch {
-      // Fall through to default
+      return await this.up(configFile, [], progress, token);
+    } catch (err) {
+      return this.handleStartupFailure(err, "start", token);
+    }
+  }
+
+  /**
+   * Tear down the tracked container (the whole project for Compose-based
+   * devcontainers), optionally rebuild the image, and start a fresh
+   * container. Use after editing the Dockerfile or devcontainer.json.
+   */
+  async rebuildDevcontainer(
+    mode: RebuildMode = "rebuild",
+    progress?: StartupProgress,
+    token?: vscode.CancellationToken
+  ): Promise<DevcontainerInfo | undefined> {
+    const configFile = await this.configFileToStart();
+    if (!configFile) {
+      return undefined;
     }
 
-    return `/workspaces/${path.basename(workspaceFolder)}`;
+    this.setState("starting");
+
+    try {
+      await this.removeTrackedContainer();
+
+      if (mode !== "recreate") {
+        progress?.report({ message: "Building image..." });
+        await this.runDevcontainerCli(
+          "build",
+          configFile,
+          mode === "rebuild-no-cache" ? ["--no-cache"] : [],
+          progress,
+          token
+        );
+      }
+
+      return await this.up(configFile, ["--remove-existing-container"], progress, token);
+    } catch (err) {
+      return this.handleStartupFailure(err, "rebuild", token);
+    }
   }
 
   /**
-   * Start the devcontainer using the devcontainer CLI.
+   * Report a failed or cancelled start/rebuild. After a cancellation the
+   * status is re-detected, since the CLI may have left a container behind.
    */
-  async startDevcontainer(): Promise<DevcontainerInfo | undefined> {
-    const workspaceFolder = getWorkspaceFolder();
-    if (!workspaceFolder) {
-      vscode.window.showErrorMessage("No workspace folder open.");
+  private async handleStartupFailure(
+    err: unknown,
+    action: "start" | "rebuild",
+    token?: vscode.CancellationToken
+  ): Promise<undefined> {
+    if (token?.isCancellationRequested) {
+      getDevcontainerLog().appendLine("Cancelled.");
+      this.clearContainer();
+      await this.refreshStatus();
+      vscode.window.showInformationMessage(`Dev container ${action} cancelled.`);
       return undefined;
     }
 
-    const configDir = await this.detectDevcontainerConfig();
-    if (!configDir) {
+    this.setState("error");
+    const message = err instanceof Error ? err.message : String(err);
+    await this.notifyWithLog("error", `Failed to ${action} dev container: ${message}`);
+    return undefined;
+  }
+
+  /** Show a notification offering to open the devcontainer CLI log. */
+  private async notifyWithLog(level: "error" | "warning", message: string): Promise<void> {
+    const choice =
+      level === "error"
+        ? await vscode.window.showErrorMessage(message, "Show Log")
+        : await vscode.window.showWarningMessage(message, "Show Log");
+    if (choice === "Show Log") {
+      getDevcontainerLog().show();
+    }
+  }
+
+  /**
+   * Run a devcontainer CLI subcommand with `--log-format json` against the
+   * detected container runtime, streaming its log into the output channel
+   * and reporting phase changes.
+   */
+  private async runDevcontainerCli(
+    subcommand: "up" | "build" | "run-user-commands",
+    configFile: string,
+    extraArgs: string[],
+    progress?: StartupProgress,
+    token?: vscode.CancellationToken
+  ): Promise<{ stdout: string; stderr: string }> {
+    const workspaceFolder = this.workspaceFolder;
+    const config = getConfig(workspaceFolder);
+    const runtime = getContainerRuntime();
+    const command = toCommandLine([
+      config.devcontainerCliPath,
+      subcommand,
+      "--workspace-folder",
+      workspaceFolder,
+      "--config",
+      configFile,
+      // Otherwise the CLI runs whatever `docker` is on the PATH.
+      "--docker-path",
+      runtime.cliPath,
+      "--docker-compose-path",
+      runtime.composeCliPath,
+      "--log-format",
+      "json",
+      ...extraArgs,
+    ]);
+
+    const log = getDevcontainerLog();
+    log.appendLine(`> ${command}`);
+    let phase: StartupPhase | undefined;
+
+    return streamCommand(command, {
+      cwd: workspaceFolder,
+      binaryPath: config.devcontainerCliPath,
+      token,
+      onLine: (line) => {
+        const entry = parseLogLine(line);
+        if (!entry) {
+          if (line.trim()) {
+            log.appendLine(line);
+          }
+          return;
+        }
+
+        const text = formatLogEntry(entry);
+        if (text !== undefined) {
+          log.appendLine(text);
+        }
+
+        const update = detectPhase(entry);
+        // Lifecycle updates name the command, so report every one of them.
+        if (update && (update.phase !== phase || update.phase === "lifecycle")) {
+          phase = update.phase;
+          progress?.report({ message: update.message });
+        }
+      },
+    });
+  }
+
+  /**
+   * The devcontainer.json to start, prompting when there are several.
+   * Reports an error when the workspace has none.
+   */
+  private async configFileToStart(): Promise<string | undefined> {
+    if (!requireWorkspaceTrust("start its dev container")) {
+      return undefined;
+    }
+    if ((await this.detectDevcontainerConfigs()).length === 0) {
       vscode.window.showErrorMessage(
         "No devcontainer.json found in the workspace. Create one in .devcontainer/ first."
       );
       return undefined;
     }
 
-    this.setState("starting");
-    const config = getConfig();
+    return this.selectDevcontainerConfig(); // undefined when the picker is dismissed
+  }
 
-    try {
-      const result = await this.execCommand(
-        `${config.devcontainerCliPath} up --workspace-folder "${workspaceFolder}"`,
-        { cwd: workspaceFolder }
-      );
+  /**
+   * Remove the tracked container so the next `up` creates a new one.
+   * Compose projects are taken down entirely.
+   */
+  private async removeTrackedContainer(): Promise<void> {
+    if (this._composeProject) {
+      await this.runComposeAction("down");
+    } else if (this._containerId) {
+      await getContainerRuntime().remove(this._containerId);
+    }
+    this.clearContainer();
+  }
 
-      // Parse the output to get container ID
-      // devcontainer up outputs JSON with containerId
-      const lines = result.stdout.split("\n");
-      let containerId: string | undefined;
-
-      for (const line of lines) {
-        try {
-          const parsed = JSON.parse(line.trim());
-          if (parsed.containerId) {
-            containerId = parsed.containerId;
-            break;
-          }
-        } catch {
-          // Not a JSON line, skip
+  /**
+   * Run `devcontainer up` for the given config and track the resulting
+   * container, then run its lifecycle commands. The state is
+   * `initializing` in between. Throws when the CLI fails.
+   */
+  private async up(
+    configFile: string,
+    extraArgs: string[] = [],
+    progress?: StartupProgress,
+    token?: vscode.CancellationToken
+  ): Promise<DevcontainerInfo | undefined> {
+    const workspaceFolder = this.workspaceFolder;
+    // The lifecycle commands run separately below, so the container can be
+    // tracked (and shown as initializing) while they run.
+    const result = await this.runDevcontainerCli(
+      "up",
+      configFile,
+      ["--skip-post-create", ...extraArgs],
+      progress,
+      token
+    );
+
+    // Parse the output to get container ID
+    // devcontainer up outputs JSON with containerId
+    const lines = result.stdout.split("\n");
+    let containerId: string | undefined;
+    let composeProjectName: string | undefined;
+
+    for (const line of lines) {
+      try {
+        const parsed = JSON.parse(line.trim());
+        if (parsed.containerId) {
+          containerId = parsed.containerId;
+          composeProjectName = parsed.composeProjectName;
+          break;
         }
+      } catch {
+        // Not a JSON line, skip
       }
+    }
 
-      if (!containerId) {
-        // Try to find the container by label
-        containerId = await this.findContainerByLabel(workspaceFolder);
-      }
+    const compose = await this.getComposeConfig();
 
-      if (!containerId) {
-        this.setState("error");
-        vscode.window.showErrorMessage(
-          "Dev container started but could not determine container ID."
-        );
-        return undefined;
-      }
+    if (!containerId) {
+      // Try to find the container by label
+      containerId = await this.findContainerByLabel(workspaceFolder, configFile);
+    }
 
-      const remoteWorkspaceFolder = await this.parseWorkspaceFolder();
-      this._containerId = containerId;
-      this._remoteWorkspaceFolder = remoteWorkspaceFolder;
-      this.setState("running");
+    if (!containerId && compose) {
+      containerId = await this.findComposeServiceContainer(
+        composeProjectName || this.defaultComposeProjectName(workspaceFolder, compose),
+        compose.service
+      );
+    }
 
-      return {
-        containerId,
-        workspaceFolder,
-        remoteWorkspaceFolder,
-        state: "running",
-      };
-    } catch (err) {
+    if (!containerId) {
       this.setState("error");
-      const message = err instanceof Error ? err.message : String(err);
-      vscode.window.showErrorMessage(`Failed to start dev container: ${message}`);
+      vscode.window.showErrorMessage(
+        "Dev container started but could not determine container ID."
+      );
       return undefined;
     }
+
+    const remoteWorkspaceFolder = await this.parseWorkspaceFolder();
+    this._devcontainerConfig = await this.getDevcontainerConfig();
+    this._containerId = containerId;
+    this._remoteWorkspaceFolder = remoteWorkspaceFolder;
+    this._remoteExecOptions = undefined;
+    this._containerShell = undefined;
+    this._pathMapper = undefined;
+    if (compose) {
+      await this.trackComposeProject(containerId, composeProjectName);
+    }
+    this._lifecyclePending = true;
+    this.setState("initializing");
+    await this.runLifecycleCommands(configFile, progress, token);
+
+    return {
+      containerId,
+      workspaceFolder,
+      remoteWorkspaceFolder,
+      state: this._state,
+    };
+  }
+
+  /**
+   * Run the lifecycle commands of the freshly started container. A failing
+   * command is reported but, as in VS Code, the container is still used.
+   * Throws when cancelled.
+   */
+  private async runLifecycleCommands(
+    configFile: string,
+    progress?: StartupProgress,
+    token?: vscode.CancellationToken
+  ): Promise<void> {
+    try {
+      await this.runDevcontainerCli("run-user-commands", configFile, [], progress, token);
+    } catch (err) {
+      if (token?.isCancellationRequested) {
+        throw err;
+      }
+      const message = err instanceof Error ? err.message : String(err);
+      // Not awaited: readiness must not wait for the notification.
+      void this.notifyWithLog("warning", `Dev container lifecycle commands failed: ${message}`);
+    }
+
+    this._lifecyclePending = false;
+    // Probe the user environment again: the lifecycle commands typically
+    // install the tools it puts on PATH.
+    this.resetRemoteExecOptions();
+    // The container may have been stopped or removed in the meantime.
+    if (this._state === "initializing") {
+      this.setState("running");
+    }
   }
 
   /**
    * Stop the devcontainer.
+   *
+   * For Compose-based devcontainers this stops every service of the
+   * project, matching the `stopCompose` shutdown action of the spec.
    */
   async stopDevcontainer(): Promise<void> {
     if (!this._containerId) {
@@ -194,11 +753,14 @@ export class DevcontainerManager {
       return;
     }
 
-    const config = getConfig();
+    if (this._composeProject) {
+      await this.stopComposeProject();
+      return;
+    }
+
     try {
-      await this.execCommand(`${config.dockerPath} stop ${this._containerId}`);
-      this._containerId = undefined;
-      this._remoteWorkspaceFolder = undefined;
+      await getContainerRuntime().stop(this._containerId);
+      this.clearContainer();
       this.setState("stopped");
     } catch (err) {
       const message = err instanceof Error ? err.message : String(err);
@@ -206,107 +768,613 @@ export class DevcontainerManager {
     }
   }
 
+  /**
+   * Stop every service container of the Compose project.
+   */
+  async stopComposeProject(): Promise<void> {
+    if (!this._composeProject) {
+      vscode.window.showWarningMessage("The dev container is not a Compose project.");
+      return;
+    }
+
+    try {
+      await this.runComposeAction("stop");
+      this.clearContainer();
+      this.setState("stopped");
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      vscode.window.showErrorMessage(`Failed to stop Compose project: ${message}`);
+    }
+  }
+
+  /**
+   * Stop and remove every container (and network) of the Compose project.
+   */
+  async downComposeProject(): Promise<void> {
+    if (!this._composeProject) {
+      vscode.window.showWarningMessage("The dev container is not a Compose project.");
+      return;
+    }
+
+    try {
+      await this.runComposeAction("down");
+      this.clearContainer();
+      this.setState("not-found");
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      vscode.window.showErrorMessage(`Failed to remove Compose project: ${message}`);
+    }
+  }
+
+  /**
+   * Restart every service container of the Compose project.
+   */
+  async restartComposeProject(): Promise<void> {
+    if (!this._composeProject) {
+      vscode.window.showWarningMessage("The dev container is not a Compose project.");
+      return;
+    }
+
+    try {
+      await this.runComposeAction("restart");
+      await this.refreshComposeServices();
+      this.setState(this.runningState());
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      vscode.window.showErrorMessage(`Failed to restart Compose project: ${message}`);
+    }
+  }
+
   /**
    * Refresh the container status by checking if it's still running.
    */
   async refreshStatus(): Promise<void> {
     if (!this._containerId) {
       // Try to find a running devcontainer for this workspace
-      const workspaceFolder = getWorkspaceFolder();
-      if (workspaceFolder) {
-        const containerId = await this.findContainerByLabel(workspaceFolder);
-        if (containerId) {
-          this._containerId = containerId;
-          this._remoteWorkspaceFolder = await this.parseWorkspaceFolder();
-          this.setState("running");
-          return;
+      const workspaceFolder = this.workspaceFolder;
+      const compose = await this.getComposeConfig();
+      const configFile = await this.detectDevcontainerConfig();
+      let containerId = await this.findContainerByLabel(workspaceFolder, configFile);
+      if (!containerId && compose) {
+        containerId = await this.findComposeServiceContainer(
+          this.defaultComposeProjectName(workspaceFolder, compose),
+          compose.service
+        );
+      }
+      // A start tracked its container meanwhile and is running its
+      // lifecycle commands; it sets the state.
+      if (this._containerId) {
+        return;
+      }
+      if (containerId) {
+        this._containerId = containerId;
+        this._remoteWorkspaceFolder = await this.parseWorkspaceFolder();
+        this._devcontainerConfig = await this.getDevcontainerConfig();
+        this._containerShell = undefined;
+        this._pathMapper = undefined;
+        this.resetRemoteExecOptions();
+        if (compose) {
+          await this.trackComposeProject(containerId);
         }
+        this.setState(this.runningState());
+        return;
       }
       this.setState("not-found");
       return;
     }
 
-    const config = getConfig();
     try {
-      const result = await this.execCommand(
-        `${config.dockerPath} inspect -f "{{.State.Running}}" ${this._containerId}`
-      );
-      if (result.stdout.trim() === "true") {
-        this.setState("running");
+      const running = await getContainerRuntime().isRunning(this._containerId);
+      if (this._composeProject) {
+        await this.refreshComposeServices();
+      }
+      if (running) {
+        this.setState(this.runningState());
       } else {
         this.setState("stopped");
       }
     } catch {
-      this._containerId = undefined;
+      this.clearContainer();
       this.setState("not-found");
     }
   }
 
   /**
    * Execute a command inside the devcontainer.
+   *
+   * @param cwd Host directory to run the command in, translated to the
+   *   container; the container's workspace folder when omitted or not
+   *   mounted.
    */
-  async execInContainer(command: string): Promise<{ stdout: string; stderr: string }> {
+  async execInContainer(
+    command: string,
+    cwd?: string
+  ): Promise<{ stdout: string; stderr: string }> {
     if (!this._containerId) {
       throw new Error("No dev container is running.");
     }
 
-    const config = getConfig();
-    const workDir = this._remoteWorkspaceFolder || "/workspaces";
-    return this.execCommand(
-      `${config.dockerPath} exec -w "${workDir}" ${this._containerId} sh -c ${this.shellEscape(command)}`
-    );
+    const mappedCwd = cwd ? (await this.getPathMapper()).toContainer(cwd) : undefined;
+    const workDir = mappedCwd || this._remoteWorkspaceFolder || "/workspaces";
+    const shell = await this.getContainerShell();
+    const execOptions = await this.getRemoteExecOptions();
+    const started = new Date();
+    const audit = (exitCode: number) =>
+      this.auditLog?.append({
+        timestamp: started.toISOString(),
+        source: "exec",
+        cwd: workDir,
+        command,
+        exitCode,
+        durationMs: Date.now() - started.getTime(),
+      });
+    try {
+      const result = await getContainerRuntime().exec(this._containerId, [shell, "-c", command], {
+        ...execOptions,
+        workdir: workDir,
+      });
+      audit(0);
+      return result;
+    } catch (err) {
+      audit((err as { exitCode?: number }).exitCode ?? -1);
+      throw err;
+    }
+  }
+
+  /**
+   * The user and environment every command run in the container should
+   * use, as VS Code's Dev Containers extension does: `remoteUser`
+   * (falling back to `containerUser`), the environment captured by
+   * `userEnvProbe` and `remoteEnv`, with `${containerEnv:...}` resolved
+   * against the container. `containerEnv` is already part of the
+   * container's own environment. Includes the environment of the
+   * credential relay when one is enabled (see {@link startCredentialRelay}).
+   *
+   * Cached until the container changes or restarts.
+   */
+  async getRemoteExecOptions(): Promise<ExecOptions> {
+    if (this._remoteExecOptions) {
+      return this._remoteExecOptions;
+    }
+
+    const config = this._devcontainerConfig ?? (await this.getDevcontainerConfig());
+    const options: ExecOptions = {
+      user: config?.remoteUser ?? config?.containerUser,
+      env: {},
+      unsetEnv: [],
+    };
+
+    const remoteEnv = Object.entries(config?.remoteEnv ?? {});
+    const userEnvProbe = config?.userEnvProbe ?? "loginInteractiveShell";
+    let containerEnv: Record<string, string> = {};
+    if (this._containerId && (remoteEnv.length > 0 || userEnvProbe !== "none")) {
+      try {
+        containerEnv = await getContainerRuntime().getEnv(this._containerId);
+      } catch {
+        // Leave ${containerEnv:...} references empty
+      }
+      if (userEnvProbe !== "none") {
+        const probed = await this.probeUserEnv(options.user, userEnvProbe);
+        for (const [key, value] of Object.entries(probed)) {
+          if (!UNPROBED_VARIABLES.has(key) && containerEnv[key] !== value) {
+            options.env![key] = value;
+          }
+        }
+        containerEnv = { ...containerEnv, ...probed };
+      }
+      for (const [key, value] of remoteEnv) {
+        if (value === null) {
+          options.unsetEnv!.push(key);
+          delete options.env![key];
+        } else {
+          options.env![key] = substituteVariables(value, {
+            localWorkspaceFolder: this.workspaceFolder,
+            containerEnv,
+          });
+        }
+      }
+    }
+
+    const containerId = this._containerId;
+    if (containerId) {
+      const baseEnv = { ...containerEnv, ...options.env };
+      for (const key of options.unsetEnv!) {
+        delete baseEnv[key];
+      }
+      Object.assign(options.env!, await this.startCredentialRelay(options.user, baseEnv));
+      this._remoteExecOptions = options;
+      // The relay was replaced, so earlier options point at its old sockets.
+      const replaced = this._execOptionsContainerId === containerId;
+      this._execOptionsContainerId = containerId;
+      if (replaced) {
+        this._onRemoteExecOptionsChanged.fire(options);
+      }
+    }
+    return options;
+  }
+
+  /**
+   * Probe the user environment and start the credential relay again, e.g.
+   * after the forwarding settings changed or the container restarted.
+   * When options were handed out for the container, new ones are made
+   * right away and announced through {@link onRemoteExecOptionsChanged}.
+   */
+  resetRemoteExecOptions(): void {
+    this._remoteExecOptions = undefined;
+    if (this._containerId && this._execOptionsContainerId === this._containerId) {
+      void this.refreshRemoteExecOptions();
+    }
+  }
+
+  private async refreshRemoteExecOptions(): Promise<void> {
+    if (this._containerId) {
+      await this.getRemoteExecOptions();
+    }
+  }
+
+  /**
+   * (Re)start the relay forwarding the host's SSH agent
+   * (`forwardSshAgent`) and git credentials (`forwardGitCredentials`) into
+   * the container, and return the environment pointing commands at it,
+   * on top of `baseEnv` (see {@link CredentialRelay.env}). A relay that
+   * fails to start is reported and left out. Concurrent callers share one
+   * relay.
+   */
+  private startCredentialRelay(
+    user: string | undefined,
+    baseEnv: Record<string, string>
+  ): Promise<Record<string, string>> {
+    this._credentialRelayStart ??= this.launchCredentialRelay(user, baseEnv).finally(() => {
+      this._credentialRelayStart = undefined;
+    });
+    return this._credentialRelayStart;
+  }
+
+  private async launchCredentialRelay(
+    user: string | undefined,
+    baseEnv: Record<string, string>
+  ): Promise<Record<string, string>> {
+    this.stopCredentialRelay();
+
+    const config = getConfig(this.workspaceFolder);
+    const channels: RelayChannel[] = [];
+    if (config.forwardSshAgent) {
+      if (process.env.SSH_AUTH_SOCK) {
+        channels.push("ssh-agent");
+      } else {
+        getDevcontainerLog().appendLine(
+          "forwardSshAgent: SSH_AUTH_SOCK is not set on the host; no SSH agent to forward."
+        );
+      }
+    }
+    if (config.forwardGitCredentials) {
+      channels.push("git-credential");
+    }
+    if (channels.length === 0) {
+      return {};
+    }
+
+    const containerId = this._containerId!;
+    const startedAt = Date.now();
+    const relay: CredentialRelay = new CredentialRelay(containerId, channels, {
+      user,
+      cwd: this.workspaceFolder,
+      onExit: () => {
+        if (this._credentialRelay !== relay) {
+          return;
+        }
+        // The sockets are gone; start a new relay if the container still runs.
+        this._credentialRelay = undefined;
+        this._remoteExecOptions = undefined;
+        if (Date.now() - startedAt >= RELAY_RESTART_MIN_UPTIME) {
+          void this.restartCredentialRelay(containerId);
+        }
+      },
+    });
+    try {
+      await relay.ready;
+    } catch (err) {
+      relay.dispose();
+      const message = err instanceof Error ? err.message : String(err);
+      getDevcontainerLog().appendLine(`Credential relay failed: ${message}`);
+      void this.notifyWithLog(
+        "warning",
+        "Could not forward the SSH agent or git credentials into the dev container. The relay needs node in the container."
+      );
+      return {};
+    }
+    this._credentialRelay = relay;
+    return relay.env(baseEnv);
+  }
+
+  /** Start a new relay after one exited, if the container still runs. */
+  private async restartCredentialRelay(containerId: string): Promise<void> {
+    const running = await getContainerRuntime()
+      .isRunning(containerId)
+      .catch(() => false);
+    if (running && this._containerId === containerId) {
+      await this.refreshRemoteExecOptions();
+    }
+  }
+
+  private stopCredentialRelay(): void {
+    this._credentialRelay?.dispose();
+    this._credentialRelay = undefined;
   }
 
   /**
-   * Find a running devcontainer by its label.
+   * Capture the environment a login and/or interactive shell of the
+   * container user sets up (devcontainer.json `userEnvProbe`), so tools
+   * installed through the user's profile, nvm or asdf are on PATH for
+   * every exec. Returns an empty environment when the probe fails.
    */
-  private async findContainerByLabel(workspaceFolder: string): Promise<string | undefined> {
-    const config = getConfig();
+  private async probeUserEnv(
+    user: string | undefined,
+    probe: Exclude<UserEnvProbe, "none">
+  ): Promise<Record<string, string>> {
+    const shell = await this.getContainerShell();
+    const script = `printf %s ${PROBE_MARKER}; cat /proc/self/environ; printf %s ${PROBE_MARKER}`;
     try {
-      // devcontainer CLI labels containers with the workspace folder
-      const result = await this.execCommand(
-        `${config.dockerPath} ps -q --filter "label=devcontainer.local_folder=${workspaceFolder}"`
+      const { stdout } = await getContainerRuntime().exec(
+        this._containerId!,
+        [shell, ...PROBE_SHELL_FLAGS[probe], "-c", script],
+        { user }
       );
-      const containerId = result.stdout.trim().split("\n")[0];
-      return containerId || undefined;
+      const start = stdout.indexOf(PROBE_MARKER);
+      const end = stdout.lastIndexOf(PROBE_MARKER);
+      if (start === -1 || end <= start) {
+        throw new Error("no environment in the probe output");
+      }
+      const env: Record<string, string> = {};
+      for (const entry of stdout.substring(start + PROBE_MARKER.length, end).split("\0")) {
+        const idx = entry.indexOf("=");
+        if (idx > 0) {
+          env[entry.substring(0, idx)] = entry.substring(idx + 1);
+        }
+      }
+      return env;
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      getDevcontainerLog().appendLine(`userEnvProbe (${probe}) failed: ${message}`);
+      return {};
+    }
+  }
+
+  /**
+   * The shell commands run with in the container: the `containerShell`
+   * setting, otherwise the container user's login shell from the passwd
+   * database, falling back to `sh`.
+   *
+   * The detected shell is cached until the container changes.
+   */
+  async getContainerShell(): Promise<string> {
+    const configured = getConfig(this.workspaceFolder).containerShell;
+    if (configured) {
+      return configured;
+    }
+    if (this._containerShell) {
+      return this._containerShell;
+    }
+    if (!this._containerId) {
+      return "sh";
+    }
+
+    const config = this._devcontainerConfig ?? (await this.getDevcontainerConfig());
+    let shell = "sh";
+    try {
+      const { stdout } = await getContainerRuntime().exec(
+        this._containerId,
+        [
+          "sh",
+          "-c",
+          'u=$(id -un) && { getent passwd "$u" || grep "^$u:" /etc/passwd; } | head -n 1 | cut -d: -f7',
+        ],
+        { user: config?.remoteUser ?? config?.containerUser }
+      );
+      const loginShell = stdout.trim();
+      if (loginShell.startsWith("/") && !/\/(nologin|false)$/.test(loginShell)) {
+        shell = loginShell;
+      }
     } catch {
-      return undefined;
+      // Keep sh
     }
+    this._containerShell = shell;
+    return shell;
   }
 
-  private shellEscape(cmd: string): string {
-    return `'${cmd.replace(/'/g, "'\\''")}'`;
+  /**
+   * Translates paths between the host and the container, from the
+   * container's bind mounts. The workspace folder is always mapped to the
+   * container's workspace folder, even when its mount source is not a
+   * host path (e.g. Docker Desktop's VM paths or a volume).
+   *
+   * Cached until the container changes.
+   */
+  async getPathMapper(): Promise<PathMapper> {
+    if (this._pathMapper) {
+      return this._pathMapper;
+    }
+
+    const mappings: PathMapping[] = [];
+    if (this._containerId) {
+      try {
+        const mounts = await getContainerRuntime().getMounts(this._containerId);
+        for (const mount of mounts) {
+          if (mount.type === "bind") {
+            mappings.push({ hostPath: mount.source, containerPath: mount.destination });
+          }
+        }
+      } catch {
+        // Fall back to the workspace mapping below
+      }
+    }
+
+    const remoteWorkspace = this._remoteWorkspaceFolder ?? (await this.parseWorkspaceFolder());
+    if (!new PathMapper(mappings).toContainer(this.workspaceFolder)) {
+      mappings.push({ hostPath: this.workspaceFolder, containerPath: remoteWorkspace });
+    }
+
+    const mapper = new PathMapper(mappings);
+    if (this._containerId) {
+      this._pathMapper = mapper;
+    }
+    return mapper;
   }
 
-  private execCommand(
-    command: string,
-    options?: { cwd?: string }
-  ): Promise<{ stdout: string; stderr: string }> {
-    // When the command binary is an absolute path, ensure its parent directory
-    // is on PATH. This fixes environments where node is managed by nvm and the
-    // devcontainer CLI (a #!/usr/bin/env node script) lives in the same bin
-    // directory as the node binary, but that directory isn't on the default
-    // PATH inherited by child processes (common when VS Code is launched from
-    // the OS application launcher rather than a terminal).
-    const env = { ...process.env };
-    const binaryPath = command.split(" ")[0];
-    if (path.isAbsolute(binaryPath)) {
-      const binDir = path.dirname(binaryPath);
-      env.PATH = binDir + path.delimiter + (env.PATH || "");
-    }
-
-    return new Promise((resolve, reject) => {
-      exec(command, { cwd: options?.cwd, timeout: 120000, env }, (error, stdout, stderr) => {
-        if (error) {
-          reject(new Error(`Command failed: ${command}\n${stderr || error.message}`));
-          return;
+  /**
+   * Find a running devcontainer by its labels.
+   *
+   * The devcontainer CLI labels containers with the workspace folder and
+   * the config file, so containers of sibling configs are told apart. Only
+   * when the workspace has a single config is the folder label alone
+   * enough (e.g. containers created by older CLI versions).
+   */
+  private async findContainerByLabel(
+    workspaceFolder: string,
+    configFile?: string
+  ): Promise<string | undefined> {
+    const runtime = getContainerRuntime();
+    try {
+      if (configFile) {
+        const ids = await runtime.findContainers({
+          "devcontainer.local_folder": workspaceFolder,
+          "devcontainer.config_file": configFile,
+        });
+        if (ids.length > 0 || (await this.detectDevcontainerConfigs()).length > 1) {
+          return ids[0];
         }
-        resolve({ stdout, stderr });
+      }
+      const ids = await runtime.findContainers({
+        "devcontainer.local_folder": workspaceFolder,
       });
-    });
+      return ids[0];
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Find the container of a Compose service via the labels Compose puts
+   * on every container it creates.
+   */
+  private async findComposeServiceContainer(
+    project: string,
+    service: string
+  ): Promise<string | undefined> {
+    try {
+      const ids = await getContainerRuntime().findContainers({
+        [COMPOSE_PROJECT_LABEL]: project,
+        [COMPOSE_SERVICE_LABEL]: service,
+      });
+      return ids[0];
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Record the Compose project of the primary container and load the
+   * state of its sibling service containers.
+   */
+  private async trackComposeProject(
+    containerId: string,
+    projectName?: string
+  ): Promise<void> {
+    let project = projectName;
+    if (!project) {
+      try {
+        project = await getContainerRuntime().getLabel(containerId, COMPOSE_PROJECT_LABEL);
+      } catch {
+        project = undefined;
+      }
+    }
+
+    this._composeProject = project;
+    await this.refreshComposeServices();
+  }
+
+  /**
+   * Reload the list of service containers of the tracked Compose project.
+   */
+  async refreshComposeServices(): Promise<void> {
+    if (!this._composeProject) {
+      this._services = [];
+      return;
+    }
+
+    try {
+      const containers = await getContainerRuntime().listContainers({
+        [COMPOSE_PROJECT_LABEL]: this._composeProject,
+      });
+      this._services = this.toComposeServices(containers);
+    } catch {
+      this._services = [];
+    }
+  }
+
+  private toComposeServices(containers: ContainerSummary[]): ComposeServiceInfo[] {
+    return containers
+      .map((c) => ({
+        service: c.labels[COMPOSE_SERVICE_LABEL] || c.name || c.id,
+        containerId: c.id,
+        state: c.state,
+        primary: !!this._containerId && !!c.id && this._containerId.startsWith(c.id),
+      }))
+      .sort((a, b) => a.service.localeCompare(b.service));
+  }
+
+  /**
+   * Run a project-wide Compose action for the tracked project.
+   */
+  private async runComposeAction(action: "stop" | "down" | "restart"): Promise<void> {
+    const compose = await this.getComposeConfig();
+    await getContainerRuntime().compose(
+      this._composeProject!,
+      compose?.files ?? [],
+      action
+    );
+  }
+
+  /**
+   * Compute the project name the devcontainer CLI uses when it does not
+   * report one: `COMPOSE_PROJECT_NAME`, otherwise the directory of the
+   * first Compose file (with `_devcontainer` appended when that is the
+   * `.devcontainer` folder), normalised the way Compose does.
+   */
+  private defaultComposeProjectName(
+    workspaceFolder: string,
+    compose: ComposeConfig
+  ): string {
+    const fromEnv = process.env.COMPOSE_PROJECT_NAME;
+    const composeDir = compose.files.length > 0
+      ? path.dirname(compose.files[0])
+      : workspaceFolder;
+    const raw = fromEnv
+      ? fromEnv
+      : path.basename(composeDir) === ".devcontainer"
+        ? `${path.basename(workspaceFolder)}_devcontainer`
+        : path.basename(composeDir);
+    return raw.toLowerCase().replace(/[^a-z0-9_-]/g, "");
+  }
+
+  private clearContainer(): void {
+    this._oomKilled = false;
+    this._lifecyclePending = false;
+    this._containerId = undefined;
+    this._remoteWorkspaceFolder = undefined;
+    this._composeProject = undefined;
+    this._services = [];
+    this._devcontainerConfig = undefined;
+    this._remoteExecOptions = undefined;
+    this.stopCredentialRelay();
+    this._containerShell = undefined;
+    this._pathMapper = undefined;
   }
 
   dispose(): void {
+    this._eventWatcher?.dispose();
+    this.stopCredentialRelay();
     this._onStateChanged.dispose();
+    this._onRemoteExecOptionsChanged.dispose();
   }
 }
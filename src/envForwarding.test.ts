@@ -0,0 +1,301 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { __resetMocks, __setMockConfig, window } from "./__mocks__/vscode";
+import {
+  EnvSecretStore,
+  clearSecretEnv,
+  describeForwardedEnv,
+  isForwarded,
+  matchesEnvPattern,
+  parseEnvFile,
+  previewForwardedEnv,
+  resolveForwardedEnv,
+  setSecretEnv,
+} from "./envForwarding";
+
+beforeEach(() => {
+  __resetMocks();
+});
+
+async function createSecretStore(initial: Record<string, string> = {}) {
+  const secrets = new Map<string, string>();
+  const state: Record<string, unknown> = {};
+  const store = new EnvSecretStore(
+    {
+      get: vi.fn(async (key: string) => secrets.get(key)),
+      store: vi.fn(async (key: string, value: string) => {
+        secrets.set(key, value);
+      }),
+      delete: vi.fn(async (key: string) => {
+        secrets.delete(key);
+      }),
+    } as never,
+    {
+      get: vi.fn((key: string, fallback?: unknown) => state[key] ?? fallback),
+      update: vi.fn(async (key: string, value: unknown) => {
+        state[key] = value;
+      }),
+    } as never
+  );
+  for (const [name, value] of Object.entries(initial)) {
+    await store.set(name, value);
+  }
+  return { store, secrets };
+}
+
+// ---------------------------------------------------------------------------
+// Patterns
+// ---------------------------------------------------------------------------
+
+describe("matchesEnvPattern", () => {
+  it("matches exact names only", () => {
+    expect(matchesEnvPattern("OPENAI_API_KEY", "OPENAI_API_KEY")).toBe(true);
+    expect(matchesEnvPattern("OPENAI_API_KEY_2", "OPENAI_API_KEY")).toBe(false);
+  });
+
+  it("supports * anywhere in the pattern", () => {
+    expect(matchesEnvPattern("OPENCODE_MODEL", "OPENCODE_*")).toBe(true);
+    expect(matchesEnvPattern("AWS_REGION", "*_REGION")).toBe(true);
+    expect(matchesEnvPattern("MY_OPENAI_API_KEY", "*_API_*")).toBe(true);
+    expect(matchesEnvPattern("PATH", "*_API_*")).toBe(false);
+  });
+
+  it("supports ? for a single character", () => {
+    expect(matchesEnvPattern("KEY1", "KEY?")).toBe(true);
+    expect(matchesEnvPattern("KEY12", "KEY?")).toBe(false);
+  });
+
+  it("treats other characters literally", () => {
+    expect(matchesEnvPattern("AXB", "A.B")).toBe(false);
+  });
+});
+
+describe("isForwarded", () => {
+  it("applies ! exclusions regardless of their position", () => {
+    const patterns = ["!OPENCODE_DEBUG*", "OPENCODE_*"];
+    expect(isForwarded("OPENCODE_MODEL", patterns)).toBe(true);
+    expect(isForwarded("OPENCODE_DEBUG_LOG", patterns)).toBe(false);
+  });
+
+  it("forwards nothing without an including pattern", () => {
+    expect(isForwarded("HOME", ["!PATH"])).toBe(false);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// parseEnvFile()
+// ---------------------------------------------------------------------------
+
+describe("parseEnvFile", () => {
+  it("parses assignments, comments and export prefixes", () => {
+    expect(
+      parseEnvFile(
+        [
+          "# provider keys",
+          "OPENAI_API_KEY=sk-1",
+          "export ANTHROPIC_API_KEY = sk-2",
+          "",
+          "not an assignment",
+          "1BAD=x",
+          "PLAIN=value # comment",
+        ].join("\n")
+      )
+    ).toEqual({ OPENAI_API_KEY: "sk-1", ANTHROPIC_API_KEY: "sk-2", PLAIN: "value" });
+  });
+
+  it("unquotes values", () => {
+    expect(
+      parseEnvFile(`A="two\\nlines # kept"\r\nB='lit\\n'\nC=""`)
+    ).toEqual({ A: "two\nlines # kept", B: "lit\\n", C: "" });
+  });
+});
+
+// ---------------------------------------------------------------------------
+// EnvSecretStore
+// ---------------------------------------------------------------------------
+
+describe("EnvSecretStore", () => {
+  it("stores values and lists their names", async () => {
+    const { store, secrets } = await createSecretStore();
+    await store.set("OPENAI_API_KEY", "sk-1");
+    await store.set("ANTHROPIC_API_KEY", "sk-2");
+    await store.set("OPENAI_API_KEY", "sk-3");
+
+    expect(store.names()).toEqual(["ANTHROPIC_API_KEY", "OPENAI_API_KEY"]);
+    expect(secrets.get("opencode-devcontainer.env.OPENAI_API_KEY")).toBe("sk-3");
+    expect(await store.getAll()).toEqual({ ANTHROPIC_API_KEY: "sk-2", OPENAI_API_KEY: "sk-3" });
+  });
+
+  it("deletes values", async () => {
+    const { store } = await createSecretStore({ OPENAI_API_KEY: "sk-1" });
+    await store.delete("OPENAI_API_KEY");
+    expect(store.names()).toEqual([]);
+    expect(await store.getAll()).toEqual({});
+  });
+});
+
+// ---------------------------------------------------------------------------
+// resolveForwardedEnv()
+// ---------------------------------------------------------------------------
+
+describe("resolveForwardedEnv", () => {
+  let folder: string;
+
+  beforeEach(() => {
+    folder = fs.mkdtempSync(path.join(os.tmpdir(), "env-forwarding-test-"));
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    fs.rmSync(folder, { recursive: true, force: true });
+  });
+
+  it("forwards matching host variables", async () => {
+    vi.stubEnv("OPENCODE_MODEL", "gpt");
+    vi.stubEnv("OPENCODE_DEBUG", "1");
+    __setMockConfig({
+      "opencode-devcontainer.forwardEnvVars": ["OPENCODE_*", "!OPENCODE_DEBUG"],
+    });
+
+    const env = await resolveForwardedEnv(folder);
+    expect(env.OPENCODE_MODEL).toBe("gpt");
+    expect(env).not.toHaveProperty("OPENCODE_DEBUG");
+  });
+
+  it("reads the workspace .env, which the host environment overrides", async () => {
+    fs.writeFileSync(
+      path.join(folder, ".env"),
+      "OPENAI_API_KEY=from-file\nANTHROPIC_API_KEY=from-file\nUNSELECTED=x\n"
+    );
+    vi.stubEnv("ANTHROPIC_API_KEY", "from-host");
+    vi.stubEnv("OPENAI_API_KEY", undefined);
+
+    expect(await resolveForwardedEnv(folder)).toMatchObject({
+      OPENAI_API_KEY: "from-file",
+      ANTHROPIC_API_KEY: "from-host",
+    });
+    expect(await resolveForwardedEnv(folder)).not.toHaveProperty("UNSELECTED");
+  });
+
+  it("reads the configured env files in order", async () => {
+    fs.writeFileSync(path.join(folder, "a.env"), "OPENCODE_X=a\nOPENCODE_Y=a\n");
+    fs.writeFileSync(path.join(folder, "b.env"), "OPENCODE_Y=b\n");
+    __setMockConfig({
+      "opencode-devcontainer.forwardEnvVars": ["OPENCODE_X", "OPENCODE_Y"],
+      "opencode-devcontainer.envFiles": ["a.env", "b.env", "missing.env"],
+    });
+
+    expect(await resolveForwardedEnv(folder)).toEqual({ OPENCODE_X: "a", OPENCODE_Y: "b" });
+  });
+
+  it("forwards stored secrets over every other source unless excluded", async () => {
+    vi.stubEnv("OPENAI_API_KEY", "from-host");
+    const { store } = await createSecretStore({
+      OPENAI_API_KEY: "from-secret",
+      CUSTOM_TOKEN: "token",
+      EXCLUDED_TOKEN: "nope",
+    });
+    __setMockConfig({
+      "opencode-devcontainer.forwardEnvVars": ["OPENAI_API_KEY", "!EXCLUDED_*"],
+    });
+
+    const env = await resolveForwardedEnv(folder, store);
+    expect(env).toEqual({ OPENAI_API_KEY: "from-secret", CUSTOM_TOKEN: "token" });
+  });
+
+  it("describes where each variable comes from", async () => {
+    fs.writeFileSync(path.join(folder, ".env"), "OPENAI_API_KEY=from-file\n");
+    vi.stubEnv("OPENCODE_MODEL", "gpt");
+    vi.stubEnv("OPENAI_API_KEY", undefined);
+    const { store } = await createSecretStore({ ANTHROPIC_API_KEY: "sk" });
+
+    expect(await describeForwardedEnv(folder, store)).toEqual(
+      expect.arrayContaining([
+        { name: "ANTHROPIC_API_KEY", source: "secret", file: undefined },
+        { name: "OPENAI_API_KEY", source: "envFile", file: path.join(folder, ".env") },
+        { name: "OPENCODE_MODEL", source: "environment", file: undefined },
+      ])
+    );
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Commands
+// ---------------------------------------------------------------------------
+
+describe("setSecretEnv / clearSecretEnv", () => {
+  it("stores a provider key entered as a password", async () => {
+    const { store } = await createSecretStore();
+    window.showQuickPick.mockResolvedValueOnce({ label: "OPENAI_API_KEY" });
+    window.showInputBox.mockResolvedValueOnce("sk-1");
+
+    await setSecretEnv(store);
+
+    expect(window.showInputBox).toHaveBeenCalledWith(
+      expect.objectContaining({ password: true })
+    );
+    expect(await store.getAll()).toEqual({ OPENAI_API_KEY: "sk-1" });
+  });
+
+  it("asks for the name of another variable", async () => {
+    const { store } = await createSecretStore();
+    window.showQuickPick.mockResolvedValueOnce({ label: "$(edit) Other Variable..." });
+    window.showInputBox.mockResolvedValueOnce("CUSTOM_TOKEN").mockResolvedValueOnce("t");
+
+    await setSecretEnv(store);
+
+    expect(await store.getAll()).toEqual({ CUSTOM_TOKEN: "t" });
+  });
+
+  it("stores nothing when the value prompt is cancelled", async () => {
+    const { store } = await createSecretStore();
+    window.showQuickPick.mockResolvedValueOnce({ label: "OPENAI_API_KEY" });
+    window.showInputBox.mockResolvedValueOnce(undefined);
+
+    await setSecretEnv(store);
+
+    expect(store.names()).toEqual([]);
+  });
+
+  it("removes the picked variable", async () => {
+    const { store } = await createSecretStore({ A_KEY: "a", B_KEY: "b" });
+    window.showQuickPick.mockResolvedValueOnce("A_KEY");
+
+    await clearSecretEnv(store);
+
+    expect(store.names()).toEqual(["B_KEY"]);
+  });
+});
+
+describe("previewForwardedEnv", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("lists names and sources but never values", async () => {
+    vi.stubEnv("OPENCODE_MODEL", "secret-model-value");
+    const { store } = await createSecretStore({ OPENAI_API_KEY: "sk-secret" });
+
+    await previewForwardedEnv("/nonexistent", store);
+
+    const items = window.showQuickPick.mock.calls[0][0] as { label: string }[];
+    expect(items).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ label: "OPENAI_API_KEY", description: "secret storage" }),
+        expect.objectContaining({ label: "OPENCODE_MODEL", description: "host environment" }),
+      ])
+    );
+    expect(JSON.stringify(window.showQuickPick.mock.calls)).not.toMatch(/secret-model-value|sk-secret/);
+  });
+
+  it("says when nothing would be forwarded", async () => {
+    __setMockConfig({ "opencode-devcontainer.forwardEnvVars": [] });
+
+    await previewForwardedEnv("/nonexistent");
+
+    expect(window.showInformationMessage).toHaveBeenCalled();
+    expect(window.showQuickPick).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,302 @@
+import * as vscode from "vscode";
+import * as fs from "fs";
+import * as path from "path";
+import { getConfig } from "./config";
+
+/** Where a forwarded variable's value comes from, in increasing precedence. */
+export type EnvSource = "envFile" | "environment" | "secret";
+
+export interface ForwardedVariable {
+  name: string;
+  source: EnvSource;
+  /** The `.env` file the value was read from. */
+  file?: string;
+}
+
+/**
+ * Whether an environment variable name matches a `forwardEnvVars` glob:
+ * `*` matches any run of characters and `?` a single one.
+ */
+export function matchesEnvPattern(name: string, pattern: string): boolean {
+  const regex = pattern
+    .split("")
+    .map((c) => (c === "*" ? ".*" : c === "?" ? "." : c.replace(/[.+^${}()|[\]\\]/g, "\\$&")))
+    .join("");
+  return new RegExp(`^${regex}$`).test(name);
+}
+
+/**
+ * Whether `forwardEnvVars` selects a name: some pattern matches it and no
+ * exclusion (a pattern starting with `!`) does.
+ */
+export function isForwarded(name: string, patterns: string[]): boolean {
+  let included = false;
+  for (const pattern of patterns) {
+    if (pattern.startsWith("!")) {
+      if (matchesEnvPattern(name, pattern.substring(1))) {
+        return false;
+      }
+    } else if (!included && matchesEnvPattern(name, pattern)) {
+      included = true;
+    }
+  }
+  return included;
+}
+
+/**
+ * Parse a `.env` file: `KEY=value` lines with an optional `export`
+ * prefix, `#` comments, and single- (literal) or double-quoted
+ * (`\n`-escaped) values.
+ */
+export function parseEnvFile(content: string): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim().replace(/^export\s+/, "");
+    const eq = line.indexOf("=");
+    if (!line || line.startsWith("#") || eq === -1) {
+      continue;
+    }
+    const key = line.substring(0, eq).trim();
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(key)) {
+      continue;
+    }
+    let value = line.substring(eq + 1).trim();
+    if (value.length >= 2 && value.startsWith('"') && value.endsWith('"')) {
+      value = value
+        .slice(1, -1)
+        .replace(/\\(["\\n])/g, (_m, c: string) => (c === "n" ? "\n" : c));
+    } else if (value.length >= 2 && value.startsWith("'") && value.endsWith("'")) {
+      value = value.slice(1, -1);
+    } else {
+      value = value.replace(/\s+#.*$/, "");
+    }
+    result[key] = value;
+  }
+  return result;
+}
+
+// ---------------------------------------------------------------------------
+// Secret storage
+// ---------------------------------------------------------------------------
+
+const SECRET_PREFIX = "opencode-devcontainer.env.";
+const NAMES_KEY = "opencode-devcontainer.secretEnvNames";
+
+/**
+ * Environment variables kept in VS Code's SecretStorage, such as provider
+ * API keys, which are forwarded to the container without living in a
+ * settings file or the shell environment.
+ *
+ * SecretStorage cannot list its keys on every supported VS Code version,
+ * so the names are also kept in `globalState`.
+ */
+export class EnvSecretStore {
+  constructor(
+    private readonly secrets: vscode.SecretStorage,
+    private readonly state: vscode.Memento
+  ) {}
+
+  names(): string[] {
+    return this.state.get<string[]>(NAMES_KEY, []);
+  }
+
+  async set(name: string, value: string): Promise<void> {
+    await this.secrets.store(SECRET_PREFIX + name, value);
+    if (!this.names().includes(name)) {
+      await this.state.update(NAMES_KEY, [...this.names(), name].sort());
+    }
+  }
+
+  async delete(name: string): Promise<void> {
+    await this.secrets.delete(SECRET_PREFIX + name);
+    await this.state.update(
+      NAMES_KEY,
+      this.names().filter((n) => n !== name)
+    );
+  }
+
+  /** Every stored variable; names whose secret has gone are skipped. */
+  async getAll(): Promise<Record<string, string>> {
+    const result: Record<string, string> = {};
+    for (const name of this.names()) {
+      const value = await this.secrets.get(SECRET_PREFIX + name);
+      if (value !== undefined) {
+        result[name] = value;
+      }
+    }
+    return result;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Resolution
+// ---------------------------------------------------------------------------
+
+interface ResolvedVariable extends ForwardedVariable {
+  value: string;
+}
+
+async function resolve(
+  folder: string,
+  secrets?: EnvSecretStore
+): Promise<Map<string, ResolvedVariable>> {
+  const config = getConfig(folder);
+  const result = new Map<string, ResolvedVariable>();
+
+  for (const envFile of config.envFiles) {
+    const file = path.resolve(folder, envFile);
+    let content: string;
+    try {
+      content = fs.readFileSync(file, "utf-8");
+    } catch {
+      continue;
+    }
+    for (const [name, value] of Object.entries(parseEnvFile(content))) {
+      if (isForwarded(name, config.forwardEnvVars)) {
+        result.set(name, { name, value, source: "envFile", file });
+      }
+    }
+  }
+
+  for (const [name, value] of Object.entries(process.env)) {
+    if (value !== undefined && isForwarded(name, config.forwardEnvVars)) {
+      result.set(name, { name, value, source: "environment" });
+    }
+  }
+
+  // Stored secrets were set for forwarding, so only exclusions apply.
+  const exclusions = config.forwardEnvVars.filter((p) => p.startsWith("!"));
+  for (const [name, value] of Object.entries((await secrets?.getAll()) ?? {})) {
+    if (isForwarded(name, ["*", ...exclusions])) {
+      result.set(name, { name, value, source: "secret" });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * The environment variables to forward into a folder's dev container:
+ * those `forwardEnvVars` selects from the folder's `envFiles` and the
+ * host environment, plus the ones in secret storage. Later sources win.
+ */
+export async function resolveForwardedEnv(
+  folder: string,
+  secrets?: EnvSecretStore
+): Promise<Record<string, string>> {
+  const result: Record<string, string> = {};
+  for (const [name, variable] of await resolve(folder, secrets)) {
+    result[name] = variable.value;
+  }
+  return result;
+}
+
+/** {@link resolveForwardedEnv} without the values, for previews. */
+export async function describeForwardedEnv(
+  folder: string,
+  secrets?: EnvSecretStore
+): Promise<ForwardedVariable[]> {
+  return Array.from((await resolve(folder, secrets)).values())
+    .map(({ name, source, file }) => ({ name, source, file }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// ---------------------------------------------------------------------------
+// Commands
+// ---------------------------------------------------------------------------
+
+/** Variables the API key command offers, besides any name. */
+const PROVIDER_KEYS = [
+  "ANTHROPIC_API_KEY",
+  "OPENAI_API_KEY",
+  "GEMINI_API_KEY",
+  "OPENROUTER_API_KEY",
+  "GROQ_API_KEY",
+  "MISTRAL_API_KEY",
+];
+
+/** Prompt for a variable name and value and store it. */
+export async function setSecretEnv(secrets: EnvSecretStore): Promise<void> {
+  const stored = secrets.names();
+  const other = "$(edit) Other Variable...";
+  const picked = await vscode.window.showQuickPick(
+    [
+      ...Array.from(new Set([...PROVIDER_KEYS, ...stored])).map((name) => ({
+        label: name,
+        description: stored.includes(name) ? "set" : undefined,
+      })),
+      { label: other },
+    ],
+    { placeHolder: "Select the variable to store" }
+  );
+  if (!picked) {
+    return;
+  }
+
+  const name =
+    picked.label === other
+      ? await vscode.window.showInputBox({
+          prompt: "Environment variable name",
+          validateInput: (value) =>
+            /^[A-Za-z_][A-Za-z0-9_]*$/.test(value) ? undefined : "Not a valid variable name",
+        })
+      : picked.label;
+  if (!name) {
+    return;
+  }
+  const value = await vscode.window.showInputBox({
+    prompt: `Value of ${name}, kept in VS Code's secret storage`,
+    password: true,
+    ignoreFocusOut: true,
+  });
+  if (value === undefined) {
+    return;
+  }
+  await secrets.set(name, value);
+  vscode.window.showInformationMessage(
+    `${name} is stored and will be forwarded the next time OpenCode starts.`
+  );
+}
+
+/** Pick a stored variable and delete it. */
+export async function clearSecretEnv(secrets: EnvSecretStore): Promise<void> {
+  const stored = secrets.names();
+  if (stored.length === 0) {
+    vscode.window.showInformationMessage("No environment variables are stored.");
+    return;
+  }
+  const name = await vscode.window.showQuickPick(stored, {
+    placeHolder: "Select the variable to remove from secret storage",
+  });
+  if (name) {
+    await secrets.delete(name);
+  }
+}
+
+const SOURCE_LABELS: Record<EnvSource, string> = {
+  envFile: ".env file",
+  environment: "host environment",
+  secret: "secret storage",
+};
+
+/** List the names (never the values) of the variables a folder forwards. */
+export async function previewForwardedEnv(
+  folder: string,
+  secrets?: EnvSecretStore
+): Promise<void> {
+  const variables = await describeForwardedEnv(folder, secrets);
+  if (variables.length === 0) {
+    vscode.window.showInformationMessage(
+      "No environment variables would be forwarded. Check the forwardEnvVars setting."
+    );
+    return;
+  }
+  await vscode.window.showQuickPick(
+    variables.map((v) => ({
+      label: v.name,
+      description: SOURCE_LABELS[v.source],
+      detail: v.file,
+    })),
+    { placeHolder: `${variables.length} variables are forwarded to the dev container` }
+  );
+}
@@ -0,0 +1,79 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import * as net from "net";
+import { __resetMocks } from "./__mocks__/vscode";
+
+vi.mock("child_process", async () => {
+  const actual = await vi.importActual("child_process");
+  return {
+    ...actual,
+    spawn: vi.fn(),
+  };
+});
+
+import * as childProcess from "child_process";
+import { ExecPortForward } from "./execPortForward";
+import { resetContainerRuntime } from "./containerRuntime";
+
+const { spawn: realSpawn } = await vi.importActual<typeof childProcess>("child_process");
+const mockSpawn = childProcess.spawn as unknown as ReturnType<typeof vi.fn>;
+
+let echo: net.Server;
+let echoPort: number;
+let forward: ExecPortForward | undefined;
+
+beforeEach(async () => {
+  __resetMocks();
+  resetContainerRuntime();
+  // Run the container side with the local node instead of `docker exec`.
+  mockSpawn.mockReset().mockImplementation((_command: string, args: string[], options: object) =>
+    realSpawn(process.execPath, args.slice(args.indexOf("node") + 1), options)
+  );
+  echo = net.createServer((socket) => socket.on("data", (data) => socket.write(`echo:${data}`)));
+  await new Promise<void>((resolve) => echo.listen(0, "127.0.0.1", resolve));
+  echoPort = (echo.address() as net.AddressInfo).port;
+});
+
+afterEach(() => {
+  forward?.dispose();
+  forward = undefined;
+  echo.close();
+});
+
+function request(port: number, data: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const socket = net.connect(port, "127.0.0.1", () => socket.write(data));
+    socket.on("data", (chunk) => {
+      socket.end();
+      resolve(chunk.toString());
+    });
+    socket.on("error", reject);
+  });
+}
+
+describe("ExecPortForward", () => {
+  it("pipes each connection through its own exec", async () => {
+    forward = await ExecPortForward.start("abc123", echoPort, { user: "vscode" });
+
+    expect(forward.port).not.toBe(echoPort);
+    expect(await request(forward.port, "one")).toBe("echo:one");
+    expect(await request(forward.port, "two")).toBe("echo:two");
+
+    expect(mockSpawn).toHaveBeenCalledTimes(2);
+    const args = mockSpawn.mock.calls[0][1] as string[];
+    expect(args.slice(0, 5)).toEqual(["exec", "-i", "-u", "vscode", "abc123"]);
+    expect(args.at(-1)).toBe(String(echoPort));
+  });
+
+  it("closes the connection when the container port refuses it", async () => {
+    echo.close();
+    forward = await ExecPortForward.start("abc123", echoPort);
+
+    const closed = await new Promise<boolean>((resolve) => {
+      const socket = net.connect(forward!.port, "127.0.0.1");
+      socket.on("close", () => resolve(true));
+      socket.on("error", () => undefined);
+    });
+
+    expect(closed).toBe(true);
+  });
+});
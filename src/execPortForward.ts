@@ -0,0 +1,86 @@
+import * as vscode from "vscode";
+import * as net from "net";
+import { ChildProcess, spawn } from "child_process";
+import { ExecOptions, getContainerRuntime } from "./containerRuntime";
+
+/**
+ * Connects stdin/stdout to a TCP port in the container. Runs under
+ * `node -e` with the port as argument.
+ */
+const PIPE_SCRIPT = `const socket = require("net").connect(Number(process.argv[1]), "127.0.0.1");
+socket.on("error", () => process.exit(1));
+socket.on("close", () => process.exit(0));
+process.stdin.pipe(socket);
+socket.pipe(process.stdout);
+`;
+
+/**
+ * Makes a port that only listens inside the container reachable from the
+ * host, like `kubectl port-forward`: every connection to {@link port} on
+ * the host's loopback interface is piped through its own `docker exec -i`
+ * to the container port. Works without published ports and with remote
+ * Docker hosts; the container needs `node`.
+ */
+export class ExecPortForward implements vscode.Disposable {
+  private readonly server: net.Server;
+  private readonly pipes = new Set<ChildProcess>();
+
+  private constructor(
+    private readonly containerId: string,
+    private readonly containerPort: number,
+    private readonly options: ExecOptions
+  ) {
+    this.server = net.createServer((socket) => this.forward(socket));
+  }
+
+  /** Start listening on a free host port. */
+  static async start(
+    containerId: string,
+    containerPort: number,
+    options: ExecOptions = {}
+  ): Promise<ExecPortForward> {
+    const forward = new ExecPortForward(containerId, containerPort, options);
+    await new Promise<void>((resolve, reject) => {
+      forward.server.once("error", reject);
+      forward.server.listen(0, "127.0.0.1", () => resolve());
+    });
+    return forward;
+  }
+
+  /** The host port. */
+  get port(): number {
+    return (this.server.address() as net.AddressInfo).port;
+  }
+
+  private forward(socket: net.Socket): void {
+    const runtime = getContainerRuntime();
+    const pipe = spawn(
+      runtime.cliPath,
+      runtime.execArgs(
+        this.containerId,
+        ["node", "-e", PIPE_SCRIPT, String(this.containerPort)],
+        { user: this.options.user, interactive: true }
+      ),
+      { env: { ...process.env, ...runtime.hostEnv() }, stdio: ["pipe", "pipe", "ignore"] }
+    );
+    this.pipes.add(pipe);
+
+    socket.pipe(pipe.stdin!);
+    pipe.stdout!.pipe(socket);
+    socket.on("error", () => pipe.kill());
+    pipe.stdin!.on("error", () => socket.destroy());
+    pipe.on("error", () => socket.destroy());
+    pipe.on("close", () => {
+      this.pipes.delete(pipe);
+      socket.destroy();
+    });
+  }
+
+  dispose(): void {
+    this.server.close();
+    for (const pipe of this.pipes) {
+      pipe.kill();
+    }
+    this.pipes.clear();
+  }
+}
@@ -1,21 +1,97 @@
 import * as vscode from "vscode";
-import { DevcontainerManager } from "./devcontainerManager";
-import { OpencodeRunner } from "./opencodeRunner";
-import { StatusBarManager } from "./statusBar";
-import { AgentRegistry } from "./chat/agentRegistry";
-import { OpenCodeBridge } from "./chat/opencodeBridge";
+import { FolderContext, FolderRegistry } from "./folderRegistry";
+import { RebuildMode } from "./devcontainerManager";
+import { AgentStatusBar, StatusBarManager } from "./statusBar";
 import { SubagentTracker } from "./chat/subagentTracker";
 import { SubagentTreeProvider } from "./chat/subagentTreeProvider";
 import { registerChatParticipant } from "./chat/chatParticipant";
+import { switchAgent } from "./chat/agentRegistry";
+import {
+  detectContainerRuntime,
+  getContainerRuntime,
+  resetContainerRuntime,
+} from "./containerRuntime";
+import { disposeDevcontainerLog, getDevcontainerLog } from "./devcontainerLog";
+import { showCommandLog } from "./commandAudit";
+import { collectStaleWrappers } from "./shellWrapper";
+import {
+  EnvSecretStore,
+  clearSecretEnv,
+  previewForwardedEnv,
+  setSecretEnv,
+} from "./envForwarding";
 
-let devcontainerManager: DevcontainerManager;
-let opencodeRunner: OpencodeRunner;
+let folders: FolderRegistry;
 let statusBarManager: StatusBarManager;
+let agentStatusBar: AgentStatusBar;
 
 export async function activate(context: vscode.ExtensionContext): Promise<void> {
-  devcontainerManager = new DevcontainerManager();
-  opencodeRunner = new OpencodeRunner(devcontainerManager);
-  statusBarManager = new StatusBarManager(devcontainerManager);
+  // Resolve Docker vs. Podman before anything talks to the runtime.
+  await detectContainerRuntime();
+
+  // Wrappers left behind by a crashed window; failure just leaves them.
+  try {
+    collectStaleWrappers();
+  } catch {
+    // e.g. the private temp directory belongs to another user
+  }
+  context.subscriptions.push(
+    vscode.workspace.onDidChangeConfiguration(async (e) => {
+      if (
+        e.affectsConfiguration("opencode-devcontainer.containerRuntime") ||
+        e.affectsConfiguration("opencode-devcontainer.dockerPath") ||
+        e.affectsConfiguration("opencode-devcontainer.dockerContext") ||
+        e.affectsConfiguration("opencode-devcontainer.dockerHost") ||
+        e.affectsConfiguration("opencode-devcontainer.podmanPath")
+      ) {
+        resetContainerRuntime();
+        await detectContainerRuntime();
+        // Re-detect the containers; this also restarts the event streams.
+        for (const ctx of folders?.all() ?? []) {
+          await ctx.devcontainerManager.refreshStatus();
+        }
+      }
+      if (
+        e.affectsConfiguration("opencode-devcontainer.forwardSshAgent") ||
+        e.affectsConfiguration("opencode-devcontainer.forwardGitCredentials")
+      ) {
+        for (const ctx of folders?.all() ?? []) {
+          ctx.devcontainerManager.resetRemoteExecOptions();
+        }
+      }
+    })
+  );
+
+  // One devcontainer manager, runner and bridge per workspace folder; the
+  // commands and status bar act on the folder in focus.
+  const envSecrets = new EnvSecretStore(context.secrets, context.globalState);
+  folders = new FolderRegistry(
+    context.workspaceState,
+    context.storageUri?.fsPath ?? context.globalStorageUri.fsPath,
+    envSecrets
+  );
+  await folders.refresh();
+  statusBarManager = new StatusBarManager(undefined);
+  agentStatusBar = new AgentStatusBar(undefined);
+  const showActiveFolder = () => {
+    const active = folders.active;
+    statusBarManager.setManager(
+      active?.devcontainerManager,
+      folders.isMultiRoot ? active?.name : undefined
+    );
+    agentStatusBar.setRegistry(active?.agentRegistry);
+  };
+  showActiveFolder();
+  context.subscriptions.push(
+    folders.onDidChangeActive(showActiveFolder),
+    folders.onDidChangeFolders(async () => {
+      showActiveFolder();
+      for (const ctx of folders.all()) {
+        await ctx.devcontainerManager.refreshStatus();
+        ctx.devcontainerManager.watchContainerEvents();
+      }
+    })
+  );
 
   // Register commands
   context.subscriptions.push(
@@ -26,10 +102,12 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
           {
             location: vscode.ProgressLocation.Notification,
             title: "Starting dev container...",
-            cancellable: false,
+            cancellable: true,
           },
-          async () => {
-            await devcontainerManager.startDevcontainer();
+          async (progress, token) => {
+            await withActiveFolder((ctx) =>
+              ctx.devcontainerManager.startDevcontainer(progress, token)
+            );
           }
         );
       }
@@ -38,35 +116,134 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
     vscode.commands.registerCommand(
       "opencode-devcontainer.stopDevcontainer",
       async () => {
-        await devcontainerManager.stopDevcontainer();
+        await withActiveFolder((ctx) => ctx.devcontainerManager.stopDevcontainer());
+      }
+    ),
+
+    vscode.commands.registerCommand(
+      "opencode-devcontainer.rebuildDevcontainer",
+      async () => {
+        await rebuildDevcontainer("rebuild");
+      }
+    ),
+
+    vscode.commands.registerCommand(
+      "opencode-devcontainer.rebuildDevcontainerNoCache",
+      async () => {
+        await rebuildDevcontainer("rebuild-no-cache");
+      }
+    ),
+
+    vscode.commands.registerCommand(
+      "opencode-devcontainer.recreateDevcontainer",
+      async () => {
+        await rebuildDevcontainer("recreate");
+      }
+    ),
+
+    vscode.commands.registerCommand(
+      "opencode-devcontainer.showDevcontainerLog",
+      () => {
+        getDevcontainerLog().show();
+      }
+    ),
+
+    vscode.commands.registerCommand(
+      "opencode-devcontainer.showCommandLog",
+      async () => {
+        await withActiveFolder(async ({ devcontainerManager }) => {
+          if (devcontainerManager.auditLog) {
+            await showCommandLog(devcontainerManager.auditLog);
+          }
+        });
+      }
+    ),
+
+    vscode.commands.registerCommand(
+      "opencode-devcontainer.setProviderKey",
+      async () => {
+        await setSecretEnv(envSecrets);
+      }
+    ),
+
+    vscode.commands.registerCommand(
+      "opencode-devcontainer.clearProviderKey",
+      async () => {
+        await clearSecretEnv(envSecrets);
+      }
+    ),
+
+    vscode.commands.registerCommand(
+      "opencode-devcontainer.previewForwardedEnv",
+      async () => {
+        await withActiveFolder((ctx) => previewForwardedEnv(ctx.folder, envSecrets));
+      }
+    ),
+
+    vscode.commands.registerCommand(
+      "opencode-devcontainer.selectDevcontainerConfig",
+      async () => {
+        await withActiveFolder(async ({ devcontainerManager }) => {
+          const configFile = await devcontainerManager.selectDevcontainerConfig(true);
+          if (configFile && devcontainerManager.state === "running") {
+            vscode.window.showInformationMessage(
+              "Dev container configuration changed. Restart the dev container to use it."
+            );
+          }
+        });
+      }
+    ),
+
+    vscode.commands.registerCommand(
+      "opencode-devcontainer.restartComposeProject",
+      async () => {
+        await withActiveFolder((ctx) => ctx.devcontainerManager.restartComposeProject());
+      }
+    ),
+
+    vscode.commands.registerCommand(
+      "opencode-devcontainer.downComposeProject",
+      async () => {
+        await withActiveFolder((ctx) => ctx.devcontainerManager.downComposeProject());
       }
     ),
 
     vscode.commands.registerCommand(
       "opencode-devcontainer.launchOpenCode",
       async () => {
-        await opencodeRunner.launch();
+        await withActiveFolder((ctx) => ctx.opencodeRunner.launch());
       }
     ),
 
     vscode.commands.registerCommand(
       "opencode-devcontainer.launchOpenCodeInContainer",
       async () => {
-        await opencodeRunner.launchInContainer();
+        await withActiveFolder((ctx) => ctx.opencodeRunner.launchInContainer());
+      }
+    ),
+
+    vscode.commands.registerCommand(
+      "opencode-devcontainer.switchAgent",
+      async (agentId?: string, folder?: string) => {
+        // Chat buttons name the folder the agent list was shown for.
+        const ctx = folder ? folders.get(folder) : undefined;
+        if (ctx) {
+          await switchAgent(ctx.agentRegistry, agentId);
+          return;
+        }
+        await withActiveFolder((active) => switchAgent(active.agentRegistry, agentId));
       }
     ),
 
     vscode.commands.registerCommand(
       "opencode-devcontainer.showStatus",
       async () => {
-        await showStatusQuickPick();
+        await withActiveFolder(showStatusQuickPick);
       }
     )
   );
 
   // --- Chat participant subsystem ---
-  const agentRegistry = new AgentRegistry();
-  const opencodeBridge = new OpenCodeBridge(devcontainerManager);
   const subagentTracker = new SubagentTracker();
   const subagentTreeProvider = new SubagentTreeProvider(subagentTracker);
 
@@ -75,48 +252,88 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
     { treeDataProvider: subagentTreeProvider }
   );
 
-  const chatParticipant = registerChatParticipant(
-    context,
-    devcontainerManager,
-    opencodeBridge,
-    agentRegistry,
-    subagentTracker
-  );
+  const chatParticipant = registerChatParticipant(context, folders, subagentTracker);
 
   // Register disposables
   context.subscriptions.push(
-    devcontainerManager,
-    opencodeRunner,
+    folders,
     statusBarManager,
-    agentRegistry,
-    opencodeBridge,
+    agentStatusBar,
     subagentTracker,
     subagentTreeProvider,
     treeView,
-    chatParticipant
+    chatParticipant,
+    { dispose: disposeDevcontainerLog }
   );
 
-  // Check for running devcontainer on activation
-  await devcontainerManager.refreshStatus();
-
-  // If a devcontainer config is detected, notify the user
-  const configDir = await devcontainerManager.detectDevcontainerConfig();
-  if (configDir && devcontainerManager.state !== "running") {
+  // Check for running devcontainers on activation and offer to start the
+  // ones that are not running yet.
+  for (const ctx of folders.all()) {
+    await ctx.devcontainerManager.refreshStatus();
+    ctx.devcontainerManager.watchContainerEvents();
+    if (ctx.devcontainerManager.state === "running") {
+      continue;
+    }
     const action = await vscode.window.showInformationMessage(
-      "Dev container configuration detected. Start the container for OpenCode?",
+      folders.isMultiRoot
+        ? `Dev container configuration detected in ${ctx.name}. Start the container for OpenCode?`
+        : "Dev container configuration detected. Start the container for OpenCode?",
       "Start",
       "Later"
     );
     if (action === "Start") {
+      folders.setActive(ctx.folder);
       await vscode.commands.executeCommand("opencode-devcontainer.startDevcontainer");
     }
   }
 }
 
-async function showStatusQuickPick(): Promise<void> {
+/**
+ * Run `fn` against the folder in focus, or report that no workspace
+ * folder has a devcontainer.
+ */
+async function withActiveFolder(fn: (ctx: FolderContext) => Thenable<unknown>): Promise<void> {
+  const ctx = folders.active;
+  if (!ctx) {
+    vscode.window.showErrorMessage(
+      "No devcontainer.json found in the workspace. Create one in .devcontainer/ first."
+    );
+    return;
+  }
+  await fn(ctx);
+}
+
+const REBUILD_TITLES: Record<RebuildMode, string> = {
+  rebuild: "Rebuilding dev container...",
+  "rebuild-no-cache": "Rebuilding dev container without cache...",
+  recreate: "Recreating dev container...",
+};
+
+async function rebuildDevcontainer(mode: RebuildMode): Promise<void> {
+  await withActiveFolder((ctx) =>
+    vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: REBUILD_TITLES[mode],
+        cancellable: true,
+      },
+      (progress, token) => ctx.devcontainerManager.rebuildDevcontainer(mode, progress, token)
+    )
+  );
+}
+
+async function showStatusQuickPick(ctx: FolderContext): Promise<void> {
+  const devcontainerManager = ctx.devcontainerManager;
   const state = devcontainerManager.state;
   const items: vscode.QuickPickItem[] = [];
 
+  // List every service of a Compose-based devcontainer with its state.
+  const serviceItems = devcontainerManager.services.map((svc) => ({
+    label: `${svc.state === "running" ? "$(vm-running)" : "$(vm-outline)"} ${svc.service}`,
+    description: svc.primary ? `${svc.state} (primary)` : svc.state,
+    detail: `Container: ${svc.containerId.substring(0, 12)}`,
+  }));
+
   if (state === "running") {
     items.push(
       {
@@ -130,12 +347,52 @@ async function showStatusQuickPick(): Promise<void> {
       },
       {
         label: "$(debug-stop) Stop Dev Container",
-        description: "Stop the running dev container",
+        description: devcontainerManager.composeProject
+          ? "Stop every service of the Compose project"
+          : "Stop the running dev container",
+      },
+      {
+        label: "$(tools) Rebuild Dev Container",
+        description: "Rebuild the image and recreate the container",
+      }
+    );
+    if (devcontainerManager.composeProject) {
+      items.push(
+        {
+          label: "$(debug-restart) Restart Compose Project",
+          description: `Restart every service of ${devcontainerManager.composeProject}`,
+        },
+        {
+          label: "$(trash) Remove Compose Project",
+          description: "Stop and remove every service container (compose down)",
+        }
+      );
+    }
+    items.push(
+      {
+        label: "$(history) Show Command Log",
+        description: "Commands run in the dev container",
       },
       {
         label: "$(refresh) Refresh Status",
         description: "Check dev container status",
-      }
+      },
+      ...serviceItems
+    );
+  } else if (state === "starting" || state === "initializing") {
+    items.push(
+      {
+        label: "$(output) Show Dev Container Log",
+        description:
+          state === "initializing"
+            ? "Follow the lifecycle commands"
+            : "Follow the dev container startup",
+      },
+      {
+        label: "$(refresh) Refresh Status",
+        description: "Check dev container status",
+      },
+      ...serviceItems
     );
   } else {
     items.push(
@@ -150,18 +407,41 @@ async function showStatusQuickPick(): Promise<void> {
     );
   }
 
+  if (folders.all().length > 1) {
+    items.push({
+      label: "$(folder) Switch Folder",
+      description: `Currently ${ctx.name}`,
+    });
+  }
+
+  const host = getContainerRuntime().hostLabel();
+  const placeHolder = folders.isMultiRoot
+    ? `Dev Container (${ctx.name}): ${state}`
+    : `Dev Container: ${state}`;
   const selected = await vscode.window.showQuickPick(items, {
-    placeHolder: `Dev Container: ${state}`,
+    placeHolder: host ? `${placeHolder} on ${host}` : placeHolder,
   });
 
-  if (!selected) {
+  if (!selected || (serviceItems as vscode.QuickPickItem[]).includes(selected)) {
     return;
   }
 
   if (selected.label.includes("Launch OpenCode Inside")) {
     await vscode.commands.executeCommand("opencode-devcontainer.launchOpenCodeInContainer");
+  } else if (selected.label.includes("Rebuild Dev Container")) {
+    await vscode.commands.executeCommand("opencode-devcontainer.rebuildDevcontainer");
+  } else if (selected.label.includes("Show Dev Container Log")) {
+    await vscode.commands.executeCommand("opencode-devcontainer.showDevcontainerLog");
+  } else if (selected.label.includes("Show Command Log")) {
+    await vscode.commands.executeCommand("opencode-devcontainer.showCommandLog");
+  } else if (selected.label.includes("Switch Folder")) {
+    await pickActiveFolder();
   } else if (selected.label.includes("Launch OpenCode")) {
     await vscode.commands.executeCommand("opencode-devcontainer.launchOpenCode");
+  } else if (selected.label.includes("Restart Compose Project")) {
+    await vscode.commands.executeCommand("opencode-devcontainer.restartComposeProject");
+  } else if (selected.label.includes("Remove Compose Project")) {
+    await vscode.commands.executeCommand("opencode-devcontainer.downComposeProject");
   } else if (selected.label.includes("Stop")) {
     await vscode.commands.executeCommand("opencode-devcontainer.stopDevcontainer");
   } else if (selected.label.includes("Start")) {
@@ -171,6 +451,20 @@ async function showStatusQuickPick(): Promise<void> {
   }
 }
 
+async function pickActiveFolder(): Promise<void> {
+  const picked = await vscode.window.showQuickPick(
+    folders.all().map((ctx) => ({
+      label: ctx.name,
+      description: ctx.devcontainerManager.state,
+      detail: ctx.folder,
+    })),
+    { placeHolder: "Select the workspace folder OpenCode should use" }
+  );
+  if (picked) {
+    folders.setActive(picked.detail);
+  }
+}
+
 export function deactivate(): void {
   // Disposables are cleaned up via context.subscriptions
 }
@@ -0,0 +1,180 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import {
+  __resetMocks,
+  __setActiveEditor,
+  __setWorkspaceFolders,
+  Uri,
+} from "./__mocks__/vscode";
+import * as vscode from "./__mocks__/vscode";
+
+vi.mock("fs", async () => {
+  const actual = await vi.importActual("fs");
+  return {
+    ...actual,
+    existsSync: vi.fn(() => false),
+    readFileSync: vi.fn(() => ""),
+    readdirSync: vi.fn(() => []),
+  };
+});
+
+import * as fs from "fs";
+import { FolderRegistry } from "./folderRegistry";
+import { DevcontainerManager } from "./devcontainerManager";
+
+const mockExistsSync = fs.existsSync as ReturnType<typeof vi.fn>;
+
+const API = "/home/user/api";
+const WEB = "/home/user/web";
+const DOCS = "/home/user/docs";
+
+/** Give exactly `folders` a .devcontainer/devcontainer.json. */
+function withDevcontainers(...folders: string[]) {
+  mockExistsSync.mockImplementation((p: unknown) =>
+    folders.some((f) => String(p) === `${f}/.devcontainer/devcontainer.json`)
+  );
+}
+
+function setFolders(...folders: string[]) {
+  __setWorkspaceFolders(folders.map((f) => ({ uri: Uri.file(f) })));
+}
+
+/** The listener the registry registered for active editor changes. */
+function activeEditorListener(): (editor: unknown) => void {
+  return vscode.window.onDidChangeActiveTextEditor.mock.calls[0][0] as (editor: unknown) => void;
+}
+
+let registry: FolderRegistry;
+
+beforeEach(async () => {
+  __resetMocks();
+  mockExistsSync.mockReset();
+  withDevcontainers(API, WEB);
+  setFolders(API, DOCS, WEB);
+  registry = new FolderRegistry();
+  await registry.refresh();
+});
+
+// ---------------------------------------------------------------------------
+// refresh
+// ---------------------------------------------------------------------------
+
+describe("refresh", () => {
+  it("creates a context for every folder with a devcontainer", () => {
+    expect(registry.all().map((c) => c.folder)).toEqual([API, WEB]);
+    expect(registry.get(DOCS)).toBeUndefined();
+
+    const api = registry.get(API)!;
+    expect(api.name).toBe("api");
+    expect(api.devcontainerManager.workspaceFolder).toBe(API);
+  });
+
+  it("keeps existing contexts and disposes removed folders", async () => {
+    const api = registry.get(API)!;
+    const web = registry.get(WEB)!;
+    const disposeSpy = vi.spyOn(web.devcontainerManager, "dispose");
+    const listener = vi.fn();
+    registry.onDidChangeFolders(listener);
+
+    setFolders(API);
+    await registry.refresh();
+
+    expect(registry.get(API)).toBe(api);
+    expect(registry.get(WEB)).toBeUndefined();
+    expect(disposeSpy).toHaveBeenCalled();
+    expect(listener).toHaveBeenCalledOnce();
+  });
+
+  it("creates one context per folder for overlapping refreshes", async () => {
+    const detect = vi.spyOn(DevcontainerManager.prototype, "detectDevcontainerConfigs");
+    withDevcontainers(API, WEB, DOCS);
+    const listener = vi.fn();
+    registry.onDidChangeFolders(listener);
+
+    await Promise.all([registry.refresh(), registry.refresh()]);
+
+    expect(detect).toHaveBeenCalledOnce();
+    expect(registry.all().map((c) => c.folder)).toEqual([API, WEB, DOCS]);
+    expect(listener).toHaveBeenCalledOnce();
+    detect.mockRestore();
+  });
+
+  it("focuses the folder of the active editor", async () => {
+    __setActiveEditor(`${WEB}/src/index.ts`);
+    await registry.refresh();
+
+    expect(registry.active?.folder).toBe(WEB);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// active folder
+// ---------------------------------------------------------------------------
+
+describe("active", () => {
+  it("defaults to the first folder with a devcontainer", () => {
+    expect(registry.active?.folder).toBe(API);
+  });
+
+  it("follows the active editor", () => {
+    const listener = vi.fn();
+    registry.onDidChangeActive(listener);
+
+    activeEditorListener()({ document: { uri: Uri.file(`${WEB}/main.go`) } });
+
+    expect(registry.active?.folder).toBe(WEB);
+    expect(listener).toHaveBeenCalledWith(registry.get(WEB));
+  });
+
+  it("keeps the focus for editors in folders without a devcontainer", () => {
+    registry.setActive(WEB);
+    activeEditorListener()({ document: { uri: Uri.file(`${DOCS}/README.md`) } });
+
+    expect(registry.active?.folder).toBe(WEB);
+  });
+
+  it("is undefined when no folder has a devcontainer", async () => {
+    withDevcontainers();
+    setFolders(DOCS);
+    await registry.refresh();
+
+    expect(registry.active).toBeUndefined();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// resolve
+// ---------------------------------------------------------------------------
+
+describe("resolve", () => {
+  it("returns the folder containing the resource", () => {
+    expect(registry.resolve(Uri.file(`${WEB}/app.ts`) as any)?.folder).toBe(WEB);
+  });
+
+  it("falls back to the active folder", () => {
+    registry.setActive(WEB);
+    expect(registry.resolve(Uri.file(`${DOCS}/a.md`) as any)?.folder).toBe(WEB);
+    expect(registry.resolve()?.folder).toBe(WEB);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// isMultiRoot / dispose
+// ---------------------------------------------------------------------------
+
+describe("isMultiRoot", () => {
+  it("reflects the number of workspace folders", () => {
+    expect(registry.isMultiRoot).toBe(true);
+    setFolders(API);
+    expect(registry.isMultiRoot).toBe(false);
+  });
+});
+
+describe("dispose", () => {
+  it("disposes every context", () => {
+    const spy = vi.spyOn(registry.get(API)!.bridge, "dispose");
+    registry.dispose();
+
+    expect(spy).toHaveBeenCalled();
+    expect(registry.all()).toEqual([]);
+  });
+});
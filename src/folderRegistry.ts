@@ -0,0 +1,193 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { DevcontainerManager } from "./devcontainerManager";
+import { OpencodeRunner } from "./opencodeRunner";
+import { getWorkspaceFolderForPath, getWorkspaceFolders } from "./config";
+import { AgentRegistry } from "./chat/agentRegistry";
+import { OpenCodeBridge } from "./chat/opencodeBridge";
+import { CommandAuditLog } from "./commandAudit";
+import { EnvSecretStore } from "./envForwarding";
+
+/**
+ * Everything the extension keeps for a single workspace folder that has
+ * a devcontainer.
+ */
+export interface FolderContext {
+  /** Host path of the workspace folder. */
+  folder: string;
+  /** Display name (the folder's basename). */
+  name: string;
+  devcontainerManager: DevcontainerManager;
+  opencodeRunner: OpencodeRunner;
+  bridge: OpenCodeBridge;
+  agentRegistry: AgentRegistry;
+}
+
+/**
+ * Keeps one {@link FolderContext} per workspace folder that has a
+ * devcontainer configuration, and tracks which folder is in focus (the
+ * folder of the active editor, falling back to the first folder).
+ *
+ * In a single-folder workspace this holds at most one context.
+ */
+export class FolderRegistry implements vscode.Disposable {
+  private contexts = new Map<string, FolderContext>();
+  private activeFolder: string | undefined;
+  private disposables: vscode.Disposable[] = [];
+  private refreshing: Promise<void> = Promise.resolve();
+
+  private readonly _onDidChangeActive = new vscode.EventEmitter<FolderContext | undefined>();
+  public readonly onDidChangeActive = this._onDidChangeActive.event;
+
+  private readonly _onDidChangeFolders = new vscode.EventEmitter<void>();
+  public readonly onDidChangeFolders = this._onDidChangeFolders.event;
+
+  /**
+   * @param storageDir Directory for per-folder files such as the command
+   *   audit log. Without it nothing is audited.
+   * @param envSecrets Stored variables forwarded into every folder's container.
+   */
+  constructor(
+    private readonly workspaceState?: vscode.Memento,
+    private readonly storageDir?: string,
+    private readonly envSecrets?: EnvSecretStore
+  ) {
+    this.disposables.push(
+      vscode.workspace.onDidChangeWorkspaceFolders(() => this.refresh()),
+      vscode.window.onDidChangeActiveTextEditor((editor) => {
+        if (editor) {
+          this.focusPath(editor.document.uri.fsPath);
+        }
+      })
+    );
+  }
+
+  /**
+   * Sync the contexts with the current workspace folders: create one for
+   * every new folder that has a devcontainer and dispose the ones whose
+   * folder was removed. Refreshes run one after another, so overlapping
+   * ones never create two contexts for a folder.
+   */
+  refresh(): Promise<void> {
+    this.refreshing = this.refreshing.catch(() => undefined).then(() => this.syncFolders());
+    return this.refreshing;
+  }
+
+  private async syncFolders(): Promise<void> {
+    const folders = getWorkspaceFolders();
+    let changed = false;
+
+    for (const [folder, ctx] of this.contexts) {
+      if (!folders.includes(folder)) {
+        this.disposeContext(ctx);
+        this.contexts.delete(folder);
+        changed = true;
+      }
+    }
+
+    for (const folder of folders) {
+      if (this.contexts.has(folder)) {
+        continue;
+      }
+      const manager = new DevcontainerManager(
+        folder,
+        this.workspaceState,
+        this.storageDir ? CommandAuditLog.forFolder(this.storageDir, folder) : undefined
+      );
+      if ((await manager.detectDevcontainerConfigs()).length === 0) {
+        manager.dispose();
+        continue;
+      }
+      this.contexts.set(folder, {
+        folder,
+        name: path.basename(folder),
+        devcontainerManager: manager,
+        opencodeRunner: new OpencodeRunner(manager, this.envSecrets),
+        bridge: new OpenCodeBridge(manager, this.envSecrets),
+        agentRegistry: new AgentRegistry(folder, this.workspaceState),
+      });
+      changed = true;
+    }
+
+    if (changed) {
+      this._onDidChangeFolders.fire();
+    }
+
+    const editor = vscode.window.activeTextEditor;
+    if (editor) {
+      this.focusPath(editor.document.uri.fsPath);
+    }
+    if (!this.activeFolder || !this.contexts.has(this.activeFolder)) {
+      this.setActive(this.all()[0]?.folder);
+    }
+  }
+
+  /** Whether the workspace has more than one folder. */
+  get isMultiRoot(): boolean {
+    return getWorkspaceFolders().length > 1;
+  }
+
+  /** The context of the folder in focus, if any folder has a devcontainer. */
+  get active(): FolderContext | undefined {
+    return (this.activeFolder && this.contexts.get(this.activeFolder)) || this.all()[0];
+  }
+
+  get(folder: string): FolderContext | undefined {
+    return this.contexts.get(folder);
+  }
+
+  all(): FolderContext[] {
+    return Array.from(this.contexts.values());
+  }
+
+  /**
+   * Find the context for a resource: the folder containing `uri` when it
+   * has a devcontainer, otherwise the folder in focus.
+   */
+  resolve(uri?: vscode.Uri): FolderContext | undefined {
+    if (uri) {
+      const folder = getWorkspaceFolderForPath(uri.fsPath);
+      const ctx = folder ? this.contexts.get(folder) : undefined;
+      if (ctx) {
+        return ctx;
+      }
+    }
+    return this.active;
+  }
+
+  /** Put a folder in focus. */
+  setActive(folder: string | undefined): void {
+    if (folder === this.activeFolder) {
+      return;
+    }
+    this.activeFolder = folder;
+    this._onDidChangeActive.fire(this.active);
+  }
+
+  private focusPath(fsPath: string): void {
+    const folder = getWorkspaceFolderForPath(fsPath);
+    // Editors in folders without a devcontainer keep the previous focus.
+    if (folder && this.contexts.has(folder)) {
+      this.setActive(folder);
+    }
+  }
+
+  private disposeContext(ctx: FolderContext): void {
+    ctx.bridge.dispose();
+    ctx.opencodeRunner.dispose();
+    ctx.agentRegistry.dispose();
+    ctx.devcontainerManager.dispose();
+  }
+
+  dispose(): void {
+    for (const ctx of this.contexts.values()) {
+      this.disposeContext(ctx);
+    }
+    this.contexts.clear();
+    for (const d of this.disposables) {
+      d.dispose();
+    }
+    this._onDidChangeActive.dispose();
+    this._onDidChangeFolders.dispose();
+  }
+}
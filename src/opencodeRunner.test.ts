@@ -16,12 +16,15 @@ vi.mock("fs", async () => {
   return {
     ...actual,
     existsSync: vi.fn(() => false),
-    mkdirSync: vi.fn(),
     writeFileSync: vi.fn(),
     unlinkSync: vi.fn(),
   };
 });
 
+import * as fs from "fs";
+import { PathMapper } from "./pathMapper";
+import { ExecOptions } from "./containerRuntime";
+
 // Minimal mock DevcontainerManager
 function createMockDevcontainerManager(opts: {
   state: DevcontainerState;
@@ -29,11 +32,27 @@ function createMockDevcontainerManager(opts: {
   remoteWorkspaceFolder: string | undefined;
 }) {
   const stateEmitter = new EventEmitter<DevcontainerState>();
+  const execOptionsEmitter = new EventEmitter<ExecOptions>();
   return {
+    workspaceFolder: "/home/user/project",
     state: opts.state,
     containerId: opts.containerId,
     remoteWorkspaceFolder: opts.remoteWorkspaceFolder,
     onStateChanged: stateEmitter.event,
+    onRemoteExecOptionsChanged: execOptionsEmitter.event,
+    _fireExecOptions(options: ExecOptions) {
+      execOptionsEmitter.fire(options);
+    },
+    getRemoteExecOptions: vi.fn().mockResolvedValue({}),
+    getContainerShell: vi.fn().mockResolvedValue("sh"),
+    getPathMapper: vi.fn().mockResolvedValue(
+      new PathMapper(
+        opts.remoteWorkspaceFolder
+          ? [{ hostPath: "/home/user/project", containerPath: opts.remoteWorkspaceFolder }]
+          : []
+      )
+    ),
+    whenReady: vi.fn().mockResolvedValue(true),
     startDevcontainer: vi.fn().mockResolvedValue({
       containerId: opts.containerId,
       workspaceFolder: "/home/user/project",
@@ -99,6 +118,17 @@ describe("launch", () => {
     const opts = vscode.window.createTerminal.mock.calls[0][0] as any;
     expect(opts.name).toBe("OpenCode (In Container)");
   });
+
+  it("does not launch in an untrusted workspace", async () => {
+    vscode.__setWorkspaceTrusted(false);
+
+    await runner.launch();
+
+    expect(vscode.window.createTerminal).not.toHaveBeenCalled();
+    expect(vscode.window.showWarningMessage).toHaveBeenCalledWith(
+      "Trust this workspace to run OpenCode."
+    );
+  });
 });
 
 // ---------------------------------------------------------------------------
@@ -162,6 +192,41 @@ describe("launchLocalWithRemoteExec", () => {
     expect(mockManager.startDevcontainer).toHaveBeenCalledOnce();
   });
 
+  it("waits for the lifecycle commands while initializing", async () => {
+    mockManager = createMockDevcontainerManager({
+      state: "initializing",
+      containerId: "abc123def456",
+      remoteWorkspaceFolder: "/workspaces/project",
+    });
+    runner = new OpencodeRunner(mockManager as any);
+    vscode.window.withProgress.mockImplementationOnce((_opts: unknown, task: any) =>
+      task({ report: vi.fn() }, new vscode.CancellationTokenSource().token)
+    );
+
+    await runner.launchLocalWithRemoteExec();
+
+    expect(mockManager.whenReady).toHaveBeenCalledOnce();
+    expect(vscode.window.showInformationMessage).not.toHaveBeenCalled();
+    expect(vscode.window.createTerminal).toHaveBeenCalled();
+  });
+
+  it("does not launch when the container never becomes ready", async () => {
+    mockManager = createMockDevcontainerManager({
+      state: "initializing",
+      containerId: "abc123def456",
+      remoteWorkspaceFolder: "/workspaces/project",
+    });
+    mockManager.whenReady.mockResolvedValue(false);
+    runner = new OpencodeRunner(mockManager as any);
+    vscode.window.withProgress.mockImplementationOnce((_opts: unknown, task: any) =>
+      task({ report: vi.fn() }, new vscode.CancellationTokenSource().token)
+    );
+
+    await runner.launchLocalWithRemoteExec();
+
+    expect(vscode.window.createTerminal).not.toHaveBeenCalled();
+  });
+
   it("shows error if containerId is not available", async () => {
     mockManager = createMockDevcontainerManager({
       state: "running",
@@ -197,6 +262,70 @@ describe("launchInContainer", () => {
     expect(cmd).toContain("abc123def456");
     expect(cmd).toContain("opencode");
   });
+
+  it("keeps forwarded values out of the command line", async () => {
+    vi.stubEnv("ANTHROPIC_API_KEY", "sk-secret");
+    try {
+      await runner.launchInContainer();
+    } finally {
+      vi.unstubAllEnvs();
+    }
+
+    const cmd = mockTerminal.sendText.mock.calls[0][0] as string;
+    expect(cmd).toContain("-e ANTHROPIC_API_KEY ");
+    expect(cmd).not.toContain("sk-secret");
+    const opts = vscode.window.createTerminal.mock.calls[0][0] as any;
+    expect(opts.env.ANTHROPIC_API_KEY).toBe("sk-secret");
+  });
+
+  it("forwards variables from secret storage", async () => {
+    const envSecrets = { getAll: vi.fn(async () => ({ GROQ_API_KEY: "gsk-stored" })) };
+    runner = new OpencodeRunner(mockManager as any, envSecrets as any);
+
+    await runner.launchInContainer();
+
+    const cmd = mockTerminal.sendText.mock.calls[0][0] as string;
+    expect(cmd).toContain("-e GROQ_API_KEY ");
+    expect(cmd).not.toContain("gsk-stored");
+    const opts = vscode.window.createTerminal.mock.calls[0][0] as any;
+    expect(opts.env.GROQ_API_KEY).toBe("gsk-stored");
+  });
+});
+
+describe("remote user and environment", () => {
+  beforeEach(() => {
+    mockManager.getRemoteExecOptions.mockResolvedValue({
+      user: "node",
+      env: { PATH: "/opt/bin:/usr/bin" },
+      unsetEnv: [],
+    });
+  });
+
+  it("launches OpenCode inside the container as the remote user", async () => {
+    await runner.launchInContainer();
+
+    const cmd = mockTerminal.sendText.mock.calls[0][0] as string;
+    expect(cmd).toContain("-u node");
+    expect(cmd).toContain("-e PATH=/opt/bin:/usr/bin");
+  });
+
+  it("writes the remote user into the shell wrapper", async () => {
+    await runner.launch();
+
+    const script = String(vi.mocked(fs.writeFileSync).mock.calls.at(-1)?.[1]);
+    expect(script).toContain("-u node ");
+  });
+
+  it("rewrites the shell wrapper when the exec options change", async () => {
+    await runner.launch();
+    const [wrapperPath] = vi.mocked(fs.writeFileSync).mock.calls.at(-1)!;
+
+    mockManager._fireExecOptions({ user: "node", env: { SSH_AUTH_SOCK: "/tmp/relay-2/ssh-agent.sock" } });
+
+    const [rewrittenPath, script] = vi.mocked(fs.writeFileSync).mock.calls.at(-1)!;
+    expect(rewrittenPath).toBe(wrapperPath);
+    expect(String(script)).toContain("/tmp/relay-2/ssh-agent.sock");
+  });
 });
 
 // ---------------------------------------------------------------------------
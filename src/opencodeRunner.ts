@@ -1,34 +1,71 @@
 import * as vscode from "vscode";
 import { DevcontainerManager } from "./devcontainerManager";
-import { getConfig, getWorkspaceFolder } from "./config";
-import { writeShellWrapper, removeShellWrapper } from "./shellWrapper";
+import { getConfig, requireWorkspaceTrust } from "./config";
+import { writeShellWrapper, removeShellWrapper, rewriteShellWrapper } from "./shellWrapper";
+import { newSessionId } from "./commandAudit";
+import { CommandApprovalBroker, getCommandPolicy, policyAsks } from "./commandPolicy";
+import { ExecOptions, getContainerRuntime, toCommandLine } from "./containerRuntime";
+import { EnvSecretStore, resolveForwardedEnv } from "./envForwarding";
 
 export class OpencodeRunner {
   private activeTerminal: vscode.Terminal | undefined;
   private shellWrapperPath: string | undefined;
   private terminalCloseListener: vscode.Disposable | undefined;
+  /** Prompts for commands the command policy asks about. */
+  private approvals: CommandApprovalBroker | undefined;
+  /** Rewrites the shell wrapper for new exec options. */
+  private rewriteWrapper: ((remote: ExecOptions) => void) | undefined;
+  private execOptionsListener: vscode.Disposable;
 
-  constructor(private devcontainerManager: DevcontainerManager) {}
+  constructor(
+    private devcontainerManager: DevcontainerManager,
+    private envSecrets?: EnvSecretStore
+  ) {
+    // A restarted credential relay listens on new sockets.
+    this.execOptionsListener = devcontainerManager.onRemoteExecOptionsChanged((remote) =>
+      this.rewriteWrapper?.(remote)
+    );
+  }
 
   /**
-   * Launch OpenCode in "local with remote exec" mode.
-   * OpenCode runs on the host, but SHELL is set to a wrapper that
-   * routes commands to the devcontainer.
+   * Make sure the dev container is ready: offer to start it when it is not
+   * running, and wait (cancellably) while its lifecycle commands run.
    */
-  async launchLocalWithRemoteExec(): Promise<void> {
-    if (this.devcontainerManager.state !== "running") {
+  private async ensureContainerReady(): Promise<boolean> {
+    const manager = this.devcontainerManager;
+    if (manager.state === "starting" || manager.state === "initializing") {
+      return vscode.window.withProgress(
+        {
+          location: vscode.ProgressLocation.Notification,
+          title: "Waiting for the dev container's lifecycle commands to finish...",
+          cancellable: true,
+        },
+        (_progress, token) => manager.whenReady(token)
+      );
+    }
+
+    if (manager.state !== "running") {
       const start = await vscode.window.showInformationMessage(
         "Dev container is not running. Start it now?",
         "Start",
         "Cancel"
       );
       if (start !== "Start") {
-        return;
-      }
-      const info = await this.devcontainerManager.startDevcontainer();
-      if (!info) {
-        return;
+        return false;
       }
+      return !!(await manager.startDevcontainer());
+    }
+    return true;
+  }
+
+  /**
+   * Launch OpenCode in "local with remote exec" mode.
+   * OpenCode runs on the host, but SHELL is set to a wrapper that
+   * routes commands to the devcontainer.
+   */
+  async launchLocalWithRemoteExec(): Promise<void> {
+    if (!(await this.ensureContainerReady())) {
+      return;
     }
 
     const containerId = this.devcontainerManager.containerId;
@@ -39,20 +76,62 @@ export class OpencodeRunner {
     }
 
     // Resolve environment variables to forward to the container
-    const envToForward = this.resolveForwardedEnvVars();
+    const envToForward = await resolveForwardedEnv(
+      this.devcontainerManager.workspaceFolder,
+      this.envSecrets
+    );
 
-    // Create the shell wrapper
-    this.shellWrapperPath = writeShellWrapper(containerId, remoteWorkspace, envToForward);
+    // Run commands where the host workspace is mounted
+    const workspaceFolder = this.devcontainerManager.workspaceFolder;
+    const pathMapper = await this.devcontainerManager.getPathMapper();
+    const containerWorkspace = pathMapper.toContainer(workspaceFolder) ?? remoteWorkspace;
+
+    const config = getConfig(workspaceFolder);
+    const policy = getCommandPolicy(config);
+    this.approvals?.dispose();
+    this.approvals = policyAsks(policy) ? new CommandApprovalBroker() : undefined;
+    if (this.shellWrapperPath) {
+      removeShellWrapper(this.shellWrapperPath);
+    }
 
-    const config = getConfig();
-    const workspaceFolder = getWorkspaceFolder();
+    // Create the shell wrapper
+    const remote = await this.devcontainerManager.getRemoteExecOptions();
+    const wrapperOptions = {
+      hostWorkspaceFolder: workspaceFolder,
+      shell: await this.devcontainerManager.getContainerShell(),
+      auditLog: this.devcontainerManager.auditLog?.file,
+      policy,
+      approvalDir: this.approvals?.dir,
+      routes: config.commandRouting,
+    };
+    const wrapperPath = writeShellWrapper(
+      containerId,
+      containerWorkspace,
+      Object.keys(envToForward),
+      remote,
+      wrapperOptions
+    );
+    this.shellWrapperPath = wrapperPath;
+    this.rewriteWrapper = (newRemote) =>
+      rewriteShellWrapper(
+        wrapperPath,
+        containerId,
+        containerWorkspace,
+        Object.keys(envToForward),
+        newRemote,
+        wrapperOptions
+      );
 
     // Build environment for the OpenCode process
     const env: Record<string, string> = {
+      ...getContainerRuntime().hostEnv(),
       SHELL: this.shellWrapperPath,
       OPENCODE_DEVCONTAINER: "1",
       OPENCODE_DEVCONTAINER_ID: containerId,
       OPENCODE_WORKSPACE_FOLDER: remoteWorkspace,
+      OPENCODE_DEVCONTAINER_SESSION: newSessionId("terminal"),
+      // Passed on by the wrapper by name, see createShellWrapper
+      ...envToForward,
       ...config.additionalEnvVars,
     };
 
@@ -83,19 +162,8 @@ export class OpencodeRunner {
    * The OpenCode binary must be available in the container.
    */
   async launchInContainer(): Promise<void> {
-    if (this.devcontainerManager.state !== "running") {
-      const start = await vscode.window.showInformationMessage(
-        "Dev container is not running. Start it now?",
-        "Start",
-        "Cancel"
-      );
-      if (start !== "Start") {
-        return;
-      }
-      const info = await this.devcontainerManager.startDevcontainer();
-      if (!info) {
-        return;
-      }
+    if (!(await this.ensureContainerReady())) {
+      return;
     }
 
     const containerId = this.devcontainerManager.containerId;
@@ -105,34 +173,37 @@ export class OpencodeRunner {
       return;
     }
 
-    const config = getConfig();
-
-    // Build env flags for forwarding API keys etc.
-    const envToForward = this.resolveForwardedEnvVars();
-    const envFlags = Object.entries(envToForward)
-      .map(([key, value]) => `-e ${key}="${value.replace(/"/g, '\\"')}"`)
-      .join(" ");
+    // Environment for forwarding API keys etc.
+    const envToForward = await resolveForwardedEnv(
+      this.devcontainerManager.workspaceFolder,
+      this.envSecrets
+    );
 
     // Dispose previous terminal if it exists
     this.disposeTerminal();
 
+    // Forwarded variables are passed by name from the terminal's
+    // environment, keeping their values out of the command line.
     this.activeTerminal = vscode.window.createTerminal({
       name: "OpenCode (In Container)",
+      env: { ...getContainerRuntime().hostEnv(), ...envToForward },
       iconPath: new vscode.ThemeIcon("remote"),
     });
 
-    // Run OpenCode inside the container via docker exec
-    const dockerCmd = [
-      config.dockerPath,
-      "exec",
-      "-it",
-      `-w "${remoteWorkspace}"`,
-      envFlags,
-      containerId,
-      "opencode",
-    ]
-      .filter(Boolean)
-      .join(" ");
+    // Run OpenCode inside the container via the container runtime's exec,
+    // as the devcontainer's user with its remoteEnv.
+    const remote = await this.devcontainerManager.getRemoteExecOptions();
+    const runtime = getContainerRuntime();
+    const dockerCmd = toCommandLine([
+      runtime.cliPath,
+      ...runtime.execArgs(containerId, ["opencode"], {
+        ...remote,
+        interactive: true,
+        tty: true,
+        workdir: remoteWorkspace,
+        inheritEnv: Object.keys(envToForward),
+      }),
+    ]);
 
     this.activeTerminal.sendText(dockerCmd, true);
     this.activeTerminal.show();
@@ -148,7 +219,10 @@ export class OpencodeRunner {
    * Launch OpenCode based on the configured execution mode.
    */
   async launch(): Promise<void> {
-    const config = getConfig();
+    if (!requireWorkspaceTrust("run OpenCode")) {
+      return;
+    }
+    const config = getConfig(this.devcontainerManager.workspaceFolder);
     if (config.executionMode === "in-container") {
       await this.launchInContainer();
     } else {
@@ -156,35 +230,6 @@ export class OpencodeRunner {
     }
   }
 
-  /**
-   * Resolve environment variables that should be forwarded to the container.
-   * Supports glob patterns like "OPENCODE_*".
-   */
-  private resolveForwardedEnvVars(): Record<string, string> {
-    const config = getConfig();
-    const result: Record<string, string> = {};
-
-    for (const pattern of config.forwardEnvVars) {
-      if (pattern.includes("*")) {
-        // Glob pattern: match against current env
-        const prefix = pattern.replace("*", "");
-        for (const [key, value] of Object.entries(process.env)) {
-          if (key.startsWith(prefix) && value !== undefined) {
-            result[key] = value;
-          }
-        }
-      } else {
-        // Exact match
-        const value = process.env[pattern];
-        if (value !== undefined) {
-          result[pattern] = value;
-        }
-      }
-    }
-
-    return result;
-  }
-
   private disposeTerminal(): void {
     if (this.activeTerminal) {
       this.activeTerminal.dispose();
@@ -201,6 +246,9 @@ export class OpencodeRunner {
       removeShellWrapper(this.shellWrapperPath);
       this.shellWrapperPath = undefined;
     }
+    this.rewriteWrapper = undefined;
+    this.approvals?.dispose();
+    this.approvals = undefined;
     this.activeTerminal = undefined;
     if (this.terminalCloseListener) {
       this.terminalCloseListener.dispose();
@@ -211,5 +259,6 @@ export class OpencodeRunner {
   dispose(): void {
     this.cleanup();
     this.disposeTerminal();
+    this.execOptionsListener.dispose();
   }
 }
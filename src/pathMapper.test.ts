@@ -0,0 +1,62 @@
+import { describe, it, expect } from "vitest";
+import { PathMapper } from "./pathMapper";
+
+const mapper = new PathMapper([
+  { hostPath: "/home/user/project", containerPath: "/workspaces/project" },
+  { hostPath: "/home/user/project/node_modules", containerPath: "/cache/node_modules" },
+  { hostPath: "/home/user/.ssh", containerPath: "/home/node/.ssh/" },
+]);
+
+// ---------------------------------------------------------------------------
+// toContainer()
+// ---------------------------------------------------------------------------
+
+describe("toContainer", () => {
+  it("maps the mount root and paths below it", () => {
+    expect(mapper.toContainer("/home/user/project")).toBe("/workspaces/project");
+    expect(mapper.toContainer("/home/user/project/src/app.ts")).toBe(
+      "/workspaces/project/src/app.ts"
+    );
+  });
+
+  it("prefers the most specific mount", () => {
+    expect(mapper.toContainer("/home/user/project/node_modules/vitest")).toBe(
+      "/cache/node_modules/vitest"
+    );
+  });
+
+  it("returns undefined outside every mount", () => {
+    expect(mapper.toContainer("/home/user/other")).toBeUndefined();
+    expect(mapper.toContainer("/home/user/project-old/x.ts")).toBeUndefined();
+  });
+
+  it("normalises the path first", () => {
+    expect(mapper.toContainer("/home/user/project/src/../test/")).toBe("/workspaces/project/test");
+  });
+});
+
+// ---------------------------------------------------------------------------
+// toHost()
+// ---------------------------------------------------------------------------
+
+describe("toHost", () => {
+  it("maps container paths back to the host", () => {
+    expect(mapper.toHost("/workspaces/project/src/app.ts")).toBe("/home/user/project/src/app.ts");
+    expect(mapper.toHost("/cache/node_modules/vitest")).toBe(
+      "/home/user/project/node_modules/vitest"
+    );
+    expect(mapper.toHost("/home/node/.ssh/config")).toBe("/home/user/.ssh/config");
+  });
+
+  it("returns undefined for paths that only exist in the container", () => {
+    expect(mapper.toHost("/usr/lib/node_modules")).toBeUndefined();
+    expect(mapper.toHost("/workspaces")).toBeUndefined();
+  });
+
+  it("returns a file URI from toHostUri", () => {
+    expect(mapper.toHostUri("/workspaces/project/README.md")?.fsPath).toBe(
+      "/home/user/project/README.md"
+    );
+    expect(mapper.toHostUri("/etc/hosts")).toBeUndefined();
+  });
+});
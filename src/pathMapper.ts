@@ -0,0 +1,92 @@
+import * as vscode from "vscode";
+import * as path from "path";
+
+/** A host directory and the directory it appears as in the container. */
+export interface PathMapping {
+  hostPath: string;
+  containerPath: string;
+}
+
+/**
+ * Translates paths between the host and the dev container.
+ *
+ * Built from the container's bind mounts (see
+ * `DevcontainerManager.getPathMapper`), so a path translates when it lies
+ * under a mounted directory. When mounts overlap the most specific one
+ * wins. Container paths are always POSIX; host paths use the host's
+ * separators.
+ */
+export class PathMapper {
+  private readonly mappings: PathMapping[];
+
+  constructor(mappings: PathMapping[]) {
+    this.mappings = mappings.map((m) => ({
+      hostPath: path.resolve(m.hostPath),
+      containerPath: path.posix.resolve("/", m.containerPath),
+    }));
+  }
+
+  /** The container path of a host path, or `undefined` when it isn't mounted. */
+  toContainer(hostPath: string): string | undefined {
+    let best: { mapping: PathMapping; relative: string } | undefined;
+    for (const mapping of this.mappings) {
+      const relative = relativeWithin(path, mapping.hostPath, path.resolve(hostPath));
+      if (
+        relative !== undefined &&
+        (!best || mapping.hostPath.length > best.mapping.hostPath.length)
+      ) {
+        best = { mapping, relative };
+      }
+    }
+    if (!best) {
+      return undefined;
+    }
+    const segments = best.relative ? best.relative.split(path.sep) : [];
+    return path.posix.join(best.mapping.containerPath, ...segments);
+  }
+
+  /** The host path of a container path, or `undefined` when it isn't a mount. */
+  toHost(containerPath: string): string | undefined {
+    let best: { mapping: PathMapping; relative: string } | undefined;
+    for (const mapping of this.mappings) {
+      const relative = relativeWithin(
+        path.posix,
+        mapping.containerPath,
+        path.posix.resolve("/", containerPath)
+      );
+      if (
+        relative !== undefined &&
+        (!best || mapping.containerPath.length > best.mapping.containerPath.length)
+      ) {
+        best = { mapping, relative };
+      }
+    }
+    if (!best) {
+      return undefined;
+    }
+    const segments = best.relative ? best.relative.split("/") : [];
+    return path.join(best.mapping.hostPath, ...segments);
+  }
+
+  /** {@link toHost} as a file URI, for chat anchors and tree items. */
+  toHostUri(containerPath: string): vscode.Uri | undefined {
+    const hostPath = this.toHost(containerPath);
+    return hostPath ? vscode.Uri.file(hostPath) : undefined;
+  }
+}
+
+/**
+ * `child` relative to `parent` ("" for `parent` itself), or `undefined`
+ * when it lies outside.
+ */
+function relativeWithin(
+  api: typeof path.posix,
+  parent: string,
+  child: string
+): string | undefined {
+  const relative = api.relative(parent, child);
+  if (relative === ".." || relative.startsWith(`..${api.sep}`) || api.isAbsolute(relative)) {
+    return undefined;
+  }
+  return relative;
+}
@@ -1,9 +1,18 @@
-import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
 import * as fs from "fs";
 import * as os from "os";
 import * as path from "path";
+import { execFile, execFileSync, spawnSync } from "child_process";
 import { __resetMocks, __setMockConfig } from "./__mocks__/vscode";
-import { createShellWrapper, writeShellWrapper, removeShellWrapper } from "./shellWrapper";
+import {
+  collectStaleWrappers,
+  createShellWrapper,
+  privateTempDir,
+  removeShellWrapper,
+  writeShellWrapper,
+} from "./shellWrapper";
+import { CommandPolicy } from "./commandPolicy";
+import { CommandRoute } from "./config";
 
 beforeEach(() => {
   __resetMocks();
@@ -18,9 +27,9 @@ describe("createShellWrapper", () => {
     const script = createShellWrapper("abc123def456", "/workspaces/myproject");
 
     expect(script).toContain("#!/bin/sh");
-    expect(script).toContain('CONTAINER_ID="abc123def456"');
-    expect(script).toContain('WORKSPACE_DIR="/workspaces/myproject"');
-    expect(script).toContain('DOCKER="docker"');
+    expect(script).toContain("CONTAINER_ID=abc123def456");
+    expect(script).toContain("WORKSPACE_DIR=/workspaces/myproject");
+    expect(script).toContain("DOCKER=docker");
   });
 
   it("uses custom docker path from config", () => {
@@ -29,25 +38,42 @@ describe("createShellWrapper", () => {
     });
 
     const script = createShellWrapper("abc123", "/workspaces/proj");
-    expect(script).toContain('DOCKER="/usr/local/bin/docker"');
+    expect(script).toContain("DOCKER=/usr/local/bin/docker");
   });
 
-  it("includes environment variable flags when envVars are provided", () => {
-    const script = createShellWrapper("abc123", "/workspaces/proj", {
-      API_KEY: "secret123",
-      NODE_ENV: "production",
+  it("uses the podman CLI when the runtime is podman", () => {
+    __setMockConfig({
+      "opencode-devcontainer.containerRuntime": "podman",
+      "opencode-devcontainer.podmanPath": "/usr/bin/podman",
     });
 
-    expect(script).toContain('-e API_KEY="secret123"');
-    expect(script).toContain('-e NODE_ENV="production"');
+    const script = createShellWrapper("abc123", "/workspaces/proj");
+    expect(script).toContain("DOCKER=/usr/bin/podman");
+    expect(script).toContain("# Container runtime: podman");
   });
 
-  it("escapes double quotes in environment variable values", () => {
-    const script = createShellWrapper("abc123", "/workspaces/proj", {
-      MSG: 'hello "world"',
+  it("exports the configured Docker host for the runtime CLI", () => {
+    __setMockConfig({
+      "opencode-devcontainer.dockerHost": "ssh://me@build-box",
     });
 
-    expect(script).toContain('-e MSG="hello \\"world\\""');
+    const script = createShellWrapper("abc123", "/workspaces/proj");
+    expect(script).toContain("export DOCKER_HOST=ssh://me@build-box");
+  });
+
+  it("passes forwarded variables by name only", () => {
+    const script = createShellWrapper("abc123", "/workspaces/proj", ["API_KEY", "NODE_ENV"]);
+
+    expect(script).toContain("-e API_KEY -e NODE_ENV");
+    expect(script).not.toContain("API_KEY=");
+  });
+
+  it("quotes remoteEnv values for the shell", () => {
+    const script = createShellWrapper("abc123", "/workspaces/proj", undefined, {
+      env: { MSG: `hello "world" it's $HOME` },
+    });
+
+    expect(script).toContain(`-e 'MSG=hello "world" it'\\''s $HOME'`);
   });
 
   it("generates empty env flags when no envVars provided", () => {
@@ -59,12 +85,463 @@ describe("createShellWrapper", () => {
   it("contains the -c flag handling logic", () => {
     const script = createShellWrapper("abc123", "/workspaces/proj");
     expect(script).toContain('if [ "$1" = "-c" ]');
-    expect(script).toContain("exec \"$DOCKER\" exec -w \"$WORKSPACE_DIR\"");
+    expect(script).toContain("exec \"$DOCKER\" exec -w \"$WORKDIR\"");
+  });
+
+  it("runs as the devcontainer user with remoteEnv applied", () => {
+    const script = createShellWrapper(
+      "abc123",
+      "/workspaces/proj",
+      ["API_KEY"],
+      { user: "node", env: { PATH: "/opt/bin:/usr/bin", API_KEY: "remote" }, unsetEnv: ["DEBUG"] }
+    );
+
+    expect(script).toContain('exec "$DOCKER" exec -u node -w "$WORKDIR"');
+    expect(script).toContain("-e PATH=/opt/bin:/usr/bin");
+    expect(script).toContain("-e API_KEY ");
+    expect(script).not.toContain("remote");
+    expect(script).toContain('"$CONTAINER_ID" env -u DEBUG sh -c "$@"');
+  });
+
+  it("runs commands with the configured container shell", () => {
+    const script = createShellWrapper("abc123", "/workspaces/proj", undefined, undefined, {
+      shell: "/bin/bash",
+    });
+    expect(script).toContain('"$CONTAINER_ID" /bin/bash -c "$@"');
+    expect(script).toMatch(/"\$CONTAINER_ID" \/bin\/bash\n$/);
   });
 
   it("contains interactive shell fallback", () => {
     const script = createShellWrapper("abc123", "/workspaces/proj");
-    expect(script).toContain("exec \"$DOCKER\" exec -it -w \"$WORKSPACE_DIR\"");
+    expect(script).toContain("exec \"$DOCKER\" exec -it -w \"$WORKDIR\"");
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Working directory
+// ---------------------------------------------------------------------------
+
+describe("working directory", () => {
+  let hostWorkspace: string;
+  let outside: string;
+  let wrapperPath: string;
+
+  beforeEach(() => {
+    hostWorkspace = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), "wrapper-ws-")));
+    outside = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), "wrapper-out-")));
+    fs.mkdirSync(path.join(hostWorkspace, "packages", "api"), { recursive: true });
+    fs.mkdirSync(`${hostWorkspace}-sibling`);
+
+    // "echo" stands in for the runtime CLI and prints the exec arguments.
+    __setMockConfig({ "opencode-devcontainer.dockerPath": "echo" });
+    wrapperPath = path.join(outside, "wrapper.sh");
+    fs.writeFileSync(
+      wrapperPath,
+      createShellWrapper("abc123", "/workspaces/proj", undefined, undefined, {
+        hostWorkspaceFolder: hostWorkspace,
+      })
+    );
+  });
+
+  afterEach(() => {
+    for (const dir of [hostWorkspace, `${hostWorkspace}-sibling`, outside]) {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  function execWorkdir(cwd: string): string {
+    const output = execFileSync("sh", [wrapperPath, "-c", "make"], {
+      cwd,
+      env: { ...process.env, PWD: cwd },
+      encoding: "utf-8",
+    });
+    return output.match(/-w (\S+)/)![1];
+  }
+
+  it("runs at the workspace root from the workspace folder", () => {
+    expect(execWorkdir(hostWorkspace)).toBe("/workspaces/proj");
+  });
+
+  it("maps a nested working directory into the container", () => {
+    expect(execWorkdir(path.join(hostWorkspace, "packages", "api"))).toBe(
+      "/workspaces/proj/packages/api"
+    );
+  });
+
+  it("falls back to the workspace root outside the workspace", () => {
+    expect(execWorkdir(outside)).toBe("/workspaces/proj");
+    expect(execWorkdir(`${hostWorkspace}-sibling`)).toBe("/workspaces/proj");
+  });
+
+  it("passes paths and values with shell metacharacters through unchanged", () => {
+    const quirky = `${hostWorkspace}/it's $HOME \`id\``;
+    fs.mkdirSync(quirky, { recursive: true });
+    fs.writeFileSync(
+      wrapperPath,
+      createShellWrapper(
+        "abc123",
+        "/workspaces/it's $HOME",
+        undefined,
+        { env: { MSG: '"quoted" $(id) `id`' } },
+        { hostWorkspaceFolder: quirky }
+      )
+    );
+
+    const output = execFileSync("sh", [wrapperPath, "-c", "make"], {
+      cwd: quirky,
+      env: { ...process.env, PWD: quirky },
+      encoding: "utf-8",
+    });
+
+    expect(output).toContain("-w /workspaces/it's $HOME ");
+    expect(output).toContain('-e MSG="quoted" $(id) `id` ');
+  });
+
+  it("always uses the workspace root without a host workspace folder", () => {
+    const script = createShellWrapper("abc123", "/workspaces/proj");
+    expect(script).toContain('WORKDIR="$WORKSPACE_DIR"');
+    expect(script).not.toContain("HOST_WORKSPACE_DIR");
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Command audit
+// ---------------------------------------------------------------------------
+
+describe("command audit", () => {
+  let dir: string;
+  let auditLog: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "wrapper-audit-"));
+    auditLog = path.join(dir, "commands.jsonl");
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  /** Run a command through a wrapper whose runtime CLI is `dockerPath`. */
+  function runAudited(dockerPath: string, command: string): number {
+    __setMockConfig({ "opencode-devcontainer.dockerPath": dockerPath });
+    const wrapperPath = path.join(dir, "wrapper.sh");
+    fs.writeFileSync(
+      wrapperPath,
+      createShellWrapper("abc123", "/workspaces/proj", undefined, undefined, { auditLog })
+    );
+    try {
+      execFileSync("sh", [wrapperPath, "-c", command], {
+        env: {
+          ...process.env,
+          OPENCODE_DEVCONTAINER_SESSION: "chat-1234",
+          OPENCODE_DEVCONTAINER_AGENT: "build",
+        },
+        stdio: "ignore",
+      });
+      return 0;
+    } catch (err) {
+      return (err as { status: number }).status;
+    }
+  }
+
+  function readLog(): Record<string, unknown>[] {
+    return fs
+      .readFileSync(auditLog, "utf-8")
+      .trim()
+      .split("\n")
+      .map((line) => JSON.parse(line));
+  }
+
+  it("appends a record per command", () => {
+    expect(runAudited("true", "npm test")).toBe(0);
+    expect(runAudited("true", "npm run lint")).toBe(0);
+
+    const entries = readLog();
+    expect(entries).toHaveLength(2);
+    expect(entries[0]).toMatchObject({
+      source: "wrapper",
+      session: "chat-1234",
+      agent: "build",
+      cwd: "/workspaces/proj",
+      command: "npm test",
+      exitCode: 0,
+    });
+    expect(entries[0].timestamp).toMatch(/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}Z$/);
+    expect(typeof entries[0].durationMs).toBe("number");
+    expect(entries[1].command).toBe("npm run lint");
+  });
+
+  it("records and propagates the exit code", () => {
+    expect(runAudited("false", "make")).toBe(1);
+    expect(readLog()[0]).toMatchObject({ command: "make", exitCode: 1 });
+  });
+
+  it("escapes quotes, backslashes, tabs and newlines", () => {
+    const command = 'echo "a\\b"\tc\nls -la';
+    runAudited("true", command);
+    expect(readLog()[0].command).toBe(command);
+  });
+
+  it("execs the command directly without an audit log", () => {
+    const script = createShellWrapper("abc123", "/workspaces/proj");
+    expect(script).not.toContain("AUDIT_LOG");
+    expect(script).toContain('exec "$DOCKER" exec');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Command policy
+// ---------------------------------------------------------------------------
+
+describe("command policy", () => {
+  let dir: string;
+  let approvalDir: string;
+  let wrapperPath: string;
+
+  const policy: CommandPolicy = {
+    rules: {
+      "*": {
+        deny: ["*rm -rf /*"],
+        ask: ["git push*"],
+        allow: ["npm test*"],
+      },
+      plan: {
+        deny: ["npm *"],
+      },
+    },
+    defaultAction: "allow",
+  };
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "wrapper-policy-"));
+    approvalDir = path.join(dir, "approvals");
+    fs.mkdirSync(approvalDir);
+    // "echo" stands in for the runtime CLI and prints the exec arguments.
+    __setMockConfig({ "opencode-devcontainer.dockerPath": "echo" });
+    writeWrapper(policy);
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  function writeWrapper(wrapperPolicy: CommandPolicy): void {
+    wrapperPath = path.join(dir, "wrapper.sh");
+    fs.writeFileSync(
+      wrapperPath,
+      createShellWrapper("abc123", "/workspaces/proj", undefined, undefined, {
+        policy: wrapperPolicy,
+        approvalDir,
+      })
+    );
+  }
+
+  /** Run a command through the wrapper as `agent`. */
+  function run(
+    command: string,
+    agent = "build"
+  ): Promise<{ code: number; stdout: string; stderr: string }> {
+    return new Promise((resolve) => {
+      execFile(
+        "sh",
+        [wrapperPath, "-c", command],
+        { env: { ...process.env, OPENCODE_DEVCONTAINER_AGENT: agent } },
+        (err, stdout, stderr) => {
+          resolve({ code: err ? (err.code as number) : 0, stdout, stderr });
+        }
+      );
+    });
+  }
+
+  /** Wait for the wrapper's approval request and answer it. */
+  async function answer(response: "allow" | "deny"): Promise<string> {
+    for (;;) {
+      const request = fs.readdirSync(approvalDir).find((f) => f.endsWith(".request"));
+      if (request) {
+        const content = fs.readFileSync(path.join(approvalDir, request), "utf-8");
+        const id = request.slice(0, -".request".length);
+        fs.writeFileSync(path.join(approvalDir, `${id}.response`), response);
+        return content;
+      }
+      await new Promise((r) => setTimeout(r, 20));
+    }
+  }
+
+  it("runs allowed commands", async () => {
+    const result = await run("npm test");
+    expect(result.code).toBe(0);
+    expect(result.stdout).toContain("npm test");
+  });
+
+  it("fails denied commands with an explanation", async () => {
+    const result = await run("cd / && rm -rf / --no-preserve-root");
+    expect(result.code).toBe(126);
+    expect(result.stdout).toBe("");
+    expect(result.stderr).toContain("denied by the command policy (rule *rm -rf /*)");
+  });
+
+  it("applies the rules of the running agent", async () => {
+    expect((await run("npm test", "plan")).code).toBe(126);
+    expect((await run("npm test", "build")).code).toBe(0);
+  });
+
+  it("matches patterns literally apart from *", async () => {
+    writeWrapper({ rules: { "*": { deny: ["echo $HOME [x]"] } }, defaultAction: "allow" });
+    expect((await run("echo $HOME [x]")).code).toBe(126);
+    expect((await run("echo /root x")).code).toBe(0);
+  });
+
+  it("falls back to the default action", async () => {
+    writeWrapper({ ...policy, defaultAction: "deny" });
+    const result = await run("make");
+    expect(result.code).toBe(126);
+    expect(result.stderr).toContain("(default action)");
+  });
+
+  it("runs a command once it is approved", async () => {
+    const [result, request] = await Promise.all([run("git push origin main"), answer("allow")]);
+    expect(request).toBe("build\ngit push*\ngit push origin main");
+    expect(result.code).toBe(0);
+    expect(result.stdout).toContain("git push origin main");
+    expect(fs.readdirSync(approvalDir)).toEqual([]);
+  });
+
+  it("fails a command that was not approved", async () => {
+    const [result] = await Promise.all([run("git push --force"), answer("deny")]);
+    expect(result.code).toBe(126);
+    expect(result.stderr).toContain("was not approved");
+  });
+
+  it("denies asked commands without an approval directory", async () => {
+    fs.rmSync(approvalDir, { recursive: true });
+    expect((await run("git push")).code).toBe(126);
+  });
+
+  it("records denied commands in the audit log", async () => {
+    const auditLog = path.join(dir, "commands.jsonl");
+    fs.writeFileSync(
+      wrapperPath,
+      createShellWrapper("abc123", "/workspaces/proj", undefined, undefined, {
+        policy,
+        approvalDir,
+        auditLog,
+      })
+    );
+
+    expect((await run("npm test", "plan")).code).toBe(126);
+    expect((await run("npm test")).code).toBe(0);
+
+    const entries = fs
+      .readFileSync(auditLog, "utf-8")
+      .trim()
+      .split("\n")
+      .map((line) => JSON.parse(line));
+    expect(entries).toHaveLength(2);
+    expect(entries[0]).toMatchObject({
+      agent: "plan",
+      command: "npm test",
+      exitCode: 126,
+      durationMs: 0,
+      denied: true,
+    });
+    expect(entries[1]).toMatchObject({ agent: "build", command: "npm test", exitCode: 0 });
+    expect(entries[1]).not.toHaveProperty("denied");
+  });
+
+  it("leaves the wrapper unchanged without a policy", () => {
+    const script = createShellWrapper("abc123", "/workspaces/proj");
+    expect(script).not.toContain("enforce_policy");
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Command routing
+// ---------------------------------------------------------------------------
+
+describe("command routing", () => {
+  let dir: string;
+  let auditLog: string;
+  let wrapperPath: string;
+
+  const routes: CommandRoute[] = [
+    { prefix: "git push", target: "host" },
+    { prefix: "gh", target: "host" },
+    { regex: "^docker( |$)", target: "host" },
+    { prefix: "git", target: "container" },
+  ];
+
+  beforeEach(() => {
+    dir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), "wrapper-routing-")));
+    auditLog = path.join(dir, "commands.jsonl");
+    vi.stubEnv("SHELL", "/bin/sh");
+    // "echo" stands in for the runtime CLI and prints the exec arguments.
+    __setMockConfig({ "opencode-devcontainer.dockerPath": "echo" });
+    wrapperPath = path.join(dir, "wrapper.sh");
+    fs.writeFileSync(
+      wrapperPath,
+      createShellWrapper("abc123", "/workspaces/proj", undefined, undefined, {
+        routes,
+        auditLog,
+      })
+    );
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  /** Run a command through the wrapper and return what it printed. */
+  function run(command: string): string {
+    return execFileSync("sh", [wrapperPath, "-c", command], {
+      cwd: dir,
+      env: { ...process.env, PWD: dir },
+      encoding: "utf-8",
+    }).trim();
+  }
+
+  it("runs host-routed commands with the host shell", () => {
+    // Host commands print their own output, container ones the exec arguments.
+    expect(run("gh --version >/dev/null 2>&1; echo ran-on-host")).toBe("ran-on-host");
+    expect(run("git push --version >/dev/null 2>&1; echo ran-on-host")).toBe("ran-on-host");
+    expect(run("docker --version >/dev/null 2>&1; echo ran-on-host")).toBe("ran-on-host");
+  });
+
+  it("runs everything else in the container", () => {
+    expect(run("npm test")).toContain("exec -w /workspaces/proj abc123");
+    expect(run("git status")).toContain("abc123");
+    expect(run("ghost")).toContain("abc123");
+    expect(run("dockerize")).toContain("abc123");
+  });
+
+  it("uses the first matching route", () => {
+    const script = createShellWrapper("abc123", "/workspaces/proj", undefined, undefined, {
+      routes: [
+        { prefix: "git", target: "container" },
+        { prefix: "git push", target: "host" },
+      ],
+    });
+    fs.writeFileSync(wrapperPath, script);
+    expect(run("git push")).toContain("abc123");
+  });
+
+  it("records where each command ran", () => {
+    run("gh --version >/dev/null 2>&1; true");
+    run("npm test");
+
+    const entries = fs
+      .readFileSync(auditLog, "utf-8")
+      .trim()
+      .split("\n")
+      .map((line) => JSON.parse(line));
+    expect(entries[0]).toMatchObject({ target: "host", cwd: dir });
+    expect(entries[1]).toMatchObject({ target: "container", cwd: "/workspaces/proj" });
+  });
+
+  it("always runs in the container without routes", () => {
+    const script = createShellWrapper("abc123", "/workspaces/proj");
+    expect(script).not.toContain("route_command");
+    expect(script).not.toContain("HOST_SHELL");
   });
 });
 
@@ -85,31 +562,83 @@ describe("writeShellWrapper", () => {
   it("writes the script to a temp file and returns the path", () => {
     writtenPath = writeShellWrapper("abc123def456", "/workspaces/proj");
 
-    expect(writtenPath).toContain("shell-wrapper-abc123def456.sh");
+    expect(path.basename(writtenPath)).toMatch(
+      new RegExp(`^shell-wrapper-${process.pid}-abc123def456-[0-9a-f]{8}\\.sh$`)
+    );
     expect(fs.existsSync(writtenPath)).toBe(true);
 
     const content = fs.readFileSync(writtenPath, "utf-8");
     expect(content).toContain("#!/bin/sh");
-    expect(content).toContain('CONTAINER_ID="abc123def456"');
+    expect(content).toContain("CONTAINER_ID=abc123def456");
   });
 
-  it("creates the wrapper in the os temp directory", () => {
+  it("creates the wrapper in the user's private temp directory", () => {
     writtenPath = writeShellWrapper("container123", "/workspaces/proj");
 
-    const expectedDir = path.join(os.tmpdir(), "opencode-devcontainer");
-    expect(writtenPath.startsWith(expectedDir)).toBe(true);
+    const dir = path.dirname(writtenPath);
+    expect(dir).toBe(privateTempDir());
+    expect(dir.startsWith(os.tmpdir())).toBe(true);
+    expect(fs.statSync(dir).mode & 0o777).toBe(0o700);
+  });
+
+  it("writes a new file for every wrapper", () => {
+    writtenPath = writeShellWrapper("abc123def456", "/workspaces/proj");
+    const second = writeShellWrapper("abc123def456", "/workspaces/proj");
+    expect(second).not.toBe(writtenPath);
+    fs.unlinkSync(second);
   });
 
   it("truncates container ID to first 12 characters in filename", () => {
     writtenPath = writeShellWrapper("abcdef123456extrachars", "/workspaces/proj");
-    expect(path.basename(writtenPath)).toBe("shell-wrapper-abcdef123456.sh");
+    expect(path.basename(writtenPath)).toContain("-abcdef123456-");
   });
 
-  it("makes the file executable", () => {
+  it("makes the file executable by its owner only", () => {
     writtenPath = writeShellWrapper("abc123def456", "/workspaces/proj");
     const stats = fs.statSync(writtenPath);
-    // Check owner execute bit is set
-    expect(stats.mode & 0o100).toBeTruthy();
+    expect(stats.mode & 0o777).toBe(0o700);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// collectStaleWrappers()
+// ---------------------------------------------------------------------------
+
+describe("collectStaleWrappers", () => {
+  const legacyDir = path.join(os.tmpdir(), "opencode-devcontainer");
+  let deadPid: number;
+
+  beforeEach(() => {
+    // The pid of a process that has exited.
+    deadPid = spawnSync("true").pid!;
+  });
+
+  it("removes the wrappers and approval directories of exited processes", () => {
+    const dir = privateTempDir();
+    const stale = path.join(dir, `shell-wrapper-${deadPid}-abc123-00000000.sh`);
+    const staleApprovals = path.join(dir, `approvals-${deadPid}-x1y2z3`);
+    const live = path.join(dir, `shell-wrapper-${process.pid}-abc123-00000000.sh`);
+    fs.writeFileSync(stale, "");
+    fs.mkdirSync(staleApprovals);
+    fs.writeFileSync(path.join(staleApprovals, "1.request"), "");
+    fs.writeFileSync(live, "");
+
+    collectStaleWrappers();
+
+    expect(fs.existsSync(stale)).toBe(false);
+    expect(fs.existsSync(staleApprovals)).toBe(false);
+    expect(fs.existsSync(live)).toBe(true);
+    fs.unlinkSync(live);
+  });
+
+  it("removes wrappers from the shared directory of earlier versions", () => {
+    fs.mkdirSync(legacyDir, { recursive: true });
+    const legacy = path.join(legacyDir, "shell-wrapper-abc123def456.sh");
+    fs.writeFileSync(legacy, 'CONTAINER_ID="abc123def456"\n');
+
+    collectStaleWrappers();
+
+    expect(fs.existsSync(legacy)).toBe(false);
   });
 });
 
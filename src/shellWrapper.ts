@@ -1,78 +1,450 @@
 import * as fs from "fs";
 import * as os from "os";
 import * as path from "path";
-import { getConfig } from "./config";
+import { randomBytes } from "crypto";
+import { ExecOptions, getContainerRuntime, shellQuote } from "./containerRuntime";
+import { CommandPolicy } from "./commandPolicy";
+import { CommandRoute } from "./config";
+
+export interface ShellWrapperOptions {
+  /** The host side of the container workspace folder. */
+  hostWorkspaceFolder?: string;
+  /** Shell to run commands with in the container (default `sh`). */
+  shell?: string;
+  /** File to append a `CommandAuditEntry` JSON line to per command. */
+  auditLog?: string;
+  /** Policy every non-interactive command is checked against. */
+  policy?: CommandPolicy;
+  /** Directory of the `CommandApprovalBroker` answering `ask` decisions. */
+  approvalDir?: string;
+  /** Rules for commands that run on the host instead of in the container. */
+  routes?: CommandRoute[];
+}
+
+/** Seconds the wrapper waits for a command to be approved. */
+const APPROVAL_TIMEOUT = 300;
+
+/**
+ * Shell functions that enforce the command policy; `command_policy`, which
+ * sets `policy_action` and `policy_rule`, is generated from the rules.
+ * Refused commands exit with 126, like a command that cannot run, and
+ * are recorded as denied when the wrapper keeps an audit log.
+ */
+const POLICY_FUNCTIONS = String.raw`
+# Exit unless the command policy allows the command: enforce_policy <command>
+enforce_policy() {
+  command_policy "$1"
+  case "$policy_action" in
+    allow)
+      return
+      ;;
+    ask)
+      request_approval "$1" && return
+      printf 'opencode-devcontainer: command was not approved in VS Code: %s\n' "$1" >&2
+      ;;
+    *)
+      if [ -n "$policy_rule" ]; then
+        policy_reason="rule $policy_rule"
+      else
+        policy_reason="default action"
+      fi
+      printf 'opencode-devcontainer: command denied by the command policy (%s): %s\n' \
+        "$policy_reason" "$1" >&2
+      ;;
+  esac
+  if command -v audit_denied >/dev/null 2>&1; then
+    audit_denied "$1"
+  fi
+  exit 126
+}
+
+# Ask VS Code to approve a command (see CommandApprovalBroker) and wait
+# for the answer. Fails when nobody answers in time.
+request_approval() {
+  [ -n "$APPROVAL_DIR" ] && [ -d "$APPROVAL_DIR" ] || return 1
+  approval_file="$APPROVAL_DIR/$$-$(date +%s)"
+  printf '%s\n%s\n%s' "$OPENCODE_DEVCONTAINER_AGENT" "$policy_rule" "$1" > "$approval_file.tmp" \
+    && mv "$approval_file.tmp" "$approval_file.request" || return 1
+  approval_waited=0
+  while [ ! -f "$approval_file.response" ]; do
+    if [ "$approval_waited" -ge "$APPROVAL_TIMEOUT" ] || [ ! -d "$APPROVAL_DIR" ]; then
+      rm -f "$approval_file.request"
+      return 1
+    fi
+    sleep 1
+    approval_waited=$((approval_waited + 1))
+  done
+  approval=$(cat "$approval_file.response")
+  rm -f "$approval_file.request" "$approval_file.response"
+  [ "$approval" = "allow" ]
+}
+`;
+
+/** A policy pattern as a `case` pattern: `*` stays a wildcard, the rest is literal. */
+function casePattern(pattern: string): string {
+  return pattern
+    .split("*")
+    .map((part) => (part ? shellQuote(part) : ""))
+    .join("*");
+}
+
+/**
+ * The `command_policy` shell function of a policy: one `case` per agent
+ * and action, in the order the actions take precedence.
+ */
+function policyFunction(policy: CommandPolicy): string {
+  const agents = [...Object.keys(policy.rules).filter((agent) => agent !== "*"), "*"];
+  const checks: string[] = [];
+  for (const action of ["deny", "ask", "allow"] as const) {
+    for (const agent of agents) {
+      const patterns = (policy.rules[agent]?.[action] ?? []).filter((p) => p);
+      if (patterns.length === 0) {
+        continue;
+      }
+      const arms = patterns.map(
+        (p) => `    ${casePattern(p)}) policy_action=${action} policy_rule=${shellQuote(p)}; return ;;\n`
+      );
+      const condition =
+        agent === "*" ? "" : `[ "$OPENCODE_DEVCONTAINER_AGENT" = ${shellQuote(agent)} ] && `;
+      checks.push(`  ${condition}case "$1" in\n${arms.join("")}  esac\n`);
+    }
+  }
+  return `
+# Decide what happens to a command: sets policy_action and policy_rule.
+command_policy() {
+${checks.join("")}  policy_action=${policy.defaultAction} policy_rule=
+}
+`;
+}
+
+/**
+ * The `route_command` shell function of the routing rules, which sets
+ * `route_target` to `host` or `container`.
+ */
+function routeFunction(routes: CommandRoute[]): string {
+  const checks = routes.flatMap((route) => {
+    const target = route.target === "host" ? "host" : "container";
+    const checks: string[] = [];
+    if (route.prefix) {
+      const prefix = shellQuote(route.prefix);
+      checks.push(
+        `  case "$1" in\n    ${prefix}|${prefix}' '*) route_target=${target}; return ;;\n  esac\n`
+      );
+    }
+    if (route.regex) {
+      checks.push(
+        `  if printf '%s\\n' "$1" | grep -Eq -- ${shellQuote(route.regex)}; then\n    route_target=${target}; return\n  fi\n`
+      );
+    }
+    return checks;
+  });
+  return `
+# Decide where a command runs: sets route_target to host or container.
+route_command() {
+${checks.join("")}  route_target=container
+}
+`;
+}
+
+/**
+ * Shell functions that run a command and append its audit record. The
+ * session and agent come from the environment OpenCode was started with.
+ * Durations have whole-second precision, as `date` has no portable
+ * sub-second format.
+ */
+const AUDIT_FUNCTIONS = String.raw`
+# Escape a string for a JSON string literal.
+json_escape() {
+  tab=$(printf '\t')
+  printf '%s' "$1" | tr -d '\000-\010\013-\037' \
+    | sed -e 's/\\/\\\\/g' -e 's/"/\\"/g' -e "s/$tab/\\\\t/g" \
+    | awk 'NR > 1 { printf "%s", "\\n" } { printf "%s", $0 }'
+}
+
+# Append an audit record: audit_record <command text> <start time> <exit code> <duration ms> [denied]
+audit_record() {
+  if [ "$route_target" = "host" ]; then
+    audit_cwd=$PWD
+  else
+    audit_cwd=$WORKDIR
+  fi
+  if [ -n "$5" ]; then
+    audit_denied_field=',"denied":true'
+  else
+    audit_denied_field=
+  fi
+  printf '{"timestamp":"%s","source":"wrapper","session":"%s","agent":"%s","cwd":"%s","target":"%s","command":"%s","exitCode":%s,"durationMs":%s%s}\n' \
+    "$2" \
+    "$(json_escape "$OPENCODE_DEVCONTAINER_SESSION")" \
+    "$(json_escape "$OPENCODE_DEVCONTAINER_AGENT")" \
+    "$(json_escape "$audit_cwd")" \
+    "$route_target" \
+    "$(json_escape "$1")" \
+    "$3" \
+    "$4" \
+    "$audit_denied_field" >> "$AUDIT_LOG" 2>/dev/null
+}
+
+# Run a command and append its audit record: audited <command text> <argv...>
+audited() {
+  audit_command=$1
+  shift
+  audit_started=$(date -u +%Y-%m-%dT%H:%M:%SZ)
+  audit_start=$(date +%s)
+  "$@"
+  audit_status=$?
+  audit_end=$(date +%s)
+  audit_record "$audit_command" "$audit_started" "$audit_status" \
+    "$(( (audit_end - audit_start) * 1000 ))"
+  exit "$audit_status"
+}
+
+# Record a command the command policy refused: audit_denied <command text>
+audit_denied() {
+  audit_record "$1" "$(date -u +%Y-%m-%dT%H:%M:%SZ)" 126 0 denied
+}
+`;
 
 /**
  * Generates a shell wrapper script that routes command execution
- * to the devcontainer via `docker exec`.
+ * to the devcontainer via `docker exec` (or `podman exec`, which
+ * accepts the same flags).
  *
  * When OpenCode runs locally and invokes a shell command, SHELL is
  * set to this wrapper. The wrapper intercepts the command and
  * executes it inside the devcontainer instead of on the host.
+ *
+ * `remote` carries the devcontainer's user and `remoteEnv` (see
+ * `DevcontainerManager.getRemoteExecOptions`). The `forwardEnv` variables
+ * are passed on by name from the environment the wrapper runs in, so
+ * forwarded secrets never end up in the script; they take precedence over
+ * `remoteEnv`.
+ *
+ * The configured Docker host / context is exported in the script itself,
+ * since OpenCode may not pass its own environment on to the shell.
+ *
+ * When `hostWorkspaceFolder` (the host side of `remoteWorkspaceFolder`)
+ * is given, commands run in the container directory matching the
+ * caller's `$PWD`, so `cd packages/api && ...` keeps working; a `$PWD`
+ * outside the workspace falls back to the workspace root.
+ *
+ * With a `policy`, every non-interactive command is checked against it
+ * first; `ask` decisions are sent to the `CommandApprovalBroker` watching
+ * `approvalDir`, and are denials without one.
+ *
+ * Commands matching a host `routes` rule run with the host's `$SHELL` in
+ * the caller's directory instead; everything else runs in the container.
+ *
+ * With an `auditLog`, every non-interactive command is recorded there
+ * (see `CommandAuditLog`), including ones the policy refused; the command
+ * then runs as a child of the wrapper instead of replacing it.
  */
 export function createShellWrapper(
   containerId: string,
   remoteWorkspaceFolder: string,
-  envVars?: Record<string, string>
+  forwardEnv: string[] = [],
+  remote?: ExecOptions,
+  options: ShellWrapperOptions = {}
 ): string {
-  const config = getConfig();
-  const dockerPath = config.dockerPath;
+  const { hostWorkspaceFolder } = options;
+  const shell = shellQuote(options.shell || "sh");
+  const runtime = getContainerRuntime();
+  const dockerPath = runtime.cliPath;
 
   // Build environment variable flags for docker exec
-  const envFlags = envVars
-    ? Object.entries(envVars)
-        .map(([key, value]) => `-e ${key}="${value.replace(/"/g, '\\"')}"`)
-        .join(" ")
+  const envFlags = [
+    ...Object.entries(remote?.env ?? {})
+      .filter(([key]) => !forwardEnv.includes(key))
+      .map(([key, value]) => `-e ${shellQuote(`${key}=${value}`)}`),
+    ...forwardEnv.map((name) => `-e ${name}`),
+  ].join(" ");
+  const userFlag = remote?.user ? `-u ${shellQuote(remote.user)} ` : "";
+  const unsetEnv = remote?.unsetEnv?.length
+    ? `env ${remote.unsetEnv.map((name) => `-u ${name}`).join(" ")} `
+    : "";
+  const hostExports = Object.entries(runtime.hostEnv())
+    .map(([key, value]) => `export ${key}=${shellQuote(value)}\n`)
+    .join("");
+
+  const workdirMapping = hostWorkspaceFolder
+    ? `HOST_WORKSPACE_DIR=${shellQuote(hostWorkspaceFolder.replace(/\/+$/, ""))}
+
+# Run in the container directory matching the caller's working directory
+# when it lies inside the mounted workspace.
+WORKDIR="$WORKSPACE_DIR"
+case "$PWD/" in
+  "$HOST_WORKSPACE_DIR"/*) WORKDIR="$WORKSPACE_DIR\${PWD#"$HOST_WORKSPACE_DIR"}" ;;
+esac
+`
+    : `WORKDIR="$WORKSPACE_DIR"
+`;
+
+  const audit = options.auditLog
+    ? `AUDIT_LOG=${shellQuote(options.auditLog)}
+route_target=container
+${AUDIT_FUNCTIONS}`
+    : "";
+  const policy = options.policy
+    ? `APPROVAL_DIR=${shellQuote(options.approvalDir ?? "")}
+APPROVAL_TIMEOUT=${APPROVAL_TIMEOUT}
+${POLICY_FUNCTIONS}${policyFunction(options.policy)}`
+    : "";
+  const enforceCommand = options.policy ? 'enforce_policy "$1"\n  ' : "";
+  const enforceArgs = options.policy ? 'enforce_policy "$*"\n  ' : "";
+  const runCommand = options.auditLog ? 'audited "$1"' : "exec";
+  const runArgs = options.auditLog ? 'audited "$*"' : "exec";
+
+  const routes = options.routes?.filter((route) => route.prefix || route.regex) ?? [];
+  const routing = routes.length
+    ? `HOST_SHELL=${shellQuote(process.env.SHELL || "/bin/sh")}
+${routeFunction(routes)}`
+    : "";
+  const routeCommand = routes.length
+    ? `route_command "$1"
+  if [ "$route_target" = "host" ]; then
+    ${runCommand} "$HOST_SHELL" -c "$@"
+  fi
+  `
+    : "";
+  const routeArgs = routes.length
+    ? `route_command "$*"
+  if [ "$route_target" = "host" ]; then
+    ${runArgs} "$HOST_SHELL" -c "$*"
+  fi
+  `
     : "";
 
   const script = `#!/bin/sh
 # OpenCode DevContainer Shell Wrapper
 # This script routes shell commands to the devcontainer.
 # Generated by the opencode-for-devcontainers VS Code extension.
+# Container runtime: ${runtime.kind}
 
-CONTAINER_ID="${containerId}"
-WORKSPACE_DIR="${remoteWorkspaceFolder}"
-DOCKER="${dockerPath}"
-
+CONTAINER_ID=${shellQuote(containerId)}
+WORKSPACE_DIR=${shellQuote(remoteWorkspaceFolder)}
+DOCKER=${shellQuote(dockerPath)}
+${hostExports}${workdirMapping}${audit}${policy}${routing}
 # If called with -c flag (standard shell -c "command" invocation),
-# execute the command inside the container.
+# execute the command inside the container (or on the host when routed there).
 if [ "$1" = "-c" ]; then
   shift
-  exec "$DOCKER" exec -w "$WORKSPACE_DIR" ${envFlags} "$CONTAINER_ID" sh -c "$@"
+  ${enforceCommand}${routeCommand}${runCommand} "$DOCKER" exec ${userFlag}-w "$WORKDIR" ${envFlags} "$CONTAINER_ID" ${unsetEnv}${shell} -c "$@"
 fi
 
 # If called with arguments but no -c flag, pass them as a command.
 if [ $# -gt 0 ]; then
-  exec "$DOCKER" exec -w "$WORKSPACE_DIR" ${envFlags} "$CONTAINER_ID" sh -c "$*"
+  ${enforceArgs}${routeArgs}${runArgs} "$DOCKER" exec ${userFlag}-w "$WORKDIR" ${envFlags} "$CONTAINER_ID" ${unsetEnv}${shell} -c "$*"
 fi
 
 # If called with no arguments, open an interactive shell in the container.
-exec "$DOCKER" exec -it -w "$WORKSPACE_DIR" ${envFlags} "$CONTAINER_ID" sh
+exec "$DOCKER" exec -it ${userFlag}-w "$WORKDIR" ${envFlags} "$CONTAINER_ID" ${unsetEnv}${shell}
 `;
 
   return script;
 }
 
 /**
- * Write the shell wrapper to a temporary file and return its path.
+ * Write the shell wrapper to a new file in {@link privateTempDir}, readable
+ * only by the current user, and return its path.
+ *
+ * The file is named after the extension host's process, so
+ * {@link collectStaleWrappers} can tell when it is no longer used.
  */
 export function writeShellWrapper(
   containerId: string,
   remoteWorkspaceFolder: string,
-  envVars?: Record<string, string>
+  forwardEnv?: string[],
+  remote?: ExecOptions,
+  options?: ShellWrapperOptions
 ): string {
-  const script = createShellWrapper(containerId, remoteWorkspaceFolder, envVars);
-  const tmpDir = path.join(os.tmpdir(), "opencode-devcontainer");
+  const script = createShellWrapper(containerId, remoteWorkspaceFolder, forwardEnv, remote, options);
+  const wrapperPath = path.join(
+    privateTempDir(),
+    `shell-wrapper-${process.pid}-${containerId.substring(0, 12)}-${randomBytes(4).toString("hex")}.sh`
+  );
+  fs.writeFileSync(wrapperPath, script, { mode: 0o700 });
+
+  return wrapperPath;
+}
 
-  if (!fs.existsSync(tmpDir)) {
-    fs.mkdirSync(tmpDir, { recursive: true });
+/**
+ * Replace the script of a wrapper from {@link writeShellWrapper}, e.g.
+ * when the credential relay it points commands at was restarted.
+ * Processes started with the wrapper as `SHELL` pick it up with their
+ * next command.
+ */
+export function rewriteShellWrapper(
+  wrapperPath: string,
+  containerId: string,
+  remoteWorkspaceFolder: string,
+  forwardEnv?: string[],
+  remote?: ExecOptions,
+  options?: ShellWrapperOptions
+): void {
+  const script = createShellWrapper(containerId, remoteWorkspaceFolder, forwardEnv, remote, options);
+  fs.writeFileSync(wrapperPath, script, { mode: 0o700 });
+}
+
+/**
+ * The current user's directory for wrapper scripts and approval requests,
+ * created with mode 0700. Throws if it exists but belongs to someone else.
+ */
+export function privateTempDir(): string {
+  const uid = process.getuid?.();
+  const dir = path.join(
+    os.tmpdir(),
+    `opencode-devcontainer-${uid ?? os.userInfo().username}`
+  );
+  fs.mkdirSync(dir, { recursive: true, mode: 0o700 });
+  const stats = fs.lstatSync(dir);
+  if (!stats.isDirectory() || (uid !== undefined && stats.uid !== uid)) {
+    throw new Error(`${dir} is not a directory of the current user.`);
   }
+  fs.chmodSync(dir, 0o700);
+  return dir;
+}
 
-  const wrapperPath = path.join(tmpDir, `shell-wrapper-${containerId.substring(0, 12)}.sh`);
-  fs.writeFileSync(wrapperPath, script, { mode: 0o755 });
+/** Entries of {@link privateTempDir} that belong to a process: `<kind>-<pid>-...`. */
+const PROCESS_ENTRY = /^(?:shell-wrapper|approvals)-(\d+)-/;
 
-  return wrapperPath;
+/**
+ * Remove the wrappers and approval directories of extension hosts that no
+ * longer run, e.g. after VS Code crashed, along with the wrappers of
+ * earlier versions, which were kept in a shared directory.
+ */
+export function collectStaleWrappers(): void {
+  const legacyDir = path.join(os.tmpdir(), "opencode-devcontainer");
+  for (const name of readdir(legacyDir)) {
+    if (/^shell-wrapper-.*\.sh$/.test(name)) {
+      removeShellWrapper(path.join(legacyDir, name));
+    }
+  }
+
+  const dir = privateTempDir();
+  for (const name of readdir(dir)) {
+    const pid = PROCESS_ENTRY.exec(name)?.[1];
+    if (pid && !isProcessAlive(Number(pid))) {
+      fs.rmSync(path.join(dir, name), { recursive: true, force: true });
+    }
+  }
+}
+
+function readdir(dir: string): string[] {
+  try {
+    return fs.readdirSync(dir);
+  } catch {
+    return [];
+  }
+}
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (err) {
+    // EPERM: alive, but another user's process
+    return (err as NodeJS.ErrnoException).code === "EPERM";
+  }
 }
 
 /**
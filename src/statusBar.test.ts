@@ -1,7 +1,7 @@
 import { describe, it, expect, beforeEach, vi } from "vitest";
 import { __resetMocks, EventEmitter } from "./__mocks__/vscode";
 import * as vscode from "./__mocks__/vscode";
-import { StatusBarManager } from "./statusBar";
+import { AgentStatusBar, StatusBarManager } from "./statusBar";
 import { DevcontainerState } from "./devcontainerManager";
 
 // Minimal mock of DevcontainerManager for StatusBarManager testing
@@ -19,12 +19,29 @@ function createMockDevcontainerManager(initialState: DevcontainerState = "not-fo
   };
 }
 
+// Minimal mock of AgentRegistry for AgentStatusBar testing
+function createMockAgentRegistry(name: string, selected = false) {
+  const agentsEmitter = new EventEmitter<void>();
+  return {
+    agent: { id: name.toLowerCase(), name, provider: "anthropic", model: "claude-sonnet-4" },
+    isDefaultAgentSelected: selected,
+    onAgentsChanged: agentsEmitter.event,
+    getDefaultAgent() {
+      return this.agent;
+    },
+    _fireChanged() {
+      agentsEmitter.fire();
+    },
+  };
+}
+
 let statusBarItem: {
   text: string;
   tooltip: string;
   command: string | undefined;
   backgroundColor: unknown;
   show: ReturnType<typeof vi.fn>;
+  hide: ReturnType<typeof vi.fn>;
   dispose: ReturnType<typeof vi.fn>;
 };
 
@@ -96,6 +113,16 @@ describe("state updates", () => {
     expect(statusBarItem.tooltip).toContain("starting");
   });
 
+  it("shows initializing state while lifecycle commands run", () => {
+    const mgr = createMockDevcontainerManager("not-found");
+    new StatusBarManager(mgr as any);
+
+    mgr._fireState("initializing");
+
+    expect(statusBarItem.text).toContain("$(loading~spin)");
+    expect(statusBarItem.tooltip).toContain("lifecycle commands");
+  });
+
   it("shows stopped state", () => {
     const mgr = createMockDevcontainerManager("not-found");
     new StatusBarManager(mgr as any);
@@ -127,6 +154,15 @@ describe("state updates", () => {
     expect(statusBarItem.tooltip).toContain("No dev container found");
   });
 
+  it("marks containers on a remote Docker host", () => {
+    vscode.__setMockConfig({ "opencode-devcontainer.dockerHost": "ssh://me@build-box" });
+    const mgr = createMockDevcontainerManager("running");
+    new StatusBarManager(mgr as any);
+
+    expect(statusBarItem.text).toBe("$(vm-running) OpenCode DevContainer $(remote)");
+    expect(statusBarItem.tooltip).toContain("Docker host: ssh://me@build-box");
+  });
+
   it("calls show() on every update", () => {
     const mgr = createMockDevcontainerManager("not-found");
     new StatusBarManager(mgr as any);
@@ -138,6 +174,43 @@ describe("state updates", () => {
   });
 });
 
+// ---------------------------------------------------------------------------
+// setManager (multi-root workspaces)
+// ---------------------------------------------------------------------------
+
+describe("setManager", () => {
+  it("shows not-found without a manager", () => {
+    new StatusBarManager(undefined);
+
+    expect(statusBarItem.tooltip).toContain("No dev container found");
+  });
+
+  it("follows the new manager and ignores the old one", () => {
+    const first = createMockDevcontainerManager("running");
+    const second = createMockDevcontainerManager("stopped");
+    const sbm = new StatusBarManager(first as any);
+
+    sbm.setManager(second as any);
+    expect(statusBarItem.tooltip).toContain("stopped");
+
+    first._fireState("error");
+    expect(statusBarItem.text).not.toContain("$(error)");
+
+    second._fireState("running");
+    expect(statusBarItem.text).toContain("$(vm-running)");
+  });
+
+  it("shows the folder label", () => {
+    const mgr = createMockDevcontainerManager("running");
+    const sbm = new StatusBarManager(undefined);
+
+    sbm.setManager(mgr as any, "api");
+
+    expect(statusBarItem.text).toBe("$(vm-running) OpenCode DevContainer (api)");
+    expect(statusBarItem.tooltip).toMatch(/^api: /);
+  });
+});
+
 // ---------------------------------------------------------------------------
 // dispose
 // ---------------------------------------------------------------------------
@@ -152,3 +225,55 @@ describe("dispose", () => {
     expect(statusBarItem.dispose).toHaveBeenCalled();
   });
 });
+
+// ---------------------------------------------------------------------------
+// AgentStatusBar
+// ---------------------------------------------------------------------------
+
+describe("AgentStatusBar", () => {
+  it("shows the default agent and switches agents on click", () => {
+    new AgentStatusBar(createMockAgentRegistry("Build") as any);
+
+    expect(statusBarItem.text).toBe("$(hubot) Build");
+    expect(statusBarItem.tooltip).toBe(
+      "OpenCode agent: Build (anthropic/claude-sonnet-4). Click to switch."
+    );
+    expect(statusBarItem.command).toBe("opencode-devcontainer.switchAgent");
+    expect(statusBarItem.show).toHaveBeenCalled();
+  });
+
+  it("notes an agent picked in VS Code", () => {
+    new AgentStatusBar(createMockAgentRegistry("Plan", true) as any);
+
+    expect(statusBarItem.tooltip).toContain("picked in VS Code");
+  });
+
+  it("follows agent changes", () => {
+    const registry = createMockAgentRegistry("Build");
+    new AgentStatusBar(registry as any);
+
+    registry.agent = { ...registry.agent, id: "plan", name: "Plan" };
+    registry._fireChanged();
+
+    expect(statusBarItem.text).toBe("$(hubot) Plan");
+  });
+
+  it("follows the new registry and ignores the old one", () => {
+    const first = createMockAgentRegistry("Build");
+    const second = createMockAgentRegistry("Plan");
+    const bar = new AgentStatusBar(first as any);
+
+    bar.setRegistry(second as any);
+    first.agent = { ...first.agent, name: "Other" };
+    first._fireChanged();
+
+    expect(statusBarItem.text).toBe("$(hubot) Plan");
+  });
+
+  it("hides without a registry", () => {
+    new AgentStatusBar(undefined);
+
+    expect(statusBarItem.hide).toHaveBeenCalled();
+    expect(statusBarItem.show).not.toHaveBeenCalled();
+  });
+});
@@ -1,18 +1,32 @@
 import * as vscode from "vscode";
 import { DevcontainerManager, DevcontainerState } from "./devcontainerManager";
+import { getContainerRuntime } from "./containerRuntime";
+import { AgentRegistry } from "./chat/agentRegistry";
 
 export class StatusBarManager {
   private statusBarItem: vscode.StatusBarItem;
+  private stateListener: vscode.Disposable | undefined;
+  private folderLabel: string | undefined;
 
-  constructor(private devcontainerManager: DevcontainerManager) {
+  constructor(devcontainerManager: DevcontainerManager | undefined) {
     this.statusBarItem = vscode.window.createStatusBarItem(
       vscode.StatusBarAlignment.Left,
       100
     );
     this.statusBarItem.command = "opencode-devcontainer.showStatus";
-    this.update(devcontainerManager.state);
+    this.setManager(devcontainerManager);
+  }
 
-    devcontainerManager.onStateChanged((state) => this.update(state));
+  /**
+   * Track a different DevcontainerManager, e.g. when the folder in focus
+   * changes in a multi-root workspace. `folderLabel` is appended to the
+   * text so users can tell which folder the status refers to.
+   */
+  setManager(devcontainerManager: DevcontainerManager | undefined, folderLabel?: string): void {
+    this.stateListener?.dispose();
+    this.stateListener = devcontainerManager?.onStateChanged((state) => this.update(state));
+    this.folderLabel = folderLabel;
+    this.update(devcontainerManager?.state ?? "not-found");
   }
 
   private update(state: DevcontainerState): void {
@@ -22,6 +36,12 @@ export class StatusBarManager {
         this.statusBarItem.tooltip = "Dev container is running. Click for options.";
         this.statusBarItem.backgroundColor = undefined;
         break;
+      case "initializing":
+        this.statusBarItem.text = "$(loading~spin) OpenCode DevContainer";
+        this.statusBarItem.tooltip =
+          "Dev container is running its lifecycle commands (postCreateCommand, ...).";
+        this.statusBarItem.backgroundColor = undefined;
+        break;
       case "starting":
         this.statusBarItem.text = "$(loading~spin) OpenCode DevContainer";
         this.statusBarItem.tooltip = "Dev container is starting...";
@@ -46,10 +66,67 @@ export class StatusBarManager {
         break;
     }
 
+    // Containers on a remote daemon are marked so it's clear where commands run.
+    const host = getContainerRuntime().hostLabel();
+    if (host) {
+      this.statusBarItem.text += " $(remote)";
+      this.statusBarItem.tooltip += `\nDocker host: ${host}`;
+    }
+
+    if (this.folderLabel) {
+      this.statusBarItem.text += ` (${this.folderLabel})`;
+      this.statusBarItem.tooltip = `${this.folderLabel}: ${this.statusBarItem.tooltip}`;
+    }
+
+    this.statusBarItem.show();
+  }
+
+  dispose(): void {
+    this.stateListener?.dispose();
+    this.statusBarItem.dispose();
+  }
+}
+
+/**
+ * Shows the agent chat prompts go to in the folder in focus, next to the
+ * dev container status. Click to switch agents.
+ */
+export class AgentStatusBar {
+  private statusBarItem: vscode.StatusBarItem;
+  private agentsListener: vscode.Disposable | undefined;
+
+  constructor(agentRegistry: AgentRegistry | undefined) {
+    this.statusBarItem = vscode.window.createStatusBarItem(
+      vscode.StatusBarAlignment.Left,
+      99
+    );
+    this.statusBarItem.command = "opencode-devcontainer.switchAgent";
+    this.setRegistry(agentRegistry);
+  }
+
+  /** Track the agents of a different folder. */
+  setRegistry(agentRegistry: AgentRegistry | undefined): void {
+    this.agentsListener?.dispose();
+    this.agentsListener = agentRegistry?.onAgentsChanged(() => this.update(agentRegistry));
+    this.update(agentRegistry);
+  }
+
+  private update(agentRegistry: AgentRegistry | undefined): void {
+    if (!agentRegistry) {
+      this.statusBarItem.hide();
+      return;
+    }
+    const agent = agentRegistry.getDefaultAgent();
+    this.statusBarItem.text = `$(hubot) ${agent.name}`;
+    this.statusBarItem.tooltip =
+      `OpenCode agent: ${agent.name} (${agent.provider}/${agent.model})` +
+      (agentRegistry.isDefaultAgentSelected ? ", picked in VS Code" : "") +
+      ". Click to switch.";
     this.statusBarItem.show();
   }
 
   dispose(): void {
+    this.agentsListener?.dispose();
     this.statusBarItem.dispose();
   }
 }